@@ -166,6 +166,38 @@ contract AgentPolicyModule is Ownable {
         emit SessionRevoked(sessionKey);
     }
 
+    /// @notice Move a session to a new key in one transaction: the new key is
+    ///         granted the old key's policy with a new expiry, and the old key
+    ///         is revoked. The new key starts with fresh spending windows.
+    function rotateSession(address oldKey, address newKey, uint256 expiresAt) external onlyOwner {
+        require(_policies[oldKey].active, "Session not active");
+        require(newKey != address(0) && newKey != oldKey, "Invalid session key");
+        require(!_policies[newKey].active, "New key already active");
+        require(expiresAt > block.timestamp, "Expiry must be in the future");
+
+        AgentPolicy storage policy = _policies[newKey];
+        policy.maxPerTx = _policies[oldKey].maxPerTx;
+        policy.maxDaily = _policies[oldKey].maxDaily;
+        policy.maxWeekly = _policies[oldKey].maxWeekly;
+        policy.humanApprovalAbove = _policies[oldKey].humanApprovalAbove;
+        policy.allowedContracts = _policies[oldKey].allowedContracts;
+        policy.allowedFunctions = _policies[oldKey].allowedFunctions;
+        policy.allowedTokens = _policies[oldKey].allowedTokens;
+        policy.expiresAt = expiresAt;
+        policy.active = true;
+        _policies[oldKey].active = false;
+
+        spending[newKey] = SpendingTracker({
+            dailySpent: 0,
+            weeklySpent: 0,
+            lastDayReset: block.timestamp,
+            lastWeekReset: block.timestamp
+        });
+
+        emit SessionGranted(newKey, policy.maxPerTx, policy.maxDaily, policy.maxWeekly, expiresAt);
+        emit SessionRevoked(oldKey);
+    }
+
     // ──────────────────────────────────────────────
     // Shared Budget (owner only)
     // ──────────────────────────────────────────────
@@ -3,13 +3,48 @@ pragma solidity ^0.8.20;
 
 /// @title MockSafe
 /// @notice Minimal mock of a Gnosis Safe for testing AgentPolicyModule.
-///         Implements execTransactionFromModule by forwarding the call.
+///         Implements execTransactionFromModule by forwarding the call, and
+///         the owner-signed execTransaction path (EIP-712 SafeTx, ECDSA
+///         signatures sorted by owner) once owners are set with setOwners.
 contract MockSafe {
     event ExecutedFromModule(address indexed module, address to, uint256 value, bytes data);
+    event ExecutionSuccess(bytes32 txHash, uint256 payment);
+    event ExecutionFailure(bytes32 txHash, uint256 payment);
+
+    bytes32 private constant DOMAIN_SEPARATOR_TYPEHASH =
+        keccak256("EIP712Domain(uint256 chainId,address verifyingContract)");
+    bytes32 private constant SAFE_TX_TYPEHASH = keccak256(
+        "SafeTx(address to,uint256 value,bytes data,uint8 operation,uint256 safeTxGas,uint256 baseGas,"
+        "uint256 gasPrice,address gasToken,address refundReceiver,uint256 nonce)"
+    );
+
+    address[] private owners;
+    mapping(address => bool) public isOwner;
+    uint256 public nonce;
+    uint256 private threshold;
 
     /// @notice Accept ETH deposits (so the Safe can hold funds).
     receive() external payable {}
 
+    /// @notice Replace the owners and threshold.
+    /// @dev A real Safe only changes these through its own transactions.
+    ///      For testing, anyone may.
+    function setOwners(address[] calldata _owners, uint256 _threshold) external {
+        require(_threshold > 0 && _threshold <= _owners.length, "Invalid threshold");
+        for (uint256 i = 0; i < owners.length; i++) isOwner[owners[i]] = false;
+        for (uint256 i = 0; i < _owners.length; i++) isOwner[_owners[i]] = true;
+        owners = _owners;
+        threshold = _threshold;
+    }
+
+    function getOwners() external view returns (address[] memory) {
+        return owners;
+    }
+
+    function getThreshold() external view returns (uint256) {
+        return threshold;
+    }
+
     /// @notice Execute a transaction from an enabled module.
     /// @dev In a real Safe, this checks that msg.sender is an enabled module.
     ///      For testing, we accept all callers.
@@ -23,4 +58,74 @@ contract MockSafe {
         (success, ) = to.call{value: value}(data);
         emit ExecutedFromModule(msg.sender, to, value, data);
     }
+
+    function getTransactionHash(
+        address to,
+        uint256 value,
+        bytes calldata data,
+        uint8 operation,
+        uint256 safeTxGas,
+        uint256 baseGas,
+        uint256 gasPrice,
+        address gasToken,
+        address refundReceiver,
+        uint256 _nonce
+    ) public view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(abi.encode(DOMAIN_SEPARATOR_TYPEHASH, block.chainid, address(this)));
+        bytes32 safeTxHash = keccak256(
+            abi.encode(
+                SAFE_TX_TYPEHASH, to, value, keccak256(data), operation, safeTxGas, baseGas, gasPrice,
+                gasToken, refundReceiver, _nonce
+            )
+        );
+        return keccak256(abi.encodePacked(bytes1(0x19), bytes1(0x01), domainSeparator, safeTxHash));
+    }
+
+    /// @notice Execute a call signed by `threshold` owners (operation 0 only, no refunds).
+    /// @dev Like a real Safe, a failing call reverts the whole transaction
+    ///      when neither safeTxGas nor gasPrice is set.
+    function execTransaction(
+        address to,
+        uint256 value,
+        bytes calldata data,
+        uint8 operation,
+        uint256 safeTxGas,
+        uint256 baseGas,
+        uint256 gasPrice,
+        address gasToken,
+        address payable refundReceiver,
+        bytes memory signatures
+    ) external payable returns (bool success) {
+        bytes32 txHash = getTransactionHash(
+            to, value, data, operation, safeTxGas, baseGas, gasPrice, gasToken, refundReceiver, nonce
+        );
+        nonce++;
+        checkSignatures(txHash, signatures);
+
+        (success, ) = to.call{value: value}(data);
+        require(success || safeTxGas != 0 || gasPrice != 0, "GS013");
+        if (success) emit ExecutionSuccess(txHash, 0);
+        else emit ExecutionFailure(txHash, 0);
+    }
+
+    function checkSignatures(bytes32 txHash, bytes memory signatures) private view {
+        require(threshold > 0, "GS001");
+        require(signatures.length >= threshold * 65, "GS020");
+        address last = address(0);
+        for (uint256 i = 0; i < threshold; i++) {
+            bytes32 r;
+            bytes32 s;
+            uint8 v;
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                let pos := add(signatures, mul(i, 65))
+                r := mload(add(pos, 32))
+                s := mload(add(pos, 64))
+                v := byte(0, mload(add(pos, 96)))
+            }
+            address owner = ecrecover(txHash, v, r, s);
+            require(owner > last && isOwner[owner], "GS026");
+            last = owner;
+        }
+    }
 }
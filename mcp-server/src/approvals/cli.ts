@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+/**
+ * Owner-side CLI for transactions parked for human approval. Talks to the
+ * running server's local approval API and signs with a Safe owner key.
+ *
+ *   npm run approvals -- list [--all]
+ *   npm run approvals -- show <id>
+ *   npm run approvals -- approve <id> [--yes]
+ *   npm run approvals -- reject <id> [reason]
+ *
+ * The API is at http://127.0.0.1:APPROVAL_HTTP_PORT, the server's setting, or
+ * at APPROVAL_URL. The owner key is read from OWNER_KEY or prompted for
+ * without echo — it never reaches the server.
+ */
+import readline from "readline";
+import dotenv from "dotenv";
+import { ethers } from "ethers";
+import { promptPassphrase } from "../signers.js";
+import type { ApprovalRecord, ApprovalReview } from "../wallet/approvals.js";
+dotenv.config();
+
+const PORT = parseInt(process.env.APPROVAL_HTTP_PORT ?? "0");
+const BASE_URL = (process.env.APPROVAL_URL ?? (PORT > 0 ? `http://127.0.0.1:${PORT}` : "")).replace(/\/$/, "");
+
+type Listed = ApprovalRecord & { tenant: string };
+
+async function api<T>(path: string, body?: unknown): Promise<T> {
+  if (!BASE_URL) throw new Error("Set APPROVAL_HTTP_PORT to the server's approval port, or APPROVAL_URL");
+  const res = await fetch(`${BASE_URL}${path}`, body
+    ? { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+    : {});
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+  return json as T;
+}
+
+function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr, terminal: true });
+  return new Promise((resolve) =>
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    })
+  );
+}
+
+async function ownerWallet(): Promise<ethers.Wallet> {
+  const key = process.env.OWNER_KEY ?? (await promptPassphrase("Safe owner private key: ", "set OWNER_KEY"));
+  return new ethers.Wallet(key.trim());
+}
+
+function outcome(a: ApprovalRecord) {
+  return [
+    `Approval ${a.id} is ${a.status} (${a.signatures.length} signature(s))`,
+    a.txHash ? `Tx: ${a.txHash}` : null,
+    a.error ? `Error: ${a.error}` : null,
+  ].filter(Boolean).join("\n");
+}
+
+function describe(a: ApprovalRecord | ApprovalReview) {
+  const lines = [
+    `Approval ${a.id} — ${a.status.toUpperCase()}`,
+    `  Call:        ${a.decoded ? `${a.decoded.contract}.${a.decoded.function}` : a.label}`,
+    ...Object.entries(a.decoded?.args ?? {}).map(([k, v]) => `    ${k}: ${v}`),
+    `  To:          ${a.to}`,
+    `  Value:       ${ethers.formatEther(a.value)} ETH (threshold ${ethers.formatEther(a.humanApprovalAbove)} ETH)`,
+    `  Safe:        ${a.safe} (nonce ${a.safeNonce})`,
+    `  SafeTx hash: ${a.safeTxHash}`,
+    `  Requested:   ${new Date(a.createdAt * 1000).toISOString()} by ${a.requestedBy}`,
+    `  Signed by:   ${a.signatures.map((s) => s.signer).join(", ") || "nobody yet"}` +
+      ("threshold" in a ? ` (${a.threshold} of ${a.owners.length} owners needed)` : ""),
+  ];
+  if (a.txHash) lines.push(`  Tx:          ${a.txHash}`);
+  if (a.rejectedBy) lines.push(`  Rejected by: ${a.rejectedBy}${a.rejectReason ? ` — ${a.rejectReason}` : ""}`);
+  if (a.error) lines.push(`  Error:       ${a.error}`);
+  return lines.join("\n");
+}
+
+async function main() {
+  const [command, id, ...rest] = process.argv.slice(2);
+
+  switch (command) {
+    case "list": {
+      const all = id === "--all";
+      const { approvals } = await api<{ approvals: Listed[] }>(`/api/approvals${all ? "" : "?status=pending"}`);
+      if (approvals.length === 0) console.log(all ? "No approvals." : "Nothing is waiting for approval.");
+      for (const a of approvals) {
+        const call = a.decoded ? `${a.decoded.contract}.${a.decoded.function.split("(")[0]}` : a.label;
+        console.log(`${a.id}  ${a.status.padEnd(9)}  ${a.tenant}  ${call}  ${ethers.formatEther(a.value)} ETH`);
+      }
+      return;
+    }
+
+    case "show": {
+      if (!id) throw new Error("Usage: show <id>");
+      console.log(describe(await api<ApprovalReview>(`/api/approvals/${id}`)));
+      return;
+    }
+
+    case "approve": {
+      if (!id) throw new Error("Usage: approve <id> [--yes]");
+      const review = await api<ApprovalReview>(`/api/approvals/${id}`);
+      console.log(describe(review));
+      if (review.status !== "pending") throw new Error(`Approval ${id} is ${review.status}, not pending`);
+      if (!rest.includes("--yes") && (await ask("Co-sign this transaction? [y/N] ")).toLowerCase() !== "y") {
+        console.log("Not signed.");
+        return;
+      }
+
+      const wallet = await ownerWallet();
+      const signature = await wallet.signTypedData(review.typedData.domain, review.typedData.types, review.typedData.message);
+      console.log(`Signed as ${wallet.address}, submitting...`);
+      const result = await api<ApprovalRecord>(`/api/approvals/${id}/signatures`, { signature });
+      console.log(outcome(result));
+      return;
+    }
+
+    case "reject": {
+      if (!id) throw new Error("Usage: reject <id> [reason]");
+      const review = await api<ApprovalReview>(`/api/approvals/${id}`);
+      const wallet = await ownerWallet();
+      const signature = await wallet.signMessage(review.rejectMessage);
+      const result = await api<ApprovalRecord>(`/api/approvals/${id}/reject`, { signature, reason: rest.join(" ") || undefined });
+      console.log(outcome(result));
+      return;
+    }
+
+    default:
+      console.error("Usage: approvals <list [--all] | show <id> | approve <id> [--yes] | reject <id> [reason]>");
+      process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  console.error(`Error: ${err.cause?.code === "ECONNREFUSED" ? `no approval server at ${BASE_URL} — is the MCP server running?` : err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,108 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+import { Config } from "../config.js";
+import { Tenant } from "../tenants.js";
+import { APPROVAL_STATUSES, ApprovalQueue, ApprovalStatus } from "../wallet/approvals.js";
+import { APPROVAL_PAGE } from "./page.js";
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body, (_key, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+}
+
+/**
+ * Serve the owner-facing approval channel on loopback: a page at `/` and a
+ * JSON API the page and the `approvals` CLI use.
+ *
+ * - `GET  /api/approvals[?status=]` — approvals across every tenant
+ * - `GET  /api/approvals/:id` — review: decoded call, owners, SafeTx to sign
+ * - `POST /api/approvals/:id/signatures` — `{ signature }`, an owner's SafeTx signature
+ * - `POST /api/approvals/:id/reject` — `{ signature, reason? }`, an owner's signed rejection
+ *
+ * There is no login: nothing here acts without a Safe owner's signature,
+ * and requests addressed to any host but loopback are refused so other
+ * websites can't reach the API through DNS rebinding.
+ */
+export async function startApprovalServer(config: Config, tenants: Tenant[]): Promise<http.Server> {
+  const allowedHosts = new Set([`127.0.0.1:${config.approvalHttpPort}`, `localhost:${config.approvalHttpPort}`]);
+
+  const locate = (id: string): { tenant: Tenant; approvals: ApprovalQueue } | null => {
+    for (const tenant of tenants) {
+      if (tenant.clients.approvals.find(id)) return { tenant, approvals: tenant.clients.approvals };
+    }
+    return null;
+  };
+
+  const handler = async (req: IncomingMessage, res: ServerResponse) => {
+    if (!allowedHosts.has(req.headers.host ?? "")) {
+      return sendJson(res, 403, { error: "Forbidden host" });
+    }
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (url.pathname === "/" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" });
+      res.end(APPROVAL_PAGE);
+      return;
+    }
+
+    if (url.pathname === "/api/approvals" && req.method === "GET") {
+      const status = url.searchParams.get("status");
+      if (status !== null && !APPROVAL_STATUSES.includes(status as ApprovalStatus)) {
+        return sendJson(res, 400, { error: `Unknown status ${status} (expected one of ${APPROVAL_STATUSES.join(", ")})` });
+      }
+      const approvals = tenants.flatMap((tenant) =>
+        tenant.clients.approvals.list((status as ApprovalStatus | null) ?? undefined).map((a) => ({ tenant: tenant.id, ...a }))
+      );
+      return sendJson(res, 200, { approvals: approvals.sort((a, b) => b.createdAt - a.createdAt) });
+    }
+
+    const match = url.pathname.match(/^\/api\/approvals\/([0-9a-f]+)(\/signatures|\/reject)?$/);
+    if (!match) return sendJson(res, 404, { error: "Not found" });
+    const found = locate(match[1]);
+    if (!found) return sendJson(res, 404, { error: `Unknown approval ${match[1]}` });
+    const { tenant, approvals } = found;
+
+    try {
+      if (!match[2] && req.method === "GET") {
+        return sendJson(res, 200, { tenant: tenant.id, ...(await approvals.review(match[1])) });
+      }
+      if (req.method !== "POST") return sendJson(res, 405, { error: "Method not allowed" });
+
+      const body = await readJsonBody(req);
+      if (typeof body.signature !== "string") return sendJson(res, 400, { error: "Missing signature" });
+      const record = match[2] === "/signatures"
+        ? await approvals.addSignature(match[1], body.signature)
+        : await approvals.reject(match[1], body.signature, typeof body.reason === "string" ? body.reason : undefined);
+      console.error(`[${tenant.id}] Approval ${record.id} (${record.label}): ${record.status}${record.txHash ? ` ${record.txHash}` : ""}`);
+      return sendJson(res, 200, { tenant: tenant.id, ...record });
+    } catch (err: any) {
+      return sendJson(res, 400, { error: err.reason ?? err.shortMessage ?? err.message });
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    handler(req, res).catch((err) => {
+      console.error(`Approval API ${req.method} ${req.url} failed: ${err.message}`);
+      if (!res.headersSent) sendJson(res, 500, { error: "Internal server error" });
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(config.approvalHttpPort, "127.0.0.1", () => resolve());
+  });
+  return server;
+}
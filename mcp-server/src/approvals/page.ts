@@ -0,0 +1,139 @@
+/**
+ * Single-page review UI for parked approvals. Signs with the browser wallet
+ * (eth_signTypedData_v4 for approvals, personal_sign for rejections) or
+ * takes a signature pasted from elsewhere, e.g. a hardware wallet tool.
+ */
+export const APPROVAL_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Agent Pact — Approvals</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+  h1 { font-size: 1.4rem; }
+  .approval { border: 1px solid #ccc; border-radius: 6px; padding: 1rem; margin: 1rem 0; }
+  .approval.done { opacity: 0.6; }
+  .status { font-weight: 600; text-transform: uppercase; font-size: 0.8rem; }
+  table { border-collapse: collapse; width: 100%; }
+  td { padding: 2px 8px 2px 0; vertical-align: top; }
+  td:first-child { color: #666; white-space: nowrap; }
+  code { word-break: break-all; font-size: 0.85rem; }
+  textarea { width: 100%; font-family: monospace; }
+  button { margin: 0.5rem 0.5rem 0 0; }
+  .error { color: #b00; }
+</style>
+</head>
+<body>
+<h1>Agent Pact — transactions awaiting approval</h1>
+<p>These calls are above the agent session's human approval threshold. Signing approves them as a Safe transaction;
+the agent's session key submits it once the Safe's threshold of owners has signed.</p>
+<label><input type="checkbox" id="all"> Show finished</label>
+<div id="list">Loading…</div>
+<script>
+const esc = (s) => String(s ?? "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+const eth = (wei) => { const s = BigInt(wei).toString().padStart(19, "0"); return (s.slice(0, -18) + "." + s.slice(-18)).replace(/\\.?0+$/, "") + " ETH"; };
+
+async function api(path, body) {
+  const res = await fetch(path, body ? { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : {});
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error);
+  return json;
+}
+
+async function account() {
+  if (!window.ethereum) throw new Error("No browser wallet found — paste a signature instead");
+  const [address] = await window.ethereum.request({ method: "eth_requestAccounts" });
+  return address;
+}
+
+async function sign(id) {
+  const review = await api("/api/approvals/" + id);
+  const from = await account();
+  const typedData = {
+    ...review.typedData,
+    types: { EIP712Domain: [{ name: "chainId", type: "uint256" }, { name: "verifyingContract", type: "address" }], ...review.typedData.types },
+  };
+  const signature = await window.ethereum.request({ method: "eth_signTypedData_v4", params: [from, JSON.stringify(typedData)] });
+  await api("/api/approvals/" + id + "/signatures", { signature });
+}
+
+async function reject(id) {
+  const review = await api("/api/approvals/" + id);
+  const from = await account();
+  const reason = prompt("Reason for rejecting (shown to the agent):") ?? "";
+  const signature = await window.ethereum.request({ method: "personal_sign", params: [review.rejectMessage, from] });
+  await api("/api/approvals/" + id + "/reject", { signature, reason });
+}
+
+async function paste(id) {
+  const signature = document.getElementById("sig-" + id).value.trim();
+  await api("/api/approvals/" + id + "/signatures", { signature });
+}
+
+async function act(id, fn) {
+  const out = document.getElementById("err-" + id);
+  out.textContent = "Working…";
+  try {
+    await fn(id);
+    out.textContent = "";
+  } catch (err) {
+    out.textContent = err.message;
+    return;
+  }
+  await load();
+}
+
+function render(a, review) {
+  const done = a.status !== "pending";
+  const args = a.decoded ? Object.entries(a.decoded.args).map(([k, v]) => "<tr><td>" + esc(k) + "</td><td><code>" + esc(v) + "</code></td></tr>").join("") : "";
+  return '<div class="approval' + (done ? " done" : "") + '">' +
+    '<div class="status">' + esc(a.status) + "</div>" +
+    "<h3>" + esc(a.decoded ? a.decoded.contract + "." + a.decoded.function : a.label) + "</h3>" +
+    "<table>" +
+    "<tr><td>Approval</td><td><code>" + esc(a.id) + "</code> (tenant " + esc(a.tenant) + ")</td></tr>" +
+    "<tr><td>Safe</td><td><code>" + esc(a.safe) + "</code></td></tr>" +
+    "<tr><td>To</td><td><code>" + esc(a.to) + "</code></td></tr>" +
+    "<tr><td>Value</td><td>" + esc(eth(a.value)) + " (threshold " + esc(eth(a.humanApprovalAbove)) + ")</td></tr>" +
+    args +
+    "<tr><td>Calldata</td><td><code>" + esc(a.data) + "</code></td></tr>" +
+    "<tr><td>Requested by</td><td><code>" + esc(a.requestedBy) + "</code> at " + esc(new Date(a.createdAt * 1000).toLocaleString()) + "</td></tr>" +
+    "<tr><td>Safe nonce</td><td>" + esc(a.safeNonce) + "</td></tr>" +
+    "<tr><td>SafeTx hash</td><td><code>" + esc(a.safeTxHash) + "</code></td></tr>" +
+    "<tr><td>Signed by</td><td>" + (a.signatures.map((s) => "<code>" + esc(s.signer) + "</code>").join("<br>") || "nobody yet") +
+      (review ? " (" + review.threshold + " of " + review.owners.length + " owners needed)" : "") + "</td></tr>" +
+    (a.txHash ? "<tr><td>Transaction</td><td><code>" + esc(a.txHash) + "</code></td></tr>" : "") +
+    (a.rejectedBy ? "<tr><td>Rejected by</td><td><code>" + esc(a.rejectedBy) + "</code> " + esc(a.rejectReason) + "</td></tr>" : "") +
+    (a.error ? '<tr><td>Error</td><td class="error">' + esc(a.error) + "</td></tr>" : "") +
+    "</table>" +
+    (done ? "" :
+      '<button onclick="act(\\'' + a.id + '\\', sign)">Approve with wallet</button>' +
+      '<button onclick="act(\\'' + a.id + '\\', reject)">Reject</button>' +
+      '<details><summary>Paste a signature</summary><textarea id="sig-' + a.id + '" rows="2" placeholder="0x… (EIP-712 signature over the SafeTx hash)"></textarea>' +
+      '<button onclick="act(\\'' + a.id + '\\', paste)">Submit signature</button></details>') +
+    '<div class="error" id="err-' + a.id + '"></div>' +
+    "</div>";
+}
+
+async function load() {
+  const list = document.getElementById("list");
+  try {
+    const { approvals } = await api("/api/approvals" + (document.getElementById("all").checked ? "" : "?status=pending"));
+    if (approvals.length === 0) {
+      list.innerHTML = "<p>Nothing is waiting for approval.</p>";
+      return;
+    }
+    const reviews = await Promise.all(approvals.map((a) => a.status === "pending" ? api("/api/approvals/" + a.id).catch(() => null) : null));
+    list.innerHTML = approvals.map((a, i) => render(reviews[i] ? { ...reviews[i], tenant: a.tenant } : a, reviews[i])).join("");
+  } catch (err) {
+    list.innerHTML = '<p class="error">' + esc(err.message) + "</p>";
+  }
+}
+
+document.getElementById("all").addEventListener("change", load);
+load();
+// Don't redraw while a signature is being pasted
+setInterval(() => document.activeElement?.tagName === "TEXTAREA" || load(), 15000);
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,468 @@
+import { ethers } from "ethers";
+import { getAgentPact, getOracleRegistry } from "../contracts.js";
+import { TokenInfo, getTokenInfo } from "../tokens.js";
+import { AGENT_PACT_ABI, ORACLE_REGISTRY_ABI } from "../abis.js";
+import { pactDeposit } from "../wallet/spend.js";
+import {
+  Amount,
+  BaseClient,
+  Initiator,
+  INITIATOR_NAMES,
+  PactStatus,
+  ProofResult,
+  SafeCall,
+  TxResult,
+  WriteOptions,
+  WriteResult,
+  findEvent,
+  pactStatusName,
+  toBaseUnits,
+  toBytes32,
+} from "./common.js";
+
+export { pactDeposit };
+
+const agentPactIface = new ethers.Interface(AGENT_PACT_ABI);
+const oracleRegistryIface = new ethers.Interface(ORACLE_REGISTRY_ABI);
+
+export type PactRole = "buyer" | "seller";
+
+export interface PactDetails {
+  pactId: bigint;
+  buyer: string;
+  seller: string;
+  /** Payment in base units of `token`; stakes and oracle fee likewise. */
+  payment: bigint;
+  deadline: number;
+  status: PactStatus | `UNKNOWN(${number})`;
+  statusCode: number;
+  specHash: string;
+  verificationThreshold: number;
+  buyerStake: bigint;
+  sellerStake: bigint;
+  initiator: Initiator;
+  /** Address of the party that created the pact. */
+  creator: string;
+  reviewPeriod: number;
+  /** Unix time verification finished, 0 if not yet verified. */
+  verifiedAt: number;
+  oracleFee: bigint;
+  oracleFeesPaid: boolean;
+  token: TokenInfo;
+}
+
+export interface PactOracle {
+  address: string;
+  weight: number;
+}
+
+export interface Amendment {
+  /** Proposed payment in base units of `token` (0 = keep current). */
+  payment: bigint;
+  /** Proposed deadline (0 = keep current). */
+  deadline: number;
+  specHash: string;
+  proposedBy: string;
+  pending: boolean;
+  token: TokenInfo;
+}
+
+export interface Verification {
+  score: number;
+  hasSubmitted: boolean;
+  proof: string;
+}
+
+export interface Reputation {
+  completedAsBuyer: number;
+  completedAsSeller: number;
+  totalCompleted: number;
+  disputesLost: number;
+  /** disputesLost / totalCompleted, or null with no completed pacts. */
+  disputeRate: number | null;
+  totalVolumeWei: bigint;
+}
+
+export interface CounterpartyAssessment {
+  counterparty: string;
+  reputation: Reputation;
+  risk: "UNKNOWN" | "HIGH" | "MEDIUM" | "LOW";
+  riskReason: string;
+}
+
+export interface OracleInfo {
+  address: string;
+  stake: bigint;
+  capabilities: string[];
+}
+
+export interface PactPage {
+  total: number;
+  pacts: PactDetails[];
+}
+
+export interface CreatePactParams {
+  role: PactRole;
+  /** bytes32 hex, or any other string to be hashed. */
+  specHash: string;
+  deadline: number;
+  oracles: string[];
+  oracleWeights: number[];
+  threshold: number;
+  payment: Amount;
+  /** Buyer review window in seconds (0 = contract default). */
+  reviewPeriod?: number;
+  oracleFee?: Amount;
+  /** ERC-20 token address, or the zero address (default) for native ETH. */
+  paymentToken?: string;
+}
+
+export interface CreatePactResult extends TxResult {
+  pactId: bigint | null;
+  token: TokenInfo;
+  payment: bigint;
+  oracleFee: bigint;
+  stake: bigint;
+  deposit: bigint;
+}
+
+export interface AcceptPactResult extends TxResult {
+  /** The side this Safe joined as. */
+  role: PactRole;
+  token: TokenInfo;
+  deposit: bigint;
+}
+
+export interface ProposeAmendmentParams {
+  /** New payment, or null to keep the current one. */
+  payment?: Amount | null;
+  /** New deadline, or null to keep the current one. */
+  deadline?: number | null;
+  /** New spec hash, or null to keep the current one. */
+  specHash?: string | null;
+}
+
+export interface ProposeAmendmentResult extends TxResult {
+  token: TokenInfo;
+  /** Proposed payment in base units (0 = unchanged). */
+  payment: bigint;
+  deadline: number;
+  specHash: string;
+}
+
+export interface AcceptAmendmentResult extends TxResult {
+  token: TokenInfo;
+  payment: bigint;
+  /** Extra deposit sent to cover a payment increase (0 if none). */
+  deposit: bigint;
+}
+
+export interface FinalizeResult extends TxResult {
+  weightedScore: number | null;
+  status: PactStatus | `UNKNOWN(${number})` | null;
+}
+
+/**
+ * Typed client for AgentPact (and the legacy OracleRegistry), acting as the
+ * configured Safe. Amounts are in base units of the pact's payment token.
+ */
+export class AgentPactClient extends BaseClient {
+  // ──────────────────────────────────────────────
+  // Reads
+  // ──────────────────────────────────────────────
+
+  async getPact(pactId: bigint | number): Promise<PactDetails> {
+    const p = await getAgentPact(this.config).getPact(pactId);
+    const initiator = INITIATOR_NAMES[Number(p.initiator)] ?? "BUYER";
+    return {
+      pactId: BigInt(pactId),
+      buyer: p.buyer,
+      seller: p.seller,
+      payment: p.payment,
+      deadline: Number(p.deadline_),
+      status: pactStatusName(p.status),
+      statusCode: Number(p.status),
+      specHash: p.specHash,
+      verificationThreshold: Number(p.verificationThreshold),
+      buyerStake: p.buyerStake,
+      sellerStake: p.sellerStake,
+      initiator,
+      creator: initiator === "BUYER" ? p.buyer : p.seller,
+      reviewPeriod: Number(p.reviewPeriod),
+      verifiedAt: Number(p.verifiedAt),
+      oracleFee: p.oracleFee,
+      oracleFeesPaid: p.oracleFeesPaid,
+      token: await getTokenInfo(this.config, p.paymentToken),
+    };
+  }
+
+  async getPactOracles(pactId: bigint | number): Promise<PactOracle[]> {
+    const [oracles, weights] = await getAgentPact(this.config).getPactOracles(pactId);
+    return oracles.map((address, i) => ({ address, weight: Number(weights[i]) }));
+  }
+
+  async getAmendment(pactId: bigint | number): Promise<Amendment> {
+    const contract = getAgentPact(this.config);
+    const [a, p] = await Promise.all([contract.getAmendment(pactId), contract.getPact(pactId)]);
+    return {
+      payment: a.payment,
+      deadline: Number(a.deadline_),
+      specHash: a.specHash,
+      proposedBy: a.proposedBy,
+      pending: a.pending,
+      token: await getTokenInfo(this.config, p.paymentToken),
+    };
+  }
+
+  async getVerification(pactId: bigint | number, oracle: string): Promise<Verification> {
+    const v = await getAgentPact(this.config).getVerification(pactId, oracle);
+    return { score: Number(v.score), hasSubmitted: v.hasSubmitted, proof: v.proof };
+  }
+
+  async getPactCount(): Promise<bigint> {
+    return getAgentPact(this.config).nextPactId();
+  }
+
+  /** Pacts open for acceptance (NEGOTIATING), read live from the contract. */
+  async getOpenPacts(offset: number, limit: number): Promise<PactPage> {
+    const contract = getAgentPact(this.config);
+    const [total, ids] = await Promise.all([contract.getOpenPactCount(), contract.getOpenPacts(offset, limit)]);
+    return { total: Number(total), pacts: await Promise.all(ids.map((id) => this.getPact(id))) };
+  }
+
+  /** Pacts where `address` is buyer or seller, read live from the contract. */
+  async getPactsFor(address: string, offset: number, limit: number): Promise<PactPage> {
+    const contract = getAgentPact(this.config);
+    const [total, ids] = await Promise.all([
+      contract.getUserPactCount(address),
+      contract.getPactsByAddress(address, offset, limit),
+    ]);
+    return { total: Number(total), pacts: await Promise.all(ids.map((id) => this.getPact(id))) };
+  }
+
+  async getReputation(address: string): Promise<Reputation> {
+    const r = await getAgentPact(this.config).getReputation(address);
+    const total = Number(r.completedAsBuyer) + Number(r.completedAsSeller);
+    return {
+      completedAsBuyer: Number(r.completedAsBuyer),
+      completedAsSeller: Number(r.completedAsSeller),
+      totalCompleted: total,
+      disputesLost: Number(r.disputesLost),
+      disputeRate: total > 0 ? Number(r.disputesLost) / total : null,
+      totalVolumeWei: r.totalVolumeWei,
+    };
+  }
+
+  /**
+   * Reputation-based risk rating for the other side of a pact. If this Safe
+   * isn't a party yet, the counterparty is whoever created the pact.
+   */
+  async assessCounterparty(pactId: bigint | number): Promise<CounterpartyAssessment> {
+    const p = await this.getPact(pactId);
+    const me = this.config.safeAddress.toLowerCase();
+    const counterparty = p.buyer.toLowerCase() === me ? p.seller
+      : p.seller.toLowerCase() === me ? p.buyer
+      : p.creator;
+
+    const reputation = await this.getReputation(counterparty);
+    const rate = reputation.disputeRate ?? 0;
+    if (reputation.totalCompleted === 0) {
+      return { counterparty, reputation, risk: "UNKNOWN", riskReason: "no pact history" };
+    }
+    if (rate > 0.3) return { counterparty, reputation, risk: "HIGH", riskReason: "dispute rate above 30%" };
+    if (rate > 0.1) return { counterparty, reputation, risk: "MEDIUM", riskReason: "dispute rate above 10%" };
+    return { counterparty, reputation, risk: "LOW", riskReason: "good track record" };
+  }
+
+  async findOracles(capability: string): Promise<OracleInfo[]> {
+    const registry = getOracleRegistry(this.config);
+    const addresses = await registry.getOraclesByCapability(capability);
+    return Promise.all(addresses.map(async (address) => {
+      const [stake, capabilities] = await Promise.all([
+        registry.getOracleStake(address),
+        registry.getOracleCapabilities(address),
+      ]);
+      return { address, stake, capabilities };
+    }));
+  }
+
+  // ──────────────────────────────────────────────
+  // Pact lifecycle
+  // ──────────────────────────────────────────────
+
+  /**
+   * Create a pact as buyer (request for work) or seller (listing). For
+   * ERC-20 pacts the Safe approves AgentPact for the deposit first.
+   */
+  async createPact(params: CreatePactParams, opts: WriteOptions = {}): Promise<WriteResult<CreatePactResult>> {
+    const token = await getTokenInfo(this.config, params.paymentToken ?? ethers.ZeroAddress);
+    const payment = toBaseUnits(params.payment, token);
+    const oracleFee = toBaseUnits(params.oracleFee ?? 0n, token);
+    const { stake, deposit } = pactDeposit(params.role, payment, oracleFee);
+
+    const data = agentPactIface.encodeFunctionData("createPact", [
+      params.role === "buyer" ? 0 : 1,
+      toBytes32(params.specHash),
+      params.deadline,
+      params.oracles,
+      params.oracleWeights,
+      params.threshold,
+      payment,
+      params.reviewPeriod ?? 0,
+      oracleFee,
+      token.address,
+    ]);
+
+    return this.run(this.depositCall(token, deposit, data), opts, (receipt) => ({
+      receipt,
+      pactId: findEvent(receipt, agentPactIface, "PactCreated")?.args.pactId ?? null,
+      token,
+      payment,
+      oracleFee,
+      stake,
+      deposit,
+    }));
+  }
+
+  /** Accept an open pact, joining as whichever side its creator left open. */
+  async acceptPact(pactId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<AcceptPactResult>> {
+    const p = await this.getPact(pactId);
+    const role: PactRole = p.initiator === "BUYER" ? "seller" : "buyer";
+    const { deposit } = pactDeposit(role, p.payment, p.oracleFee);
+    const data = agentPactIface.encodeFunctionData("acceptPact", [pactId]);
+
+    return this.run(this.depositCall(p.token, deposit, data), opts, (receipt) => ({
+      receipt,
+      role,
+      token: p.token,
+      deposit,
+    }));
+  }
+
+  async claimTimeout(pactId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.pactCall("claimTimeout", [pactId]), opts, (receipt) => ({ receipt }));
+  }
+
+  // ──────────────────────────────────────────────
+  // Negotiation
+  // ──────────────────────────────────────────────
+
+  /** Propose new terms for a NEGOTIATING pact; omitted fields keep their current value. */
+  async proposeAmendment(
+    pactId: bigint | number,
+    params: ProposeAmendmentParams,
+    opts: WriteOptions = {}
+  ): Promise<WriteResult<ProposeAmendmentResult>> {
+    const p = await this.getPact(pactId);
+    const payment = params.payment != null ? toBaseUnits(params.payment, p.token) : 0n;
+    const deadline = params.deadline ?? 0;
+    const specHash = params.specHash ? toBytes32(params.specHash) : ethers.ZeroHash;
+    const call = this.pactCall("proposeAmendment", [pactId, payment, deadline, specHash]);
+
+    return this.run(call, opts, (receipt) => ({ receipt, token: p.token, payment, deadline, specHash }));
+  }
+
+  /**
+   * Accept the pending amendment. A payment increase needs an extra deposit:
+   * for ETH pacts and buyer-created token pacts it covers the increase plus
+   * its 10% stake, for seller-created token pacts only the stake.
+   */
+  async acceptAmendment(pactId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<AcceptAmendmentResult>> {
+    const [p, a] = await Promise.all([this.getPact(pactId), this.getAmendment(pactId)]);
+    const extra = a.payment > p.payment ? a.payment - p.payment : 0n;
+    const deposit = p.token.isNative || p.initiator === "BUYER" ? extra + extra / 10n : extra / 10n;
+    const data = agentPactIface.encodeFunctionData("acceptAmendment", [pactId]);
+
+    return this.run(this.depositCall(p.token, deposit, data), opts, (receipt) => ({
+      receipt,
+      token: p.token,
+      payment: a.payment,
+      deposit,
+    }));
+  }
+
+  // ──────────────────────────────────────────────
+  // Work and verification
+  // ──────────────────────────────────────────────
+
+  async startWork(pactId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.pactCall("startWork", [pactId]), opts, (receipt) => ({ receipt }));
+  }
+
+  async submitWork(pactId: bigint | number, proof: string, opts: WriteOptions = {}): Promise<WriteResult<ProofResult>> {
+    const proofHash = toBytes32(proof);
+    return this.run(this.pactCall("submitWork", [pactId, proofHash]), opts, (receipt) => ({ receipt, proofHash }));
+  }
+
+  async submitVerification(
+    pactId: bigint | number,
+    score: number,
+    proof: string,
+    opts: WriteOptions = {}
+  ): Promise<WriteResult<ProofResult>> {
+    const proofHash = toBytes32(proof);
+    const call = this.pactCall("submitVerification", [pactId, score, proofHash]);
+    return this.run(call, opts, (receipt) => ({ receipt, proofHash }));
+  }
+
+  async finalizeVerification(pactId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<FinalizeResult>> {
+    return this.run(this.pactCall("finalizeVerification", [pactId]), opts, (receipt) => {
+      const event = findEvent(receipt, agentPactIface, "VerificationFinalized");
+      return {
+        receipt,
+        weightedScore: event ? Number(event.args.weightedScore) : null,
+        status: event ? pactStatusName(event.args.newStatus) : null,
+      };
+    });
+  }
+
+  async approveWork(pactId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.pactCall("approveWork", [pactId]), opts, (receipt) => ({ receipt }));
+  }
+
+  async rejectWork(pactId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.pactCall("rejectWork", [pactId]), opts, (receipt) => ({ receipt }));
+  }
+
+  async autoApprove(pactId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.pactCall("autoApprove", [pactId]), opts, (receipt) => ({ receipt }));
+  }
+
+  // ──────────────────────────────────────────────
+  // Disputes
+  // ──────────────────────────────────────────────
+
+  async raiseDispute(pactId: bigint | number, arbitrator: string, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.pactCall("raiseDispute", [pactId, arbitrator]), opts, (receipt) => ({ receipt }));
+  }
+
+  async resolveDispute(pactId: bigint | number, sellerWins: boolean, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.pactCall("resolveDispute", [pactId, sellerWins]), opts, (receipt) => ({ receipt }));
+  }
+
+  // ──────────────────────────────────────────────
+  // Legacy OracleRegistry
+  // ──────────────────────────────────────────────
+
+  /** Register the Safe as an OracleRegistry oracle. `stake` is in ETH. */
+  async registerOracle(capabilities: string[], stake: Amount, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    const value = typeof stake === "bigint" ? stake : ethers.parseEther(stake);
+    const data = oracleRegistryIface.encodeFunctionData("registerOracle", [capabilities]);
+    return this.run({ target: this.config.oracleRegistryAddress, value, data }, opts, (receipt) => ({ receipt }));
+  }
+
+  private pactCall(fn: string, args: unknown[]): SafeCall {
+    return { target: this.config.agentPactAddress, value: 0n, data: agentPactIface.encodeFunctionData(fn, args) };
+  }
+
+  /**
+   * Call AgentPact with a deposit: sent as value for ETH pacts, pulled with
+   * transferFrom after an approval for token pacts.
+   */
+  private depositCall(token: TokenInfo, deposit: bigint, data: string): SafeCall {
+    const target = this.config.agentPactAddress;
+    if (token.isNative) return { target, value: deposit, data };
+    if (deposit === 0n) return { target, value: 0n, data };
+    return { target, value: 0n, data, approval: { token, spender: target, amount: deposit } };
+  }
+}
@@ -0,0 +1,163 @@
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { SafeExecutor, SimulationResult, ApprovalOptions } from "../wallet/safe-executor.js";
+import { TokenInfo, parseAmount } from "../tokens.js";
+
+export const PACT_STATUS_NAMES = [
+  "NEGOTIATING",
+  "FUNDED",
+  "IN_PROGRESS",
+  "PENDING_VERIFY",
+  "COMPLETED",
+  "DISPUTED",
+  "REFUNDED",
+  "PENDING_APPROVAL",
+] as const;
+
+export const INITIATOR_NAMES = ["BUYER", "SELLER"] as const;
+
+export const JOB_STATUS_NAMES = ["OPEN", "ASSIGNED", "COMPLETED", "EXPIRED", "CANCELLED"] as const;
+
+export type PactStatus = (typeof PACT_STATUS_NAMES)[number];
+export type Initiator = (typeof INITIATOR_NAMES)[number];
+export type JobStatus = (typeof JOB_STATUS_NAMES)[number];
+
+/** Name of a pact status code, or `UNKNOWN(n)` for codes this build doesn't know. */
+export function pactStatusName(status: bigint | number): PactStatus | `UNKNOWN(${number})` {
+  return PACT_STATUS_NAMES[Number(status)] ?? `UNKNOWN(${Number(status)})`;
+}
+
+/** Name of a router job status code, or `UNKNOWN(n)`. */
+export function jobStatusName(status: bigint | number): JobStatus | `UNKNOWN(${number})` {
+  return JOB_STATUS_NAMES[Number(status)] ?? `UNKNOWN(${Number(status)})`;
+}
+
+/**
+ * Spec, proof and amendment hashes are bytes32 on-chain. A 0x-prefixed value
+ * is passed through as-is; anything else (an IPFS CID, plain text) is hashed.
+ */
+export function toBytes32(value: string): string {
+  return value.startsWith("0x") ? value : ethers.keccak256(ethers.toUtf8Bytes(value));
+}
+
+/** OracleRouter category ID: keccak256 of the category name. */
+export function categoryHash(name: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(name));
+}
+
+/**
+ * An amount in base units (bigint) or in whole units of the token as a
+ * decimal string ("0.5" ETH, "250" USDC).
+ */
+export type Amount = bigint | string;
+
+export function toBaseUnits(amount: Amount, token: TokenInfo): bigint {
+  return typeof amount === "bigint" ? amount : parseAmount(amount, token);
+}
+
+export interface WriteOptions {
+  /** Simulate only and return the simulation instead of broadcasting. */
+  dryRun?: boolean;
+}
+
+/** Returned by every write method when it only simulated. */
+export interface DryRun {
+  dryRun: true;
+  /** One entry per transaction the call would send, in order (e.g. approve, then the call). */
+  simulations: SimulationResult[];
+}
+
+/** Result of a write method: the simulation on a dry run, otherwise `T`. */
+export type WriteResult<T> = DryRun | ({ dryRun: false } & T);
+
+export interface TxResult {
+  receipt: ethers.TransactionReceipt;
+}
+
+export interface ProofResult extends TxResult {
+  /** The bytes32 proof as submitted on-chain. */
+  proofHash: string;
+}
+
+/** A call the Safe makes, optionally after approving an ERC-20 spender. */
+export interface SafeCall {
+  target: string;
+  value: bigint;
+  data: string;
+  approval?: { token: TokenInfo; spender: string; amount: bigint } & ApprovalOptions;
+  /** Send from the session key itself instead of the Safe (no value, no approval). */
+  direct?: boolean;
+}
+
+/**
+ * Shared plumbing for the protocol clients. Reads go straight to the
+ * contracts; writes go through the SafeExecutor, so clients built without
+ * one are read-only.
+ */
+export abstract class BaseClient {
+  protected readonly config: Config;
+  private readonly executor?: SafeExecutor;
+
+  constructor(config: Config, executor?: SafeExecutor) {
+    this.config = config;
+    this.executor = executor;
+  }
+
+  /** True when writes would only be simulated (per call, or the server-wide DRY_RUN). */
+  protected isDryRun(opts: WriteOptions): boolean {
+    return !!opts.dryRun || this.requireExecutor().dryRun;
+  }
+
+  protected async simulateCall(call: SafeCall): Promise<SimulationResult[]> {
+    const executor = this.requireExecutor();
+    if (call.direct) return [await executor.simulateDirect(call.target, call.data)];
+    if (!call.approval) return [await executor.simulate(call.target, call.value, call.data)];
+    const { token, spender, amount, ...opts } = call.approval;
+    return executor.simulateWithApproval(token, spender, amount, call.target, call.value, call.data, opts);
+  }
+
+  protected async sendCall(call: SafeCall): Promise<ethers.TransactionReceipt> {
+    const executor = this.requireExecutor();
+    if (call.direct) return executor.executeDirect(call.target, call.data);
+    if (!call.approval) return executor.execute(call.target, call.value, call.data);
+    const { token, spender, amount, ...opts } = call.approval;
+    return executor.executeWithApproval(token, spender, amount, call.target, call.value, call.data, opts);
+  }
+
+  /** Simulate or send a single call, shaping the receipt into the method's result. */
+  protected async run<T>(
+    call: SafeCall,
+    opts: WriteOptions,
+    result: (receipt: ethers.TransactionReceipt) => T
+  ): Promise<WriteResult<T>> {
+    if (this.isDryRun(opts)) {
+      return { dryRun: true, simulations: await this.simulateCall(call) };
+    }
+    const receipt = await this.sendCall(call);
+    return { dryRun: false, ...result(receipt) };
+  }
+
+  private requireExecutor(): SafeExecutor {
+    if (!this.executor) {
+      throw new Error(`${this.constructor.name} was created without a SafeExecutor and can only read`);
+    }
+    return this.executor;
+  }
+}
+
+/** Parse the first log from `iface` named `name` out of a receipt. */
+export function findEvent(
+  receipt: ethers.TransactionReceipt,
+  iface: ethers.Interface,
+  name: string
+): ethers.LogDescription | null {
+  for (const log of receipt.logs) {
+    try {
+      const parsed = iface.parseLog(log);
+      if (parsed?.name === name) return parsed;
+    } catch {
+      // log from another contract
+    }
+  }
+  return null;
+}
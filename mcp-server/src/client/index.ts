@@ -0,0 +1,102 @@
+/**
+ * Agent Pact client SDK — typed access to AgentPact, OracleRouter and
+ * AgentPolicyModule for services that drive pacts without MCP. Imported as
+ * `agent-pact-mcp/client`; the MCP tools are thin wrappers over these clients.
+ *
+ * Writes go through the same Safe + policy module path as the server:
+ * software policy check, preflight simulation, nonce-managed submission.
+ */
+import { Config, loadConfig } from "../config.js";
+import { getSigner } from "../provider.js";
+import { SpendingTracker } from "../wallet/spending.js";
+import { PolicyChecker } from "../wallet/policy.js";
+import { SafeExecutor } from "../wallet/safe-executor.js";
+import { TxQueue } from "../wallet/tx-queue.js";
+import { ApprovalQueue } from "../wallet/approvals.js";
+import { AgentPactClient } from "./agent-pact.js";
+import { RouterClient } from "./router.js";
+import { PolicyClient } from "./policy.js";
+import { PactReservations } from "./reservations.js";
+import { OwnerClient } from "./owner.js";
+import { SessionKeyRotator, loadRotatedSessionKey } from "./rotation.js";
+
+export * from "./common.js";
+export * from "./agent-pact.js";
+export * from "./router.js";
+export * from "./policy.js";
+export * from "./reservations.js";
+export * from "./owner.js";
+export * from "./rotation.js";
+export { loadConfig } from "../config.js";
+export { unlockSigner } from "../provider.js";
+export type { SessionSigner } from "../provider.js";
+export { ExternalSigner } from "../signers.js";
+export type { Config } from "../config.js";
+export { loadNetwork } from "../networks.js";
+export type { NetworkSettings, ContractAddresses } from "../networks.js";
+export { getTokenInfo, parseAmount, formatAmount } from "../tokens.js";
+export type { TokenInfo } from "../tokens.js";
+export { SafeExecutor, SimulationRevertError } from "../wallet/safe-executor.js";
+export type { SimulationResult, ApprovalOptions } from "../wallet/safe-executor.js";
+export { TxQueue, TxTimeoutError } from "../wallet/tx-queue.js";
+export type { TxRecord, TxStatus } from "../wallet/tx-queue.js";
+export { ApprovalQueue, ApprovalRequiredError } from "../wallet/approvals.js";
+export type { ApprovalRecord, ApprovalStatus, ApprovalReview } from "../wallet/approvals.js";
+export { PolicyChecker } from "../wallet/policy.js";
+export { RulesEngine, loadPolicyRules } from "../wallet/rules.js";
+export type { PolicyRules, PolicyCall } from "../wallet/rules.js";
+export { SpendingTracker, reconcileSpending } from "../wallet/spending.js";
+export { decodeSpends } from "../wallet/spend.js";
+export type { Spend } from "../wallet/spend.js";
+export { loadSessionTemplates } from "../wallet/session-templates.js";
+export type { SessionTemplate } from "../wallet/session-templates.js";
+
+export interface AgentPactClients {
+  pacts: AgentPactClient;
+  router: RouterClient;
+  policy: PolicyClient;
+  reservations: PactReservations;
+  /** Owner-side session and budget management, when MODULE_OWNER_KEY is set. */
+  owner: OwnerClient | null;
+  /** Session key rotation, when MODULE_OWNER_KEY is set. */
+  rotator: SessionKeyRotator | null;
+  executor: SafeExecutor;
+  queue: TxQueue;
+  approvals: ApprovalQueue;
+  checker: PolicyChecker;
+  tracker: SpendingTracker;
+}
+
+/**
+ * Wire up the clients and the write path behind them for one session key.
+ * Reads the same environment variables as the server unless a config is given.
+ * If the key was rotated before, the rotated-in key from DATA_DIR is used.
+ * A keystore or external signer must be unlocked with `unlockSigner` first.
+ */
+export function createClients(config: Config = loadConfig()): AgentPactClients {
+  loadRotatedSessionKey(config);
+  const tracker = new SpendingTracker(config, getSigner(config).address);
+  const checker = new PolicyChecker(config, tracker);
+  const queue = new TxQueue(config);
+  const approvals = new ApprovalQueue(config, queue);
+  const executor = new SafeExecutor(config, checker, queue, approvals);
+
+  const pacts = new AgentPactClient(config, executor);
+  const policy = new PolicyClient(config, executor);
+  const reservations = new PactReservations(config, pacts, policy);
+  const owner = config.moduleOwnerKey ? new OwnerClient(config) : null;
+
+  return {
+    pacts,
+    router: new RouterClient(config, executor),
+    policy,
+    reservations,
+    owner,
+    rotator: owner ? new SessionKeyRotator(config, owner, policy, queue, tracker, reservations) : null,
+    executor,
+    queue,
+    approvals,
+    checker,
+    tracker,
+  };
+}
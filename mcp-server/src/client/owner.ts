@@ -0,0 +1,247 @@
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { AGENT_POLICY_MODULE_ABI } from "../abis.js";
+import { getPolicyModule } from "../contracts.js";
+import { getOwnerSigner, getProvider } from "../provider.js";
+import { SimulationResult, SimulationRevertError, decodeRevert } from "../wallet/safe-executor.js";
+import { Amount, TxResult, WriteOptions, WriteResult } from "./common.js";
+import { PolicyClient, SessionPolicy } from "./policy.js";
+
+const policyModuleIface = new ethers.Interface(AGENT_POLICY_MODULE_ABI);
+
+const OWNER_EVENTS: Record<string, string[]> = {
+  grantSession: ["SessionGranted"],
+  revokeSession: ["SessionRevoked"],
+  rotateSession: ["SessionGranted", "SessionRevoked"],
+  setSharedBudget: ["SharedBudgetSet"],
+  disableSharedBudget: ["SharedBudgetSet"],
+  releaseBudget: ["BudgetReleased"],
+};
+
+/** What grantSession sets for a key. Limits are in wei. */
+export type SessionGrant = Omit<SessionPolicy, "active">;
+
+export interface RotateSessionResult {
+  /** The policy granted to the new key. */
+  grant: SessionGrant;
+  receipt: ethers.TransactionReceipt;
+}
+
+/** A session key seen in SessionGranted events, with its current policy. */
+export interface SessionRecord {
+  sessionKey: string;
+  grantedAtBlock: number;
+  grantTx: string;
+  /** Last revocation, or null if it was never revoked since the last grant. */
+  revokedTx: string | null;
+  policy: SessionPolicy;
+}
+
+/**
+ * Owner-side client for AgentPolicyModule: session grants, revocation and
+ * rotation, and the shared budget. Signs with MODULE_OWNER_KEY and calls
+ * the module directly — these are the owner's own transactions, not the
+ * Safe's, so they bypass the session policy and the TxQueue.
+ */
+export class OwnerClient {
+  private readonly config: Config;
+  private readonly policy: PolicyClient;
+  // Tracked locally: the node's pending count can lag right after a send
+  private nonce: number | null = null;
+  private lock: Promise<void> = Promise.resolve();
+
+  constructor(config: Config) {
+    this.config = config;
+    this.policy = new PolicyClient(config);
+  }
+
+  /** Address of the owner key. */
+  get address(): string {
+    return getOwnerSigner(this.config).address;
+  }
+
+  grantSession(grant: SessionGrant, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run("grantSession", grantArgs(grant), opts, (receipt) => ({ receipt }));
+  }
+
+  revokeSession(sessionKey: string, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run("revokeSession", [sessionKey], opts, (receipt) => ({ receipt }));
+  }
+
+  /**
+   * Move a session to a new key: the module's rotateSession grants it the
+   * old key's policy and revokes the old key in one transaction.
+   * `expiresAt` defaults to the old key's expiry. The module counts
+   * spending per key, so the new key starts with fresh on-chain windows
+   * whatever the old key spent today.
+   */
+  async rotateSession(
+    oldKey: string,
+    newKey: string,
+    opts: WriteOptions & { expiresAt?: number } = {}
+  ): Promise<WriteResult<RotateSessionResult>> {
+    const old = await this.policy.getSession(oldKey);
+    if (!old.active) throw new Error(`Session ${oldKey} is not active; grant ${newKey} with owner-grant-session instead`);
+    const { active: _active, ...policy } = old;
+    const grant: SessionGrant = { ...policy, sessionKey: newKey, expiresAt: opts.expiresAt ?? old.expiresAt };
+    return this.run("rotateSession", [oldKey, newKey, grant.expiresAt], opts, (receipt) => ({ grant, receipt }));
+  }
+
+  /** Set (and enable) the Safe-wide budget. Amounts are in ETH. */
+  setSharedBudget(maxDaily: Amount, maxWeekly: Amount, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    const wei = (a: Amount) => (typeof a === "bigint" ? a : ethers.parseEther(a));
+    return this.run("setSharedBudget", [wei(maxDaily), wei(maxWeekly)], opts, (receipt) => ({ receipt }));
+  }
+
+  disableSharedBudget(opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run("disableSharedBudget", [], opts, (receipt) => ({ receipt }));
+  }
+
+  /** Release any session key's reservation — the module lets the owner release them all. */
+  releaseBudget(reservationId: bigint, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run("releaseBudget", [reservationId], opts, (receipt) => ({ receipt }));
+  }
+
+  /** Send ETH from the owner key to a session key, for gas. */
+  async fundSessionKey(sessionKey: string, amount: bigint): Promise<ethers.TransactionReceipt> {
+    return this.transmit({ to: sessionKey, value: amount, gasLimit: 21000n });
+  }
+
+  /**
+   * Every key granted a session since INDEXER_START_BLOCK, from
+   * SessionGranted / SessionRevoked events, with its current policy.
+   * Newest grant first.
+   */
+  async listSessions(): Promise<SessionRecord[]> {
+    const module = getPolicyModule(this.config);
+    const head = await getProvider(this.config).getBlockNumber();
+    const events: (ethers.EventLog | ethers.Log)[] = [];
+    for (let from = this.config.indexerStartBlock; from <= head; from += this.config.indexerBatchSize) {
+      const to = Math.min(head, from + this.config.indexerBatchSize - 1);
+      const [granted, revoked] = await Promise.all([
+        module.queryFilter(module.filters.SessionGranted(), from, to),
+        module.queryFilter(module.filters.SessionRevoked(), from, to),
+      ]);
+      events.push(...granted, ...revoked);
+    }
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const seen = new Map<string, Omit<SessionRecord, "policy">>();
+    for (const e of events) {
+      const parsed = policyModuleIface.parseLog(e)!;
+      const sessionKey = ethers.getAddress(parsed.args.sessionKey);
+      if (parsed.name === "SessionGranted") {
+        seen.set(sessionKey, { sessionKey, grantedAtBlock: e.blockNumber, grantTx: e.transactionHash, revokedTx: null });
+      } else {
+        const record = seen.get(sessionKey);
+        if (record) record.revokedTx = e.transactionHash;
+      }
+    }
+
+    const records = await Promise.all([...seen.values()].map(async (r) => ({ ...r, policy: await this.policy.getSession(r.sessionKey) })));
+    return records.sort((a, b) => b.grantedAtBlock - a.grantedAtBlock);
+  }
+
+  private isDryRun(opts: WriteOptions): boolean {
+    return !!opts.dryRun || this.config.dryRun;
+  }
+
+  private async run<T>(
+    fn: string,
+    args: unknown[],
+    opts: WriteOptions,
+    result: (receipt: ethers.TransactionReceipt) => T
+  ): Promise<WriteResult<T>> {
+    if (this.isDryRun(opts)) {
+      return { dryRun: true, simulations: [await this.simulate(fn, args)] };
+    }
+    return { dryRun: false, ...result(await this.send(fn, args)) };
+  }
+
+  /** eth_call a module function from the owner key, checking it really is the owner first. */
+  private async simulate(fn: string, args: unknown[]): Promise<SimulationResult> {
+    const data = policyModuleIface.encodeFunctionData(fn, args);
+    const target = this.config.policyModuleAddress;
+    const result: SimulationResult = {
+      ok: true,
+      target,
+      value: 0n,
+      data,
+      moduleCalldata: data,
+      functionName: fn,
+      spends: [],
+      gasEstimate: null,
+      revertReason: null,
+      revertSource: null,
+      predictedEvents: OWNER_EVENTS[fn] ?? [],
+      eventsSource: "expected",
+      note: "Signed by the module owner key, not through the Safe",
+    };
+
+    const owner = await getPolicyModule(this.config).owner();
+    if (owner.toLowerCase() !== this.address.toLowerCase()) {
+      return {
+        ...result,
+        ok: false,
+        revertReason: `MODULE_OWNER_KEY is ${this.address}, but AgentPolicyModule is owned by ${owner}`,
+        revertSource: "policy module",
+      };
+    }
+
+    const call = { from: this.address, to: target, data };
+    try {
+      await getProvider(this.config).call(call);
+    } catch (err: any) {
+      return { ...result, ok: false, revertReason: decodeRevert(err, [policyModuleIface]), revertSource: "policy module" };
+    }
+    return { ...result, gasEstimate: await getProvider(this.config).estimateGas(call) };
+  }
+
+  private async send(fn: string, args: unknown[]): Promise<ethers.TransactionReceipt> {
+    const sim = await this.simulate(fn, args);
+    if (!sim.ok) throw new SimulationRevertError(sim);
+    return this.transmit({ to: sim.target, data: sim.data, gasLimit: (sim.gasEstimate! * 120n) / 100n });
+  }
+
+  private async transmit(request: ethers.TransactionRequest): Promise<ethers.TransactionReceipt> {
+    const tx = await this.exclusive(async () => {
+      const signer = getOwnerSigner(this.config);
+      this.nonce ??= await signer.getNonce("pending");
+      try {
+        const response = await signer.sendTransaction({ ...request, nonce: this.nonce });
+        this.nonce++;
+        return response;
+      } catch (err) {
+        this.nonce = null;
+        throw err;
+      }
+    });
+    return (await tx.wait(1, this.config.txConfirmTimeoutSec * 1000))!;
+  }
+
+  private async exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const previous = this.lock;
+    let release!: () => void;
+    this.lock = new Promise<void>((resolve) => (release = resolve));
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+}
+
+function grantArgs(g: SessionGrant): unknown[] {
+  return [
+    g.sessionKey,
+    g.maxPerTx,
+    g.maxDaily,
+    g.maxWeekly,
+    g.humanApprovalAbove,
+    g.allowedContracts,
+    g.allowedFunctions,
+    g.allowedTokens,
+    g.expiresAt,
+  ];
+}
@@ -0,0 +1,133 @@
+import { ethers } from "ethers";
+import { getPolicyModule } from "../contracts.js";
+import { getSigner } from "../provider.js";
+import { AGENT_POLICY_MODULE_ABI } from "../abis.js";
+import { Amount, BaseClient, TxResult, WriteOptions, WriteResult, findEvent } from "./common.js";
+
+const policyModuleIface = new ethers.Interface(AGENT_POLICY_MODULE_ABI);
+
+/** A session key's on-chain policy. Limits are in wei. */
+export interface SessionPolicy {
+  sessionKey: string;
+  active: boolean;
+  maxPerTx: bigint;
+  maxDaily: bigint;
+  maxWeekly: bigint;
+  humanApprovalAbove: bigint;
+  allowedContracts: string[];
+  /** 4-byte function selectors. */
+  allowedFunctions: string[];
+  allowedTokens: string[];
+  expiresAt: number;
+}
+
+/** On-chain spend counters for a session key, in wei. */
+export interface SessionSpending {
+  dailySpent: bigint;
+  weeklySpent: bigint;
+  lastDayReset: number;
+  lastWeekReset: number;
+}
+
+/** The Safe-wide budget shared by all session keys, in wei. */
+export interface SharedBudget {
+  enabled: boolean;
+  maxDaily: bigint;
+  maxWeekly: bigint;
+  dailySpent: bigint;
+  weeklySpent: bigint;
+  totalReserved: bigint;
+  /** What is left to reserve (meaningless while the budget is disabled). */
+  available: bigint;
+}
+
+export interface Reservation {
+  reservationId: bigint;
+  sessionKey: string;
+  amount: bigint;
+  active: boolean;
+}
+
+export interface ReserveBudgetResult extends TxResult {
+  reservationId: bigint | null;
+  amount: bigint;
+}
+
+/**
+ * Typed client for AgentPolicyModule. Reads default to this server's session
+ * key. Budget reservations belong to the session key, so they are sent from
+ * the key itself rather than through the Safe.
+ */
+export class PolicyClient extends BaseClient {
+  /** Address of the session key this client signs with. */
+  get sessionKey(): string {
+    return getSigner(this.config).address;
+  }
+
+  async getSession(sessionKey: string = this.sessionKey): Promise<SessionPolicy> {
+    const s = await getPolicyModule(this.config).getSession(sessionKey);
+    return {
+      sessionKey,
+      active: s.active,
+      maxPerTx: s.maxPerTx,
+      maxDaily: s.maxDaily,
+      maxWeekly: s.maxWeekly,
+      humanApprovalAbove: s.humanApprovalAbove,
+      allowedContracts: [...s.allowedContracts],
+      allowedFunctions: [...s.allowedFunctions],
+      allowedTokens: [...s.allowedTokens],
+      expiresAt: Number(s.expiresAt),
+    };
+  }
+
+  async getSpending(sessionKey: string = this.sessionKey): Promise<SessionSpending> {
+    const s = await getPolicyModule(this.config).getSpending(sessionKey);
+    return {
+      dailySpent: s.dailySpent,
+      weeklySpent: s.weeklySpent,
+      lastDayReset: Number(s.lastDayReset),
+      lastWeekReset: Number(s.lastWeekReset),
+    };
+  }
+
+  async getSharedBudget(): Promise<SharedBudget> {
+    const module = getPolicyModule(this.config);
+    const [b, available] = await Promise.all([module.getSharedBudget(), module.getAvailableBudget()]);
+    return {
+      enabled: b.enabled,
+      maxDaily: b.maxDaily,
+      maxWeekly: b.maxWeekly,
+      dailySpent: b.dailySpent,
+      weeklySpent: b.weeklySpent,
+      totalReserved: b.totalReserved,
+      available,
+    };
+  }
+
+  /** Active budget reservations held by a session key. */
+  async getReservations(sessionKey: string = this.sessionKey): Promise<Reservation[]> {
+    const module = getPolicyModule(this.config);
+    const ids = await module.getSessionReservations(sessionKey);
+    const reservations = await Promise.all(ids.map(async (reservationId) => {
+      const r = await module.getReservation(reservationId);
+      return { reservationId, sessionKey: r.sessionKey, amount: r.amount, active: r.active };
+    }));
+    return reservations.filter((r) => r.active);
+  }
+
+  /** Reserve shared budget so other agents can't spend it. `amount` is in ETH. */
+  async reserveBudget(amount: Amount, opts: WriteOptions = {}): Promise<WriteResult<ReserveBudgetResult>> {
+    const wei = typeof amount === "bigint" ? amount : ethers.parseEther(amount);
+    const data = policyModuleIface.encodeFunctionData("reserveBudget", [wei]);
+    return this.run({ target: this.config.policyModuleAddress, value: 0n, data, direct: true }, opts, (receipt) => ({
+      receipt,
+      reservationId: findEvent(receipt, policyModuleIface, "BudgetReserved")?.args.reservationId ?? null,
+      amount: wei,
+    }));
+  }
+
+  async releaseBudget(reservationId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    const data = policyModuleIface.encodeFunctionData("releaseBudget", [reservationId]);
+    return this.run({ target: this.config.policyModuleAddress, value: 0n, data, direct: true }, opts, (receipt) => ({ receipt }));
+  }
+}
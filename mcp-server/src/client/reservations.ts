@@ -0,0 +1,394 @@
+import path from "path";
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { AGENT_PACT_ABI } from "../abis.js";
+import { getProvider } from "../provider.js";
+import { JsonFileStore } from "../storage.js";
+import { getTokenInfo } from "../tokens.js";
+import { pactDeposit } from "../wallet/spend.js";
+import { AgentPactClient, AcceptPactResult, CreatePactParams, CreatePactResult } from "./agent-pact.js";
+import { PolicyClient } from "./policy.js";
+import { OwnerClient } from "./owner.js";
+import { PactStatus, WriteOptions, WriteResult, toBaseUnits } from "./common.js";
+
+const agentPactIface = new ethers.Interface(AGENT_PACT_ABI);
+
+// Pact events after which the deposit is paid out and the reservation is spent
+const FINAL_EVENTS = ["PactCompleted", "PactRefunded"];
+
+const FINAL_STATUSES: string[] = ["COMPLETED", "REFUNDED"];
+
+// Released links kept for reporting
+const HISTORY_LIMIT = 100;
+
+/** A budget reservation held for a pact's deposit. Amounts are wei, as decimal strings. */
+export interface ReservationLink {
+  reservationId: string;
+  pactId: string;
+  sessionKey: string;
+  amount: string;
+  status: "active" | "released";
+  createdAt: number;
+  releasedAt?: number;
+  /** Release tx, absent when it was found released on-chain. */
+  releaseTx?: string;
+  /** The pact event that released it, or how it was released. */
+  releaseReason?: string;
+}
+
+export type OrphanReason = "unlinked" | "pact-finished" | "pact-expired";
+
+/** An active on-chain reservation that nothing will release automatically. */
+export interface OrphanedReservation {
+  reservationId: bigint;
+  amount: bigint;
+  reason: OrphanReason;
+  pactId: bigint | null;
+  pactStatus: PactStatus | `UNKNOWN(${number})` | null;
+  /** Release tx, when this reconcile run released it. */
+  releaseTx: string | null;
+  error: string | null;
+}
+
+export interface ReconcileReport {
+  /** Active on-chain reservations held by the session key. */
+  active: number;
+  /** Of those, linked to a pact that is still running. */
+  linked: number;
+  orphaned: OrphanedReservation[];
+  /** Locally active links found released on-chain, now marked released. */
+  synced: bigint[];
+}
+
+/** What a key handover did with one of the old key's linked reservations. */
+export interface MovedReservation {
+  pactId: bigint;
+  amount: bigint;
+  /** The old key's reservation, released by the owner. */
+  from: bigint;
+  /** The new key's reservation, or null if the pact had finished or re-reserving failed. */
+  to: bigint | null;
+  error: string | null;
+}
+
+export type ReservedResult<T> = T & { reservationId: bigint };
+
+interface ReservationState {
+  links: ReservationLink[];
+  lastBlock: number;
+}
+
+/**
+ * Shared-budget reservations tied to pacts. `createPact` / `acceptPact`
+ * reserve the exact ETH deposit before committing it, and the link between
+ * reservation and pact is kept on disk. Once started, a poller watches
+ * AgentPact for `PactCompleted` / `PactRefunded` on linked pacts and
+ * releases their reservations. `reconcile` finds reservations nothing
+ * will release: unlinked, or linked to a pact that finished or expired.
+ *
+ * Reservations are denominated in ETH, so token pacts can't be reserved for.
+ */
+export class PactReservations {
+  private config: Config;
+  private pacts: AgentPactClient;
+  private policy: PolicyClient;
+  private store: JsonFileStore<ReservationState>;
+  private state: ReservationState;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(config: Config, pacts: AgentPactClient, policy: PolicyClient) {
+    this.config = config;
+    this.pacts = pacts;
+    this.policy = policy;
+    this.store = new JsonFileStore<ReservationState>(
+      path.join(config.dataDir, `reservations-${config.chainId}.json`),
+      () => ({ links: [], lastBlock: -1 })
+    );
+    this.state = this.store.load();
+  }
+
+  /** Links made by the current session key, newest first. */
+  list(status?: ReservationLink["status"]): ReservationLink[] {
+    const key = this.policy.sessionKey.toLowerCase();
+    return this.state.links
+      .filter((l) => l.sessionKey.toLowerCase() === key)
+      .filter((l) => !status || l.status === status)
+      .slice()
+      .reverse();
+  }
+
+  /** The active reservation held for a pact, if any. */
+  forPact(pactId: bigint | number): ReservationLink | undefined {
+    return this.list("active").find((l) => l.pactId === String(pactId));
+  }
+
+  /** Create a pact after reserving its ETH deposit from the shared budget. */
+  async createPact(params: CreatePactParams, opts: WriteOptions = {}): Promise<WriteResult<ReservedResult<CreatePactResult>>> {
+    const token = await getTokenInfo(this.config, params.paymentToken ?? ethers.ZeroAddress);
+    const payment = toBaseUnits(params.payment, token);
+    const { deposit } = pactDeposit(params.role, payment, toBaseUnits(params.oracleFee ?? 0n, token));
+    this.requireEth(token.isNative, token.symbol);
+
+    return this.reserveFor(deposit, opts, () => this.pacts.createPact(params, opts), (r) => r.pactId);
+  }
+
+  /** Accept a pact after reserving this side's ETH deposit from the shared budget. */
+  async acceptPact(pactId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<ReservedResult<AcceptPactResult>>> {
+    const p = await this.pacts.getPact(pactId);
+    const { deposit } = pactDeposit(p.initiator === "BUYER" ? "seller" : "buyer", p.payment, p.oracleFee);
+    this.requireEth(p.token.isNative, p.token.symbol);
+
+    return this.reserveFor(deposit, opts, () => this.pacts.acceptPact(pactId, opts), () => BigInt(pactId));
+  }
+
+  /** Start watching linked pacts for completion. Returns immediately. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One pass of the poller: release reservations of linked pacts that
+   * completed or were refunded since the last pass. The first pass only
+   * records the chain head; reconcile covers anything earlier.
+   */
+  async check(): Promise<void> {
+    const provider = getProvider(this.config);
+    const head = await provider.getBlockNumber();
+    const active = this.list("active");
+    if (this.state.lastBlock < 0 || active.length === 0 || head <= this.state.lastBlock) {
+      this.state.lastBlock = Math.max(this.state.lastBlock, head);
+      this.save();
+      return;
+    }
+
+    const topics = [
+      FINAL_EVENTS.map((name) => agentPactIface.getEvent(name)!.topicHash),
+      [...new Set(active.map((l) => ethers.toBeHex(BigInt(l.pactId), 32)))],
+    ];
+    for (let from = this.state.lastBlock + 1; from <= head; from += this.config.indexerBatchSize) {
+      const to = Math.min(head, from + this.config.indexerBatchSize - 1);
+      const logs = await provider.getLogs({ address: this.config.agentPactAddress, topics, fromBlock: from, toBlock: to });
+      for (const log of logs) {
+        const event = agentPactIface.parseLog(log)!;
+        const link = this.forPact(event.args.pactId);
+        if (link) await this.release(link, event.name);
+      }
+      this.state.lastBlock = to;
+      this.save();
+    }
+  }
+
+  /**
+   * Compare the session key's active on-chain reservations with the local
+   * links. Reports reservations with no pact, or whose pact has finished or
+   * expired unaccepted; with `release`, releases the ones tied to a pact.
+   * Unlinked reservations may have been made by hand for a reason, so they
+   * are only reported. Local links already released on-chain are synced.
+   */
+  async reconcile(release = false): Promise<ReconcileReport> {
+    const [onChain, block] = await Promise.all([
+      this.policy.getReservations(),
+      getProvider(this.config).getBlock("latest"),
+    ]);
+    const activeIds = new Set(onChain.map((r) => r.reservationId.toString()));
+    // Deadlines are checked against chain time, as AgentPact does
+    const now = block!.timestamp;
+
+    const synced: bigint[] = [];
+    for (const link of this.list("active")) {
+      if (activeIds.has(link.reservationId)) continue;
+      this.markReleased(link, "released outside this server");
+      synced.push(BigInt(link.reservationId));
+    }
+
+    const orphaned: OrphanedReservation[] = [];
+    for (const r of onChain) {
+      const link = this.list("active").find((l) => l.reservationId === r.reservationId.toString());
+      if (!link) {
+        orphaned.push({ reservationId: r.reservationId, amount: r.amount, reason: "unlinked", pactId: null, pactStatus: null, releaseTx: null, error: null });
+        continue;
+      }
+
+      const p = await this.pacts.getPact(BigInt(link.pactId));
+      const reason: OrphanReason | null =
+        FINAL_STATUSES.includes(p.status) ? "pact-finished"
+        : p.status === "NEGOTIATING" && p.deadline < now ? "pact-expired"
+        : null;
+      if (!reason) continue;
+
+      const orphan: OrphanedReservation = {
+        reservationId: r.reservationId,
+        amount: r.amount,
+        reason,
+        pactId: BigInt(link.pactId),
+        pactStatus: p.status,
+        releaseTx: null,
+        error: null,
+      };
+      if (release) {
+        try {
+          orphan.releaseTx = (await this.release(link, `reconciled: pact ${p.status}`)) ?? null;
+        } catch (err: any) {
+          orphan.error = err.reason ?? err.message;
+        }
+      }
+      orphaned.push(orphan);
+    }
+
+    this.save();
+    return {
+      active: onChain.length,
+      linked: onChain.length - orphaned.length,
+      orphaned,
+      synced,
+    };
+  }
+
+  /**
+   * Move the links of a rotated-out session key to the current one. A
+   * reservation can only be released by its own key or the module owner,
+   * so the owner releases each of the old key's reservations and the
+   * current key reserves the same amount again. Links of pacts that have
+   * finished are only released.
+   */
+  async handover(oldKey: string, owner: OwnerClient): Promise<MovedReservation[]> {
+    const links = this.state.links.filter((l) => l.status === "active" && l.sessionKey.toLowerCase() === oldKey.toLowerCase());
+    const moved: MovedReservation[] = [];
+    for (const link of links) {
+      const m: MovedReservation = { pactId: BigInt(link.pactId), amount: BigInt(link.amount), from: BigInt(link.reservationId), to: null, error: null };
+      moved.push(m);
+      let released = false;
+      try {
+        const active = (await this.policy.getReservations(oldKey)).some((r) => r.reservationId === m.from);
+        if (active) await owner.releaseBudget(m.from);
+        released = true;
+        const p = await this.pacts.getPact(m.pactId);
+        if (!active || FINAL_STATUSES.includes(p.status)) {
+          this.markReleased(link, active ? `key handover: pact ${p.status}` : "released outside this server");
+          continue;
+        }
+
+        const reserved = await this.policy.reserveBudget(m.amount);
+        if (reserved.dryRun || reserved.reservationId === null) {
+          throw new Error(`no BudgetReserved event in ${reserved.dryRun ? "dry run" : reserved.receipt.hash}`);
+        }
+        m.to = reserved.reservationId;
+        link.reservationId = m.to.toString();
+        link.sessionKey = this.policy.sessionKey;
+        this.save();
+      } catch (err: any) {
+        m.error = err.reason ?? err.message;
+        // Still held by the old key if the owner couldn't release it
+        if (released) this.markReleased(link, `key handover: re-reserving failed: ${m.error}`);
+      }
+    }
+    return moved;
+  }
+
+  /**
+   * Reserve `amount`, run the pact write, and link the reservation to the
+   * pact it returns. A failed write releases the reservation again.
+   */
+  private async reserveFor<T extends object>(
+    amount: bigint,
+    opts: WriteOptions,
+    write: () => Promise<WriteResult<T>>,
+    pactIdOf: (result: T) => bigint | null
+  ): Promise<WriteResult<ReservedResult<T>>> {
+    const reserved = await this.policy.reserveBudget(amount, opts);
+    if (reserved.dryRun) {
+      const written = await write();
+      return { dryRun: true, simulations: [...reserved.simulations, ...(written.dryRun ? written.simulations : [])] };
+    }
+    if (reserved.reservationId === null) {
+      throw new Error(`Budget reserved but no BudgetReserved event in ${reserved.receipt.hash}; release it with reconcile-reservations`);
+    }
+    const reservationId = reserved.reservationId;
+
+    let result: WriteResult<T>;
+    try {
+      result = await write();
+    } catch (err: any) {
+      await this.policy.releaseBudget(reservationId).catch((releaseErr: any) => {
+        console.error(`Could not release reservation #${reservationId} after a failed pact write: ${releaseErr.reason ?? releaseErr.message}`);
+      });
+      throw err;
+    }
+    if (result.dryRun) return result;
+
+    const pactId = pactIdOf(result);
+    if (pactId !== null) {
+      this.state.links.push({
+        reservationId: reservationId.toString(),
+        pactId: pactId.toString(),
+        sessionKey: this.policy.sessionKey,
+        amount: amount.toString(),
+        status: "active",
+        createdAt: Math.floor(Date.now() / 1000),
+      });
+      this.save();
+    }
+    return { ...result, reservationId };
+  }
+
+  /** Release a linked reservation, or just mark it if it is no longer active on-chain. */
+  private async release(link: ReservationLink, reason: string): Promise<string | undefined> {
+    const onChain = await this.policy.getReservations();
+    if (!onChain.some((r) => r.reservationId.toString() === link.reservationId)) {
+      this.markReleased(link, "released outside this server");
+      return undefined;
+    }
+    const r = await this.policy.releaseBudget(BigInt(link.reservationId));
+    if (r.dryRun) return undefined;
+    this.markReleased(link, reason, r.receipt.hash);
+    console.error(`Released budget reservation #${link.reservationId} for pact #${link.pactId} (${reason}), tx ${r.receipt.hash}`);
+    return r.receipt.hash;
+  }
+
+  private markReleased(link: ReservationLink, reason: string, tx?: string) {
+    link.status = "released";
+    link.releasedAt = Math.floor(Date.now() / 1000);
+    link.releaseReason = reason;
+    if (tx) link.releaseTx = tx;
+    this.save();
+  }
+
+  private requireEth(isNative: boolean, symbol: string) {
+    if (!isNative) {
+      throw new Error(`Budget reservations are in ETH, but this pact is paid in ${symbol}. Create it without reserveBudget.`);
+    }
+  }
+
+  private save() {
+    const released = this.state.links.filter((l) => l.status === "released");
+    if (released.length > HISTORY_LIMIT) {
+      const drop = new Set(released.slice(0, released.length - HISTORY_LIMIT));
+      this.state.links = this.state.links.filter((l) => !drop.has(l));
+    }
+    this.store.save(this.state);
+  }
+
+  private async loop(): Promise<void> {
+    if (!this.running) return;
+    try {
+      await this.check();
+    } catch (err: any) {
+      console.error(`Reservation check failed: ${err.shortMessage ?? err.message}`);
+    }
+    if (this.running) {
+      this.timer = setTimeout(() => void this.loop(), this.config.reservationPollMs);
+      this.timer.unref();
+    }
+  }
+}
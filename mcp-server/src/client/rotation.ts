@@ -0,0 +1,372 @@
+import path from "path";
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { forgetContracts } from "../contracts.js";
+import { SessionSigner, forgetSigner, getProvider, getSigner } from "../provider.js";
+import { JsonFileStore } from "../storage.js";
+import { SpendingTracker } from "../wallet/spending.js";
+import { TxQueue, TxRecord } from "../wallet/tx-queue.js";
+import { WriteOptions, WriteResult } from "./common.js";
+import { OwnerClient } from "./owner.js";
+import { PolicyClient } from "./policy.js";
+import { MovedReservation, PactReservations } from "./reservations.js";
+
+// How often the scheduler compares the key's age with SESSION_KEY_ROTATION_DAYS
+const ROTATION_CHECK_MS = 60 * 60 * 1000;
+
+// Finished rotations kept for reporting
+const HISTORY_LIMIT = 20;
+
+interface StoredKey {
+  address: string;
+  /** The key as an encrypted JSON keystore, under the config's sessionKeyPassphrase. */
+  keystore: string;
+  createdAt: number;
+}
+
+/** A finished rotation, as persisted. */
+export interface RotationRecord {
+  from: string;
+  to: string;
+  rotatedAt: number;
+  grantTx: string | null;
+  fundTx: string | null;
+  sweepTx: string | null;
+  revokeTx: string | null;
+}
+
+interface RotationState {
+  /** Address of the configured SESSION_KEY this state belongs to. */
+  configuredKey: string | null;
+  /** When the key in use was rotated in (or first seen). */
+  since: number;
+  /** The rotated-in key used instead of the configured one. */
+  current: StoredKey | null;
+  /** A generated key that may already be granted but isn't in use yet. */
+  pending: StoredKey | null;
+  history: RotationRecord[];
+}
+
+export interface RotateKeyOptions extends WriteOptions {
+  /** ETH (wei) the owner sends the new key for gas (default: the old key's balance). */
+  fund?: bigint;
+}
+
+export interface RotateKeyResult {
+  oldKey: string;
+  newKey: string;
+  /** Null when resuming with a key an earlier attempt already granted. */
+  grantTx: string | null;
+  fundTx: string | null;
+  /** The old key's pending transactions that were waited for. */
+  drained: TxRecord[];
+  /** The old key's pact reservations, moved to the new key. */
+  reservations: MovedReservation[];
+  sweepTx: string | null;
+  swept: bigint;
+  sweepError: string | null;
+  revokeTx: string;
+}
+
+function rotationStore(config: Config): JsonFileStore<RotationState> {
+  return new JsonFileStore<RotationState>(
+    path.join(config.dataDir, `session-key-${config.chainId}.json`),
+    () => ({ configuredKey: null, since: Math.floor(Date.now() / 1000), current: null, pending: null, history: [] })
+  );
+}
+
+/**
+ * Swap the configured session key (SESSION_KEY, or the unlocked
+ * SESSION_KEYSTORE) for the one a previous rotation left in DATA_DIR, so a
+ * restart keeps signing with the key that is actually granted. State
+ * recorded for a different configured key is ignored — replacing the key
+ * by hand starts over. Loading again into the same config changes nothing.
+ */
+export function loadRotatedSessionKey(config: Config): void {
+  if (!config.sessionKey && !config.sessionKeystoreFile) return;
+  const store = rotationStore(config);
+  const state = store.load();
+  const configured = getSigner(config).address;
+  if (state.current?.address === configured) return;
+  if (state.configuredKey === configured) {
+    if (state.current) config.sessionKey = openKey(state.current, config, store.filePath);
+    return;
+  }
+  save(store, { ...state, configuredKey: configured, since: Math.floor(Date.now() / 1000), current: null, pending: null });
+}
+
+// The file holds (encrypted) private keys: keep it readable by the server's user only
+function save(store: JsonFileStore<RotationState>, state: RotationState): void {
+  store.save(state, 0o600);
+}
+
+/** Decrypt a stored key. Sync: it runs at startup, while the clients are made. */
+function openKey(key: StoredKey, config: Config, file: string): string {
+  if (!config.sessionKeyPassphrase) {
+    throw new Error(
+      `Session key ${key.address} was rotated in and is stored encrypted in ${file}; ` +
+      "give its passphrase on SESSION_KEYSTORE_PASSPHRASE_FD"
+    );
+  }
+  try {
+    return ethers.Wallet.fromEncryptedJsonSync(key.keystore, config.sessionKeyPassphrase).privateKey;
+  } catch (err: any) {
+    throw new Error(`Could not decrypt rotated-in session key ${key.address} in ${file}: ${err.shortMessage ?? err.message}`);
+  }
+}
+
+/**
+ * Session key rotation with no gap in service. A fresh key is generated
+ * locally and granted the old key's exact policy by the module owner, then
+ * funded for gas. The TxQueue drains the old key's pending transactions
+ * and switches to the new key under its lock, so writes arriving meanwhile
+ * simply go out from the new key. Pact reservations are moved over, the old
+ * key's leftover ETH is swept back to the Safe, and the old key is revoked.
+ *
+ * The software spend windows carry over to the new key, but the module's
+ * don't: the grant starts the new key's on-chain windows at zero. Until the
+ * old key's windows would have rolled over, only the software limits (and
+ * the Safe-wide shared budget, if set) count what it already spent.
+ *
+ * The new key is saved in DATA_DIR before it is granted, so a rotation
+ * that stops halfway (e.g. transactions that wouldn't drain) resumes with
+ * the same key when run again. It is saved as an encrypted keystore, under
+ * the session keystore's passphrase or, with a plain SESSION_KEY, one given
+ * on SESSION_KEYSTORE_PASSPHRASE_FD; without either there is no rotating. Rotations run on demand, or once the key is
+ * SESSION_KEY_ROTATION_DAYS old when the scheduler is started.
+ */
+export class SessionKeyRotator {
+  private config: Config;
+  private owner: OwnerClient;
+  private policy: PolicyClient;
+  private queue: TxQueue;
+  private tracker: SpendingTracker;
+  private reservations: PactReservations;
+  private store: JsonFileStore<RotationState>;
+  private rotating = false;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    config: Config,
+    owner: OwnerClient,
+    policy: PolicyClient,
+    queue: TxQueue,
+    tracker: SpendingTracker,
+    reservations: PactReservations
+  ) {
+    this.config = config;
+    this.owner = owner;
+    this.policy = policy;
+    this.queue = queue;
+    this.tracker = tracker;
+    this.reservations = reservations;
+    this.store = rotationStore(config);
+  }
+
+  /** When the key in use was rotated in, the last rotations, and the next scheduled one. */
+  status(): { sessionKey: string; since: number; nextRotationAt: number | null; pendingKey: string | null; history: RotationRecord[] } {
+    const state = this.store.load();
+    const days = this.config.sessionKeyRotationDays;
+    return {
+      sessionKey: this.policy.sessionKey,
+      since: state.since,
+      nextRotationAt: days > 0 ? state.since + Math.floor(days * 86400) : null,
+      pendingKey: state.pending?.address ?? null,
+      history: [...state.history].reverse(),
+    };
+  }
+
+  async rotate(opts: RotateKeyOptions = {}): Promise<WriteResult<RotateKeyResult>> {
+    if (this.rotating) throw new Error("A session key rotation is already running");
+    this.rotating = true;
+    try {
+      return await this.handover(opts);
+    } finally {
+      this.rotating = false;
+    }
+  }
+
+  /** Start rotating on schedule. Returns immediately; a no-op without SESSION_KEY_ROTATION_DAYS. */
+  start(): void {
+    if (this.running || this.config.sessionKeyRotationDays <= 0) return;
+    this.running = true;
+    void this.loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** One pass of the scheduler: rotate if the key is due. */
+  async check(): Promise<void> {
+    const next = this.status().nextRotationAt;
+    if (next === null || Math.floor(Date.now() / 1000) < next) return;
+
+    const r = await this.rotate();
+    if (!r.dryRun) {
+      console.error(`Rotated session key ${r.oldKey} → ${r.newKey} (revoke tx ${r.revokeTx})`);
+    }
+  }
+
+  private async handover(opts: RotateKeyOptions): Promise<WriteResult<RotateKeyResult>> {
+    const oldWallet = getSigner(this.config);
+    if (!(oldWallet instanceof ethers.Wallet)) {
+      throw new Error(
+        "rotate-session-key generates the new key and keeps it in DATA_DIR, so it can't rotate a key held by an external " +
+        "signer. Create the new key there and move the session with owner-rotate-session."
+      );
+    }
+    const passphrase = this.config.sessionKeyPassphrase;
+    if (!passphrase) {
+      throw new Error(
+        "rotate-session-key keeps the keys it generates in DATA_DIR, encrypted with the session keystore's passphrase. " +
+        "Use SESSION_KEYSTORE, or give a passphrase for them on SESSION_KEYSTORE_PASSPHRASE_FD."
+      );
+    }
+    const provider = getProvider(this.config);
+    const oldKey = oldWallet.address;
+    const old = await this.policy.getSession(oldKey);
+    if (!old.active) throw new Error(`Session key ${oldKey} is not active, so there is no policy to hand over`);
+    const { active: _active, ...policy } = old;
+
+    if (opts.dryRun || this.config.dryRun) {
+      const newKey = this.store.load().pending?.address ?? ethers.Wallet.createRandom().address;
+      const [grant, revoke] = await Promise.all([
+        this.owner.grantSession({ ...policy, sessionKey: newKey }, { dryRun: true }),
+        this.owner.revokeSession(oldKey, { dryRun: true }),
+      ]);
+      return { dryRun: true, simulations: [...(grant.dryRun ? grant.simulations : []), ...(revoke.dryRun ? revoke.simulations : [])] };
+    }
+
+    // Save the new key before granting it, so a failed rotation can resume
+    let state = this.store.load();
+    let nextKey: string;
+    if (!state.pending) {
+      const wallet = ethers.Wallet.createRandom();
+      state.pending = { address: wallet.address, keystore: await wallet.encrypt(passphrase), createdAt: Math.floor(Date.now() / 1000) };
+      save(this.store, state);
+      nextKey = wallet.privateKey;
+    } else {
+      nextKey = (await ethers.Wallet.fromEncryptedJson(state.pending.keystore, passphrase)).privateKey;
+    }
+    const next = state.pending;
+
+    let grantTx: string | null = null;
+    if (!(await this.policy.getSession(next.address)).active) {
+      const granted = await this.owner.grantSession({ ...policy, sessionKey: next.address });
+      if (!granted.dryRun) grantTx = granted.receipt.hash;
+    }
+
+    let fundTx: string | null = null;
+    const fund = opts.fund ?? (await provider.getBalance(oldKey));
+    const balance = await provider.getBalance(next.address);
+    if (balance < fund) {
+      fundTx = (await this.owner.fundSessionKey(next.address, fund - balance)).hash;
+    }
+
+    const drained = await this.queue.handover(() => {
+      forgetContracts(this.config);
+      forgetSigner(this.config);
+      this.config.sessionKey = nextKey;
+      this.tracker.switchKey(next.address);
+
+      state = this.store.load();
+      save(this.store, { ...state, current: next, pending: null, since: Math.floor(Date.now() / 1000) });
+    });
+
+    const reservations = await this.reservations.handover(oldKey, this.owner);
+
+    let sweepTx: string | null = null;
+    let swept = 0n;
+    let sweepError: string | null = null;
+    try {
+      ({ hash: sweepTx, amount: swept } = await this.sweep(oldWallet));
+    } catch (err: any) {
+      sweepError = err.reason ?? err.message;
+    }
+
+    const record: RotationRecord = {
+      from: oldKey,
+      to: next.address,
+      rotatedAt: Math.floor(Date.now() / 1000),
+      grantTx,
+      fundTx,
+      sweepTx,
+      revokeTx: null,
+    };
+    try {
+      const revoked = await this.owner.revokeSession(oldKey);
+      if (!revoked.dryRun) record.revokeTx = revoked.receipt.hash;
+    } catch (err: any) {
+      throw new Error(
+        `Switched to ${next.address}, but revoking ${oldKey} failed: ${err.reason ?? err.message}. ` +
+        `The old key is still active; revoke it with owner-revoke-session.`
+      );
+    } finally {
+      this.record(record);
+    }
+
+    return {
+      dryRun: false,
+      oldKey,
+      newKey: next.address,
+      grantTx,
+      fundTx,
+      drained,
+      reservations,
+      sweepTx,
+      swept,
+      sweepError,
+      revokeTx: record.revokeTx!,
+    };
+  }
+
+  /** Send everything but the transfer's own gas from the old key to the Safe. */
+  private async sweep(oldWallet: SessionSigner): Promise<{ hash: string | null; amount: bigint }> {
+    const provider = getProvider(this.config);
+    // The Safe's receive() emits an event, so this costs more than a plain transfer
+    const [balance, feeData, gasLimit] = await Promise.all([
+      provider.getBalance(oldWallet.address),
+      provider.getFeeData(),
+      provider.estimateGas({ from: oldWallet.address, to: this.config.safeAddress, value: 1n }),
+    ]);
+    const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    const priorityFee = feeData.maxPriorityFeePerGas ?? 0n;
+    const amount = balance - gasLimit * maxFeePerGas;
+    if (amount <= 0n) return { hash: null, amount: 0n };
+
+    const tx = await oldWallet.sendTransaction({
+      to: this.config.safeAddress,
+      value: amount,
+      gasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas: priorityFee < maxFeePerGas ? priorityFee : maxFeePerGas,
+    });
+    await tx.wait(1, this.config.txConfirmTimeoutSec * 1000);
+    return { hash: tx.hash, amount };
+  }
+
+  private record(r: RotationRecord): void {
+    const state = this.store.load();
+    state.history = [...state.history, r].slice(-HISTORY_LIMIT);
+    save(this.store, state);
+  }
+
+  private async loop(): Promise<void> {
+    if (!this.running) return;
+    try {
+      await this.check();
+    } catch (err: any) {
+      console.error(`Scheduled session key rotation failed: ${err.reason ?? err.message}`);
+    }
+    if (this.running) {
+      this.timer = setTimeout(() => void this.loop(), ROTATION_CHECK_MS);
+      this.timer.unref();
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import { ethers } from "ethers";
+import { getOracleRouter, getPolicyModule } from "../contracts.js";
+import { getSigner } from "../provider.js";
+import { SimulationResult } from "../wallet/safe-executor.js";
+import { TokenInfo, getTokenInfo } from "../tokens.js";
+import { ORACLE_ROUTER_ABI } from "../abis.js";
+import {
+  Amount,
+  BaseClient,
+  JobStatus,
+  ProofResult,
+  SafeCall,
+  TxResult,
+  WriteOptions,
+  WriteResult,
+  categoryHash,
+  jobStatusName,
+  toBaseUnits,
+  toBytes32,
+} from "./common.js";
+
+const routerIface = new ethers.Interface(ORACLE_ROUTER_ABI);
+
+export interface JobDetails {
+  jobId: bigint;
+  pactId: bigint;
+  pactContract: string;
+  /** Category ID (keccak256 of the category name). */
+  category: string;
+  specHash: string;
+  /** Assigned validator, or null while the job is unassigned. */
+  assignedValidator: string | null;
+  /** Fee in base units of `token`. */
+  fee: bigint;
+  token: TokenInfo;
+  requestedAt: number;
+  deadline: number;
+  status: JobStatus | `UNKNOWN(${number})`;
+  score: number;
+  proof: string;
+}
+
+export interface TokenAmount {
+  token: TokenInfo;
+  amount: bigint;
+}
+
+export interface ValidatorDetails {
+  address: string;
+  isActive: boolean;
+  stake: bigint;
+  completedJobs: number;
+  failedJobs: number;
+  /** Sum of earnings across all fee tokens, in their raw base units. */
+  totalEarned: bigint;
+  endpoint: string;
+  categoryCount: number;
+  pendingEarnings: TokenAmount[];
+}
+
+export interface CategoryValidator {
+  address: string;
+  stake: bigint;
+  completed: number;
+  failed: number;
+  /** True for the validator the router would pick for this category. */
+  recommended: boolean;
+}
+
+export interface RouterStats {
+  jobCount: bigint;
+  validatorCount: bigint;
+  minValidatorStake: bigint;
+  routerFeeBps: number;
+  defaultJobTimeout: number;
+}
+
+export interface RequestVerificationParams {
+  pactId: bigint | number;
+  /** Category name, e.g. "code-review". */
+  category: string;
+  /** bytes32 hex, or any other string to be hashed. */
+  specHash: string;
+  fee: Amount;
+  /** ERC-20 fee token, or the zero address (default) for native ETH. */
+  feeToken?: string;
+}
+
+export interface RequestVerificationResult extends TxResult {
+  token: TokenInfo;
+  fee: bigint;
+}
+
+export interface ClaimEarningsResult {
+  /** One claim transaction per token; empty if nothing was pending. */
+  claims: (TokenAmount & TxResult)[];
+}
+
+/**
+ * Typed client for OracleRouter, acting as the configured Safe — both as a
+ * requester paying verification fees and as a validator.
+ */
+export class RouterClient extends BaseClient {
+  // ──────────────────────────────────────────────
+  // Reads
+  // ──────────────────────────────────────────────
+
+  async getJob(jobId: bigint | number): Promise<JobDetails> {
+    const j = await getOracleRouter(this.config).getJob(jobId);
+    return {
+      jobId: BigInt(jobId),
+      pactId: j.pactId,
+      pactContract: j.pactContract,
+      category: j.category,
+      specHash: j.specHash,
+      assignedValidator: j.assignedValidator === ethers.ZeroAddress ? null : j.assignedValidator,
+      fee: j.fee,
+      token: await getTokenInfo(this.config, j.paymentToken),
+      requestedAt: Number(j.requestedAt),
+      deadline: Number(j.deadline),
+      status: jobStatusName(j.status),
+      score: Number(j.score),
+      proof: j.proof,
+    };
+  }
+
+  /**
+   * Tokens to look at for validator earnings. The router keeps earnings per
+   * token without an index, so unless tokens are given explicitly this checks
+   * native ETH plus the session's allowedTokens.
+   */
+  async earningsTokens(tokens?: string[]): Promise<string[]> {
+    if (tokens && tokens.length > 0) return tokens;
+    const session = await getPolicyModule(this.config).getSession(getSigner(this.config).address);
+    return [ethers.ZeroAddress, ...session.allowedTokens];
+  }
+
+  /** Pending earnings of `validator` per token (see `earningsTokens` for the default set). */
+  async getPendingEarnings(validator: string, tokens?: string[]): Promise<TokenAmount[]> {
+    const router = getOracleRouter(this.config);
+    return Promise.all((await this.earningsTokens(tokens)).map(async (t) => ({
+      token: await getTokenInfo(this.config, t),
+      amount: await router.pendingEarnings(validator, t),
+    })));
+  }
+
+  async getValidator(address: string, tokens?: string[]): Promise<ValidatorDetails> {
+    const router = getOracleRouter(this.config);
+    const [v, categories, pendingEarnings] = await Promise.all([
+      router.getValidatorInfo(address),
+      router.getValidatorCategories(address),
+      this.getPendingEarnings(address, tokens),
+    ]);
+    return {
+      address,
+      isActive: v.isActive,
+      stake: v.stake,
+      completedJobs: Number(v.completedJobs),
+      failedJobs: Number(v.failedJobs),
+      totalEarned: v.totalEarned,
+      endpoint: v.endpoint,
+      categoryCount: categories.length,
+      pendingEarnings,
+    };
+  }
+
+  async findValidators(category: string): Promise<CategoryValidator[]> {
+    const router = getOracleRouter(this.config);
+    const catHash = categoryHash(category);
+    const [addresses, stakes, completed, failed] = await router.getValidatorsForCategory(catHash);
+    if (addresses.length === 0) return [];
+
+    const best = await router.getBestValidator(catHash);
+    return addresses.map((address, i) => ({
+      address,
+      stake: stakes[i],
+      completed: Number(completed[i]),
+      failed: Number(failed[i]),
+      recommended: address === best,
+    }));
+  }
+
+  async getStats(): Promise<RouterStats> {
+    const router = getOracleRouter(this.config);
+    const [jobCount, validatorCount, minValidatorStake, feeBps, timeout] = await Promise.all([
+      router.nextJobId(),
+      router.getValidatorCount(),
+      router.minValidatorStake(),
+      router.routerFeeBps(),
+      router.defaultJobTimeout(),
+    ]);
+    return {
+      jobCount,
+      validatorCount,
+      minValidatorStake,
+      routerFeeBps: Number(feeBps),
+      defaultJobTimeout: Number(timeout),
+    };
+  }
+
+  // ──────────────────────────────────────────────
+  // Validator side
+  // ──────────────────────────────────────────────
+
+  /** Register the Safe as a validator for `categories`. `stake` is in ETH. */
+  async registerValidator(
+    categories: string[],
+    endpoint: string,
+    stake: Amount,
+    opts: WriteOptions = {}
+  ): Promise<WriteResult<TxResult>> {
+    const value = typeof stake === "bigint" ? stake : ethers.parseEther(stake);
+    const data = routerIface.encodeFunctionData("registerValidator", [categories.map(categoryHash), endpoint]);
+    return this.run({ target: this.config.oracleRouterAddress, value, data }, opts, (receipt) => ({ receipt }));
+  }
+
+  async deactivateValidator(opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.routerCall("deactivateValidator", []), opts, (receipt) => ({ receipt }));
+  }
+
+  async claimJob(jobId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.routerCall("claimJob", [jobId]), opts, (receipt) => ({ receipt }));
+  }
+
+  async submitValidation(
+    jobId: bigint | number,
+    score: number,
+    proof: string,
+    opts: WriteOptions = {}
+  ): Promise<WriteResult<ProofResult>> {
+    const proofHash = toBytes32(proof);
+    const call = this.routerCall("submitValidation", [jobId, score, proofHash]);
+    return this.run(call, opts, (receipt) => ({ receipt, proofHash }));
+  }
+
+  /**
+   * Claim the Safe's pending earnings, one transaction per token with a
+   * non-zero balance. Checks `token` only if given, otherwise the
+   * `earningsTokens` default set.
+   */
+  async claimEarnings(token?: string, opts: WriteOptions = {}): Promise<WriteResult<ClaimEarningsResult>> {
+    const pending = await this.getPendingEarnings(this.config.safeAddress, token ? [token] : undefined);
+    const claimable = pending.filter((e) => e.amount > 0n);
+
+    if (this.isDryRun(opts)) {
+      const simulations: SimulationResult[] = [];
+      for (const e of claimable) {
+        simulations.push(...await this.simulateCall(this.routerCall("claimEarnings", [e.token.address])));
+      }
+      return { dryRun: true, simulations };
+    }
+
+    const claims: ClaimEarningsResult["claims"] = [];
+    for (const e of claimable) {
+      claims.push({ ...e, receipt: await this.sendCall(this.routerCall("claimEarnings", [e.token.address])) });
+    }
+    return { dryRun: false, claims };
+  }
+
+  // ──────────────────────────────────────────────
+  // Requester side
+  // ──────────────────────────────────────────────
+
+  /**
+   * Request verification of a pact. Token fees are charged from whatever the
+   * Safe has approved to the router, so the allowance is set to the fee exactly.
+   */
+  async requestVerification(
+    params: RequestVerificationParams,
+    opts: WriteOptions = {}
+  ): Promise<WriteResult<RequestVerificationResult>> {
+    const token = await getTokenInfo(this.config, params.feeToken ?? ethers.ZeroAddress);
+    const fee = toBaseUnits(params.fee, token);
+    const target = this.config.oracleRouterAddress;
+    const data = routerIface.encodeFunctionData("requestVerification", [
+      this.config.agentPactAddress,
+      params.pactId,
+      categoryHash(params.category),
+      toBytes32(params.specHash),
+      token.address,
+    ]);
+
+    const call: SafeCall = token.isNative
+      ? { target, value: fee, data }
+      : { target, value: 0n, data, approval: { token, spender: target, amount: fee, exactAllowance: true } };
+    return this.run(call, opts, (receipt) => ({ receipt, token, fee }));
+  }
+
+  /** Expire a job whose validator missed its deadline, making it reassignable. */
+  async expireJob(jobId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.routerCall("expireJob", [jobId]), opts, (receipt) => ({ receipt }));
+  }
+
+  /** Cancel a job and refund its fee (requester or router owner only). */
+  async cancelJob(jobId: bigint | number, opts: WriteOptions = {}): Promise<WriteResult<TxResult>> {
+    return this.run(this.routerCall("cancelJob", [jobId]), opts, (receipt) => ({ receipt }));
+  }
+
+  private routerCall(fn: string, args: unknown[]): SafeCall {
+    return { target: this.config.oracleRouterAddress, value: 0n, data: routerIface.encodeFunctionData(fn, args) };
+  }
+}
@@ -1,9 +1,39 @@
 import dotenv from "dotenv";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import { NetworkSettings, loadNetwork } from "./networks.js";
 dotenv.config();
 
+export const TOOL_PROFILES = ["buyer", "seller", "validator", "arbitrator", "owner"] as const;
+export type ToolProfile = (typeof TOOL_PROFILES)[number];
+
+/** What TOOL_PROFILE=all covers: every role but owner, which must be named. */
+export const ALL_TOOL_PROFILES: ToolProfile[] = TOOL_PROFILES.filter((p) => p !== "owner");
+
+/** Software spending limits for one ERC-20 token, in whole units of the token. */
+export interface TokenLimit {
+  perTx: string;
+  daily: string;
+  weekly: string;
+}
+
 export interface Config {
+  /** Session key of the default tenant ("" when only TENANTS_FILE tenants are served, or it comes from a keystore or external signer). */
   sessionKey: string;
+  /** Encrypted JSON keystore holding the session key, instead of SESSION_KEY. */
+  sessionKeystoreFile: string | null;
+  /** File descriptor the keystore passphrase is read from (null = prompt on the terminal). */
+  sessionKeystorePassphraseFd: number | null;
+  /** Passphrase rotated-in session keys are encrypted with in DATA_DIR; set by unlockSigner. */
+  sessionKeyPassphrase: string | null;
+  /** JSON-RPC endpoint of an external signer (Clef-style) holding the session key, instead of SESSION_KEY. */
+  signerUrl: string | null;
+  /** Account of the external signer to sign with (null = its first account). */
+  signerAccount: string | null;
   safeAddress: string;
+  /** Network profile the chain, RPC and addresses came from (null = environment only). */
+  network: string | null;
   rpcUrl: string;
   agentPactAddress: string;
   oracleRegistryAddress: string;
@@ -12,6 +42,63 @@ export interface Config {
   chainId: number;
   maxPerTxEth: string;
   maxDailyEth: string;
+  maxWeeklyEth: string;
+  /** ERC-20 token address (lowercase) → software limits. */
+  tokenLimits: Map<string, TokenLimit>;
+  dryRun: boolean;
+  dataDir: string;
+  indexerEnabled: boolean;
+  indexerStartBlock: number;
+  indexerPollMs: number;
+  indexerBatchSize: number;
+  txConfirmTimeoutSec: number;
+  maxFeeGwei: string | null;
+  maxPriorityFeeGwei: string | null;
+  feeBumpPercent: number;
+  transport: "stdio" | "http";
+  httpHost: string;
+  httpPort: number;
+  /** Bearer token → client ID for HTTP clients. */
+  authTokens: Map<string, string>;
+  tlsCertFile: string | null;
+  tlsKeyFile: string | null;
+  /** CA bundle for verifying client certificates (mTLS). */
+  tlsClientCaFile: string | null;
+  allowedHosts: string[];
+  sessionIdleSec: number;
+  tenantsFile: string | null;
+  /** Client IDs served by the env ("default") tenant alongside a tenants file. */
+  defaultTenantClients: string[];
+  /** Tenant served over stdio when several are configured. */
+  tenant: string | null;
+  /** Roles whose tools are registered (null = all: every role but owner). */
+  toolProfile: ToolProfile[] | null;
+  /** What to do with tools the session's on-chain allowlists would reject. */
+  toolPolicyCheck: "hide" | "flag" | "off";
+  /** Startup health check: abort on failures, log them, or skip. */
+  healthCheck: "fail" | "warn" | "off";
+  minSessionGasEth: string;
+  /** Warn when the session expires within this many seconds. */
+  sessionExpiryWarnSec: number;
+  watchdogEnabled: boolean;
+  watchdogPollMs: number;
+  /** How often linked pacts are checked to release their budget reservations (0 = never). */
+  reservationPollMs: number;
+  /** Loopback port of the owner-facing approval page and API (0 = disabled). */
+  approvalHttpPort: number;
+  /** Write tools that ask the human to confirm via MCP elicitation → minimum amount (null = always). */
+  confirmTools: Map<string, string | null>;
+  /** What to do when a confirmation is required but the client can't elicit. */
+  confirmFallback: "deny" | "allow";
+  confirmTimeoutSec: number;
+  /** YAML/JSON rules the PolicyChecker evaluates before every write. */
+  policyRulesFile: string | null;
+  /** Key of the AgentPolicyModule owner; the owner tools need it and the owner tool profile. */
+  moduleOwnerKey: string | null;
+  /** YAML/JSON session templates for owner-grant-session, on top of the built-in ones. */
+  sessionTemplatesFile: string | null;
+  /** Rotate the session key once it is this many days old (0 = only on demand). Needs moduleOwnerKey. */
+  sessionKeyRotationDays: number;
 }
 
 function requireEnv(name: string): string {
@@ -22,17 +109,237 @@ function requireEnv(name: string): string {
   return value;
 }
 
-export function loadConfig(): Config {
+/** Validate an address (and its checksum, if mixed-case), returning the checksum form. */
+function checksumAddress(name: string, value: string): string {
+  try {
+    return ethers.getAddress(value);
+  } catch {
+    throw new Error(`Invalid ${name}: ${value} is not a valid address (or its checksum is wrong)`);
+  }
+}
+
+/** A contract address from the environment, else from the selected network's manifest or profile. */
+function contractAddress(name: string, fromNetwork: string | undefined, network: NetworkSettings | null): string {
+  const value = process.env[name];
+  if (value) return checksumAddress(name, value);
+  if (fromNetwork) return fromNetwork;
+  if (!network) return requireEnv(name);
+  const where = network.manifest ?? "no deployment manifest found — run scripts/deploy.ts";
+  throw new Error(`Missing ${name}: network ${network.name} has no address for it (${where}), and it is not set in the environment`);
+}
+
+/**
+ * The network profile to use: `--network <name>` on the command line,
+ * else the NETWORK environment variable. Null = configure the chain, RPC
+ * and contract addresses from the environment alone.
+ */
+export function selectedNetwork(argv: string[] = process.argv.slice(2)): string | null {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--network") {
+      if (!argv[i + 1]) throw new Error("--network needs a network name");
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith("--network=")) return argv[i].slice("--network=".length);
+  }
+  return process.env.NETWORK || null;
+}
+
+/** Parse MCP_AUTH_TOKENS: comma-separated `clientId:token` pairs. */
+function parseAuthTokens(raw: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const entry of (raw ?? "").split(",").map((e) => e.trim()).filter(Boolean)) {
+    const sep = entry.indexOf(":");
+    if (sep <= 0 || sep === entry.length - 1) {
+      throw new Error(`Invalid MCP_AUTH_TOKENS entry (expected clientId:token): ${entry.slice(0, sep > 0 ? sep : 8)}...`);
+    }
+    tokens.set(entry.slice(sep + 1), entry.slice(0, sep));
+  }
+  return tokens;
+}
+
+function parseTransport(raw: string | undefined): Config["transport"] {
+  const transport = raw ?? "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Invalid MCP_TRANSPORT: ${transport} (expected stdio or http)`);
+  }
+  return transport;
+}
+
+/**
+ * Parse TOOL_PROFILE: a comma-separated list of roles, or "all". The owner
+ * tools manage sessions, so "all" leaves them out: ask for them by name,
+ * e.g. `all,owner`.
+ */
+export function parseToolProfile(raw: string | undefined): ToolProfile[] | null {
+  if (!raw || raw.trim() === "all") return null;
+  const profiles = new Set<ToolProfile>();
+  for (const p of raw.split(",").map((p) => p.trim()).filter(Boolean)) {
+    if (p === "all") {
+      ALL_TOOL_PROFILES.forEach((a) => profiles.add(a));
+    } else if ((TOOL_PROFILES as readonly string[]).includes(p)) {
+      profiles.add(p as ToolProfile);
+    } else {
+      throw new Error(`Invalid tool profile: ${p} (expected all or a list of ${TOOL_PROFILES.join(", ")})`);
+    }
+  }
+  return [...profiles];
+}
+
+/**
+ * Parse TOKEN_LIMITS: comma-separated `<token address>=<perTx>/<daily>/<weekly>`
+ * entries, amounts in whole units of the token (`0x833…=100/500/2000`).
+ */
+export function parseTokenLimits(raw: string | undefined): Map<string, TokenLimit> {
+  const limits = new Map<string, TokenLimit>();
+  for (const entry of (raw ?? "").split(",").map((e) => e.trim()).filter(Boolean)) {
+    const match = entry.match(/^(0x[0-9a-fA-F]{40})\s*=\s*(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/);
+    if (!match) {
+      throw new Error(`Invalid TOKEN_LIMITS entry: ${entry} (expected <token address>=<perTx>/<daily>/<weekly>)`);
+    }
+    checksumAddress("TOKEN_LIMITS token", match[1]);
+    limits.set(match[1].toLowerCase(), { perTx: match[2], daily: match[3], weekly: match[4] });
+  }
+  return limits;
+}
+
+function parseToolPolicyCheck(raw: string | undefined): Config["toolPolicyCheck"] {
+  const mode = raw ?? "hide";
+  if (mode !== "hide" && mode !== "flag" && mode !== "off") {
+    throw new Error(`Invalid TOOL_POLICY_CHECK: ${mode} (expected hide, flag or off)`);
+  }
+  return mode;
+}
+
+/**
+ * Parse CONFIRM_TOOLS: comma-separated tool names, each optionally with a
+ * minimum amount in units of the tool's payment token (`create-pact>1`).
+ * Empty or "none" disables confirmations.
+ */
+function parseConfirmTools(raw: string): Map<string, string | null> {
+  const tools = new Map<string, string | null>();
+  if (raw.trim() === "none") return tools;
+  for (const entry of raw.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [tool, min] = entry.split(">").map((p) => p.trim());
+    if (!tool || (min !== undefined && !/^\d+(\.\d+)?$/.test(min))) {
+      throw new Error(`Invalid CONFIRM_TOOLS entry: ${entry} (expected tool or tool>amount)`);
+    }
+    tools.set(tool, min ?? null);
+  }
+  return tools;
+}
+
+function parseConfirmFallback(raw: string | undefined): Config["confirmFallback"] {
+  const mode = raw ?? "deny";
+  if (mode !== "deny" && mode !== "allow") {
+    throw new Error(`Invalid CONFIRM_FALLBACK: ${mode} (expected deny or allow)`);
+  }
+  return mode;
+}
+
+/** SAFE_ADDRESS, else the network profile's; required with a session key. */
+function safeAddress(required: boolean, network: NetworkSettings | null): string {
+  if (process.env.SAFE_ADDRESS) return checksumAddress("SAFE_ADDRESS", process.env.SAFE_ADDRESS);
+  if (network?.safeAddress) return network.safeAddress;
+  return required ? requireEnv("SAFE_ADDRESS") : "";
+}
+
+function parseHealthCheck(raw: string | undefined): Config["healthCheck"] {
+  const mode = raw ?? "warn";
+  if (mode !== "fail" && mode !== "warn" && mode !== "off") {
+    throw new Error(`Invalid HEALTH_CHECK: ${mode} (expected fail, warn or off)`);
+  }
+  return mode;
+}
+
+/**
+ * Load the config from the environment. With a network profile (the
+ * server passes `selectedNetwork()`; by default NETWORK), the chain ID, RPC URL and contract addresses come
+ * from the profile and its deployment manifest; RPC_URL and the *_ADDRESS
+ * variables still override them, and CHAIN_ID must agree.
+ */
+export function loadConfig(networkName: string | null = process.env.NETWORK || null): Config {
+  const network = networkName ? loadNetwork(networkName, process.env.CONFIG_FILE ?? null) : null;
+  if (network && process.env.CHAIN_ID && parseInt(process.env.CHAIN_ID) !== network.chainId) {
+    throw new Error(`CHAIN_ID=${process.env.CHAIN_ID} conflicts with network ${network.name} (chain ${network.chainId})`);
+  }
+
+  // With a tenants file the env session key is optional — it only adds a "default" tenant
+  const tenantsFile = process.env.TENANTS_FILE ?? null;
+  const sessionKey = process.env.SESSION_KEY ?? "";
+  const sessionKeystoreFile = process.env.SESSION_KEYSTORE ?? null;
+  const signerUrl = process.env.SESSION_SIGNER_URL ?? null;
+  const sources = [sessionKey, sessionKeystoreFile, signerUrl].filter(Boolean).length;
+  if (sources > 1) {
+    throw new Error("Set only one of SESSION_KEY, SESSION_KEYSTORE or SESSION_SIGNER_URL");
+  }
+  if (sources === 0 && !tenantsFile) {
+    throw new Error("Missing required environment variable: SESSION_KEY (or SESSION_KEYSTORE / SESSION_SIGNER_URL)");
+  }
+  // Rotated-in keys are stored encrypted, so a scheduled rotation needs a passphrase up front
+  if (parseFloat(process.env.SESSION_KEY_ROTATION_DAYS ?? "0") > 0 && !sessionKeystoreFile && !process.env.SESSION_KEYSTORE_PASSPHRASE_FD) {
+    throw new Error(
+      "SESSION_KEY_ROTATION_DAYS needs SESSION_KEYSTORE, or a passphrase for the rotated-in keys on SESSION_KEYSTORE_PASSPHRASE_FD"
+    );
+  }
+
   return {
-    sessionKey: requireEnv("SESSION_KEY"),
-    safeAddress: requireEnv("SAFE_ADDRESS"),
-    rpcUrl: process.env.RPC_URL ?? "https://sepolia.base.org",
-    agentPactAddress: requireEnv("AGENT_PACT_ADDRESS"),
-    oracleRegistryAddress: requireEnv("ORACLE_REGISTRY_ADDRESS"),
-    oracleRouterAddress: requireEnv("ORACLE_ROUTER_ADDRESS"),
-    policyModuleAddress: requireEnv("POLICY_MODULE_ADDRESS"),
-    chainId: parseInt(process.env.CHAIN_ID ?? "84532"),
+    sessionKey,
+    sessionKeystoreFile,
+    sessionKeystorePassphraseFd: process.env.SESSION_KEYSTORE_PASSPHRASE_FD ? parseInt(process.env.SESSION_KEYSTORE_PASSPHRASE_FD) : null,
+    sessionKeyPassphrase: null,
+    signerUrl,
+    signerAccount: process.env.SESSION_SIGNER_ACCOUNT ?? null,
+    safeAddress: safeAddress(sources > 0, network),
+    network: network?.name ?? null,
+    rpcUrl: process.env.RPC_URL ?? network?.rpcUrl ?? "https://sepolia.base.org",
+    agentPactAddress: contractAddress("AGENT_PACT_ADDRESS", network?.contracts.agentPact, network),
+    oracleRegistryAddress: contractAddress("ORACLE_REGISTRY_ADDRESS", network?.contracts.oracleRegistry, network),
+    oracleRouterAddress: contractAddress("ORACLE_ROUTER_ADDRESS", network?.contracts.oracleRouter, network),
+    policyModuleAddress: contractAddress("POLICY_MODULE_ADDRESS", network?.contracts.policyModule, network),
+    chainId: network?.chainId ?? parseInt(process.env.CHAIN_ID ?? "84532"),
     maxPerTxEth: process.env.MAX_PER_TX_ETH ?? "0.5",
     maxDailyEth: process.env.MAX_DAILY_ETH ?? "2.0",
+    maxWeeklyEth: process.env.MAX_WEEKLY_ETH ?? "10.0",
+    tokenLimits: parseTokenLimits(process.env.TOKEN_LIMITS),
+    dryRun: process.env.DRY_RUN === "true",
+    dataDir: process.env.DATA_DIR ?? path.join(os.homedir(), ".agent-pact"),
+    indexerEnabled: process.env.INDEXER_ENABLED === "true",
+    indexerStartBlock: process.env.INDEXER_START_BLOCK ? parseInt(process.env.INDEXER_START_BLOCK) : network?.deployBlock ?? 0,
+    indexerPollMs: parseInt(process.env.INDEXER_POLL_MS ?? "4000"),
+    indexerBatchSize: parseInt(process.env.INDEXER_BATCH_SIZE ?? "2000"),
+    txConfirmTimeoutSec: parseInt(process.env.TX_CONFIRM_TIMEOUT_SEC ?? "180"),
+    maxFeeGwei: process.env.MAX_FEE_GWEI ?? null,
+    maxPriorityFeeGwei: process.env.MAX_PRIORITY_FEE_GWEI ?? null,
+    feeBumpPercent: parseInt(process.env.FEE_BUMP_PERCENT ?? "20"),
+    transport: parseTransport(process.env.MCP_TRANSPORT),
+    httpHost: process.env.MCP_HTTP_HOST ?? "127.0.0.1",
+    httpPort: parseInt(process.env.MCP_HTTP_PORT ?? "3333"),
+    authTokens: parseAuthTokens(process.env.MCP_AUTH_TOKENS),
+    tlsCertFile: process.env.MCP_TLS_CERT ?? null,
+    tlsKeyFile: process.env.MCP_TLS_KEY ?? null,
+    tlsClientCaFile: process.env.MCP_TLS_CLIENT_CA ?? null,
+    allowedHosts: (process.env.MCP_ALLOWED_HOSTS ?? "").split(",").map((h) => h.trim()).filter(Boolean),
+    sessionIdleSec: parseInt(process.env.MCP_SESSION_IDLE_SEC ?? "1800"),
+    tenantsFile,
+    defaultTenantClients: (process.env.DEFAULT_TENANT_CLIENTS ?? "").split(",").map((c) => c.trim()).filter(Boolean),
+    tenant: process.env.MCP_TENANT ?? null,
+    toolProfile: parseToolProfile(process.env.TOOL_PROFILE),
+    toolPolicyCheck: parseToolPolicyCheck(process.env.TOOL_POLICY_CHECK),
+    healthCheck: parseHealthCheck(process.env.HEALTH_CHECK),
+    minSessionGasEth: process.env.MIN_SESSION_GAS_ETH ?? "0.002",
+    sessionExpiryWarnSec: parseInt(process.env.SESSION_EXPIRY_WARN_SEC ?? "86400"),
+    watchdogEnabled: process.env.WATCHDOG_ENABLED !== "false",
+    watchdogPollMs: parseInt(process.env.WATCHDOG_POLL_MS ?? "30000"),
+    reservationPollMs: parseInt(process.env.RESERVATION_POLL_MS ?? "30000"),
+    approvalHttpPort: parseInt(process.env.APPROVAL_HTTP_PORT ?? "0"),
+    confirmTools: parseConfirmTools(
+      process.env.CONFIRM_TOOLS ?? "approve-work,resolve-dispute,create-pact>1,router-deactivate-validator"
+    ),
+    confirmFallback: parseConfirmFallback(process.env.CONFIRM_FALLBACK),
+    confirmTimeoutSec: parseInt(process.env.CONFIRM_TIMEOUT_SEC ?? "300"),
+    policyRulesFile: process.env.POLICY_RULES_FILE ?? null,
+    moduleOwnerKey: process.env.MODULE_OWNER_KEY ?? null,
+    sessionTemplatesFile: process.env.SESSION_TEMPLATES_FILE ?? null,
+    sessionKeyRotationDays: parseFloat(process.env.SESSION_KEY_ROTATION_DAYS ?? "0"),
   };
 }
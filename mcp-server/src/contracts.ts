@@ -1,41 +1,63 @@
 import { ethers } from "ethers";
 import { Config } from "./config.js";
-import { getSigner } from "./provider.js";
-import { AGENT_PACT_ABI, ORACLE_REGISTRY_ABI, AGENT_POLICY_MODULE_ABI } from "./abis.js";
-
-let agentPact: ethers.Contract | null = null;
-let oracleRegistry: ethers.Contract | null = null;
-let policyModule: ethers.Contract | null = null;
-
-export function getAgentPact(config: Config): ethers.Contract {
-  if (!agentPact) {
-    agentPact = new ethers.Contract(
-      config.agentPactAddress,
-      AGENT_PACT_ABI,
-      getSigner(config)
-    );
+import { getRunner, signerId } from "./provider.js";
+import {
+  AgentPact,
+  AgentPact__factory,
+  OracleRegistry,
+  OracleRegistry__factory,
+  OracleRouter,
+  OracleRouter__factory,
+  AgentPolicyModule,
+  AgentPolicyModule__factory,
+  IERC20Metadata,
+  IERC20Metadata__factory,
+  IGnosisSafe,
+  IGnosisSafe__factory,
+} from "./typechain/index.js";
+
+// Contract instances are bound to a runner, so they are cached per
+// (address, session key) — each tenant gets its own signer-connected copy
+const instances = new Map<string, unknown>();
+
+function cached<T>(config: Config, address: string, connect: (address: string, runner: ethers.ContractRunner) => T): T {
+  const key = `${signerId(config)}|${address.toLowerCase()}`;
+  let instance = instances.get(key) as T | undefined;
+  if (!instance) {
+    instance = connect(address, getRunner(config));
+    instances.set(key, instance);
   }
-  return agentPact;
+  return instance;
 }
 
-export function getOracleRegistry(config: Config): ethers.Contract {
-  if (!oracleRegistry) {
-    oracleRegistry = new ethers.Contract(
-      config.oracleRegistryAddress,
-      ORACLE_REGISTRY_ABI,
-      getSigner(config)
-    );
+/** Drop the instances bound to the config's session key, once it has been rotated out. */
+export function forgetContracts(config: Config): void {
+  const prefix = `${signerId(config)}|`;
+  for (const key of [...instances.keys()]) {
+    if (key.startsWith(prefix)) instances.delete(key);
   }
-  return oracleRegistry;
 }
 
-export function getPolicyModule(config: Config): ethers.Contract {
-  if (!policyModule) {
-    policyModule = new ethers.Contract(
-      config.policyModuleAddress,
-      AGENT_POLICY_MODULE_ABI,
-      getSigner(config)
-    );
-  }
-  return policyModule;
+export function getAgentPact(config: Config): AgentPact {
+  return cached(config, config.agentPactAddress, AgentPact__factory.connect);
+}
+
+export function getOracleRegistry(config: Config): OracleRegistry {
+  return cached(config, config.oracleRegistryAddress, OracleRegistry__factory.connect);
+}
+
+export function getOracleRouter(config: Config): OracleRouter {
+  return cached(config, config.oracleRouterAddress, OracleRouter__factory.connect);
+}
+
+export function getPolicyModule(config: Config): AgentPolicyModule {
+  return cached(config, config.policyModuleAddress, AgentPolicyModule__factory.connect);
+}
+
+export function getERC20(config: Config, address: string): IERC20Metadata {
+  return cached(config, address, IERC20Metadata__factory.connect);
+}
+
+export function getSafe(config: Config): IGnosisSafe {
+  return cached(config, config.safeAddress, IGnosisSafe__factory.connect);
 }
@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+import { Config } from "./config.js";
+import { getProvider, getSigner } from "./provider.js";
+import { getPolicyModule } from "./contracts.js";
+import { PolicyClient } from "./client/policy.js";
+import { EventIndexer } from "./indexer/indexer.js";
+
+export type CheckStatus = "ok" | "warn" | "fail";
+
+export interface HealthCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface HealthReport {
+  /** Worst status across all checks. */
+  status: CheckStatus;
+  checkedAt: string;
+  checks: HealthCheck[];
+}
+
+const SEVERITY: Record<CheckStatus, number> = { ok: 0, warn: 1, fail: 2 };
+
+async function check(name: string, fn: () => Promise<Omit<HealthCheck, "name">>): Promise<HealthCheck> {
+  try {
+    return { name, ...(await fn()) };
+  } catch (err: any) {
+    return { name, status: "fail", detail: err.shortMessage ?? err.reason ?? err.message };
+  }
+}
+
+/**
+ * Verify the server can actually act for its Safe: the RPC is on the
+ * configured chain, every contract is deployed, the policy module belongs to
+ * SAFE_ADDRESS, the session is active and unexpired, and the session key can
+ * pay for gas. Checks never throw — failures are reported in the result.
+ */
+export async function runHealthCheck(config: Config, policy: PolicyClient): Promise<HealthReport> {
+  const provider = getProvider(config);
+
+  const checks = await Promise.all([
+    check("chainId", async () => {
+      const { chainId } = await provider.getNetwork();
+      return Number(chainId) === config.chainId
+        ? { status: "ok", detail: `RPC is on chain ${chainId}` }
+        : { status: "fail", detail: `RPC is on chain ${chainId}, config expects ${config.chainId}` };
+    }),
+
+    ...([
+      ["code:AgentPact", config.agentPactAddress],
+      ["code:OracleRegistry", config.oracleRegistryAddress],
+      ["code:OracleRouter", config.oracleRouterAddress],
+      ["code:PolicyModule", config.policyModuleAddress],
+      ["code:Safe", config.safeAddress],
+    ] as const).map(([name, address]) =>
+      check(name, async () => {
+        const code = await provider.getCode(address);
+        return code === "0x"
+          ? { status: "fail", detail: `No contract code at ${address}` }
+          : { status: "ok", detail: `${(code.length - 2) / 2} bytes at ${address}` };
+      })
+    ),
+
+    check("policyModule.safe", async () => {
+      const safe = await getPolicyModule(config).safe();
+      return safe.toLowerCase() === config.safeAddress.toLowerCase()
+        ? { status: "ok", detail: `Module is bound to ${safe}` }
+        : { status: "fail", detail: `Module is bound to ${safe}, not SAFE_ADDRESS ${config.safeAddress}` };
+    }),
+
+    check("session", async () => {
+      const session = await policy.getSession();
+      const remaining = session.expiresAt - Math.floor(Date.now() / 1000);
+      const expires = new Date(session.expiresAt * 1000).toISOString();
+      if (!session.active) return { status: "fail", detail: `Session ${session.sessionKey} is not active` };
+      if (remaining <= 0) return { status: "fail", detail: `Session expired at ${expires}` };
+      if (remaining < config.sessionExpiryWarnSec) {
+        return { status: "warn", detail: `Session expires in ${Math.floor(remaining / 3600)}h (${expires})` };
+      }
+      return { status: "ok", detail: `Active until ${expires}` };
+    }),
+
+    check("sessionKeyGas", async () => {
+      const address = getSigner(config).address;
+      const balance = await provider.getBalance(address);
+      const min = ethers.parseEther(config.minSessionGasEth);
+      const detail = `${ethers.formatEther(balance)} ETH at ${address} (minimum ${config.minSessionGasEth} ETH)`;
+      if (balance === 0n) return { status: "fail", detail };
+      return { status: balance < min ? "warn" : "ok", detail };
+    }),
+  ]);
+
+  const status = checks.reduce<CheckStatus>(
+    (worst, c) => (SEVERITY[c.status] > SEVERITY[worst] ? c.status : worst),
+    "ok"
+  );
+  return { status, checkedAt: new Date().toISOString(), checks };
+}
+
+/** Health report plus how this server instance is configured, for the status tool and resource. */
+export async function serverStatus(config: Config, tenantId: string, policy: PolicyClient, indexer?: EventIndexer) {
+  const health = await runHealthCheck(config, policy);
+  return {
+    ...health,
+    server: {
+      tenant: tenantId,
+      transport: config.transport,
+      dryRun: config.dryRun,
+      toolProfile: config.toolProfile ?? "all",
+      safeAddress: config.safeAddress,
+      sessionKey: policy.sessionKey,
+      indexer: indexer ? indexer.status() : null,
+    },
+  };
+}
@@ -1,9 +1,11 @@
+import { ethers } from "ethers";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { loadConfig } from "./config.js";
-import { SpendingTracker } from "./wallet/spending.js";
-import { PolicyChecker } from "./wallet/policy.js";
-import { SafeExecutor } from "./wallet/safe-executor.js";
+import { loadConfig, selectedNetwork } from "./config.js";
+import { hasSessionSigner, unlockSigner } from "./provider.js";
+import { readPassphrase } from "./signers.js";
+import { reconcileSpending } from "./wallet/spending.js";
+import { TenantRegistry, Tenant } from "./tenants.js";
 import { registerQueryTools } from "./tools/query.js";
 import { registerPactTools } from "./tools/pact.js";
 import { registerNegotiateTools } from "./tools/negotiate.js";
@@ -14,56 +16,200 @@ import { registerDisputeTools } from "./tools/dispute.js";
 import { registerFinalizeTools } from "./tools/finalize.js";
 import { registerWalletTools } from "./tools/wallet.js";
 import { registerDiscoveryTools } from "./tools/discovery.js";
+import { registerTimelineTools } from "./tools/timeline.js";
+import { registerTransactionTools } from "./tools/transactions.js";
 import { registerRouterTools, registerRouterQueryTools } from "./tools/router.js";
+import { registerStatusTools } from "./tools/status.js";
+import { registerOwnerTools } from "./tools/owner.js";
+import { checkToolPolicy, profiledServer } from "./tools/profiles.js";
+import { confirmingServer } from "./tools/confirm.js";
 import { registerResources } from "./resources/contracts.js";
+import { registerStatusResource } from "./resources/status.js";
+import { registerSessionResource } from "./resources/session.js";
+import { SessionWatchdog } from "./wallet/session-watchdog.js";
+import { runHealthCheck } from "./health.js";
+import { EventIndexer } from "./indexer/indexer.js";
+import { startHttpServer } from "./transport/http.js";
+import { startApprovalServer } from "./approvals/http.js";
 
 async function main() {
   // All console output goes to stderr (stdout is reserved for MCP protocol)
   console.error("Starting Agent Pact MCP Server...");
 
-  const config = loadConfig();
-  console.error(`Chain: ${config.chainId}, RPC: ${config.rpcUrl}`);
+  const config = loadConfig(selectedNetwork());
+  console.error(`Chain: ${config.chainId}${config.network ? ` (${config.network})` : ""}, RPC: ${config.rpcUrl}`);
   console.error(`AgentPact: ${config.agentPactAddress}`);
   console.error(`OracleRegistry: ${config.oracleRegistryAddress}`);
   console.error(`OracleRouter: ${config.oracleRouterAddress}`);
   console.error(`PolicyModule: ${config.policyModuleAddress}`);
-  console.error(`Safe: ${config.safeAddress}`);
-
-  // Initialize wallet policy layer (defense-in-depth software checks)
-  const tracker = new SpendingTracker();
-  const policy = new PolicyChecker(config, tracker);
-
-  // Initialize Safe executor — all write transactions route through the Safe
-  const executor = new SafeExecutor(config, policy);
-
-  // Create MCP server
-  const server = new McpServer({
-    name: "agent-pact",
-    version: "1.0.0",
-  });
-
-  // Register all tools (write tools use SafeExecutor, read tools use direct calls)
-  registerQueryTools(server, config);
-  registerPactTools(server, config, executor);
-  registerNegotiateTools(server, config, executor);
-  registerWorkTools(server, config, executor);
-  registerApprovalTools(server, config, executor);
-  registerOracleTools(server, config, executor);
-  registerDisputeTools(server, config, executor);
-  registerFinalizeTools(server, config, executor);
-  registerWalletTools(server, config, policy, tracker, executor);
-  registerDiscoveryTools(server, config);
-  registerRouterTools(server, config, executor);
-  registerRouterQueryTools(server, config);
-
-  // Register resources
-  registerResources(server, config);
+
+  // Decrypt the keystore, or reach the external signer, before any client needs the key
+  if (hasSessionSigner(config) && !config.sessionKey) {
+    const signer = await unlockSigner(config);
+    const source = config.sessionKeystoreFile ? `keystore ${config.sessionKeystoreFile}` : `external signer ${config.signerUrl}`;
+    console.error(`Session key ${signer.address} from ${source}`);
+  }
+  // With raw keys, a passphrase on the descriptor encrypts the keys rotations generate
+  if (!config.sessionKeystoreFile && config.sessionKeystorePassphraseFd !== null) {
+    config.sessionKeyPassphrase = await readPassphrase(config.sessionKeystorePassphraseFd, "");
+  }
+
+  // One tenant per hosted identity, each with its own write path: software
+  // policy checks, then the Safe executor (all writes route through the
+  // Safe), then a serialized, nonce-managed submission queue for its key
+  const tenants = new TenantRegistry(config);
+  const rejectedTools = new Map<string, Map<string, string>>();
+  const watchdogs = new Map<string, SessionWatchdog>();
+
+  for (const { id, config: tenantConfig, clients: { policy, queue, tracker, reservations, rotator } } of tenants.list()) {
+    console.error(`Tenant ${id}: Safe ${tenantConfig.safeAddress}, session key ${policy.sessionKey}`);
+
+    // Verify chain, contracts, module binding, session and gas before serving
+    if (tenantConfig.healthCheck !== "off") {
+      const health = await runHealthCheck(tenantConfig, policy);
+      for (const c of health.checks.filter((c) => c.status !== "ok")) {
+        console.error(`[${id}] Health ${c.status.toUpperCase()} ${c.name}: ${c.detail}`);
+      }
+      if (health.status === "fail" && tenantConfig.healthCheck === "fail") {
+        throw new Error(`Health check failed for tenant ${id} (HEALTH_CHECK=fail)`);
+      }
+      console.error(`[${id}] Health: ${health.status}`);
+    }
+
+    // Reconcile persisted software counters with the policy module before serving
+    try {
+      const drift = await reconcileSpending(tenantConfig, tracker, policy.sessionKey, true);
+      if (!drift.inSync) {
+        console.error(
+          `[${id}] Spending drift: software daily ${ethers.formatEther(drift.software.dailySpent)} ETH vs on-chain ` +
+          `${ethers.formatEther(drift.onChain.dailySpent)} ETH, weekly ${ethers.formatEther(drift.software.weeklySpent)} ` +
+          `vs ${ethers.formatEther(drift.onChain.weeklySpent)} ETH — adopted on-chain counters`
+        );
+      }
+    } catch (err: any) {
+      console.error(`[${id}] Spending reconciliation skipped: ${err.reason ?? err.message}`);
+    }
+
+    // Report on anything a previous run left in flight
+    try {
+      const resumed = await queue.resume();
+      for (const r of resumed) {
+        console.error(`[${id}] Pending tx from previous run: ${r.label} nonce ${r.nonce} ${r.hash} → ${r.status}`);
+      }
+    } catch (err: any) {
+      console.error(`[${id}] Could not check pending transactions: ${err.message}`);
+    }
+
+    // Cross-check the tool profile against the session's on-chain allowlists
+    try {
+      const rejected = await checkToolPolicy(tenantConfig, policy);
+      rejectedTools.set(id, rejected);
+      const action = tenantConfig.toolPolicyCheck === "hide" ? "hidden" : "flagged";
+      for (const [tool, reason] of rejected) {
+        console.error(`[${id}] Tool ${tool} ${action}: ${reason}`);
+      }
+    } catch (err: any) {
+      console.error(`[${id}] Tool policy cross-check skipped: ${err.reason ?? err.message}`);
+    }
+    console.error(`[${id}] Tool profile: ${tenantConfig.toolProfile?.join(", ") ?? "all"}`);
+
+    // Watch for revocation, expiry and low gas; alerts are pushed to connected clients
+    if (tenantConfig.watchdogEnabled) {
+      const watchdog = new SessionWatchdog(tenantConfig, policy);
+      watchdog.start();
+      watchdogs.set(id, watchdog);
+    }
+
+    // Release budget reservations once their pacts complete or are refunded
+    if (tenantConfig.reservationPollMs > 0) {
+      reservations.start();
+    }
+
+    // Rotate the session key once it is SESSION_KEY_ROTATION_DAYS old
+    if (tenantConfig.sessionKeyRotationDays > 0) {
+      if (!rotator) {
+        console.error(`[${id}] SESSION_KEY_ROTATION_DAYS is set, but rotation needs MODULE_OWNER_KEY — not rotating`);
+      } else if (!tenantConfig.sessionKey) {
+        console.error(`[${id}] SESSION_KEY_ROTATION_DAYS is set, but a keystore or external signer key can't be rotated here — not rotating`);
+      } else {
+        rotator.start();
+      }
+    }
+  }
+
+  // Owner-facing page and API for transactions parked above humanApprovalAbove
+  if (config.approvalHttpPort > 0) {
+    try {
+      await startApprovalServer(config, tenants.list());
+      console.error(`Approvals: review at http://127.0.0.1:${config.approvalHttpPort}/`);
+    } catch (err: any) {
+      console.error(`Approval page not started on port ${config.approvalHttpPort}: ${err.message}`);
+    }
+  }
+
+  // Local event index (opt-in) — backfills in the background, tools fall back
+  // to live view calls until it has caught up with the chain head
+  let indexer: EventIndexer | undefined;
+  if (config.indexerEnabled) {
+    indexer = new EventIndexer(config);
+    indexer.start();
+    console.error(`Indexer: from block ${config.indexerStartBlock}, data dir ${config.dataDir}`);
+  }
+
+  // One MCP server per connection, with every tool scoped to the caller's tenant
+  const createServer = (tenant: Tenant) => {
+    const { config: tenantConfig, clients: { pacts, router, policy, reservations, owner, rotator, queue, approvals, checker, tracker } } = tenant;
+    const server = confirmingServer(profiledServer(new McpServer({
+      name: "agent-pact",
+      version: "1.0.0",
+    }, {
+      capabilities: { logging: {} },
+    }), tenantConfig, rejectedTools.get(tenant.id) ?? new Map()), tenantConfig, { pacts, router });
+
+    // Register all tools — thin wrappers over the protocol clients
+    registerQueryTools(server, tenantConfig, pacts);
+    registerPactTools(server, pacts, reservations);
+    registerNegotiateTools(server, pacts);
+    registerWorkTools(server, pacts);
+    registerApprovalTools(server, pacts);
+    registerOracleTools(server, pacts);
+    registerDisputeTools(server, pacts);
+    registerFinalizeTools(server, pacts);
+    registerWalletTools(server, tenantConfig, checker, tracker, policy, reservations);
+    registerTransactionTools(server, tenantConfig, queue, approvals);
+    registerDiscoveryTools(server, tenantConfig, pacts, indexer);
+    registerTimelineTools(server, tenantConfig, indexer);
+    registerRouterTools(server, router);
+    registerRouterQueryTools(server, router);
+    registerStatusTools(server, tenantConfig, tenant.id, policy, indexer);
+    if (owner && rotator && tenantConfig.toolProfile?.includes("owner")) registerOwnerTools(server, tenantConfig, owner, rotator);
+
+    // Register resources
+    registerResources(server, tenantConfig);
+    registerStatusResource(server, tenantConfig, tenant.id, policy, indexer);
+    const watchdog = watchdogs.get(tenant.id);
+    if (watchdog) registerSessionResource(server, watchdog);
+
+    return server;
+  };
+
+  if (config.transport === "http") {
+    await startHttpServer(config, (auth) => createServer(tenants.forClient(auth.clientId)));
+    const scheme = config.tlsCertFile ? "https" : "http";
+    const auth = [
+      config.authTokens.size > 0 ? `${config.authTokens.size} bearer token(s)` : null,
+      config.tlsClientCaFile ? "client certificates" : null,
+    ].filter(Boolean).join(" or ") || "none (loopback only)";
+    console.error(`Agent Pact MCP Server listening on ${scheme}://${config.httpHost}:${config.httpPort}/mcp (auth: ${auth}).`);
+    return;
+  }
 
   // Connect via stdio transport
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const tenant = tenants.forStdio();
+  await createServer(tenant).connect(transport);
 
-  console.error("Agent Pact MCP Server running on stdio.");
+  console.error(`Agent Pact MCP Server running on stdio as tenant ${tenant.id}.`);
 }
 
 main().catch((err) => {
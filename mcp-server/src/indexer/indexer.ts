@@ -0,0 +1,228 @@
+import path from "path";
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { getProvider } from "../provider.js";
+import { getAgentPact } from "../contracts.js";
+import {
+  AGENT_PACT_ABI,
+  ORACLE_REGISTRY_ABI,
+  ORACLE_ROUTER_ABI,
+  AGENT_POLICY_MODULE_ABI,
+} from "../abis.js";
+import { IndexStore, IndexedEvent, ContractName, EventArgValue } from "./store.js";
+
+interface EventSource {
+  name: ContractName;
+  iface: ethers.Interface;
+}
+
+function toArgValue(value: unknown): EventArgValue {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  if (Array.isArray(value)) return value.map(toArgValue);
+  return String(value);
+}
+
+/** Map of lowercase contract address → name and ABI interface for every indexed contract. */
+export function eventSources(config: Config): Map<string, EventSource> {
+  const sources: [string, ContractName, ethers.InterfaceAbi][] = [
+    [config.agentPactAddress, "agentPact", AGENT_PACT_ABI],
+    [config.oracleRouterAddress, "oracleRouter", ORACLE_ROUTER_ABI],
+    [config.oracleRegistryAddress, "oracleRegistry", ORACLE_REGISTRY_ABI],
+    [config.policyModuleAddress, "policyModule", AGENT_POLICY_MODULE_ABI],
+  ];
+  return new Map(
+    sources.map(([address, name, abi]) => [address.toLowerCase(), { name, iface: new ethers.Interface(abi) }])
+  );
+}
+
+/**
+ * Decode raw logs from the protocol contracts into IndexedEvents, fetching
+ * block timestamps along the way. Logs from unknown addresses or with
+ * events missing from our ABIs are skipped.
+ */
+export async function decodeLogs(config: Config, logs: readonly ethers.Log[]): Promise<IndexedEvent[]> {
+  const provider = getProvider(config);
+  const sources = eventSources(config);
+  const timestamps = new Map<number, number>();
+  const events: IndexedEvent[] = [];
+
+  for (const log of logs) {
+    const source = sources.get(log.address.toLowerCase());
+    if (!source) continue;
+
+    let parsed: ethers.LogDescription | null = null;
+    try {
+      parsed = source.iface.parseLog(log);
+    } catch {
+      parsed = null;
+    }
+    if (!parsed) continue;
+
+    if (!timestamps.has(log.blockNumber)) {
+      const block = await provider.getBlock(log.blockNumber);
+      timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+    }
+
+    const args: Record<string, EventArgValue> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name || String(i)] = toArgValue(parsed!.args[i]);
+    });
+
+    events.push({
+      contract: source.name,
+      name: parsed.name,
+      args,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+      timestamp: timestamps.get(log.blockNumber)!,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Backfills and tails the events of all four protocol contracts into a
+ * local IndexStore.
+ *
+ * Every synced range ends with a block-hash checkpoint. Before each pass
+ * the newest checkpoint is compared against the chain; on mismatch the
+ * indexer walks back to the newest checkpoint that still matches, drops
+ * everything after it, and re-indexes from there.
+ */
+export class EventIndexer {
+  readonly store: IndexStore;
+  private config: Config;
+  private addresses: string[];
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private head = -1;
+
+  constructor(config: Config) {
+    this.config = config;
+    this.store = new IndexStore(
+      path.join(config.dataDir, `index-${config.chainId}.sqlite`),
+      config.chainId,
+      config.indexerStartBlock
+    );
+    this.addresses = [...eventSources(config).keys()];
+  }
+
+  /** Start backfilling, then keep polling for new blocks. Returns immediately. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** True once the index has caught up with the chain head seen on the last pass. */
+  isSynced(): boolean {
+    return this.head >= 0 && this.store.lastBlock >= this.head;
+  }
+
+  status() {
+    return {
+      lastIndexedBlock: this.store.lastBlock,
+      chainHead: this.head,
+      synced: this.isSynced(),
+      eventCount: this.store.eventCount,
+    };
+  }
+
+  /** Run a single sync pass: reorg check, then index up to the current head. */
+  async sync(): Promise<number> {
+    const provider = getProvider(this.config);
+    await this.handleReorg();
+
+    this.head = await provider.getBlockNumber();
+    let added = 0;
+    let from = this.store.lastBlock + 1;
+
+    while (from <= this.head) {
+      const to = Math.min(from + this.config.indexerBatchSize - 1, this.head);
+      const logs = await provider.getLogs({
+        address: this.addresses,
+        fromBlock: from,
+        toBlock: to,
+      });
+
+      const events = await decodeLogs(this.config, logs);
+      const checkpointBlock = await provider.getBlock(to);
+      if (!checkpointBlock?.hash) {
+        throw new Error(`Block ${to} not available from RPC`);
+      }
+
+      this.store.append(events, { blockNumber: to, blockHash: checkpointBlock.hash });
+      await this.loadPactMeta(events);
+
+      added += events.length;
+      from = to + 1;
+    }
+
+    return added;
+  }
+
+  private async loop(): Promise<void> {
+    if (!this.running) return;
+    try {
+      const added = await this.sync();
+      if (added > 0) {
+        console.error(`Indexer: ${added} new events, at block ${this.store.lastBlock}`);
+      }
+    } catch (err: any) {
+      console.error(`Indexer sync failed: ${err.message}`);
+    }
+    if (this.running) {
+      this.timer = setTimeout(() => void this.loop(), this.config.indexerPollMs);
+    }
+  }
+
+  private async handleReorg(): Promise<void> {
+    const provider = getProvider(this.config);
+    const checkpoints = [...this.store.checkpoints].reverse();
+    if (checkpoints.length === 0) return;
+
+    for (let i = 0; i < checkpoints.length; i++) {
+      const cp = checkpoints[i];
+      const block = await provider.getBlock(cp.blockNumber);
+      if (block?.hash === cp.blockHash) {
+        if (i > 0) {
+          console.error(`Indexer: reorg detected, rolling back to block ${cp.blockNumber}`);
+          this.store.rollback(cp.blockNumber);
+        }
+        return;
+      }
+    }
+
+    // Reorg deeper than every checkpoint we keep — re-index from scratch
+    console.error("Indexer: reorg deeper than checkpoint window, re-indexing from start block");
+    this.store.rollback(this.config.indexerStartBlock - 1);
+  }
+
+  /** PactCreated doesn't carry the payment token or oracle fee — read them once. */
+  private async loadPactMeta(events: IndexedEvent[]): Promise<void> {
+    const created = events.filter((e) => e.contract === "agentPact" && e.name === "PactCreated");
+    if (created.length === 0) return;
+
+    const pact = getAgentPact(this.config);
+    for (const e of created) {
+      const pactId = Number(e.args.pactId);
+      const p = await pact.getPact(pactId);
+      this.store.setPactMeta(pactId, {
+        paymentToken: p.paymentToken,
+        oracleFee: p.oracleFee.toString(),
+      });
+    }
+  }
+}
@@ -0,0 +1,439 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+export type ContractName = "agentPact" | "oracleRouter" | "oracleRegistry" | "policyModule";
+
+export type EventArgValue = string | number | boolean | EventArgValue[];
+
+/** A decoded contract event. uint256 values are kept as decimal strings. */
+export interface IndexedEvent {
+  contract: ContractName;
+  name: string;
+  args: Record<string, EventArgValue>;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+}
+
+/** Current state of a pact, projected from its AgentPact events. */
+export interface PactRecord {
+  pactId: number;
+  creator: string;
+  initiator: number;
+  buyer: string;
+  seller: string;
+  payment: string;
+  deadline: number;
+  specHash: string;
+  status: number;
+  paymentToken: string | null;
+  oracleFee: string | null;
+  pendingAmendment: {
+    payment: string;
+    deadline: number;
+    specHash: string;
+    proposedBy: string;
+  } | null;
+  createdAtBlock: number;
+  updatedAtBlock: number;
+}
+
+/** Fields fixed at creation that the PactCreated event doesn't carry. */
+export interface PactMeta {
+  paymentToken: string;
+  oracleFee: string;
+}
+
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface EventFilter {
+  contract?: ContractName;
+  names?: string[];
+  pactId?: number;
+  jobId?: number;
+  /** Matches any address-valued argument (case-insensitive). */
+  address?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// How many block-hash checkpoints to keep for reorg detection
+const CHECKPOINT_DEPTH = 64;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS events (
+    id INTEGER PRIMARY KEY,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    pact_id TEXT,
+    job_id TEXT
+  );
+  CREATE INDEX IF NOT EXISTS events_block ON events (block_number);
+  CREATE INDEX IF NOT EXISTS events_pact ON events (contract, pact_id);
+  CREATE INDEX IF NOT EXISTS events_job ON events (job_id);
+  CREATE INDEX IF NOT EXISTS events_name ON events (contract, name);
+  CREATE TABLE IF NOT EXISTS event_addresses (event_id INTEGER NOT NULL, address TEXT NOT NULL);
+  CREATE INDEX IF NOT EXISTS event_addresses_address ON event_addresses (address);
+  CREATE INDEX IF NOT EXISTS event_addresses_event ON event_addresses (event_id);
+  CREATE TABLE IF NOT EXISTS checkpoints (block_number INTEGER PRIMARY KEY, block_hash TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS pact_meta (pact_id INTEGER PRIMARY KEY, payment_token TEXT NOT NULL, oracle_fee TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS pacts (
+    pact_id INTEGER PRIMARY KEY,
+    status INTEGER NOT NULL,
+    buyer TEXT NOT NULL,
+    seller TEXT NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS pacts_status ON pacts (status);
+  CREATE INDEX IF NOT EXISTS pacts_buyer ON pacts (buyer);
+  CREATE INDEX IF NOT EXISTS pacts_seller ON pacts (seller);
+`;
+
+interface EventRow {
+  contract: ContractName;
+  name: string;
+  args: string;
+  block_number: number;
+  block_hash: string;
+  log_index: number;
+  tx_hash: string;
+  timestamp: number;
+}
+
+function toEvent(row: EventRow): IndexedEvent {
+  return {
+    contract: row.contract,
+    name: row.name,
+    args: JSON.parse(row.args),
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    logIndex: row.log_index,
+    txHash: row.tx_hash,
+    timestamp: row.timestamp,
+  };
+}
+
+/**
+ * Persistent store for indexed contract events, with a typed query API
+ * and a pact projection maintained from the AgentPact event stream.
+ *
+ * Backed by SQLite: events are appended one batch per transaction and
+ * queried through indexes, so neither writes nor memory grow with the
+ * size of the index.
+ */
+export class IndexStore {
+  private db: Database.Database;
+
+  constructor(filePath: string, chainId: number, startBlock: number) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+
+    const storedChain = this.getMeta("chainId");
+    if (storedChain === undefined) {
+      this.setMeta("chainId", String(chainId));
+      this.setMeta("lastBlock", String(startBlock - 1));
+    } else if (Number(storedChain) !== chainId) {
+      this.db.close();
+      throw new Error(`Index file ${filePath} belongs to chain ${storedChain}, not ${chainId}`);
+    }
+  }
+
+  get lastBlock(): number {
+    return Number(this.getMeta("lastBlock"));
+  }
+
+  get eventCount(): number {
+    return (this.db.prepare("SELECT COUNT(*) AS n FROM events").get() as { n: number }).n;
+  }
+
+  get checkpoints(): readonly Checkpoint[] {
+    return (this.db.prepare("SELECT block_number, block_hash FROM checkpoints ORDER BY block_number").all() as {
+      block_number: number;
+      block_hash: string;
+    }[]).map((c) => ({ blockNumber: c.block_number, blockHash: c.block_hash }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // ──────────────────────────────────────────────
+  // Writes (used by the indexer)
+  // ──────────────────────────────────────────────
+
+  /** Append events for a block range that ends at `checkpoint`. */
+  append(events: IndexedEvent[], checkpoint: Checkpoint): void {
+    const insertEvent = this.db.prepare(
+      `INSERT INTO events (contract, name, args, block_number, block_hash, log_index, tx_hash, timestamp, pact_id, job_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const insertAddress = this.db.prepare("INSERT INTO event_addresses (event_id, address) VALUES (?, ?)");
+
+    this.db.transaction(() => {
+      for (const e of events) {
+        const { lastInsertRowid } = insertEvent.run(
+          e.contract,
+          e.name,
+          JSON.stringify(e.args),
+          e.blockNumber,
+          e.blockHash,
+          e.logIndex,
+          e.txHash,
+          e.timestamp,
+          e.args.pactId !== undefined ? String(e.args.pactId) : null,
+          e.args.jobId !== undefined ? String(e.args.jobId) : null
+        );
+        for (const value of new Set(Object.values(e.args))) {
+          if (typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value)) {
+            insertAddress.run(lastInsertRowid, value.toLowerCase());
+          }
+        }
+        this.applyToPacts(e);
+      }
+      this.setMeta("lastBlock", String(checkpoint.blockNumber));
+      this.db.prepare("INSERT OR REPLACE INTO checkpoints (block_number, block_hash) VALUES (?, ?)").run(
+        checkpoint.blockNumber,
+        checkpoint.blockHash
+      );
+      this.db.prepare(
+        "DELETE FROM checkpoints WHERE block_number NOT IN (SELECT block_number FROM checkpoints ORDER BY block_number DESC LIMIT ?)"
+      ).run(CHECKPOINT_DEPTH);
+    })();
+  }
+
+  setPactMeta(pactId: number, meta: PactMeta): void {
+    this.db.prepare("INSERT OR REPLACE INTO pact_meta (pact_id, payment_token, oracle_fee) VALUES (?, ?, ?)").run(
+      pactId,
+      meta.paymentToken,
+      meta.oracleFee
+    );
+    const pact = this.getPact(pactId);
+    if (pact) {
+      this.savePact({ ...pact, paymentToken: meta.paymentToken, oracleFee: meta.oracleFee });
+    }
+  }
+
+  /** Drop everything indexed after `blockNumber` (reorg recovery). */
+  rollback(blockNumber: number): void {
+    this.db.transaction(() => {
+      const affected = (this.db.prepare(
+        "SELECT DISTINCT pact_id FROM events WHERE block_number > ? AND contract = 'agentPact' AND pact_id IS NOT NULL"
+      ).all(blockNumber) as { pact_id: string }[]).map((r) => Number(r.pact_id));
+
+      this.db.prepare(
+        `DELETE FROM pact_meta WHERE pact_id IN (SELECT CAST(pact_id AS INTEGER) FROM events
+         WHERE block_number > ? AND contract = 'agentPact' AND name = 'PactCreated')`
+      ).run(blockNumber);
+      this.db.prepare("DELETE FROM event_addresses WHERE event_id IN (SELECT id FROM events WHERE block_number > ?)").run(blockNumber);
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber);
+      this.db.prepare("DELETE FROM checkpoints WHERE block_number > ?").run(blockNumber);
+      this.setMeta("lastBlock", String(blockNumber));
+
+      // Replay what is left of each touched pact's history
+      for (const pactId of affected) {
+        this.db.prepare("DELETE FROM pacts WHERE pact_id = ?").run(pactId);
+        for (const e of this.getPactEvents(pactId)) {
+          this.applyToPacts(e);
+        }
+      }
+    })();
+  }
+
+  // ──────────────────────────────────────────────
+  // Queries
+  // ──────────────────────────────────────────────
+
+  getEvents(filter: EventFilter = {}): IndexedEvent[] {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.contract) {
+      where.push("contract = ?");
+      params.push(filter.contract);
+    }
+    if (filter.names) {
+      where.push(`name IN (${filter.names.map(() => "?").join(", ") || "NULL"})`);
+      params.push(...filter.names);
+    }
+    if (filter.pactId !== undefined) {
+      where.push("pact_id = ?");
+      params.push(String(filter.pactId));
+    }
+    if (filter.jobId !== undefined) {
+      where.push("job_id = ?");
+      params.push(String(filter.jobId));
+    }
+    if (filter.fromBlock !== undefined) {
+      where.push("block_number >= ?");
+      params.push(filter.fromBlock);
+    }
+    if (filter.toBlock !== undefined) {
+      where.push("block_number <= ?");
+      params.push(filter.toBlock);
+    }
+    if (filter.address) {
+      where.push("id IN (SELECT event_id FROM event_addresses WHERE address = ?)");
+      params.push(filter.address.toLowerCase());
+    }
+
+    const sql = `SELECT * FROM events ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""} ORDER BY id`;
+    return (this.db.prepare(sql).all(...params) as EventRow[]).map(toEvent);
+  }
+
+  /** All AgentPact events for a pact, in chain order. */
+  getPactEvents(pactId: number): IndexedEvent[] {
+    return this.getEvents({ contract: "agentPact", pactId });
+  }
+
+  getPact(pactId: number): PactRecord | undefined {
+    const row = this.db.prepare("SELECT record FROM pacts WHERE pact_id = ?").get(pactId) as { record: string } | undefined;
+    return row ? JSON.parse(row.record) : undefined;
+  }
+
+  getOpenPacts(offset: number, limit: number): PactRecord[] {
+    return this.records("SELECT record FROM pacts WHERE status = 0 ORDER BY pact_id LIMIT ? OFFSET ?", limit, offset);
+  }
+
+  getOpenPactCount(): number {
+    return (this.db.prepare("SELECT COUNT(*) AS n FROM pacts WHERE status = 0").get() as { n: number }).n;
+  }
+
+  getPactsByAddress(address: string, offset: number, limit: number): PactRecord[] {
+    const addr = address.toLowerCase();
+    return this.records(
+      "SELECT record FROM pacts WHERE buyer = ? OR seller = ? ORDER BY pact_id LIMIT ? OFFSET ?",
+      addr,
+      addr,
+      limit,
+      offset
+    );
+  }
+
+  getUserPactCount(address: string): number {
+    const addr = address.toLowerCase();
+    return (this.db.prepare("SELECT COUNT(*) AS n FROM pacts WHERE buyer = ? OR seller = ?").get(addr, addr) as { n: number }).n;
+  }
+
+  private records(sql: string, ...params: (string | number)[]): PactRecord[] {
+    return (this.db.prepare(sql).all(...params) as { record: string }[]).map((r) => JSON.parse(r.record));
+  }
+
+  private getMeta(key: string): string | undefined {
+    return (this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined)?.value;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+  }
+
+  // ──────────────────────────────────────────────
+  // Pact projection
+  // ──────────────────────────────────────────────
+
+  private savePact(pact: PactRecord): void {
+    this.db.prepare("INSERT OR REPLACE INTO pacts (pact_id, status, buyer, seller, record) VALUES (?, ?, ?, ?, ?)").run(
+      pact.pactId,
+      pact.status,
+      pact.buyer.toLowerCase(),
+      pact.seller.toLowerCase(),
+      JSON.stringify(pact)
+    );
+  }
+
+  private applyToPacts(e: IndexedEvent): void {
+    if (e.contract !== "agentPact" || e.args.pactId === undefined) return;
+    const pactId = Number(e.args.pactId);
+
+    if (e.name === "PactCreated") {
+      const creator = String(e.args.creator);
+      const initiator = Number(e.args.initiator);
+      const meta = this.db.prepare("SELECT payment_token, oracle_fee FROM pact_meta WHERE pact_id = ?").get(pactId) as
+        | { payment_token: string; oracle_fee: string }
+        | undefined;
+      this.savePact({
+        pactId,
+        creator,
+        initiator,
+        buyer: initiator === 0 ? creator : ZERO_ADDRESS,
+        seller: initiator === 1 ? creator : ZERO_ADDRESS,
+        payment: String(e.args.payment),
+        deadline: Number(e.args.deadline),
+        specHash: String(e.args.specHash),
+        status: 0,
+        paymentToken: meta?.payment_token ?? null,
+        oracleFee: meta?.oracle_fee ?? null,
+        pendingAmendment: null,
+        createdAtBlock: e.blockNumber,
+        updatedAtBlock: e.blockNumber,
+      });
+      return;
+    }
+
+    const pact = this.getPact(pactId);
+    if (!pact) return; // created before the index start block
+    pact.updatedAtBlock = e.blockNumber;
+
+    switch (e.name) {
+      case "PactAccepted":
+        if (pact.initiator === 0) pact.seller = String(e.args.accepter);
+        else pact.buyer = String(e.args.accepter);
+        pact.status = 1;
+        break;
+      case "AmendmentProposed":
+        pact.pendingAmendment = {
+          payment: String(e.args.payment),
+          deadline: Number(e.args.deadline),
+          specHash: String(e.args.specHash),
+          proposedBy: String(e.args.proposedBy),
+        };
+        break;
+      case "AmendmentAccepted":
+        if (pact.pendingAmendment) {
+          pact.payment = pact.pendingAmendment.payment;
+          pact.deadline = pact.pendingAmendment.deadline;
+          pact.specHash = pact.pendingAmendment.specHash;
+          pact.pendingAmendment = null;
+        }
+        break;
+      case "WorkStarted":
+        pact.status = 2;
+        break;
+      case "WorkSubmitted":
+        pact.status = 3;
+        break;
+      case "VerificationFinalized":
+        pact.status = Number(e.args.newStatus);
+        break;
+      case "WorkRejected":
+      case "DisputeRaised":
+        pact.status = 5;
+        break;
+      case "PactCompleted":
+        pact.status = 4;
+        break;
+      case "DisputeResolved":
+        pact.status = e.args.sellerWins ? 4 : 6;
+        break;
+      case "PactRefunded":
+        pact.status = 6;
+        break;
+    }
+    this.savePact(pact);
+  }
+}
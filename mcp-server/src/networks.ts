@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ethers } from "ethers";
+import { z } from "zod";
+import YAML from "yaml";
+
+/** An address in any case, rejected if mixed-case with a bad checksum; normalized to its checksum form. */
+const address = z.string().transform((value, ctx) => {
+  try {
+    return ethers.getAddress(value);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid address or checksum: ${value}` });
+    return z.NEVER;
+  }
+});
+
+const ContractAddressesSchema = z.object({
+  agentPact: address.optional(),
+  oracleRegistry: address.optional(),
+  oracleRouter: address.optional(),
+  policyModule: address.optional(),
+}).strict();
+
+const NetworkProfileSchema = z.object({
+  /** Required for networks that aren't built in. */
+  chainId: z.number().int().positive().optional(),
+  rpcUrl: z.string().url().optional(),
+  /** Deployment manifest, relative to the config file (default: <deploymentsDir>/<deployment>.json). */
+  manifest: z.string().optional(),
+  /** Overrides for addresses in the manifest. */
+  contracts: ContractAddressesSchema.optional(),
+  safeAddress: address.optional(),
+}).strict();
+
+const ConfigFileSchema = z.object({
+  /** Where scripts/deploy.ts writes manifests, relative to the config file. */
+  deploymentsDir: z.string().optional(),
+  networks: z.record(z.string().regex(/^[A-Za-z0-9_-]+$/, "network names may only contain letters, digits, '-' and '_'"), NetworkProfileSchema).default({}),
+}).strict();
+
+const DeployedContractSchema = z.object({
+  address,
+  blockNumber: z.number().int().nonnegative().optional(),
+}).passthrough();
+
+/** What the server reads of a manifest written by scripts/deploy.ts. */
+const ManifestSchema = z.object({
+  chainId: z.number().int().positive(),
+  contracts: z.object({
+    AgentPact: DeployedContractSchema.optional(),
+    OracleRegistry: DeployedContractSchema.optional(),
+    OracleRouter: DeployedContractSchema.optional(),
+    AgentPolicyModule: DeployedContractSchema.optional(),
+  }).passthrough(),
+  /** The Safe the AgentPolicyModule is bound to. */
+  safeAddress: address.optional(),
+}).passthrough();
+
+interface BuiltInNetwork {
+  chainId: number;
+  rpcUrl: string;
+  /** Hardhat network name, which scripts/deploy.ts names the manifest after. */
+  deployment: string;
+}
+
+const BUILT_IN_NETWORKS: Record<string, BuiltInNetwork> = {
+  local: { chainId: 31337, rpcUrl: "http://127.0.0.1:8545", deployment: "localhost" },
+  baseSepolia: { chainId: 84532, rpcUrl: "https://sepolia.base.org", deployment: "baseSepolia" },
+  base: { chainId: 8453, rpcUrl: "https://mainnet.base.org", deployment: "base" },
+};
+
+// deployments/ at the repository root, next to mcp-server/
+const REPO_DEPLOYMENTS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../deployments");
+
+export type ContractAddresses = z.infer<typeof ContractAddressesSchema>;
+
+/** A selected network: its chain, endpoint and checksummed contract addresses. */
+export interface NetworkSettings {
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  /** Manifest the addresses were read from (null if there was none). */
+  manifest: string | null;
+  contracts: ContractAddresses;
+  safeAddress: string | null;
+  /** Earliest block a contract was deployed at, per the manifest. */
+  deployBlock: number | null;
+}
+
+/**
+ * Resolve a network profile: the built-in `local`, `baseSepolia` and
+ * `base`, or one defined in CONFIG_FILE (YAML or JSON), whose settings
+ * override a built-in one of the same name. Contract addresses come from
+ * the deployment manifest scripts/deploy.ts wrote for that network, then
+ * from the profile's `contracts` (the Safe likewise), and the manifest
+ * must be for the profile's chain.
+ */
+export function loadNetwork(name: string, configFile: string | null): NetworkSettings {
+  const file = configFile ? loadConfigFile(configFile) : null;
+  const baseDir = configFile ? path.dirname(path.resolve(configFile)) : process.cwd();
+  const builtIn = BUILT_IN_NETWORKS[name];
+  const profile = file?.networks[name];
+  if (!builtIn && !profile) {
+    const known = [...new Set([...Object.keys(BUILT_IN_NETWORKS), ...Object.keys(file?.networks ?? {})])];
+    throw new Error(`Unknown network: ${name} (expected one of ${known.join(", ")})`);
+  }
+
+  const chainId = profile?.chainId ?? builtIn?.chainId;
+  const rpcUrl = profile?.rpcUrl ?? builtIn?.rpcUrl;
+  if (!chainId || !rpcUrl) {
+    throw new Error(`Network ${name} in ${configFile} needs a chainId and an rpcUrl`);
+  }
+
+  const deploymentsDir = file?.deploymentsDir ? path.resolve(baseDir, file.deploymentsDir) : REPO_DEPLOYMENTS_DIR;
+  const manifestFile = profile?.manifest
+    ? path.resolve(baseDir, profile.manifest)
+    : path.join(deploymentsDir, `${builtIn?.deployment ?? name}.json`);
+  const manifest = fs.existsSync(manifestFile) ? loadManifest(manifestFile) : null;
+  if (manifest && manifest.chainId !== chainId) {
+    throw new Error(`Deployment manifest ${manifestFile} is for chain ${manifest.chainId}, but network ${name} is chain ${chainId}`);
+  }
+
+  const deployed = manifest?.contracts;
+  const blocks = Object.values(deployed ?? {})
+    .map((c) => (c as { blockNumber?: number } | undefined)?.blockNumber)
+    .filter((b): b is number => b !== undefined);
+  return {
+    name,
+    chainId,
+    rpcUrl,
+    manifest: manifest ? manifestFile : null,
+    contracts: {
+      agentPact: profile?.contracts?.agentPact ?? deployed?.AgentPact?.address,
+      oracleRegistry: profile?.contracts?.oracleRegistry ?? deployed?.OracleRegistry?.address,
+      oracleRouter: profile?.contracts?.oracleRouter ?? deployed?.OracleRouter?.address,
+      policyModule: profile?.contracts?.policyModule ?? deployed?.AgentPolicyModule?.address,
+    },
+    safeAddress: profile?.safeAddress ?? manifest?.safeAddress ?? null,
+    deployBlock: blocks.length > 0 ? Math.min(...blocks) : null,
+  };
+}
+
+function loadConfigFile(file: string): z.infer<typeof ConfigFileSchema> {
+  return parse(ConfigFileSchema, YAML.parse(fs.readFileSync(file, "utf8")) ?? {}, `config file ${file}`);
+}
+
+function loadManifest(file: string): z.infer<typeof ManifestSchema> {
+  return parse(ManifestSchema, JSON.parse(fs.readFileSync(file, "utf8")), `deployment manifest ${file}`);
+}
+
+function parse<T extends z.ZodTypeAny>(schema: T, data: unknown, what: string): z.infer<T> {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid ${what}: ${issues}`);
+  }
+  return parsed.data;
+}
@@ -1,23 +1,109 @@
 import { ethers } from "ethers";
 import { Config } from "./config.js";
+import { ExternalSigner, readPassphrase, unlockKeystore } from "./signers.js";
 
-let provider: ethers.JsonRpcProvider | null = null;
-let signer: ethers.Wallet | null = null;
+/**
+ * What signs for a session key: a local wallet (SESSION_KEY, or decrypted
+ * from SESSION_KEYSTORE) or an external signer process (SESSION_SIGNER_URL).
+ */
+export type SessionSigner = ethers.Wallet | ExternalSigner;
+
+// Caches rather than singletons: one provider per RPC endpoint and one
+// signer per session key, so several tenants can share a process
+const providers = new Map<string, ethers.JsonRpcProvider>();
+const signers = new Map<string, SessionSigner>();
 
 export function getProvider(config: Config): ethers.JsonRpcProvider {
+  let provider = providers.get(config.rpcUrl);
   if (!provider) {
     provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    providers.set(config.rpcUrl, provider);
   }
   return provider;
 }
 
-export function getSigner(config: Config): ethers.Wallet {
+/** Whether the config names a session key at all, in any of the supported forms. */
+export function hasSessionSigner(config: Config): boolean {
+  return !!(config.sessionKey || config.sessionKeystoreFile || config.signerUrl);
+}
+
+/**
+ * Identifies the config's session signer in caches. A raw key wins: it is
+ * what a rotation switches to.
+ */
+export function signerId(config: Config): string {
+  const source = config.sessionKey
+    || (config.sessionKeystoreFile ? `keystore:${config.sessionKeystoreFile}` : "")
+    || (config.signerUrl ? `external:${config.signerUrl}|${config.signerAccount ?? ""}` : "");
+  return `${config.rpcUrl}|${source}`;
+}
+
+/**
+ * Make the config's session signer available to `getSigner`. A raw key
+ * needs nothing; a keystore is decrypted (prompting for its passphrase
+ * unless it comes on a file descriptor) and an external signer is asked
+ * which accounts it holds. Run once at startup, before any client is made.
+ * The keystore's passphrase is kept as `sessionKeyPassphrase`, to encrypt
+ * the keys a rotation generates.
+ */
+export async function unlockSigner(config: Config): Promise<SessionSigner> {
+  if (config.sessionKey || signers.has(signerId(config))) return getSigner(config);
+
+  let signer: SessionSigner;
+  if (config.sessionKeystoreFile) {
+    const file = config.sessionKeystoreFile;
+    const passphrase = await readPassphrase(config.sessionKeystorePassphraseFd, `Passphrase for ${file}: `);
+    signer = (await unlockKeystore(file, passphrase)).connect(getProvider(config));
+    config.sessionKeyPassphrase = passphrase;
+  } else if (config.signerUrl) {
+    signer = await ExternalSigner.open(config.signerUrl, config.signerAccount, config.chainId, getProvider(config));
+  } else {
+    throw new Error("No session key configured for this context");
+  }
+  signers.set(signerId(config), signer);
+  return signer;
+}
+
+export function getSigner(config: Config): SessionSigner {
+  if (!hasSessionSigner(config)) {
+    throw new Error("No session key configured for this context");
+  }
+  const key = signerId(config);
+  let signer = signers.get(key);
   if (!signer) {
+    if (!config.sessionKey) {
+      throw new Error("The session signer is locked — call unlockSigner(config) before using it");
+    }
     signer = new ethers.Wallet(config.sessionKey, getProvider(config));
+    signers.set(key, signer);
   }
   return signer;
 }
 
+/** Drop the cached signer of the config's session key, once it has been rotated out. */
+export function forgetSigner(config: Config): void {
+  signers.delete(signerId(config));
+}
+
+/** Signer for the AgentPolicyModule owner (MODULE_OWNER_KEY), used only by the owner tools. */
+export function getOwnerSigner(config: Config): ethers.Wallet {
+  if (!config.moduleOwnerKey) {
+    throw new Error("No module owner key configured (MODULE_OWNER_KEY)");
+  }
+  const key = `${config.rpcUrl}|${config.moduleOwnerKey}`;
+  let signer = signers.get(key) as ethers.Wallet | undefined;
+  if (!signer) {
+    signer = new ethers.Wallet(config.moduleOwnerKey, getProvider(config));
+    signers.set(key, signer);
+  }
+  return signer;
+}
+
+/** Signer when the config carries a session key, otherwise the read-only provider. */
+export function getRunner(config: Config): ethers.ContractRunner {
+  return hasSessionSigner(config) ? getSigner(config) : getProvider(config);
+}
+
 export async function getBalance(config: Config): Promise<string> {
   const balance = await getProvider(config).getBalance(config.safeAddress);
   return ethers.formatEther(balance);
@@ -0,0 +1,48 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { SessionWatchdog } from "../wallet/session-watchdog.js";
+
+const SESSION_URI = "pact://session";
+
+/**
+ * Expose the watchdog's view of the session key as `pact://session` and push
+ * its alerts to the connected client: every alert goes out as an MCP logging
+ * message, and subscribers to the resource get `resources/updated`.
+ */
+export function registerSessionResource(server: McpServer, watchdog: SessionWatchdog) {
+  server.resource(
+    "session",
+    SESSION_URI,
+    { description: "Session key status from the watchdog: active, expiry, gas balance, revocation and recent alerts" },
+    async () => ({
+      contents: [{
+        uri: SESSION_URI,
+        mimeType: "application/json",
+        text: JSON.stringify(watchdog.snapshot(), null, 2),
+      }],
+    })
+  );
+
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unsubscribe = watchdog.onAlert((alert) => {
+    // Clients that have not finished connecting (or already left) just miss the push
+    const sessionId = server.server.transport?.sessionId;
+    server.server
+      .sendLoggingMessage({ level: alert.level, logger: "session-watchdog", data: alert }, sessionId)
+      .catch(() => {});
+    if (subscriptions.has(SESSION_URI)) {
+      server.server.sendResourceUpdated({ uri: SESSION_URI }).catch(() => {});
+    }
+  });
+  server.server.onclose = unsubscribe;
+}
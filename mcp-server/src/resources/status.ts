@@ -0,0 +1,26 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Config } from "../config.js";
+import { PolicyClient } from "../client/policy.js";
+import { EventIndexer } from "../indexer/indexer.js";
+import { serverStatus } from "../health.js";
+
+export function registerStatusResource(
+  server: McpServer,
+  config: Config,
+  tenantId: string,
+  policy: PolicyClient,
+  indexer?: EventIndexer
+) {
+  server.resource(
+    "status",
+    "pact://status",
+    { description: "Live health check: chain, contracts, policy module binding, session and session key gas" },
+    async () => ({
+      contents: [{
+        uri: "pact://status",
+        mimeType: "application/json",
+        text: JSON.stringify(await serverStatus(config, tenantId, policy, indexer), null, 2),
+      }],
+    })
+  );
+}
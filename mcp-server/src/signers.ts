@@ -0,0 +1,161 @@
+import fs from "fs";
+import tty from "tty";
+import { ethers } from "ethers";
+
+/**
+ * Signer that keeps the session key in a separate local process and asks
+ * it over JSON-RPC to sign — Clef's external API (`eth_signTransaction`,
+ * `account_signData`, `account_signTypedData`), which other signers such as
+ * a geth node with an unlocked account also speak for transactions. The MCP
+ * server never sees the key; the signer process can apply its own rules or
+ * ask a human before signing.
+ *
+ * Every signed transaction is decoded and checked to come from the expected
+ * account before it is broadcast.
+ */
+export class ExternalSigner extends ethers.AbstractSigner {
+  readonly address: string;
+  readonly url: string;
+  private readonly rpc: ethers.JsonRpcProvider;
+
+  private constructor(address: string, url: string, rpc: ethers.JsonRpcProvider, provider: ethers.Provider | null) {
+    super(provider);
+    this.address = address;
+    this.url = url;
+    this.rpc = rpc;
+  }
+
+  /**
+   * Connect to a signer process and pick the account to sign with (its
+   * first one unless `account` is given), checking the signer holds it.
+   */
+  static async open(url: string, account: string | null, chainId: number, provider: ethers.Provider): Promise<ExternalSigner> {
+    // Signers don't answer eth_chainId or batched requests
+    const rpc = new ethers.JsonRpcProvider(url, undefined, { staticNetwork: ethers.Network.from(chainId), batchMaxCount: 1 });
+    let accounts: string[];
+    try {
+      accounts = ((await rpc.send("eth_accounts", [])) as string[]).map((a) => ethers.getAddress(a));
+    } catch (err: any) {
+      throw new Error(`External signer at ${url} is not reachable: ${err.shortMessage ?? err.message}`);
+    }
+    const address = account ? ethers.getAddress(account) : accounts[0];
+    if (!address || !accounts.includes(address)) {
+      throw new Error(`External signer at ${url} does not hold ${account ?? "any account"} (has: ${accounts.join(", ") || "none"})`);
+    }
+    return new ExternalSigner(address, url, rpc, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): ExternalSigner {
+    return new ExternalSigner(this.address, this.url, this.rpc, provider);
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    // sendTransaction hands over an unsigned Transaction; copyRequest reads its fields
+    const request = ethers.copyRequest(tx);
+    if (request.to) request.to = await ethers.resolveAddress(request.to, this);
+    const rpcTx = this.rpc.getRpcTransaction({ ...request, from: this.address });
+    // Newer signers read the calldata from `input`, older ones from `data`
+    const params = rpcTx.data ? { ...rpcTx, input: rpcTx.data } : rpcTx;
+    // Clef answers { raw, tx }; some signers return the raw transaction alone
+    const result = await this.rpc.send("eth_signTransaction", [params]);
+    const raw: string = typeof result === "string" ? result : result.raw;
+
+    const signed = ethers.Transaction.from(raw);
+    if (signed.from !== this.address) {
+      throw new Error(`External signer returned a transaction from ${signed.from}, expected ${this.address}`);
+    }
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === "string" ? ethers.toUtf8Bytes(message) : message;
+    return this.rpc.send("account_signData", ["text/plain", this.address, ethers.hexlify(data)]);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.rpc.send("account_signTypedData", [this.address, ethers.TypedDataEncoder.getPayload(domain, types, value)]);
+  }
+}
+
+/**
+ * Decrypt an encrypted JSON keystore (as written by geth, Clef or ethers'
+ * `Wallet.encrypt`).
+ */
+export async function unlockKeystore(file: string, passphrase: string): Promise<ethers.Wallet> {
+  const json = fs.readFileSync(file, "utf8");
+  try {
+    const wallet = await ethers.Wallet.fromEncryptedJson(json, passphrase);
+    return wallet instanceof ethers.Wallet ? wallet : new ethers.Wallet(wallet.privateKey);
+  } catch (err: any) {
+    throw new Error(`Could not decrypt keystore ${file}: ${err.shortMessage ?? err.message}`);
+  }
+}
+
+/** A passphrase read from file descriptor `fd` if given, otherwise prompted for on the terminal. */
+export async function readPassphrase(fd: number | null, question: string): Promise<string> {
+  return fd !== null
+    ? readPassphraseFd(fd)
+    : promptPassphrase(question, "pass it on a file descriptor with SESSION_KEYSTORE_PASSPHRASE_FD");
+}
+
+/** The whole of a descriptor (a pipe, or `3<file`), minus one trailing newline. */
+function readPassphraseFd(fd: number): string {
+  try {
+    return fs.readFileSync(fd, "utf8").replace(/\r?\n$/, "");
+  } catch (err: any) {
+    throw new Error(`Could not read the keystore passphrase from file descriptor ${fd}: ${err.message}`);
+  } finally {
+    try {
+      fs.closeSync(fd);
+    } catch {
+      // already closed
+    }
+  }
+}
+
+/**
+ * Read a secret from the controlling terminal without echoing it.
+ * Over stdio, stdin and stdout carry MCP, so this talks to /dev/tty.
+ * `alternative` tells the user how to supply it when there is no terminal.
+ */
+export async function promptPassphrase(question: string, alternative: string): Promise<string> {
+  let fd: number;
+  try {
+    fd = fs.openSync("/dev/tty", "r+");
+  } catch {
+    throw new Error(`No terminal to prompt on; ${alternative}`);
+  }
+  const input = new tty.ReadStream(fd);
+  const output = new tty.WriteStream(fd);
+  output.write(question);
+  input.setRawMode(true);
+
+  return new Promise<string>((resolve, reject) => {
+    let passphrase = "";
+    const done = (err: Error | null) => {
+      input.setRawMode(false);
+      input.removeAllListeners("data");
+      output.write("\n");
+      input.destroy();
+      output.destroy();
+      if (err) reject(err);
+      else resolve(passphrase);
+    };
+    input.on("data", (chunk: Buffer) => {
+      for (const ch of chunk.toString("utf8")) {
+        if (ch === "\r" || ch === "\n") return done(null);
+        if (ch === "\u0003") return done(new Error("Prompt cancelled"));
+        if (ch === "\u007f" || ch === "\b") passphrase = passphrase.slice(0, -1);
+        else passphrase += ch;
+      }
+    });
+  });
+}
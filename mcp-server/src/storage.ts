@@ -0,0 +1,46 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Small JSON file store for local server state (spending counters,
+ * pending transactions, ...).
+ *
+ * Writes go to a temp file first and are renamed into place, so a crash
+ * mid-write never leaves a truncated file behind. BigInts are written as
+ * decimal strings — callers convert them back when loading.
+ */
+export class JsonFileStore<T> {
+  readonly filePath: string;
+  private defaults: () => T;
+
+  constructor(filePath: string, defaults: () => T) {
+    this.filePath = filePath;
+    this.defaults = defaults;
+  }
+
+  load(): T {
+    if (!fs.existsSync(this.filePath)) {
+      return this.defaults();
+    }
+    const raw = fs.readFileSync(this.filePath, "utf8");
+    return { ...this.defaults(), ...JSON.parse(raw) };
+  }
+
+  /**
+   * Write `data` in place of the file. With `mode` (e.g. 0o600 for keys)
+   * the temp file is created with those permissions, so the data is never
+   * readable by others, not even before the rename.
+   */
+  save(data: T, mode?: number): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    // A temp file left by a crash would keep its own permissions
+    if (mode !== undefined) fs.rmSync(tmp, { force: true });
+    fs.writeFileSync(
+      tmp,
+      JSON.stringify(data, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2),
+      { mode }
+    );
+    fs.renameSync(tmp, this.filePath);
+  }
+}
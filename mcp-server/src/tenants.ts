@@ -0,0 +1,162 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { z } from "zod";
+import { Config, parseTokenLimits, parseToolProfile } from "./config.js";
+import { AgentPactClients, createClients } from "./client/index.js";
+import { loadRotatedSessionKey } from "./client/rotation.js";
+import { getSigner, hasSessionSigner } from "./provider.js";
+
+const TenantSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, "tenant id may only contain letters, digits, '-' and '_'"),
+  /** Authenticated client IDs (bearer token names / certificate CNs) served by this tenant. Defaults to [id]. */
+  clients: z.array(z.string().min(1)).optional(),
+  sessionKey: z.string().optional(),
+  /** Name of an environment variable holding the session key, to keep keys out of the file. */
+  sessionKeyEnv: z.string().optional(),
+  safeAddress: z.string().refine(ethers.isAddress, "invalid safeAddress").transform((a) => ethers.getAddress(a)),
+  maxPerTxEth: z.string().optional(),
+  maxDailyEth: z.string().optional(),
+  maxWeeklyEth: z.string().optional(),
+  /** As in TOKEN_LIMITS. */
+  tokenLimits: z.string().optional(),
+  dryRun: z.boolean().optional(),
+  /** Comma-separated roles, as in TOOL_PROFILE. */
+  toolProfile: z.string().optional(),
+  /** Policy rules file for this tenant, instead of POLICY_RULES_FILE. */
+  policyRulesFile: z.string().optional(),
+}).refine((t) => !!t.sessionKey !== !!t.sessionKeyEnv, "set exactly one of sessionKey or sessionKeyEnv");
+
+const TenantsFileSchema = z.object({
+  tenants: z.array(TenantSchema).min(1),
+});
+
+type TenantEntry = z.infer<typeof TenantSchema>;
+
+/** One identity hosted by the server: a session key acting for a Safe, with its own limits and write path. */
+export interface Tenant {
+  id: string;
+  /** The server config with this tenant's session key, Safe, limits and data dir. */
+  config: Config;
+  clients: AgentPactClients;
+}
+
+export class UnknownTenantError extends Error {
+  constructor(clientId: string) {
+    super(`No tenant is configured for client "${clientId}"`);
+    this.name = "UnknownTenantError";
+  }
+}
+
+/**
+ * Maps client identities to tenants. The env session key (SESSION_KEY,
+ * SESSION_KEYSTORE or SESSION_SIGNER_URL, with SAFE_ADDRESS) becomes the
+ * "default" tenant — unlock it with `unlockSigner` first; TENANTS_FILE adds
+ * more. Each tenant gets its own SpendingTracker, PolicyChecker, TxQueue
+ * and SafeExecutor, with local state under DATA_DIR/tenants/<id>.
+ *
+ * Without a tenants file every client is served by the default tenant, as
+ * in a single-identity deployment.
+ */
+export class TenantRegistry {
+  private readonly config: Config;
+  private readonly tenants = new Map<string, Tenant>();
+  private readonly byClient = new Map<string, Tenant>();
+
+  constructor(config: Config) {
+    this.config = config;
+
+    if (hasSessionSigner(config)) {
+      this.add("default", config, ["default", ...config.defaultTenantClients]);
+    }
+    if (config.tenantsFile) {
+      for (const entry of this.loadFile(config.tenantsFile)) {
+        this.add(entry.id, this.tenantConfig(entry), entry.clients ?? [entry.id]);
+      }
+    }
+    if (this.tenants.size === 0) {
+      throw new Error("No tenants configured — set SESSION_KEY or TENANTS_FILE");
+    }
+  }
+
+  list(): Tenant[] {
+    return [...this.tenants.values()];
+  }
+
+  get(id: string): Tenant {
+    const tenant = this.tenants.get(id);
+    if (!tenant) throw new Error(`Unknown tenant: ${id}`);
+    return tenant;
+  }
+
+  /** Resolve the tenant an authenticated client acts as. */
+  forClient(clientId: string): Tenant {
+    if (!this.config.tenantsFile) return this.get("default");
+    const tenant = this.byClient.get(clientId);
+    if (!tenant) throw new UnknownTenantError(clientId);
+    return tenant;
+  }
+
+  /** The tenant served over stdio: MCP_TENANT, or the only one configured. */
+  forStdio(): Tenant {
+    if (this.config.tenant) return this.get(this.config.tenant);
+    if (this.tenants.size === 1) return this.list()[0];
+    throw new Error(`${this.tenants.size} tenants configured — set MCP_TENANT to choose one for stdio`);
+  }
+
+  private loadFile(file: string): TenantEntry[] {
+    const parsed = TenantsFileSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+      throw new Error(`Invalid tenants file ${file}: ${issues}`);
+    }
+    return parsed.data.tenants;
+  }
+
+  private tenantConfig(entry: TenantEntry): Config {
+    let sessionKey = entry.sessionKey;
+    if (entry.sessionKeyEnv) {
+      sessionKey = process.env[entry.sessionKeyEnv];
+      if (!sessionKey) throw new Error(`Tenant ${entry.id}: environment variable ${entry.sessionKeyEnv} is not set`);
+    }
+    return {
+      ...this.config,
+      sessionKey: sessionKey!,
+      sessionKeystoreFile: null,
+      signerUrl: null,
+      signerAccount: null,
+      safeAddress: entry.safeAddress,
+      maxPerTxEth: entry.maxPerTxEth ?? this.config.maxPerTxEth,
+      maxDailyEth: entry.maxDailyEth ?? this.config.maxDailyEth,
+      maxWeeklyEth: entry.maxWeeklyEth ?? this.config.maxWeeklyEth,
+      tokenLimits: entry.tokenLimits !== undefined ? parseTokenLimits(entry.tokenLimits) : this.config.tokenLimits,
+      dryRun: entry.dryRun ?? this.config.dryRun,
+      toolProfile: entry.toolProfile !== undefined ? parseToolProfile(entry.toolProfile) : this.config.toolProfile,
+      policyRulesFile: entry.policyRulesFile ?? this.config.policyRulesFile,
+      // Spending counters and the tx queue are per tenant
+      dataDir: path.join(this.config.dataDir, "tenants", entry.id),
+    };
+  }
+
+  private add(id: string, config: Config, clientIds: string[]) {
+    if (this.tenants.has(id)) throw new Error(`Duplicate tenant id: ${id}`);
+
+    // Two tenants on one session key would race each other's nonces. Compare
+    // the keys they will sign with, i.e. after any rotation.
+    loadRotatedSessionKey(config);
+    const keyAddress = getSigner(config).address;
+    for (const other of this.tenants.values()) {
+      if (getSigner(other.config).address === keyAddress) {
+        throw new Error(`Tenants ${other.id} and ${id} share session key ${keyAddress}`);
+      }
+    }
+
+    const tenant: Tenant = { id, config, clients: createClients(config) };
+    this.tenants.set(id, tenant);
+    for (const clientId of clientIds) {
+      const existing = this.byClient.get(clientId);
+      if (existing) throw new Error(`Client ${clientId} is mapped to both ${existing.id} and ${id}`);
+      this.byClient.set(clientId, tenant);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { ethers } from "ethers";
+import { Config } from "./config.js";
+import { getERC20 } from "./contracts.js";
+
+/** Payment asset of a pact or fee: native ETH or an ERC-20 token. */
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+  isNative: boolean;
+}
+
+export const NATIVE_TOKEN: TokenInfo = { address: ethers.ZeroAddress, symbol: "ETH", decimals: 18, isNative: true };
+
+// decimals() and symbol() never change, so they are read once per token
+const cache = new Map<string, Promise<TokenInfo>>();
+
+/** Look up a token's symbol and decimals (zero address = native ETH). */
+export function getTokenInfo(config: Config, address: string): Promise<TokenInfo> {
+  if (address === ethers.ZeroAddress) return Promise.resolve(NATIVE_TOKEN);
+
+  const key = address.toLowerCase();
+  let info = cache.get(key);
+  if (!info) {
+    const token = getERC20(config, address);
+    info = Promise.all([token.decimals(), token.symbol()]).then(
+      ([decimals, symbol]) => ({ address: ethers.getAddress(address), symbol, decimals: Number(decimals), isNative: false }),
+      (err) => {
+        cache.delete(key);
+        throw new Error(`${address} is not an ERC-20 token (decimals()/symbol() failed: ${err.shortMessage ?? err.message})`);
+      }
+    );
+    cache.set(key, info);
+  }
+  return info;
+}
+
+/** Parse a human-readable amount ("12.5") into base units of the token. */
+export function parseAmount(amount: string, token: TokenInfo): bigint {
+  return ethers.parseUnits(amount, token.decimals);
+}
+
+/** Format base units of the token as "12.5 USDC". */
+export function formatAmount(amount: bigint, token: TokenInfo): string {
+  return `${ethers.formatUnits(amount, token.decimals)} ${token.symbol}`;
+}
@@ -1,28 +1,25 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ethers } from "ethers";
-import { Config } from "../config.js";
-import { SafeExecutor } from "../wallet/safe-executor.js";
-import { AGENT_PACT_ABI } from "../abis.js";
+import { AgentPactClient } from "../client/agent-pact.js";
+import { dryRunParam, dryRunResult } from "./dry-run.js";
 
-const agentPactIface = new ethers.Interface(AGENT_PACT_ABI);
-
-export function registerApprovalTools(server: McpServer, config: Config, executor: SafeExecutor) {
+export function registerApprovalTools(server: McpServer, pacts: AgentPactClient) {
   server.tool(
     "approve-work",
     "Buyer approves delivered work after oracle verification passes. Releases payment to seller.",
     {
       pactId: z.number().int().nonnegative().describe("The pact ID"),
+      dryRun: dryRunParam,
     },
-    async ({ pactId }) => {
+    async ({ pactId, dryRun }) => {
       try {
-        const calldata = agentPactIface.encodeFunctionData("approveWork", [pactId]);
-        const receipt = await executor.execute(config.agentPactAddress, 0n, calldata);
+        const r = await pacts.approveWork(pactId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Pact #${pactId} approved. Payment released to seller, buyer stake returned. Status: COMPLETED.\nTx: ${receipt.hash}`,
+            text: `Pact #${pactId} approved. Payment released to seller, buyer stake returned. Status: COMPLETED.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -36,16 +33,17 @@ export function registerApprovalTools(server: McpServer, config: Config, executo
     "Buyer rejects delivered work after oracle verification. Triggers dispute.",
     {
       pactId: z.number().int().nonnegative().describe("The pact ID"),
+      dryRun: dryRunParam,
     },
-    async ({ pactId }) => {
+    async ({ pactId, dryRun }) => {
       try {
-        const calldata = agentPactIface.encodeFunctionData("rejectWork", [pactId]);
-        const receipt = await executor.execute(config.agentPactAddress, 0n, calldata);
+        const r = await pacts.rejectWork(pactId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Pact #${pactId} rejected. Status: DISPUTED. Set an arbitrator to resolve.\nTx: ${receipt.hash}`,
+            text: `Pact #${pactId} rejected. Status: DISPUTED. Set an arbitrator to resolve.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -59,16 +57,17 @@ export function registerApprovalTools(server: McpServer, config: Config, executo
     "Anyone can call this after the review period expires to release payment. Prevents buyer from holding funds hostage.",
     {
       pactId: z.number().int().nonnegative().describe("The pact ID"),
+      dryRun: dryRunParam,
     },
-    async ({ pactId }) => {
+    async ({ pactId, dryRun }) => {
       try {
-        const calldata = agentPactIface.encodeFunctionData("autoApprove", [pactId]);
-        const receipt = await executor.execute(config.agentPactAddress, 0n, calldata);
+        const r = await pacts.autoApprove(pactId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Review period expired. Pact #${pactId} auto-approved. Payment released to seller.\nTx: ${receipt.hash}`,
+            text: `Review period expired. Pact #${pactId} auto-approved. Payment released to seller.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
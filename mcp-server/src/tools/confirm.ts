@@ -0,0 +1,158 @@
+import { ethers } from "ethers";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Config } from "../config.js";
+import { AgentPactClient } from "../client/agent-pact.js";
+import { RouterClient } from "../client/router.js";
+import { TokenInfo, formatAmount, getTokenInfo, parseAmount } from "../tokens.js";
+
+/** What the human is asked to confirm, and the amount CONFIRM_TOOLS thresholds compare against. */
+interface Confirmation {
+  summary: string;
+  amount?: { value: bigint; token: TokenInfo };
+}
+
+type Summarizer = (args: any, config: Config, clients: { pacts: AgentPactClient; router: RouterClient }) => Promise<Confirmation>;
+
+const date = (unix: number) => new Date(unix * 1000).toISOString();
+
+// Tools without an entry here are confirmed with their raw arguments
+const SUMMARIES: Record<string, Summarizer> = {
+  "create-pact": async (args, config) => {
+    const token = await getTokenInfo(config, args.paymentToken);
+    const payment = parseAmount(args.paymentEth, token);
+    const fee = parseAmount(args.oracleFeeEth, token);
+    return {
+      amount: { value: payment, token },
+      summary: [
+        `Create a pact as ${String(args.role).toUpperCase()}`,
+        `Payment: ${formatAmount(payment, token)}${fee > 0n ? ` + ${formatAmount(fee, token)} oracle fee` : ""}`,
+        `Deadline: ${date(args.deadline)}`,
+        `Oracles: ${args.oracles.map((o: string, i: number) => `${o} (${args.oracleWeights[i]}%)`).join(", ")}, pass at ${args.threshold}`,
+        `Spec: ${args.specHash}`,
+      ].join("\n"),
+    };
+  },
+
+  "approve-work": async (args, _config, { pacts }) => {
+    const p = await pacts.getPact(args.pactId);
+    return {
+      amount: { value: p.payment, token: p.token },
+      summary: [
+        `Approve work on pact #${args.pactId} and release payment — this can't be undone`,
+        `Seller (paid): ${p.seller}`,
+        `Payment: ${formatAmount(p.payment, p.token)}`,
+        `Deadline: ${date(p.deadline)}`,
+      ].join("\n"),
+    };
+  },
+
+  "resolve-dispute": async (args, _config, { pacts }) => {
+    const p = await pacts.getPact(args.pactId);
+    const total = p.payment + p.buyerStake + p.sellerStake;
+    return {
+      amount: { value: total, token: p.token },
+      summary: [
+        `Resolve the dispute on pact #${args.pactId} in favour of the ${args.sellerWins ? "SELLER" : "BUYER"} — this can't be undone`,
+        `Winner: ${args.sellerWins ? p.seller : p.buyer}`,
+        `Loser: ${args.sellerWins ? p.buyer : p.seller}`,
+        `At stake: ${formatAmount(total, p.token)} (payment ${formatAmount(p.payment, p.token)} + stakes)`,
+      ].join("\n"),
+    };
+  },
+
+  "router-deactivate-validator": async (_args, config, { router }) => {
+    const v = await router.getValidator(config.safeAddress);
+    const eth = await getTokenInfo(config, ethers.ZeroAddress);
+    return {
+      amount: { value: v.stake, token: eth },
+      summary: [
+        `Deactivate validator ${v.address} and withdraw its stake`,
+        `Stake returned: ${formatAmount(v.stake, eth)}`,
+        `Record: ${v.completedJobs} completed, ${v.failedJobs} failed jobs, ${v.categoryCount} categories`,
+        "The validator stops receiving jobs until it registers again.",
+      ].join("\n"),
+    };
+  },
+};
+
+function genericConfirmation(name: string, args: Record<string, unknown>): Confirmation {
+  const lines = Object.entries(args).map(([k, v]) => `${k}: ${typeof v === "string" ? v : JSON.stringify(v)}`);
+  return { summary: [`Run ${name}`, ...lines].join("\n") };
+}
+
+function refusal(text: string) {
+  return { content: [{ type: "text" as const, text }], isError: true };
+}
+
+/**
+ * Wrap a server so the write tools listed in CONFIRM_TOOLS ask the human to
+ * confirm a summary of the action — counterparty, amounts, token, deadline —
+ * via MCP elicitation before anything is sent. A `tool>amount` entry only
+ * asks above that amount. Dry runs never ask.
+ *
+ * Clients without elicitation support get CONFIRM_FALLBACK: `deny` (the
+ * default) refuses the write, `allow` runs it unconfirmed.
+ */
+export function confirmingServer(
+  server: McpServer,
+  config: Config,
+  clients: { pacts: AgentPactClient; router: RouterClient }
+): McpServer {
+  const confirm = async (name: string, args: Record<string, any>): Promise<ReturnType<typeof refusal> | null> => {
+    const confirmation = await (SUMMARIES[name]?.(args, config, clients) ?? Promise.resolve(genericConfirmation(name, args)));
+
+    const min = config.confirmTools.get(name);
+    if (min && confirmation.amount) {
+      const { value, token } = confirmation.amount;
+      if (value <= parseAmount(min, token)) return null;
+    }
+
+    if (!server.server.getClientCapabilities()?.elicitation) {
+      if (config.confirmFallback === "allow") {
+        console.error(`${name}: client can't confirm via elicitation, running unconfirmed (CONFIRM_FALLBACK=allow)`);
+        return null;
+      }
+      return refusal(
+        `${name} needs the user's confirmation, but this client doesn't support MCP elicitation, so nothing was sent ` +
+        `(CONFIRM_FALLBACK=deny). Ask the user to run it from a client that supports elicitation.\n\n${confirmation.summary}`
+      );
+    }
+
+    const result = await server.server.elicitInput({
+      message: `${confirmation.summary}\n\nExecute this transaction from the Safe?`,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: { type: "boolean", title: "Execute", description: "Send this transaction" },
+        },
+        required: ["confirm"],
+      },
+    }, { timeout: config.confirmTimeoutSec * 1000 });
+
+    if (result.action === "accept" && result.content?.confirm === true) return null;
+    return refusal(`The user did not confirm ${name} (${result.action === "accept" ? "declined" : result.action}). Nothing was sent.`);
+  };
+
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop !== "tool") return Reflect.get(target, prop, receiver);
+      return (name: string, ...rest: any[]) => {
+        const handler = rest[rest.length - 1];
+        if (config.confirmTools.has(name) && typeof handler === "function") {
+          rest[rest.length - 1] = async (args: Record<string, any>, extra: unknown) => {
+            if (!args.dryRun && !config.dryRun) {
+              try {
+                const refused = await confirm(name, args);
+                if (refused) return refused;
+              } catch (err: any) {
+                return refusal(`Could not confirm ${name} with the user: ${err.reason ?? err.message}. Nothing was sent.`);
+              }
+            }
+            return handler(args, extra);
+          };
+        }
+        return Reflect.apply(target.tool, target, [name, ...rest]);
+      };
+    },
+  });
+}
@@ -2,23 +2,12 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ethers } from "ethers";
 import { Config } from "../config.js";
-import { getAgentPact, getOracleRegistry } from "../contracts.js";
-import { getSigner } from "../provider.js";
+import { AgentPactClient } from "../client/agent-pact.js";
+import { pactStatusName } from "../client/common.js";
+import { EventIndexer } from "../indexer/indexer.js";
+import { getTokenInfo, formatAmount } from "../tokens.js";
 
-const STATUS_NAMES = [
-  "NEGOTIATING",
-  "FUNDED",
-  "IN_PROGRESS",
-  "PENDING_VERIFY",
-  "COMPLETED",
-  "DISPUTED",
-  "REFUNDED",
-  "PENDING_APPROVAL",
-] as const;
-
-const INITIATOR_NAMES = ["BUYER", "SELLER"] as const;
-
-export function registerDiscoveryTools(server: McpServer, config: Config) {
+export function registerDiscoveryTools(server: McpServer, config: Config, pacts: AgentPactClient, indexer?: EventIndexer) {
   server.tool(
     "list-open-pacts",
     "List pacts currently open for acceptance (NEGOTIATING status). Shows buyer requests and seller listings.",
@@ -28,35 +17,58 @@ export function registerDiscoveryTools(server: McpServer, config: Config) {
     },
     async ({ offset, limit }) => {
       try {
-        const contract = getAgentPact(config);
-        const total = Number(await contract.getOpenPactCount());
-        const pactIds: bigint[] = await contract.getOpenPacts(offset, limit);
+        let total: number;
+        let rows: { pactId: number; initiator: number; payment: bigint; oracleFee: bigint; paymentToken: string; deadline: number; specHash: string; creator: string }[];
+
+        if (indexer?.isSynced()) {
+          // Served from the local event index — no per-pact RPC calls
+          total = indexer.store.getOpenPactCount();
+          rows = indexer.store.getOpenPacts(offset, limit).map((p) => ({
+            pactId: p.pactId,
+            initiator: p.initiator,
+            payment: BigInt(p.payment),
+            oracleFee: BigInt(p.oracleFee ?? "0"),
+            paymentToken: p.paymentToken ?? ethers.ZeroAddress,
+            deadline: p.deadline,
+            specHash: p.specHash,
+            creator: p.creator,
+          }));
+        } else {
+          const page = await pacts.getOpenPacts(offset, limit);
+          total = page.total;
+          rows = page.pacts.map((p) => ({
+            pactId: Number(p.pactId),
+            initiator: p.initiator === "BUYER" ? 0 : 1,
+            payment: p.payment,
+            oracleFee: p.oracleFee,
+            paymentToken: p.token.address,
+            deadline: p.deadline,
+            specHash: p.specHash,
+            creator: p.creator,
+          }));
+        }
 
-        const pacts = await Promise.all(
-          pactIds.map(async (id) => {
-            const p = await contract.getPact(id);
-            const isToken = p.paymentToken !== ethers.ZeroAddress;
-            const unit = isToken ? `tokens (${p.paymentToken})` : "ETH";
-            return {
-              pactId: Number(id),
-              type: INITIATOR_NAMES[Number(p.initiator)] === "BUYER" ? "REQUEST (buyer seeking seller)" : "LISTING (seller offering service)",
-              payment: ethers.formatEther(p.payment) + ` ${unit}`,
-              oracleFee: ethers.formatEther(p.oracleFee) + ` ${unit}`,
-              paymentToken: isToken ? p.paymentToken : "ETH (native)",
-              deadline: new Date(Number(p.deadline_) * 1000).toISOString(),
-              specHash: p.specHash,
-              creator: p.initiator === 0n ? p.buyer : p.seller,
-            };
-          })
-        );
+        const results = await Promise.all(rows.map(async (p) => {
+          const token = await getTokenInfo(config, p.paymentToken);
+          return {
+            pactId: p.pactId,
+            type: p.initiator === 0 ? "REQUEST (buyer seeking seller)" : "LISTING (seller offering service)",
+            payment: formatAmount(p.payment, token),
+            oracleFee: formatAmount(p.oracleFee, token),
+            paymentToken: token.isNative ? "ETH (native)" : `${token.symbol} (${token.address})`,
+            deadline: new Date(p.deadline * 1000).toISOString(),
+            specHash: p.specHash,
+            creator: p.creator,
+          };
+        }));
 
         return {
           content: [{
             type: "text" as const,
             text: JSON.stringify({
               totalOpen: total,
-              showing: `${offset}–${offset + pacts.length} of ${total}`,
-              pacts,
+              showing: `${offset}–${offset + results.length} of ${total}`,
+              pacts: results,
             }, null, 2),
           }],
         };
@@ -75,30 +87,49 @@ export function registerDiscoveryTools(server: McpServer, config: Config) {
     },
     async ({ offset, limit }) => {
       try {
-        const contract = getAgentPact(config);
-        const wallet = getSigner(config);
-        const myAddr = config.safeAddress ?? wallet.address;
+        const myAddr = config.safeAddress;
 
-        const total = Number(await contract.getUserPactCount(myAddr));
-        const pactIds: bigint[] = await contract.getPactsByAddress(myAddr, offset, limit);
+        let total: number;
+        let rows: { pactId: number; buyer: string; seller: string; payment: bigint; paymentToken: string; status: number; deadline: number }[];
 
-        const pacts = await Promise.all(
-          pactIds.map(async (id) => {
-            const p = await contract.getPact(id);
-            const isBuyer = p.buyer.toLowerCase() === myAddr.toLowerCase();
-            const isToken = p.paymentToken !== ethers.ZeroAddress;
-            const unit = isToken ? "tokens" : "ETH";
-            return {
-              pactId: Number(id),
-              role: isBuyer ? "BUYER" : "SELLER",
-              counterparty: isBuyer ? p.seller : p.buyer,
-              payment: ethers.formatEther(p.payment) + ` ${unit}`,
-              paymentToken: isToken ? p.paymentToken : "ETH (native)",
-              status: STATUS_NAMES[Number(p.status)] ?? `UNKNOWN(${p.status})`,
-              deadline: new Date(Number(p.deadline_) * 1000).toISOString(),
-            };
-          })
-        );
+        if (indexer?.isSynced()) {
+          total = indexer.store.getUserPactCount(myAddr);
+          rows = indexer.store.getPactsByAddress(myAddr, offset, limit).map((p) => ({
+            pactId: p.pactId,
+            buyer: p.buyer,
+            seller: p.seller,
+            payment: BigInt(p.payment),
+            paymentToken: p.paymentToken ?? ethers.ZeroAddress,
+            status: p.status,
+            deadline: p.deadline,
+          }));
+        } else {
+          const page = await pacts.getPactsFor(myAddr, offset, limit);
+          total = page.total;
+          rows = page.pacts.map((p) => ({
+            pactId: Number(p.pactId),
+            buyer: p.buyer,
+            seller: p.seller,
+            payment: p.payment,
+            paymentToken: p.token.address,
+            status: p.statusCode,
+            deadline: p.deadline,
+          }));
+        }
+
+        const results = await Promise.all(rows.map(async (p) => {
+          const isBuyer = p.buyer.toLowerCase() === myAddr.toLowerCase();
+          const token = await getTokenInfo(config, p.paymentToken);
+          return {
+            pactId: p.pactId,
+            role: isBuyer ? "BUYER" : "SELLER",
+            counterparty: isBuyer ? p.seller : p.buyer,
+            payment: formatAmount(p.payment, token),
+            paymentToken: token.isNative ? "ETH (native)" : `${token.symbol} (${token.address})`,
+            status: pactStatusName(p.status),
+            deadline: new Date(p.deadline * 1000).toISOString(),
+          };
+        }));
 
         return {
           content: [{
@@ -106,8 +137,8 @@ export function registerDiscoveryTools(server: McpServer, config: Config) {
             text: JSON.stringify({
               address: myAddr,
               totalPacts: total,
-              showing: `${offset}–${offset + pacts.length} of ${total}`,
-              pacts,
+              showing: `${offset}–${offset + results.length} of ${total}`,
+              pacts: results,
             }, null, 2),
           }],
         };
@@ -125,20 +156,11 @@ export function registerDiscoveryTools(server: McpServer, config: Config) {
     },
     async ({ capability }) => {
       try {
-        const registry = getOracleRegistry(config);
-        const addresses: string[] = await registry.getOraclesByCapability(capability);
-
-        const oracles = await Promise.all(
-          addresses.map(async (addr: string) => {
-            const stake = await registry.getOracleStake(addr);
-            const caps = await registry.getOracleCapabilities(addr);
-            return {
-              address: addr,
-              stake: ethers.formatEther(stake) + " ETH",
-              capabilities: caps,
-            };
-          })
-        );
+        const oracles = (await pacts.findOracles(capability)).map((o) => ({
+          address: o.address,
+          stake: ethers.formatEther(o.stake) + " ETH",
+          capabilities: o.capabilities,
+        }));
 
         return {
           content: [{
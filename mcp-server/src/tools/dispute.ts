@@ -1,29 +1,26 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ethers } from "ethers";
-import { Config } from "../config.js";
-import { SafeExecutor } from "../wallet/safe-executor.js";
-import { AGENT_PACT_ABI } from "../abis.js";
+import { AgentPactClient } from "../client/agent-pact.js";
+import { dryRunParam, dryRunResult } from "./dry-run.js";
 
-const agentPactIface = new ethers.Interface(AGENT_PACT_ABI);
-
-export function registerDisputeTools(server: McpServer, config: Config, executor: SafeExecutor) {
+export function registerDisputeTools(server: McpServer, pacts: AgentPactClient) {
   server.tool(
     "raise-dispute",
     "Raise a dispute on an active pact (buyer or seller only)",
     {
       pactId: z.number().int().nonnegative().describe("The pact ID"),
       arbitrator: z.string().describe("Arbitrator address to resolve the dispute"),
+      dryRun: dryRunParam,
     },
-    async ({ pactId, arbitrator }) => {
+    async ({ pactId, arbitrator, dryRun }) => {
       try {
-        const calldata = agentPactIface.encodeFunctionData("raiseDispute", [pactId, arbitrator]);
-        const receipt = await executor.execute(config.agentPactAddress, 0n, calldata);
+        const r = await pacts.raiseDispute(pactId, arbitrator, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Dispute raised on pact #${pactId}. Arbitrator: ${arbitrator}. Status: DISPUTED.\nTx: ${receipt.hash}`,
+            text: `Dispute raised on pact #${pactId}. Arbitrator: ${arbitrator}. Status: DISPUTED.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -38,18 +35,19 @@ export function registerDisputeTools(server: McpServer, config: Config, executor
     {
       pactId: z.number().int().nonnegative().describe("The pact ID"),
       sellerWins: z.boolean().describe("true = seller wins (gets all funds), false = buyer wins (gets refund)"),
+      dryRun: dryRunParam,
     },
-    async ({ pactId, sellerWins }) => {
+    async ({ pactId, sellerWins, dryRun }) => {
       try {
-        const calldata = agentPactIface.encodeFunctionData("resolveDispute", [pactId, sellerWins]);
-        const receipt = await executor.execute(config.agentPactAddress, 0n, calldata);
+        const r = await pacts.resolveDispute(pactId, sellerWins, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         const winner = sellerWins ? "seller" : "buyer";
 
         return {
           content: [{
             type: "text" as const,
-            text: `Dispute resolved for pact #${pactId}. Winner: ${winner}. Funds released.\nTx: ${receipt.hash}`,
+            text: `Dispute resolved for pact #${pactId}. Winner: ${winner}. Funds released.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
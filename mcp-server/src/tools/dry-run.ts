@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { ethers } from "ethers";
+import { SimulationResult } from "../wallet/safe-executor.js";
+import { formatAmount } from "../tokens.js";
+
+/** Shared `dryRun` argument for every write tool. */
+export const dryRunParam = z
+  .boolean()
+  .default(false)
+  .describe("Simulate only: return the encoded calldata, value, gas estimate and predicted events without broadcasting");
+
+/** Render a simulation — or an approve-then-call sequence — as the tool result for dry runs. */
+export function dryRunResult(sim: SimulationResult | SimulationResult[]) {
+  const sims = Array.isArray(sim) ? sim : [sim];
+  const body = sims.length === 1
+    ? { dryRun: true, ...renderStep(sims[0]) }
+    : { dryRun: true, wouldSucceed: sims.every((s) => s.ok), steps: sims.map(renderStep) };
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify(body, null, 2),
+    }],
+  };
+}
+
+function renderStep(sim: SimulationResult) {
+  return {
+    wouldSucceed: sim.ok,
+    revert: sim.ok ? undefined : { source: sim.revertSource, reason: sim.revertReason },
+    note: sim.note,
+    requiresHumanApproval: sim.requiresApprovalAbove !== undefined || undefined,
+    target: sim.target,
+    function: sim.functionName ?? "unknown",
+    value: ethers.formatEther(sim.value) + " ETH",
+    spends: sim.spends.length > 0 ? sim.spends.map((s) => formatAmount(s.amount, s.token)) : undefined,
+    calldata: sim.data,
+    moduleCalldata: sim.moduleCalldata,
+    gasEstimate: sim.gasEstimate?.toString() ?? null,
+    predictedEvents: sim.predictedEvents,
+    eventsSource: sim.eventsSource,
+  };
+}
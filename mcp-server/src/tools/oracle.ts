@@ -1,32 +1,26 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ethers } from "ethers";
-import { Config } from "../config.js";
-import { SafeExecutor } from "../wallet/safe-executor.js";
-import { AGENT_PACT_ABI, ORACLE_REGISTRY_ABI } from "../abis.js";
+import { AgentPactClient } from "../client/agent-pact.js";
+import { dryRunParam, dryRunResult } from "./dry-run.js";
 
-const agentPactIface = new ethers.Interface(AGENT_PACT_ABI);
-const oracleRegistryIface = new ethers.Interface(ORACLE_REGISTRY_ABI);
-
-export function registerOracleTools(server: McpServer, config: Config, executor: SafeExecutor) {
+export function registerOracleTools(server: McpServer, pacts: AgentPactClient) {
   server.tool(
     "register-oracle",
     "Register as a verification oracle with stake and capabilities",
     {
       capabilities: z.array(z.string()).min(1).describe("List of capabilities (e.g. ['code-review', 'testing'])"),
       stakeEth: z.string().describe("Stake amount in ETH"),
+      dryRun: dryRunParam,
     },
-    async ({ capabilities, stakeEth }) => {
+    async ({ capabilities, stakeEth, dryRun }) => {
       try {
-        const stakeWei = ethers.parseEther(stakeEth);
-
-        const calldata = oracleRegistryIface.encodeFunctionData("registerOracle", [capabilities]);
-        const receipt = await executor.execute(config.oracleRegistryAddress, stakeWei, calldata);
+        const r = await pacts.registerOracle(capabilities, stakeEth, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Registered as oracle. Staked ${stakeEth} ETH. Capabilities: ${capabilities.join(", ")}.\nTx: ${receipt.hash}`,
+            text: `Registered as oracle. Staked ${stakeEth} ETH. Capabilities: ${capabilities.join(", ")}.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -42,18 +36,17 @@ export function registerOracleTools(server: McpServer, config: Config, executor:
       pactId: z.number().int().nonnegative().describe("The pact ID"),
       score: z.number().int().min(0).max(100).describe("Score 0-100"),
       proof: z.string().describe("Proof hash (bytes32 hex or plain string to hash)"),
+      dryRun: dryRunParam,
     },
-    async ({ pactId, score, proof }) => {
+    async ({ pactId, score, proof, dryRun }) => {
       try {
-        const proofBytes = proof.startsWith("0x") ? proof : ethers.keccak256(ethers.toUtf8Bytes(proof));
-
-        const calldata = agentPactIface.encodeFunctionData("submitVerification", [pactId, score, proofBytes]);
-        const receipt = await executor.execute(config.agentPactAddress, 0n, calldata);
+        const r = await pacts.submitVerification(pactId, score, proof, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Verification submitted for pact #${pactId}. Score: ${score}/100. Proof: ${proofBytes}.\nTx: ${receipt.hash}`,
+            text: `Verification submitted for pact #${pactId}. Score: ${score}/100. Proof: ${r.proofHash}.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -0,0 +1,296 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { getProvider } from "../provider.js";
+import { OwnerClient, SessionGrant } from "../client/owner.js";
+import { SessionKeyRotator } from "../client/rotation.js";
+import { SessionPolicy } from "../client/policy.js";
+import { SessionTemplate, loadSessionTemplates } from "../wallet/session-templates.js";
+import { sessionScope } from "./profiles.js";
+import { dryRunParam, dryRunResult } from "./dry-run.js";
+
+const addressParam = (what: string) => z.string().refine(ethers.isAddress, "invalid address").describe(what);
+
+function formatPolicy(p: SessionGrant | SessionPolicy) {
+  return {
+    sessionKey: p.sessionKey,
+    active: "active" in p ? p.active : undefined,
+    maxPerTx: ethers.formatEther(p.maxPerTx) + " ETH",
+    maxDaily: ethers.formatEther(p.maxDaily) + " ETH",
+    maxWeekly: ethers.formatEther(p.maxWeekly) + " ETH",
+    humanApprovalAbove: p.humanApprovalAbove > 0n ? ethers.formatEther(p.humanApprovalAbove) + " ETH" : "disabled",
+    allowedContracts: p.allowedContracts,
+    allowedFunctions: p.allowedFunctions,
+    allowedTokens: p.allowedTokens,
+    expiresAt: p.expiresAt > 0 ? new Date(p.expiresAt * 1000).toISOString() : null,
+  };
+}
+
+interface GrantOverrides {
+  tools?: string[];
+  maxPerTxEth?: string;
+  maxDailyEth?: string;
+  maxWeeklyEth?: string;
+  humanApprovalAboveEth?: string;
+  allowedTokens?: string[];
+  durationDays?: number;
+}
+
+/** The grant a template (plus overrides) describes for a key, expiring relative to chain time. */
+async function templateGrant(config: Config, name: string, sessionKey: string, overrides: GrantOverrides): Promise<{ grant: SessionGrant; tools: string[] }> {
+  const template: SessionTemplate | undefined = loadSessionTemplates(config.sessionTemplatesFile).get(name);
+  if (!template) throw new Error(`Unknown session template: ${name} (see owner-session-templates)`);
+
+  const allowedTokens = overrides.allowedTokens ?? template.allowedTokens;
+  const scope = sessionScope(config, [...template.tools, ...(overrides.tools ?? [])], allowedTokens);
+  if (scope.allowedContracts.length === 0) {
+    throw new Error(`Template ${name} only uses read-only tools; a session needs at least one write tool`);
+  }
+
+  const now = (await getProvider(config).getBlock("latest"))!.timestamp;
+  return {
+    tools: scope.tools,
+    grant: {
+      sessionKey: ethers.getAddress(sessionKey),
+      maxPerTx: ethers.parseEther(overrides.maxPerTxEth ?? template.maxPerTxEth),
+      maxDaily: ethers.parseEther(overrides.maxDailyEth ?? template.maxDailyEth),
+      maxWeekly: ethers.parseEther(overrides.maxWeeklyEth ?? template.maxWeeklyEth),
+      humanApprovalAbove: ethers.parseEther(overrides.humanApprovalAboveEth ?? template.humanApprovalAboveEth),
+      allowedContracts: scope.allowedContracts,
+      allowedFunctions: scope.allowedFunctions,
+      allowedTokens,
+      expiresAt: now + Math.floor((overrides.durationDays ?? template.durationDays) * 86400),
+    },
+  };
+}
+
+/**
+ * Owner-mode tools for AgentPolicyModule, signed by MODULE_OWNER_KEY:
+ * session grants from templates, revocation, rotation (of any key, or of
+ * this server's own), and the shared budget. Only registered when the
+ * owner key is configured.
+ */
+export function registerOwnerTools(server: McpServer, config: Config, owner: OwnerClient, rotator: SessionKeyRotator) {
+  server.tool(
+    "owner-session-templates",
+    "List the named session policy templates owner-grant-session can use, with the allowlists each one derives",
+    {},
+    async () => {
+      try {
+        const templates = [...loadSessionTemplates(config.sessionTemplatesFile)].map(([name, t]) => {
+          const scope = sessionScope(config, t.tools, t.allowedTokens);
+          return { name, ...t, allowedContracts: scope.allowedContracts, allowedFunctions: scope.allowedFunctions };
+        });
+
+        return { content: [{ type: "text" as const, text: JSON.stringify({ ownerKey: owner.address, templates }, null, 2) }] };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "owner-grant-session",
+    "Grant a session key from a named policy template. allowedContracts and allowedFunctions are derived from the tools the template (plus `tools`) covers.",
+    {
+      sessionKey: addressParam("Address of the session key to grant"),
+      template: z.string().describe("Template name (see owner-session-templates)"),
+      tools: z.array(z.string()).optional().describe("Extra tools or profiles on top of the template's"),
+      maxPerTxEth: z.string().optional().describe("Override the template's per-transaction limit (ETH)"),
+      maxDailyEth: z.string().optional().describe("Override the template's daily limit (ETH)"),
+      maxWeeklyEth: z.string().optional().describe("Override the template's weekly limit (ETH)"),
+      humanApprovalAboveEth: z.string().optional().describe("Override the human approval threshold (ETH, '0' = disabled)"),
+      allowedTokens: z.array(z.string()).optional().describe("Override the template's ERC-20 tokens"),
+      durationDays: z.number().positive().optional().describe("Override the template's session length in days"),
+      dryRun: dryRunParam,
+    },
+    async ({ sessionKey, template, dryRun, ...overrides }) => {
+      try {
+        const { grant, tools } = await templateGrant(config, template, sessionKey, overrides);
+        const r = await owner.grantSession(grant, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Session granted to ${grant.sessionKey} from template "${template}".\n` +
+              JSON.stringify({ ...formatPolicy(grant), tools }, null, 2) +
+              `\nTx: ${r.receipt.hash}`,
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error granting session: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "owner-revoke-session",
+    "Revoke a session key immediately. Every write it sends afterwards is rejected.",
+    {
+      sessionKey: addressParam("Address of the session key to revoke"),
+      dryRun: dryRunParam,
+    },
+    async ({ sessionKey, dryRun }) => {
+      try {
+        const r = await owner.revokeSession(sessionKey, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
+
+        return { content: [{ type: "text" as const, text: `Session ${sessionKey} revoked.\nTx: ${r.receipt.hash}` }] };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error revoking session: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "owner-rotate-session",
+    "Move a session to a new key in one transaction: the new key gets the old key's exact policy and the old key is revoked. " +
+    "The new key's on-chain spending limits start from zero, whatever the old key already spent",
+    {
+      oldSessionKey: addressParam("Address of the active session key to replace"),
+      newSessionKey: addressParam("Address of the new session key"),
+      durationDays: z.number().positive().optional().describe("New session length in days (default: keep the old key's expiry)"),
+      dryRun: dryRunParam,
+    },
+    async ({ oldSessionKey, newSessionKey, durationDays, dryRun }) => {
+      try {
+        const expiresAt = durationDays !== undefined
+          ? (await getProvider(config).getBlock("latest"))!.timestamp + Math.floor(durationDays * 86400)
+          : undefined;
+        const r = await owner.rotateSession(oldSessionKey, newSessionKey, { dryRun, expiresAt });
+        if (r.dryRun) return dryRunResult(r.simulations);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Session rotated from ${oldSessionKey} to ${newSessionKey}.\n` +
+              JSON.stringify(formatPolicy(r.grant), null, 2) +
+              `\nTx: ${r.receipt.hash}`,
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error rotating session: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "rotate-session-key",
+    "Replace this server's own session key without downtime: generate a new key, grant it the current policy, fund it for gas, " +
+      "wait for pending transactions, switch over, move pact reservations, sweep the old key's ETH to the Safe and revoke it. " +
+      "The server's own spending limits keep counting the old key's spend; the on-chain limits start from zero",
+    {
+      fundEth: z.string().optional().describe("ETH the owner sends the new key for gas (default: the old key's balance)"),
+      dryRun: dryRunParam,
+    },
+    async ({ fundEth, dryRun }) => {
+      try {
+        const r = await rotator.rotate({ dryRun, fund: fundEth !== undefined ? ethers.parseEther(fundEth) : undefined });
+        if (r.dryRun) return dryRunResult(r.simulations);
+
+        const next = rotator.status().nextRotationAt;
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Session key rotated from ${r.oldKey} to ${r.newKey}.\n` +
+              JSON.stringify({
+                grantTx: r.grantTx ?? "already granted by an earlier attempt",
+                fundTx: r.fundTx,
+                drainedTxs: r.drained.map((t) => ({ hash: t.hash, label: t.label, status: t.status })),
+                reservations: r.reservations.map((m) => ({
+                  pactId: m.pactId.toString(),
+                  amount: ethers.formatEther(m.amount) + " ETH",
+                  from: m.from.toString(),
+                  to: m.to?.toString() ?? null,
+                  error: m.error ?? undefined,
+                })),
+                sweptToSafe: ethers.formatEther(r.swept) + " ETH",
+                sweepTx: r.sweepTx,
+                sweepError: r.sweepError ?? undefined,
+                revokeTx: r.revokeTx,
+                nextScheduledRotation: next ? new Date(next * 1000).toISOString() : null,
+              }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error rotating session key: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "owner-list-sessions",
+    "List every session key granted on this policy module (from SessionGranted/SessionRevoked events) with its current policy",
+    {
+      activeOnly: z.boolean().default(false).describe("Only list sessions that are active and unexpired"),
+    },
+    async ({ activeOnly }) => {
+      try {
+        const now = (await getProvider(config).getBlock("latest"))!.timestamp;
+        const sessions = (await owner.listSessions())
+          .filter((s) => !activeOnly || (s.policy.active && s.policy.expiresAt > now))
+          .map((s) => ({
+            ...formatPolicy(s.policy),
+            expired: s.policy.expiresAt <= now,
+            grantedAtBlock: s.grantedAtBlock,
+            grantTx: s.grantTx,
+            revokedTx: s.revokedTx ?? undefined,
+          }));
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: sessions.length > 0 ? JSON.stringify({ sessions }, null, 2) : `No ${activeOnly ? "active " : ""}sessions found.`,
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error listing sessions: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "owner-set-shared-budget",
+    "Set and enable the Safe-wide budget shared by all session keys",
+    {
+      maxDailyEth: z.string().describe("Daily cap across all agents, in ETH"),
+      maxWeeklyEth: z.string().describe("Weekly cap across all agents, in ETH (also the most that can be reserved)"),
+      dryRun: dryRunParam,
+    },
+    async ({ maxDailyEth, maxWeeklyEth, dryRun }) => {
+      try {
+        const r = await owner.setSharedBudget(maxDailyEth, maxWeeklyEth, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Shared budget set: ${maxDailyEth} ETH daily, ${maxWeeklyEth} ETH weekly.\nTx: ${r.receipt.hash}`,
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error setting shared budget: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "owner-disable-shared-budget",
+    "Disable the Safe-wide shared budget. Session keys keep their own limits.",
+    {
+      dryRun: dryRunParam,
+    },
+    async ({ dryRun }) => {
+      try {
+        const r = await owner.disableSharedBudget({ dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
+
+        return { content: [{ type: "text" as const, text: `Shared budget disabled.\nTx: ${r.receipt.hash}` }] };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error disabling shared budget: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+}
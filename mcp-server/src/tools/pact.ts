@@ -1,14 +1,16 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ethers } from "ethers";
-import { Config } from "../config.js";
-import { getAgentPact } from "../contracts.js";
-import { SafeExecutor } from "../wallet/safe-executor.js";
-import { AGENT_PACT_ABI } from "../abis.js";
+import { AgentPactClient } from "../client/agent-pact.js";
+import { PactReservations } from "../client/reservations.js";
+import { formatAmount } from "../tokens.js";
+import { dryRunParam, dryRunResult } from "./dry-run.js";
 
-const agentPactIface = new ethers.Interface(AGENT_PACT_ABI);
+const reserveBudgetParam = z
+  .boolean()
+  .default(false)
+  .describe("Reserve the exact ETH deposit from the Safe's shared budget first; released automatically when the pact completes or is refunded. ETH pacts only.");
 
-export function registerPactTools(server: McpServer, config: Config, executor: SafeExecutor) {
+export function registerPactTools(server: McpServer, pacts: AgentPactClient, reservations: PactReservations) {
   server.tool(
     "create-pact",
     "Create a new pact — works for both buyer-initiated (request for work) and seller-initiated (offer/listing) flows",
@@ -19,55 +21,36 @@ export function registerPactTools(server: McpServer, config: Config, executor: S
       oracles: z.array(z.string()).min(1).describe("Oracle addresses for verification"),
       oracleWeights: z.array(z.number().int().min(1).max(100)).min(1).describe("Weight per oracle (must sum to 100)"),
       threshold: z.number().int().min(0).max(100).describe("Minimum weighted score to pass (0-100)"),
-      paymentEth: z.string().describe("Payment amount in ETH (e.g. '0.5')"),
+      paymentEth: z.string().describe("Payment amount in units of the payment token (e.g. '0.5' ETH, or '250' USDC for a token pact)"),
       reviewPeriod: z.number().int().min(0).default(0).describe("Buyer review window in seconds (default: 3 days)"),
-      oracleFeeEth: z.string().default("0").describe("Total oracle fee in ETH (split by weight among oracles at verification)"),
-      paymentToken: z.string().default("0x0000000000000000000000000000000000000000").describe("ERC-20 token address for payment (default: native ETH, use zero address for ETH)"),
+      oracleFeeEth: z.string().default("0").describe("Total oracle fee in units of the payment token (split by weight among oracles at verification)"),
+      paymentToken: z.string().default("0x0000000000000000000000000000000000000000").describe("ERC-20 token address for payment (default: native ETH, use zero address for ETH). Must be in the session's allowedTokens; the Safe approves AgentPact for the deposit automatically."),
+      reserveBudget: reserveBudgetParam,
+      dryRun: dryRunParam,
     },
-    async ({ role, specHash, deadline, oracles, oracleWeights, threshold, paymentEth, reviewPeriod, oracleFeeEth, paymentToken }) => {
+    async ({ role, specHash, deadline, oracles, oracleWeights, threshold, paymentEth, reviewPeriod, oracleFeeEth, paymentToken, reserveBudget, dryRun }) => {
       try {
-        const paymentWei = ethers.parseEther(paymentEth);
-        const oracleFeeWei = ethers.parseEther(oracleFeeEth);
-        const stakeWei = paymentWei / 10n;
-        const initiator = role === "buyer" ? 0 : 1;
-        const isToken = paymentToken !== ethers.ZeroAddress;
-
-        let depositWei: bigint;
-        if (role === "buyer") {
-          depositWei = paymentWei + oracleFeeWei + stakeWei;
-        } else {
-          depositWei = stakeWei;
-        }
-
-        // Convert specHash — if it looks like a plain string, hash it
-        const specBytes = specHash.startsWith("0x") ? specHash : ethers.keccak256(ethers.toUtf8Bytes(specHash));
-
-        const calldata = agentPactIface.encodeFunctionData("createPact", [
-          initiator, specBytes, deadline, oracles, oracleWeights, threshold, paymentWei, reviewPeriod, oracleFeeWei, paymentToken,
-        ]);
-
-        // For ERC-20 pacts, no ETH value is sent (tokens are transferred via approve+transferFrom)
-        const ethValue = isToken ? 0n : depositWei;
-        const receipt = await executor.execute(config.agentPactAddress, ethValue, calldata);
-
-        // Extract pactId from event
-        const event = receipt.logs
-          .map((log: any) => { try { return agentPactIface.parseLog(log); } catch { return null; } })
-          .find((e: any) => e?.name === "PactCreated");
-        const pactId = event?.args?.pactId?.toString() ?? "unknown";
+        const params = {
+          role, specHash, deadline, oracles, oracleWeights, threshold,
+          payment: paymentEth, reviewPeriod, oracleFee: oracleFeeEth, paymentToken,
+        };
+        const r = reserveBudget
+          ? await reservations.createPact(params, { dryRun })
+          : await pacts.createPact(params, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
-        const depositEth = ethers.formatEther(depositWei);
-        const unit = isToken ? "tokens" : "ETH";
-        const feeDesc = oracleFeeWei > 0n ? ` + ${oracleFeeEth} oracle fee` : "";
+        const { token } = r;
+        const feeDesc = r.oracleFee > 0n ? ` + ${formatAmount(r.oracleFee, token)} oracle fee` : "";
         const roleDesc = role === "buyer"
-          ? `Deposited: ${depositEth} ${unit} (${paymentEth} payment${feeDesc} + ${ethers.formatEther(stakeWei)} stake). Open for sellers.`
-          : `Staked ${depositEth} ${unit}. Listing open for buyers.`;
-        const tokenNote = isToken ? `\nPayment token: ${paymentToken}` : "";
+          ? `Deposited: ${formatAmount(r.deposit, token)} (${formatAmount(r.payment, token)} payment${feeDesc} + ${formatAmount(r.stake, token)} stake). Open for sellers.`
+          : `Staked ${formatAmount(r.deposit, token)}. Listing open for buyers.`;
+        const tokenNote = token.isNative ? "" : `\nPayment token: ${token.symbol} (${token.address})`;
+        const reserveNote = "reservationId" in r ? `\nBudget reservation #${r.reservationId} holds the deposit until the pact completes or is refunded.` : "";
 
         return {
           content: [{
             type: "text" as const,
-            text: `Pact #${pactId} created as ${role.toUpperCase()}. ${roleDesc}${tokenNote}\nTx: ${receipt.hash}`,
+            text: `Pact #${r.pactId ?? "unknown"} created as ${role.toUpperCase()}. ${roleDesc}${tokenNote}${reserveNote}\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -81,43 +64,23 @@ export function registerPactTools(server: McpServer, config: Config, executor: S
     "Accept an open pact. Automatically detects whether you're joining as buyer or seller based on who created it.",
     {
       pactId: z.number().int().nonnegative().describe("The pact ID to accept"),
+      reserveBudget: reserveBudgetParam,
+      dryRun: dryRunParam,
     },
-    async ({ pactId }) => {
+    async ({ pactId, reserveBudget, dryRun }) => {
       try {
-        const contract = getAgentPact(config);
-        const p = await contract.getPact(pactId);
-        const initiator = Number(p.initiator);
-        const paymentWei = p.payment as bigint;
-        const stakeWei = paymentWei / 10n;
-        const isToken = p.paymentToken !== ethers.ZeroAddress;
-
-        let depositWei: bigint;
-        let roleAssigned: string;
-
-        const oracleFeeWei = p.oracleFee as bigint;
-
-        if (initiator === 0) {
-          // Buyer created → we become seller, deposit seller stake
-          depositWei = stakeWei;
-          roleAssigned = "SELLER";
-        } else {
-          // Seller created → we become buyer, deposit payment + oracle fee + buyer stake
-          depositWei = paymentWei + oracleFeeWei + stakeWei;
-          roleAssigned = "BUYER";
-        }
-
-        const calldata = agentPactIface.encodeFunctionData("acceptPact", [pactId]);
-        // For ERC-20 pacts, no ETH value is sent
-        const ethValue = isToken ? 0n : depositWei;
-        const receipt = await executor.execute(config.agentPactAddress, ethValue, calldata);
+        const r = reserveBudget
+          ? await reservations.acceptPact(pactId, { dryRun })
+          : await pacts.acceptPact(pactId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
-        const unit = isToken ? "tokens" : "ETH";
-        const tokenNote = isToken ? ` (token: ${p.paymentToken})` : "";
+        const tokenNote = r.token.isNative ? "" : ` (token: ${r.token.address})`;
+        const reserveNote = "reservationId" in r ? `\nBudget reservation #${r.reservationId} holds the deposit until the pact completes or is refunded.` : "";
 
         return {
           content: [{
             type: "text" as const,
-            text: `Accepted pact #${pactId} as ${roleAssigned}. Deposited ${ethers.formatEther(depositWei)} ${unit}${tokenNote}.\nTx: ${receipt.hash}`,
+            text: `Accepted pact #${pactId} as ${r.role.toUpperCase()}. Deposited ${formatAmount(r.deposit, r.token)}${tokenNote}.${reserveNote}\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -131,16 +94,17 @@ export function registerPactTools(server: McpServer, config: Config, executor: S
     "Claim refund when deadline passes without completion",
     {
       pactId: z.number().int().nonnegative().describe("The pact ID"),
+      dryRun: dryRunParam,
     },
-    async ({ pactId }) => {
+    async ({ pactId, dryRun }) => {
       try {
-        const calldata = agentPactIface.encodeFunctionData("claimTimeout", [pactId]);
-        const receipt = await executor.execute(config.agentPactAddress, 0n, calldata);
+        const r = await pacts.claimTimeout(pactId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Timeout claimed for pact #${pactId}. Funds refunded.\nTx: ${receipt.hash}`,
+            text: `Timeout claimed for pact #${pactId}. Funds refunded.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -0,0 +1,207 @@
+import { ethers } from "ethers";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ALL_TOOL_PROFILES, Config, ToolProfile } from "../config.js";
+import { PolicyClient } from "../client/policy.js";
+import { ERC20_ABI } from "../abis.js";
+import {
+  AgentPact__factory,
+  OracleRegistry__factory,
+  OracleRouter__factory,
+  AgentPolicyModule__factory,
+} from "../typechain/index.js";
+
+/** Read-only and housekeeping tools every profile gets. */
+const COMMON_TOOLS = [
+  "get-pact", "get-verification", "get-amendment", "get-pact-count", "get-pact-timeline",
+  "get-reputation", "check-counterparty", "list-open-pacts", "my-pacts", "find-oracles",
+  "get-my-address", "get-balance", "get-spending", "reconcile-spending", "get-policy",
+  "get-shared-budget", "my-reservations", "list-pending-txs", "speed-up-tx", "cancel-tx", "get-approval-status",
+  "router-get-job", "router-get-validator", "router-find-validators", "router-stats",
+  "server-status",
+];
+
+const PROFILE_TOOLS: Record<ToolProfile, string[]> = {
+  buyer: [
+    "create-pact", "accept-pact", "claim-timeout", "propose-amendment", "accept-amendment",
+    "approve-work", "reject-work", "finalize-verification", "raise-dispute",
+    "router-request-verification", "router-expire-job", "router-cancel-job",
+    "reserve-budget", "release-budget", "reconcile-reservations",
+  ],
+  seller: [
+    "create-pact", "accept-pact", "claim-timeout", "propose-amendment", "accept-amendment",
+    "start-work", "submit-work", "auto-approve", "finalize-verification", "raise-dispute",
+    "router-request-verification", "router-expire-job", "router-cancel-job",
+    "reserve-budget", "release-budget", "reconcile-reservations",
+  ],
+  validator: [
+    "register-oracle", "submit-verification", "finalize-verification",
+    "router-register-validator", "router-deactivate-validator", "router-claim-job",
+    "router-submit-validation", "router-claim-earnings", "router-expire-job",
+  ],
+  arbitrator: ["resolve-dispute"],
+  owner: [
+    "reserve-budget", "release-budget", "reconcile-reservations",
+    "owner-session-templates", "owner-grant-session", "owner-revoke-session", "owner-rotate-session", "rotate-session-key",
+    "owner-list-sessions", "owner-set-shared-budget", "owner-disable-shared-budget",
+  ],
+};
+
+// Tools whose token variant has the Safe approve the token first
+const TOKEN_APPROVAL_TOOLS = ["create-pact", "accept-pact", "accept-amendment", "router-request-verification"];
+
+interface ContractCall {
+  contract: string;
+  address: string;
+  fn: string;
+  selector: string;
+}
+
+/** Contract functions each write tool calls through the Safe (ERC-20 approvals aside). */
+function toolCalls(config: Config): Map<string, ContractCall[]> {
+  const contracts = {
+    AgentPact: [config.agentPactAddress, AgentPact__factory.createInterface()],
+    OracleRegistry: [config.oracleRegistryAddress, OracleRegistry__factory.createInterface()],
+    OracleRouter: [config.oracleRouterAddress, OracleRouter__factory.createInterface()],
+    AgentPolicyModule: [config.policyModuleAddress, AgentPolicyModule__factory.createInterface()],
+  } as const;
+  const call = (contract: keyof typeof contracts, fn: string): ContractCall => {
+    const [address, iface] = contracts[contract];
+    return { contract, address, fn, selector: (iface as ethers.Interface).getFunction(fn)!.selector };
+  };
+
+  return new Map([
+    ["create-pact", [call("AgentPact", "createPact")]],
+    ["accept-pact", [call("AgentPact", "acceptPact")]],
+    ["claim-timeout", [call("AgentPact", "claimTimeout")]],
+    ["propose-amendment", [call("AgentPact", "proposeAmendment")]],
+    ["accept-amendment", [call("AgentPact", "acceptAmendment")]],
+    ["start-work", [call("AgentPact", "startWork")]],
+    ["submit-work", [call("AgentPact", "submitWork")]],
+    ["submit-verification", [call("AgentPact", "submitVerification")]],
+    ["finalize-verification", [call("AgentPact", "finalizeVerification")]],
+    ["approve-work", [call("AgentPact", "approveWork")]],
+    ["reject-work", [call("AgentPact", "rejectWork")]],
+    ["auto-approve", [call("AgentPact", "autoApprove")]],
+    ["raise-dispute", [call("AgentPact", "raiseDispute")]],
+    ["resolve-dispute", [call("AgentPact", "resolveDispute")]],
+    ["register-oracle", [call("OracleRegistry", "registerOracle")]],
+    ["router-register-validator", [call("OracleRouter", "registerValidator")]],
+    ["router-deactivate-validator", [call("OracleRouter", "deactivateValidator")]],
+    ["router-claim-job", [call("OracleRouter", "claimJob")]],
+    ["router-submit-validation", [call("OracleRouter", "submitValidation")]],
+    ["router-claim-earnings", [call("OracleRouter", "claimEarnings")]],
+    ["router-request-verification", [call("OracleRouter", "requestVerification")]],
+    ["router-expire-job", [call("OracleRouter", "expireJob")]],
+    ["router-cancel-job", [call("OracleRouter", "cancelJob")]],
+    // reserve-budget and release-budget are sent by the session key itself,
+    // so the session's allowlists don't apply to them
+  ]);
+}
+
+/** Allowlists a session needs for a set of tools. */
+export interface SessionScope {
+  /** The tools, with profiles expanded. */
+  tools: string[];
+  allowedContracts: string[];
+  /** 4-byte selectors. */
+  allowedFunctions: string[];
+}
+
+/**
+ * The allowedContracts and allowedFunctions a session needs to use the given
+ * tools, named directly or by profile (`buyer`). Read-only tools need
+ * nothing. With allowedTokens, tools that approve a token deposit or fee
+ * also need the tokens' `approve`.
+ */
+export function sessionScope(config: Config, toolsOrProfiles: string[], allowedTokens: string[] = []): SessionScope {
+  const known = new Set([...COMMON_TOOLS, ...Object.values(PROFILE_TOOLS).flat()]);
+  const tools = new Set<string>();
+  for (const entry of toolsOrProfiles) {
+    if (entry in PROFILE_TOOLS) {
+      PROFILE_TOOLS[entry as ToolProfile].forEach((t) => tools.add(t));
+    } else if (known.has(entry)) {
+      tools.add(entry);
+    } else {
+      throw new Error(`Unknown tool or profile: ${entry}`);
+    }
+  }
+
+  const calls = toolCalls(config);
+  const contracts = new Set<string>();
+  const selectors = new Set<string>();
+  for (const tool of tools) {
+    for (const c of calls.get(tool) ?? []) {
+      contracts.add(ethers.getAddress(c.address));
+      selectors.add(c.selector);
+    }
+  }
+  if (allowedTokens.length > 0 && TOKEN_APPROVAL_TOOLS.some((t) => tools.has(t))) {
+    allowedTokens.forEach((t) => contracts.add(ethers.getAddress(t)));
+    selectors.add(new ethers.Interface(ERC20_ABI).getFunction("approve")!.selector);
+  }
+
+  return { tools: [...tools], allowedContracts: [...contracts], allowedFunctions: [...selectors] };
+}
+
+/**
+ * True if the configured profile (or combination of profiles) includes the
+ * tool. Without a profile that is every role's tools but the owner's.
+ */
+export function inToolProfile(config: Config, name: string): boolean {
+  const profiles = config.toolProfile ?? ALL_TOOL_PROFILES;
+  return COMMON_TOOLS.includes(name) || profiles.some((p) => PROFILE_TOOLS[p].includes(name));
+}
+
+/**
+ * Cross-check write tools against the session's on-chain allowedContracts and
+ * allowedFunctions. Returns tool name → why the policy module would reject it.
+ * Inactive sessions are skipped — every write would fail, which is reported
+ * elsewhere, and hiding all tools would only obscure that.
+ */
+export async function checkToolPolicy(config: Config, policy: PolicyClient): Promise<Map<string, string>> {
+  const rejected = new Map<string, string>();
+  if (config.toolPolicyCheck === "off") return rejected;
+
+  const session = await policy.getSession();
+  if (!session.active) return rejected;
+
+  const contracts = new Set(session.allowedContracts.map((a) => a.toLowerCase()));
+  const selectors = new Set(session.allowedFunctions.map((s) => s.toLowerCase()));
+
+  for (const [tool, calls] of toolCalls(config)) {
+    if (!inToolProfile(config, tool)) continue;
+    for (const c of calls) {
+      if (!contracts.has(c.address.toLowerCase())) {
+        rejected.set(tool, `${c.contract} is not in the session's allowedContracts`);
+        break;
+      }
+      if (selectors.size > 0 && !selectors.has(c.selector)) {
+        rejected.set(tool, `${c.contract}.${c.fn} (${c.selector}) is not in the session's allowedFunctions`);
+        break;
+      }
+    }
+  }
+  return rejected;
+}
+
+/**
+ * Wrap a server so the register* functions only add tools in the configured
+ * profile. Tools the session policy would reject are dropped (TOOL_POLICY_CHECK
+ * = hide) or registered with a warning prefixed to their description (flag).
+ */
+export function profiledServer(server: McpServer, config: Config, rejected: Map<string, string>): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop !== "tool") return Reflect.get(target, prop, receiver);
+      return (name: string, ...rest: any[]) => {
+        if (!inToolProfile(config, name)) return undefined;
+        const reason = rejected.get(name);
+        if (reason && config.toolPolicyCheck === "hide") return undefined;
+        if (reason && typeof rest[0] === "string") {
+          rest[0] = `[WILL BE REJECTED BY SESSION POLICY: ${reason}] ${rest[0]}`;
+        }
+        return Reflect.apply(target.tool, target, [name, ...rest]);
+      };
+    },
+  });
+}
@@ -2,32 +2,19 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ethers } from "ethers";
 import { Config } from "../config.js";
-import { getAgentPact } from "../contracts.js";
+import { AgentPactClient } from "../client/agent-pact.js";
 import { getSigner } from "../provider.js";
+import { formatAmount } from "../tokens.js";
 
-const STATUS_NAMES = [
-  "NEGOTIATING",
-  "FUNDED",
-  "IN_PROGRESS",
-  "PENDING_VERIFY",
-  "COMPLETED",
-  "DISPUTED",
-  "REFUNDED",
-  "PENDING_APPROVAL",
-] as const;
-
-const INITIATOR_NAMES = ["BUYER", "SELLER"] as const;
-
-export function registerQueryTools(server: McpServer, config: Config) {
+export function registerQueryTools(server: McpServer, config: Config, pacts: AgentPactClient) {
   server.tool(
     "get-pact",
     "Get full details of a pact by ID",
     { pactId: z.number().int().nonnegative().describe("The pact ID") },
     async ({ pactId }) => {
       try {
-        const contract = getAgentPact(config);
-        const p = await contract.getPact(pactId);
-        const [oracles, weights] = await contract.getPactOracles(pactId);
+        const [p, oracles] = await Promise.all([pacts.getPact(pactId), pacts.getPactOracles(pactId)]);
+        const { token } = p;
 
         return {
           content: [{
@@ -36,25 +23,22 @@ export function registerQueryTools(server: McpServer, config: Config) {
               pactId,
               buyer: p.buyer,
               seller: p.seller,
-              payment: ethers.formatEther(p.payment) + " ETH",
-              deadline: new Date(Number(p.deadline_) * 1000).toISOString(),
-              status: STATUS_NAMES[Number(p.status)] ?? `UNKNOWN(${p.status})`,
+              payment: formatAmount(p.payment, token),
+              deadline: new Date(p.deadline * 1000).toISOString(),
+              status: p.status,
               specHash: p.specHash,
-              verificationThreshold: Number(p.verificationThreshold),
-              buyerStake: ethers.formatEther(p.buyerStake) + " ETH",
-              sellerStake: ethers.formatEther(p.sellerStake) + " ETH",
-              initiator: INITIATOR_NAMES[Number(p.initiator)] ?? "UNKNOWN",
-              reviewPeriod: Number(p.reviewPeriod) + " seconds",
-              verifiedAt: Number(p.verifiedAt) > 0
-                ? new Date(Number(p.verifiedAt) * 1000).toISOString()
+              verificationThreshold: p.verificationThreshold,
+              buyerStake: formatAmount(p.buyerStake, token),
+              sellerStake: formatAmount(p.sellerStake, token),
+              initiator: p.initiator,
+              reviewPeriod: p.reviewPeriod + " seconds",
+              verifiedAt: p.verifiedAt > 0
+                ? new Date(p.verifiedAt * 1000).toISOString()
                 : "not yet verified",
-              oracleFee: ethers.formatEther(p.oracleFee) + " ETH",
+              oracleFee: formatAmount(p.oracleFee, token),
               oracleFeesPaid: p.oracleFeesPaid,
-              paymentToken: p.paymentToken === ethers.ZeroAddress ? "ETH (native)" : p.paymentToken,
-              oracles: oracles.map((addr: string, i: number) => ({
-                address: addr,
-                weight: Number(weights[i]),
-              })),
+              paymentToken: token.isNative ? "ETH (native)" : `${token.symbol} (${token.address}, ${token.decimals} decimals)`,
+              oracles,
             }, null, 2),
           }],
         };
@@ -73,8 +57,7 @@ export function registerQueryTools(server: McpServer, config: Config) {
     },
     async ({ pactId, oracle }) => {
       try {
-        const contract = getAgentPact(config);
-        const v = await contract.getVerification(pactId, oracle);
+        const v = await pacts.getVerification(pactId, oracle);
 
         return {
           content: [{
@@ -82,7 +65,7 @@ export function registerQueryTools(server: McpServer, config: Config) {
             text: JSON.stringify({
               pactId,
               oracle,
-              score: Number(v.score),
+              score: v.score,
               hasSubmitted: v.hasSubmitted,
               proof: v.proof,
             }, null, 2),
@@ -125,8 +108,7 @@ export function registerQueryTools(server: McpServer, config: Config) {
     {},
     async () => {
       try {
-        const contract = getAgentPact(config);
-        const count = await contract.nextPactId();
+        const count = await pacts.getPactCount();
 
         return {
           content: [{
@@ -146,23 +128,18 @@ export function registerQueryTools(server: McpServer, config: Config) {
     { address: z.string().describe("The Ethereum address to check") },
     async ({ address }) => {
       try {
-        const contract = getAgentPact(config);
-        const r = await contract.getReputation(address);
-        const total = Number(r.completedAsBuyer) + Number(r.completedAsSeller);
-        const disputeRate = total > 0
-          ? ((Number(r.disputesLost) / total) * 100).toFixed(1) + "%"
-          : "N/A (no pacts)";
+        const r = await pacts.getReputation(address);
 
         return {
           content: [{
             type: "text" as const,
             text: JSON.stringify({
               address,
-              completedAsBuyer: Number(r.completedAsBuyer),
-              completedAsSeller: Number(r.completedAsSeller),
-              totalCompleted: total,
-              disputesLost: Number(r.disputesLost),
-              disputeRate,
+              completedAsBuyer: r.completedAsBuyer,
+              completedAsSeller: r.completedAsSeller,
+              totalCompleted: r.totalCompleted,
+              disputesLost: r.disputesLost,
+              disputeRate: r.disputeRate !== null ? (r.disputeRate * 100).toFixed(1) + "%" : "N/A (no pacts)",
               totalVolume: ethers.formatEther(r.totalVolumeWei) + " ETH",
             }, null, 2),
           }],
@@ -179,44 +156,20 @@ export function registerQueryTools(server: McpServer, config: Config) {
     { pactId: z.number().int().nonnegative().describe("The pact ID to check the counterparty for") },
     async ({ pactId }) => {
       try {
-        const contract = getAgentPact(config);
-        const wallet = getSigner(config);
-        const p = await contract.getPact(pactId);
-
-        // Determine who the counterparty is
-        const myAddr = (config.safeAddress ?? wallet.address).toLowerCase();
-        let counterparty: string;
-        if (p.buyer.toLowerCase() === myAddr) {
-          counterparty = p.seller;
-        } else if (p.seller.toLowerCase() === myAddr) {
-          counterparty = p.buyer;
-        } else {
-          // We're neither party yet — check who initiated
-          counterparty = Number(p.initiator) === 0 ? p.buyer : p.seller;
-        }
-
-        const r = await contract.getReputation(counterparty);
-        const total = Number(r.completedAsBuyer) + Number(r.completedAsSeller);
-        const disputeRate = total > 0 ? Number(r.disputesLost) / total : 0;
-
-        let risk: string;
-        if (total === 0) risk = "UNKNOWN — no pact history";
-        else if (disputeRate > 0.3) risk = "HIGH — dispute rate above 30%";
-        else if (disputeRate > 0.1) risk = "MEDIUM — dispute rate above 10%";
-        else risk = "LOW — good track record";
+        const { counterparty, reputation: r, risk, riskReason } = await pacts.assessCounterparty(pactId);
 
         return {
           content: [{
             type: "text" as const,
             text: JSON.stringify({
               counterparty,
-              completedAsBuyer: Number(r.completedAsBuyer),
-              completedAsSeller: Number(r.completedAsSeller),
-              totalCompleted: total,
-              disputesLost: Number(r.disputesLost),
-              disputeRate: (disputeRate * 100).toFixed(1) + "%",
+              completedAsBuyer: r.completedAsBuyer,
+              completedAsSeller: r.completedAsSeller,
+              totalCompleted: r.totalCompleted,
+              disputesLost: r.disputesLost,
+              disputeRate: ((r.disputeRate ?? 0) * 100).toFixed(1) + "%",
               totalVolume: ethers.formatEther(r.totalVolumeWei) + " ETH",
-              riskAssessment: risk,
+              riskAssessment: `${risk} — ${riskReason}`,
             }, null, 2),
           }],
         };
@@ -1,17 +1,11 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ethers } from "ethers";
-import { Config } from "../config.js";
-import { SafeExecutor } from "../wallet/safe-executor.js";
-import { ORACLE_ROUTER_ABI, AGENT_PACT_ABI } from "../abis.js";
+import { RouterClient } from "../client/router.js";
+import { formatAmount } from "../tokens.js";
+import { dryRunParam, dryRunResult } from "./dry-run.js";
 
-const routerIface = new ethers.Interface(ORACLE_ROUTER_ABI);
-
-function categoryHash(name: string): string {
-  return ethers.keccak256(ethers.toUtf8Bytes(name));
-}
-
-export function registerRouterTools(server: McpServer, config: Config, executor: SafeExecutor) {
+export function registerRouterTools(server: McpServer, router: RouterClient) {
   // ──────────────────────────────────────────────
   // Validator Registration
   // ──────────────────────────────────────────────
@@ -23,19 +17,17 @@ export function registerRouterTools(server: McpServer, config: Config, executor:
       categories: z.array(z.string()).min(1).describe("Categories this validator handles (e.g. ['code-review', 'flight-booking', 'on-chain-verification'])"),
       endpoint: z.string().describe("Webhook URL for off-chain job notifications"),
       stakeEth: z.string().describe("Stake amount in ETH"),
+      dryRun: dryRunParam,
     },
-    async ({ categories, endpoint, stakeEth }) => {
+    async ({ categories, endpoint, stakeEth, dryRun }) => {
       try {
-        const stakeWei = ethers.parseEther(stakeEth);
-        const categoryHashes = categories.map(categoryHash);
-
-        const calldata = routerIface.encodeFunctionData("registerValidator", [categoryHashes, endpoint]);
-        const receipt = await executor.execute(config.oracleRouterAddress, stakeWei, calldata);
+        const r = await router.registerValidator(categories, endpoint, stakeEth, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Registered as validator. Staked ${stakeEth} ETH.\nCategories: ${categories.join(", ")}\nEndpoint: ${endpoint}\nTx: ${receipt.hash}`,
+            text: `Registered as validator. Staked ${stakeEth} ETH.\nCategories: ${categories.join(", ")}\nEndpoint: ${endpoint}\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -47,13 +39,15 @@ export function registerRouterTools(server: McpServer, config: Config, executor:
   server.tool(
     "router-deactivate-validator",
     "Deactivate validator registration and withdraw stake",
-    {},
-    async () => {
+    {
+      dryRun: dryRunParam,
+    },
+    async ({ dryRun }) => {
       try {
-        const calldata = routerIface.encodeFunctionData("deactivateValidator", []);
-        const receipt = await executor.execute(config.oracleRouterAddress, 0n, calldata);
+        const r = await router.deactivateValidator({ dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
         return {
-          content: [{ type: "text" as const, text: `Validator deactivated. Stake returned.\nTx: ${receipt.hash}` }],
+          content: [{ type: "text" as const, text: `Validator deactivated. Stake returned.\nTx: ${r.receipt.hash}` }],
         };
       } catch (err: any) {
         return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
@@ -67,32 +61,24 @@ export function registerRouterTools(server: McpServer, config: Config, executor:
 
   server.tool(
     "router-request-verification",
-    "Request verification for a pact through the OracleRouter. Sends a fee to incentivize validators.",
+    "Request verification for a pact through the OracleRouter. Sends a fee (ETH or an ERC-20 token) to incentivize validators.",
     {
-      pactId: z.number().int().nonneg().describe("The pact ID to verify"),
+      pactId: z.number().int().nonnegative().describe("The pact ID to verify"),
       category: z.string().describe("Verification category (e.g. 'code-review', 'flight-booking')"),
       specHash: z.string().describe("Hash of the verification spec (bytes32 hex or plain text to hash)"),
-      feeEth: z.string().describe("Fee to pay for verification (in ETH)"),
+      feeEth: z.string().describe("Fee to pay for verification, in units of the fee token (ETH by default)"),
+      feeToken: z.string().default("0x0000000000000000000000000000000000000000").describe("ERC-20 token to pay the fee in (default: native ETH). Must be in the session's allowedTokens."),
+      dryRun: dryRunParam,
     },
-    async ({ pactId, category, specHash, feeEth }) => {
+    async ({ pactId, category, specHash, feeEth, feeToken, dryRun }) => {
       try {
-        const feeWei = ethers.parseEther(feeEth);
-        const catHash = categoryHash(category);
-        const spec = specHash.startsWith("0x") ? specHash : ethers.keccak256(ethers.toUtf8Bytes(specHash));
-
-        const calldata = routerIface.encodeFunctionData("requestVerification", [
-          config.agentPactAddress,
-          pactId,
-          catHash,
-          spec,
-          ethers.ZeroAddress, // ETH payment
-        ]);
-        const receipt = await executor.execute(config.oracleRouterAddress, feeWei, calldata);
+        const r = await router.requestVerification({ pactId, category, specHash, fee: feeEth, feeToken }, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Verification requested for pact #${pactId}.\nCategory: ${category}\nFee: ${feeEth} ETH\nTx: ${receipt.hash}`,
+            text: `Verification requested for pact #${pactId}.\nCategory: ${category}\nFee: ${formatAmount(r.fee, r.token)}\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -109,14 +95,15 @@ export function registerRouterTools(server: McpServer, config: Config, executor:
     "router-claim-job",
     "Claim an open verification job as a validator. You must be registered for the job's category.",
     {
-      jobId: z.number().int().nonneg().describe("The job ID to claim"),
+      jobId: z.number().int().nonnegative().describe("The job ID to claim"),
+      dryRun: dryRunParam,
     },
-    async ({ jobId }) => {
+    async ({ jobId, dryRun }) => {
       try {
-        const calldata = routerIface.encodeFunctionData("claimJob", [jobId]);
-        const receipt = await executor.execute(config.oracleRouterAddress, 0n, calldata);
+        const r = await router.claimJob(jobId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
         return {
-          content: [{ type: "text" as const, text: `Claimed job #${jobId}.\nTx: ${receipt.hash}` }],
+          content: [{ type: "text" as const, text: `Claimed job #${jobId}.\nTx: ${r.receipt.hash}` }],
         };
       } catch (err: any) {
         return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
@@ -128,21 +115,20 @@ export function registerRouterTools(server: McpServer, config: Config, executor:
     "router-submit-validation",
     "Submit verification result for a claimed job. The router forwards the score to AgentPact.",
     {
-      jobId: z.number().int().nonneg().describe("The job ID"),
+      jobId: z.number().int().nonnegative().describe("The job ID"),
       score: z.number().int().min(0).max(100).describe("Score 0-100"),
       proof: z.string().describe("Proof hash (bytes32 hex or plain text to hash)"),
+      dryRun: dryRunParam,
     },
-    async ({ jobId, score, proof }) => {
+    async ({ jobId, score, proof, dryRun }) => {
       try {
-        const proofBytes = proof.startsWith("0x") ? proof : ethers.keccak256(ethers.toUtf8Bytes(proof));
-
-        const calldata = routerIface.encodeFunctionData("submitValidation", [jobId, score, proofBytes]);
-        const receipt = await executor.execute(config.oracleRouterAddress, 0n, calldata);
+        const r = await router.submitValidation(jobId, score, proof, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Validation submitted for job #${jobId}. Score: ${score}/100.\nProof: ${proofBytes}\nTx: ${receipt.hash}`,
+            text: `Validation submitted for job #${jobId}. Score: ${score}/100.\nProof: ${r.proofHash}\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -157,14 +143,22 @@ export function registerRouterTools(server: McpServer, config: Config, executor:
 
   server.tool(
     "router-claim-earnings",
-    "Claim accumulated validator earnings from the router",
-    {},
-    async () => {
+    "Claim accumulated validator earnings from the router. Claims every token with pending earnings unless a token is given.",
+    {
+      token: z.string().optional().describe("Token to claim (zero address = ETH). Default: ETH and every allowed token with pending earnings"),
+      dryRun: dryRunParam,
+    },
+    async ({ token, dryRun }) => {
       try {
-        const calldata = routerIface.encodeFunctionData("claimEarnings", [ethers.ZeroAddress]);
-        const receipt = await executor.execute(config.oracleRouterAddress, 0n, calldata);
+        const r = await router.claimEarnings(token, { dryRun });
+        if (r.dryRun ? r.simulations.length === 0 : r.claims.length === 0) {
+          return { content: [{ type: "text" as const, text: "No pending earnings to claim." }] };
+        }
+        if (r.dryRun) return dryRunResult(r.simulations);
+
+        const lines = r.claims.map((c) => `Claimed ${formatAmount(c.amount, c.token)}\nTx: ${c.receipt.hash}`);
         return {
-          content: [{ type: "text" as const, text: `Earnings claimed.\nTx: ${receipt.hash}` }],
+          content: [{ type: "text" as const, text: `Earnings claimed.\n${lines.join("\n")}` }],
         };
       } catch (err: any) {
         return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
@@ -180,14 +174,15 @@ export function registerRouterTools(server: McpServer, config: Config, executor:
     "router-expire-job",
     "Mark a job as expired if the assigned validator didn't respond in time. Anyone can call this.",
     {
-      jobId: z.number().int().nonneg().describe("The job ID to expire"),
+      jobId: z.number().int().nonnegative().describe("The job ID to expire"),
+      dryRun: dryRunParam,
     },
-    async ({ jobId }) => {
+    async ({ jobId, dryRun }) => {
       try {
-        const calldata = routerIface.encodeFunctionData("expireJob", [jobId]);
-        const receipt = await executor.execute(config.oracleRouterAddress, 0n, calldata);
+        const r = await router.expireJob(jobId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
         return {
-          content: [{ type: "text" as const, text: `Job #${jobId} expired. Reassignable.\nTx: ${receipt.hash}` }],
+          content: [{ type: "text" as const, text: `Job #${jobId} expired. Reassignable.\nTx: ${r.receipt.hash}` }],
         };
       } catch (err: any) {
         return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
@@ -199,14 +194,15 @@ export function registerRouterTools(server: McpServer, config: Config, executor:
     "router-cancel-job",
     "Cancel a verification job and get the fee refunded (requester or owner only)",
     {
-      jobId: z.number().int().nonneg().describe("The job ID to cancel"),
+      jobId: z.number().int().nonnegative().describe("The job ID to cancel"),
+      dryRun: dryRunParam,
     },
-    async ({ jobId }) => {
+    async ({ jobId, dryRun }) => {
       try {
-        const calldata = routerIface.encodeFunctionData("cancelJob", [jobId]);
-        const receipt = await executor.execute(config.oracleRouterAddress, 0n, calldata);
+        const r = await router.cancelJob(jobId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
         return {
-          content: [{ type: "text" as const, text: `Job #${jobId} cancelled. Fee refunded.\nTx: ${receipt.hash}` }],
+          content: [{ type: "text" as const, text: `Job #${jobId} cancelled. Fee refunded.\nTx: ${r.receipt.hash}` }],
         };
       } catch (err: any) {
         return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
@@ -219,20 +215,16 @@ export function registerRouterTools(server: McpServer, config: Config, executor:
 // Read-only query tools (no executor needed)
 // ──────────────────────────────────────────────
 
-export function registerRouterQueryTools(server: McpServer, config: Config) {
-  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  const router = new ethers.Contract(config.oracleRouterAddress, ORACLE_ROUTER_ABI, provider);
-
+export function registerRouterQueryTools(server: McpServer, router: RouterClient) {
   server.tool(
     "router-get-job",
     "Get details of a verification job",
     {
-      jobId: z.number().int().nonneg().describe("The job ID"),
+      jobId: z.number().int().nonnegative().describe("The job ID"),
     },
     async ({ jobId }) => {
       try {
         const j = await router.getJob(jobId);
-        const statusNames = ["OPEN", "ASSIGNED", "COMPLETED", "EXPIRED", "CANCELLED"];
         return {
           content: [{
             type: "text" as const,
@@ -240,11 +232,11 @@ export function registerRouterQueryTools(server: McpServer, config: Config) {
               `Job #${jobId}:`,
               `  Pact ID: ${j.pactId}`,
               `  Category: ${j.category}`,
-              `  Status: ${statusNames[j.status] ?? j.status}`,
-              `  Assigned to: ${j.assignedValidator === ethers.ZeroAddress ? "(unassigned)" : j.assignedValidator}`,
-              `  Fee: ${ethers.formatEther(j.fee)} ETH`,
+              `  Status: ${j.status}`,
+              `  Assigned to: ${j.assignedValidator ?? "(unassigned)"}`,
+              `  Fee: ${formatAmount(j.fee, j.token)}`,
               `  Score: ${j.score}/100`,
-              `  Deadline: ${new Date(Number(j.deadline) * 1000).toISOString()}`,
+              `  Deadline: ${new Date(j.deadline * 1000).toISOString()}`,
             ].join("\n"),
           }],
         };
@@ -259,12 +251,11 @@ export function registerRouterQueryTools(server: McpServer, config: Config) {
     "Get validator info including reputation",
     {
       address: z.string().describe("Validator address"),
+      tokens: z.array(z.string()).optional().describe("Tokens to show pending earnings for (default: ETH and the session's allowed tokens)"),
     },
-    async ({ address }) => {
+    async ({ address, tokens }) => {
       try {
-        const v = await router.getValidatorInfo(address);
-        const cats = await router.getValidatorCategories(address);
-        const earnings = await router.pendingEarnings(address, ethers.ZeroAddress);
+        const v = await router.getValidator(address, tokens);
         return {
           content: [{
             type: "text" as const,
@@ -274,10 +265,10 @@ export function registerRouterQueryTools(server: McpServer, config: Config) {
               `  Stake: ${ethers.formatEther(v.stake)} ETH`,
               `  Completed: ${v.completedJobs}`,
               `  Failed: ${v.failedJobs}`,
-              `  Total earned: ${ethers.formatEther(v.totalEarned)} ETH`,
-              `  Pending earnings: ${ethers.formatEther(earnings)} ETH`,
+              `  Total earned: ${ethers.formatEther(v.totalEarned)} (all fee tokens summed, 18-decimal units)`,
+              `  Pending earnings: ${v.pendingEarnings.map((e) => formatAmount(e.amount, e.token)).join(", ")}`,
               `  Endpoint: ${v.endpoint}`,
-              `  Categories: ${cats.length} registered`,
+              `  Categories: ${v.categoryCount} registered`,
             ].join("\n"),
           }],
         };
@@ -295,23 +286,18 @@ export function registerRouterQueryTools(server: McpServer, config: Config) {
     },
     async ({ category }) => {
       try {
-        const catHash = ethers.keccak256(ethers.toUtf8Bytes(category));
-        const result = await router.getValidatorsForCategory(catHash);
-        const [addresses, stakes, completed, failed] = result;
+        const validators = await router.findValidators(category);
 
-        if (addresses.length === 0) {
+        if (validators.length === 0) {
           return {
             content: [{ type: "text" as const, text: `No validators found for category "${category}".` }],
           };
         }
 
-        const best = await router.getBestValidator(catHash);
-
-        const lines = [`Validators for "${category}" (${addresses.length} found):`];
-        for (let i = 0; i < addresses.length; i++) {
-          const isBest = addresses[i] === best;
+        const lines = [`Validators for "${category}" (${validators.length} found):`];
+        for (const v of validators) {
           lines.push(
-            `  ${isBest ? "* " : "  "}${addresses[i]} — stake: ${ethers.formatEther(stakes[i])} ETH, completed: ${completed[i]}, failed: ${failed[i]}${isBest ? " (RECOMMENDED)" : ""}`
+            `  ${v.recommended ? "* " : "  "}${v.address} — stake: ${ethers.formatEther(v.stake)} ETH, completed: ${v.completed}, failed: ${v.failed}${v.recommended ? " (RECOMMENDED)" : ""}`
           );
         }
 
@@ -328,24 +314,18 @@ export function registerRouterQueryTools(server: McpServer, config: Config) {
     {},
     async () => {
       try {
-        const [jobCount, validatorCount, minStake, feeBps, timeout] = await Promise.all([
-          router.nextJobId(),
-          router.getValidatorCount(),
-          router.minValidatorStake(),
-          router.routerFeeBps(),
-          router.defaultJobTimeout(),
-        ]);
+        const stats = await router.getStats();
 
         return {
           content: [{
             type: "text" as const,
             text: [
               `OracleRouter Stats:`,
-              `  Total jobs: ${jobCount}`,
-              `  Registered validators: ${validatorCount}`,
-              `  Min validator stake: ${ethers.formatEther(minStake)} ETH`,
-              `  Router fee: ${Number(feeBps) / 100}%`,
-              `  Default job timeout: ${Number(timeout)}s`,
+              `  Total jobs: ${stats.jobCount}`,
+              `  Registered validators: ${stats.validatorCount}`,
+              `  Min validator stake: ${ethers.formatEther(stats.minValidatorStake)} ETH`,
+              `  Router fee: ${stats.routerFeeBps / 100}%`,
+              `  Default job timeout: ${stats.defaultJobTimeout}s`,
             ].join("\n"),
           }],
         };
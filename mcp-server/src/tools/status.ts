@@ -0,0 +1,33 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Config } from "../config.js";
+import { PolicyClient } from "../client/policy.js";
+import { EventIndexer } from "../indexer/indexer.js";
+import { serverStatus } from "../health.js";
+
+export function registerStatusTools(
+  server: McpServer,
+  config: Config,
+  tenantId: string,
+  policy: PolicyClient,
+  indexer?: EventIndexer
+) {
+  server.tool(
+    "server-status",
+    "Diagnose the server: RPC chain ID, deployed contracts, policy module ↔ Safe binding, session validity and session key gas. Run this first when writes fail unexpectedly.",
+    {},
+    async () => {
+      try {
+        const status = await serverStatus(config, tenantId, policy, indexer);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(status, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+}
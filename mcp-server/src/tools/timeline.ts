@@ -0,0 +1,208 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { getProvider } from "../provider.js";
+import { getAgentPact, getOracleRouter } from "../contracts.js";
+import { NATIVE_TOKEN, TokenInfo, formatAmount, getTokenInfo } from "../tokens.js";
+import { EventIndexer, decodeLogs } from "../indexer/indexer.js";
+import { IndexedEvent } from "../indexer/store.js";
+import { ORACLE_ROUTER_ABI } from "../abis.js";
+import { INITIATOR_NAMES, pactStatusName } from "../client/common.js";
+
+const routerIface = new ethers.Interface(ORACLE_ROUTER_ABI);
+
+/** The pact's payment token and each router job's fee token (by job ID), to format amounts in. */
+interface TimelineTokens {
+  pact: TokenInfo;
+  jobs: Map<string, TokenInfo>;
+}
+
+function date(ts: unknown): string {
+  return new Date(Number(ts) * 1000).toISOString();
+}
+
+/** One-line, human-readable description of a pact or router event. */
+function describe(e: IndexedEvent, tokens: TimelineTokens): string {
+  const a = e.args;
+  const amount = (value: unknown, token = tokens.pact) => formatAmount(BigInt(String(value)), token);
+  switch (e.name) {
+    case "PactCreated":
+      return `Created by ${a.creator} as ${INITIATOR_NAMES[Number(a.initiator)] ?? a.initiator}: payment ${amount(a.payment)}, deadline ${date(a.deadline)}, spec ${a.specHash}`;
+    case "PactAccepted":
+      return `Accepted by ${a.accepter} (joined as ${Number(a.role) === 0 ? "SELLER" : "BUYER"}) → FUNDED`;
+    case "AmendmentProposed":
+      return `Amendment proposed by ${a.proposedBy}: payment ${amount(a.payment)}, deadline ${date(a.deadline)}, spec ${a.specHash}`;
+    case "AmendmentAccepted":
+      return `Amendment accepted by ${a.acceptedBy} — pending terms now in effect`;
+    case "WorkStarted":
+      return "Seller started work → IN_PROGRESS";
+    case "WorkSubmitted":
+      return `Work submitted with proof ${a.proofHash} → PENDING_VERIFY`;
+    case "VerificationSubmitted":
+      return `Oracle ${a.oracle} scored ${a.score}/100`;
+    case "VerificationFinalized":
+      return `Verification finalized: weighted score ${a.weightedScore}/100 → ${pactStatusName(Number(a.newStatus))}`;
+    case "WorkApproved":
+      return `Work approved by ${a.approvedBy}`;
+    case "WorkRejected":
+      return `Work rejected by ${a.rejectedBy}`;
+    case "AutoApproved":
+      return `Auto-approved after review period (triggered by ${a.triggeredBy})`;
+    case "DisputeRaised":
+      return `Dispute raised by ${a.raisedBy} → DISPUTED`;
+    case "DisputeResolved":
+      return `Dispute resolved in favour of the ${a.sellerWins ? "seller" : "buyer"}`;
+    case "OracleFeePaid":
+      return `Oracle fee of ${amount(a.amount)} paid to ${a.oracle}`;
+    case "PactCompleted":
+      return "Pact COMPLETED — payment released to seller";
+    case "TimeoutClaimed":
+      return `Timeout claimed by ${a.claimedBy}`;
+    case "PactRefunded":
+      return "Pact REFUNDED";
+    case "JobRequested":
+      return `Router verification job #${a.jobId} requested by ${a.requester}, fee ${amount(a.fee, tokens.jobs.get(String(a.jobId)) ?? NATIVE_TOKEN)}`;
+    case "JobAssigned":
+      return `Router job #${a.jobId} claimed by validator ${a.validator}`;
+    case "JobCompleted":
+      return `Router job #${a.jobId} completed by ${a.validator} with score ${a.score}/100`;
+    case "JobExpired":
+      return `Router job #${a.jobId} expired (validator ${a.validator} did not respond)`;
+    case "JobReassigned":
+      return `Router job #${a.jobId} reassigned from ${a.oldValidator} to ${a.newValidator}`;
+    default:
+      return e.name;
+  }
+}
+
+function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+/**
+ * eth_getLogs from the index start block to the head, in ranges of
+ * INDEXER_BATCH_SIZE blocks — RPC providers cap the range of one request.
+ */
+async function getLogsPaged(config: Config, filter: ethers.Filter, head: number): Promise<ethers.Log[]> {
+  const provider = getProvider(config);
+  const logs: ethers.Log[] = [];
+  for (let from = config.indexerStartBlock; from <= head; from += config.indexerBatchSize) {
+    const to = Math.min(head, from + config.indexerBatchSize - 1);
+    logs.push(...(await provider.getLogs({ ...filter, fromBlock: from, toBlock: to })));
+  }
+  return logs;
+}
+
+/** Read a pact's history straight from the chain when no local index is available. */
+async function fetchPactEvents(config: Config, pactId: number): Promise<IndexedEvent[]> {
+  const head = await getProvider(config).getBlockNumber();
+  const pactTopic = ethers.zeroPadValue(ethers.toBeHex(pactId), 32);
+
+  const pactLogs = await getLogsPaged(config, { address: config.agentPactAddress, topics: [null, pactTopic] }, head);
+  const jobLogs = await getLogsPaged(config, {
+    address: config.oracleRouterAddress,
+    topics: [routerIface.getEvent("JobRequested")!.topicHash, null, pactTopic],
+  }, head);
+
+  const jobRequests = (await decodeLogs(config, jobLogs)).filter(
+    (e) => String(e.args.pactContract).toLowerCase() === config.agentPactAddress.toLowerCase()
+  );
+  const jobTopics = jobRequests.map((e) => ethers.zeroPadValue(ethers.toBeHex(BigInt(String(e.args.jobId))), 32));
+
+  let jobFollowUps: ethers.Log[] = [];
+  if (jobTopics.length > 0) {
+    jobFollowUps = await getLogsPaged(config, {
+      address: config.oracleRouterAddress,
+      topics: [
+        ["JobAssigned", "JobCompleted", "JobExpired", "JobReassigned"].map((n) => routerIface.getEvent(n)!.topicHash),
+        jobTopics,
+      ],
+    }, head);
+  }
+
+  return [
+    ...(await decodeLogs(config, pactLogs)),
+    ...jobRequests,
+    ...(await decodeLogs(config, jobFollowUps)),
+  ];
+}
+
+/** The same history, served from the local event index. */
+function indexedPactEvents(config: Config, indexer: EventIndexer, pactId: number): IndexedEvent[] {
+  const jobRequests = indexer.store
+    .getEvents({ contract: "oracleRouter", names: ["JobRequested"], pactId })
+    .filter((e) => String(e.args.pactContract).toLowerCase() === config.agentPactAddress.toLowerCase());
+
+  const jobEvents = jobRequests.flatMap((req) =>
+    indexer.store.getEvents({
+      contract: "oracleRouter",
+      names: ["JobAssigned", "JobCompleted", "JobExpired", "JobReassigned"],
+      jobId: Number(req.args.jobId),
+    })
+  );
+
+  return [...indexer.store.getPactEvents(pactId), ...jobRequests, ...jobEvents];
+}
+
+/** Look up the tokens the timeline's amounts are in: the pact's from the index when it has it, the rest on-chain. */
+async function timelineTokens(config: Config, pactId: number, events: IndexedEvent[], indexer?: EventIndexer): Promise<TimelineTokens> {
+  const indexed = indexer?.store.getPact(pactId)?.paymentToken;
+  const pactToken = indexed ?? (await getAgentPact(config).getPact(pactId)).paymentToken;
+  const jobs = new Map<string, TokenInfo>();
+  for (const e of events.filter((e) => e.name === "JobRequested")) {
+    const job = await getOracleRouter(config).getJob(BigInt(String(e.args.jobId)));
+    jobs.set(String(e.args.jobId), await getTokenInfo(config, job.paymentToken));
+  }
+  return { pact: await getTokenInfo(config, pactToken), jobs };
+}
+
+export function registerTimelineTools(server: McpServer, config: Config, indexer?: EventIndexer) {
+  server.tool(
+    "get-pact-timeline",
+    "Get the full chronological history of a pact reconstructed from on-chain events — creation, amendments, work, oracle scores, approvals, disputes, fees and refunds — with timestamps and tx hashes",
+    {
+      pactId: z.number().int().nonnegative().describe("The pact ID"),
+    },
+    async ({ pactId }) => {
+      try {
+        const fromIndex = indexer?.isSynced() ?? false;
+        const events = fromIndex
+          ? indexedPactEvents(config, indexer!, pactId)
+          : await fetchPactEvents(config, pactId);
+
+        if (events.length === 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `No events found for pact #${pactId} (searched from block ${config.indexerStartBlock}).`,
+            }],
+          };
+        }
+
+        events.sort(compareEvents);
+        const tokens = await timelineTokens(config, pactId, events, fromIndex ? indexer : undefined);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              pactId,
+              source: fromIndex ? "local event index" : "eth_getLogs",
+              eventCount: events.length,
+              timeline: events.map((e) => ({
+                time: date(e.timestamp),
+                block: e.blockNumber,
+                event: e.name,
+                summary: describe(e, tokens),
+                txHash: e.txHash,
+              })),
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+}
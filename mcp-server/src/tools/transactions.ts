@@ -0,0 +1,135 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { TxQueue, TxRecord } from "../wallet/tx-queue.js";
+import { ApprovalQueue, ApprovalRecord } from "../wallet/approvals.js";
+
+function formatTx(r: TxRecord) {
+  return {
+    hash: r.hash,
+    nonce: r.nonce,
+    action: r.label,
+    status: r.status,
+    submittedAt: new Date(r.submittedAt * 1000).toISOString(),
+    maxFeePerGas: r.maxFeePerGas ? ethers.formatUnits(r.maxFeePerGas, "gwei") + " gwei" : null,
+    maxPriorityFeePerGas: r.maxPriorityFeePerGas ? ethers.formatUnits(r.maxPriorityFeePerGas, "gwei") + " gwei" : null,
+    replaces: r.replaces,
+    replacedBy: r.replacedBy,
+  };
+}
+
+function formatApproval(a: ApprovalRecord) {
+  return {
+    approvalId: a.id,
+    status: a.status,
+    action: a.label,
+    call: a.decoded ? `${a.decoded.contract}.${a.decoded.function}` : null,
+    to: a.to,
+    value: ethers.formatEther(a.value) + " ETH",
+    signatures: a.signatures.map((s) => s.signer),
+    safeNonce: a.safeNonce,
+    txHash: a.txHash,
+    error: a.error,
+    rejectedBy: a.rejectedBy,
+    rejectReason: a.rejectReason,
+    createdAt: new Date(a.createdAt * 1000).toISOString(),
+    updatedAt: new Date(a.updatedAt * 1000).toISOString(),
+  };
+}
+
+export function registerTransactionTools(server: McpServer, config: Config, queue: TxQueue, approvals: ApprovalQueue) {
+  server.tool(
+    "list-pending-txs",
+    "List transactions sent by this agent's session key that are not mined yet, including ones that timed out or were sped up / cancelled",
+    {},
+    async () => {
+      try {
+        const open = await queue.refresh();
+        const pending = open.filter(
+          (r) => r.status === "pending" || (r.status === "replaced" && r.blockNumber === undefined)
+        );
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({ count: pending.length, transactions: pending.map(formatTx) }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "speed-up-tx",
+    "Resend a stuck pending transaction at the same nonce with higher EIP-1559 fees. Whichever version is mined first wins.",
+    {
+      hash: z.string().describe("Hash of the pending transaction (from list-pending-txs)"),
+      bumpPercent: z.number().int().min(10).max(500).optional().describe("Fee increase in percent (default: FEE_BUMP_PERCENT, min 10)"),
+    },
+    async ({ hash, bumpPercent }) => {
+      try {
+        const r = await queue.speedUp(hash, bumpPercent);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Sped up ${r.label} (nonce ${r.nonce}). Max fee now ${ethers.formatUnits(r.maxFeePerGas!, "gwei")} gwei.\nReplacement tx: ${r.hash}\nReplaces: ${r.replaces}`,
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error speeding up transaction: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "cancel-tx",
+    "Cancel a stuck pending transaction by sending a zero-value transaction to the session key itself at the same nonce with higher fees",
+    {
+      hash: z.string().describe("Hash of the pending transaction (from list-pending-txs)"),
+      bumpPercent: z.number().int().min(10).max(500).optional().describe("Fee increase in percent (default: FEE_BUMP_PERCENT, min 10)"),
+    },
+    async ({ hash, bumpPercent }) => {
+      try {
+        const r = await queue.cancel(hash, bumpPercent);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Cancellation sent for nonce ${r.nonce}. If it is mined first, the original transaction will never execute.\nCancel tx: ${r.hash}\nReplaces: ${r.replaces}`,
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error cancelling transaction: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    "get-approval-status",
+    "Check a transaction parked for human approval because its value is above the session's humanApprovalAbove. " +
+    "Status is pending (waiting for Safe owners to co-sign), submitted, executed, failed or rejected. Without an ID, lists recent approvals.",
+    {
+      approvalId: z.string().optional().describe("Approval ID returned by the write tool that parked the transaction"),
+    },
+    async ({ approvalId }) => {
+      try {
+        const body = approvalId
+          ? formatApproval(await approvals.status(approvalId))
+          : { reviewUrl: approvals.url, approvals: approvals.list().slice(0, 20).map(formatApproval) };
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(body, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error checking approval: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+}
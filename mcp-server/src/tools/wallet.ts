@@ -2,21 +2,21 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ethers } from "ethers";
 import { Config } from "../config.js";
-import { getPolicyModule } from "../contracts.js";
 import { getSigner, getBalance } from "../provider.js";
+import { PolicyClient } from "../client/policy.js";
+import { PactReservations } from "../client/reservations.js";
+import { formatAmount, getTokenInfo, parseAmount } from "../tokens.js";
 import { PolicyChecker } from "../wallet/policy.js";
-import { SpendingTracker } from "../wallet/spending.js";
-import { SafeExecutor } from "../wallet/safe-executor.js";
-import { AGENT_POLICY_MODULE_ABI } from "../abis.js";
-
-const policyModuleIface = new ethers.Interface(AGENT_POLICY_MODULE_ABI);
+import { SpendingTracker, reconcileSpending } from "../wallet/spending.js";
+import { dryRunParam, dryRunResult } from "./dry-run.js";
 
 export function registerWalletTools(
   server: McpServer,
   config: Config,
-  policy: PolicyChecker,
+  checker: PolicyChecker,
   tracker: SpendingTracker,
-  executor?: SafeExecutor
+  policy: PolicyClient,
+  reservations: PactReservations
 ) {
   server.tool(
     "get-balance",
@@ -58,13 +58,30 @@ export function registerWalletTools(
         // Software-tracked spending
         const dailySpent = tracker.getDailySpentEth();
         const weeklySpent = tracker.getWeeklySpentEth();
+        const window = tracker.getWindow();
+
+        // ERC-20 tokens with limits or recorded spending
+        const tokenAddresses = new Set([...checker.getLimitedTokens(), ...tracker.getTokens()]);
+        tokenAddresses.delete(ethers.ZeroAddress);
+        const tokens = await Promise.all([...tokenAddresses].map(async (address) => {
+          const token = await getTokenInfo(config, ethers.getAddress(address));
+          const w = tracker.getWindow(address);
+          const limits = checker.getLimits(address);
+          const limit = (amount: string | undefined) => (amount ? formatAmount(parseAmount(amount, token), token) : "none");
+          return {
+            token: `${token.symbol} (${token.address})`,
+            spentToday: formatAmount(w.dailySpent, token),
+            dailyLimit: limit(limits?.daily),
+            spentThisWeek: formatAmount(w.weeklySpent, token),
+            weeklyLimit: limit(limits?.weekly),
+            maxPerTx: limit(limits?.perTx),
+          };
+        }));
 
         // On-chain spending (from policy module)
         let onChainSpending = null;
         try {
-          const module = getPolicyModule(config);
-          const wallet = getSigner(config);
-          const s = await module.getSpending(wallet.address);
+          const s = await policy.getSpending();
           onChainSpending = {
             dailySpent: ethers.formatEther(s.dailySpent) + " ETH",
             weeklySpent: ethers.formatEther(s.weeklySpent) + " ETH",
@@ -76,8 +93,7 @@ export function registerWalletTools(
         // Shared budget info
         let sharedBudgetInfo = null;
         try {
-          const module = getPolicyModule(config);
-          const b = await module.getSharedBudget();
+          const b = await policy.getSharedBudget();
           if (b.enabled) {
             sharedBudgetInfo = {
               dailySpent: ethers.formatEther(b.dailySpent) + " ETH",
@@ -97,9 +113,13 @@ export function registerWalletTools(
             text: JSON.stringify({
               softwareLimits: {
                 spentToday: dailySpent + " ETH",
-                dailyLimit: policy.getMaxDailyEth() + " ETH",
+                dailyLimit: checker.getMaxDailyEth() + " ETH",
                 spentThisWeek: weeklySpent + " ETH",
-                maxPerTx: policy.getMaxPerTxEth() + " ETH",
+                weeklyLimit: checker.getMaxWeeklyEth() + " ETH",
+                maxPerTx: checker.getMaxPerTxEth() + " ETH",
+                dayWindowStarted: new Date(window.lastDayReset * 1000).toISOString(),
+                weekWindowStarted: new Date(window.lastWeekReset * 1000).toISOString(),
+                tokens,
               },
               onChain: onChainSpending ?? "Policy module not available",
               sharedBudget: sharedBudgetInfo ?? "Not enabled",
@@ -112,21 +132,58 @@ export function registerWalletTools(
     }
   );
 
+  server.tool(
+    "reconcile-spending",
+    "Compare the server's persisted software spending counters with the on-chain policy module and report drift. Optionally adopt the on-chain values.",
+    {
+      adopt: z.boolean().default(false).describe("Overwrite the software counters with the on-chain values if they differ"),
+    },
+    async ({ adopt }) => {
+      try {
+        const wallet = getSigner(config);
+        const d = await reconcileSpending(config, tracker, wallet.address, adopt);
+        const fmt = (w: typeof d.software) => ({
+          dailySpent: ethers.formatEther(w.dailySpent) + " ETH",
+          weeklySpent: ethers.formatEther(w.weeklySpent) + " ETH",
+          lastDayReset: new Date(w.lastDayReset * 1000).toISOString(),
+          lastWeekReset: new Date(w.lastWeekReset * 1000).toISOString(),
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              sessionKey: d.sessionKey,
+              inSync: d.inSync,
+              software: fmt(d.software),
+              onChain: fmt(d.onChain),
+              dailyDrift: ethers.formatEther(d.dailyDrift) + " ETH",
+              weeklyDrift: ethers.formatEther(d.weeklyDrift) + " ETH",
+              action: d.adopted
+                ? "Software counters replaced with on-chain values"
+                : d.inSync ? "None needed" : "None (pass adopt=true to take the on-chain values)",
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
+
   server.tool(
     "get-policy",
     "Get the full policy attached to this agent's session key",
     {},
     async () => {
       try {
-        const module = getPolicyModule(config);
-        const wallet = getSigner(config);
-        const session = await module.getSession(wallet.address);
+        const session = await policy.getSession();
 
         return {
           content: [{
             type: "text" as const,
             text: JSON.stringify({
-              sessionKey: wallet.address,
+              sessionKey: session.sessionKey,
               active: session.active,
               maxPerTx: ethers.formatEther(session.maxPerTx) + " ETH",
               maxDaily: ethers.formatEther(session.maxDaily) + " ETH",
@@ -135,7 +192,8 @@ export function registerWalletTools(
               allowedContracts: session.allowedContracts,
               allowedFunctions: session.allowedFunctions,
               allowedTokens: session.allowedTokens,
-              expiresAt: new Date(Number(session.expiresAt) * 1000).toISOString(),
+              expiresAt: new Date(session.expiresAt * 1000).toISOString(),
+              softwareRules: checker.rules,
             }, null, 2),
           }],
         };
@@ -151,9 +209,7 @@ export function registerWalletTools(
     {},
     async () => {
       try {
-        const module = getPolicyModule(config);
-        const b = await module.getSharedBudget();
-        const available = await module.getAvailableBudget();
+        const b = await policy.getSharedBudget();
 
         return {
           content: [{
@@ -165,7 +221,7 @@ export function registerWalletTools(
               dailySpent: ethers.formatEther(b.dailySpent) + " ETH",
               weeklySpent: ethers.formatEther(b.weeklySpent) + " ETH",
               totalReserved: ethers.formatEther(b.totalReserved) + " ETH",
-              availableForReservation: b.enabled ? ethers.formatEther(available) + " ETH" : "unlimited (budget disabled)",
+              availableForReservation: b.enabled ? ethers.formatEther(b.available) + " ETH" : "unlimited (budget disabled)",
             }, null, 2),
           }],
         };
@@ -180,26 +236,17 @@ export function registerWalletTools(
     "Reserve shared budget before committing to a pact (prevents other agents from spending these funds)",
     {
       amountEth: z.string().describe("Amount to reserve in ETH (e.g. '1.5')"),
+      dryRun: dryRunParam,
     },
-    async ({ amountEth }) => {
+    async ({ amountEth, dryRun }) => {
       try {
-        if (!executor) {
-          return { content: [{ type: "text" as const, text: "Safe executor not available" }], isError: true };
-        }
-        const amount = ethers.parseEther(amountEth);
-        const calldata = policyModuleIface.encodeFunctionData("reserveBudget", [amount]);
-        const receipt = await executor.execute(config.policyModuleAddress, 0n, calldata);
-
-        // Extract reservation ID from event
-        const event = receipt.logs
-          .map((log: any) => { try { return policyModuleIface.parseLog(log); } catch { return null; } })
-          .find((e: any) => e?.name === "BudgetReserved");
-        const reservationId = event?.args?.reservationId?.toString() ?? "unknown";
+        const r = await policy.reserveBudget(amountEth, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Budget reserved: ${amountEth} ETH (reservation #${reservationId}). Other agents cannot use these funds.\nTx: ${receipt.hash}`,
+            text: `Budget reserved: ${amountEth} ETH (reservation #${r.reservationId ?? "unknown"}). Other agents cannot use these funds.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -213,19 +260,17 @@ export function registerWalletTools(
     "Release a previously reserved budget (e.g. after pact completes or is refunded)",
     {
       reservationId: z.number().int().nonnegative().describe("The reservation ID to release"),
+      dryRun: dryRunParam,
     },
-    async ({ reservationId }) => {
+    async ({ reservationId, dryRun }) => {
       try {
-        if (!executor) {
-          return { content: [{ type: "text" as const, text: "Safe executor not available" }], isError: true };
-        }
-        const calldata = policyModuleIface.encodeFunctionData("releaseBudget", [reservationId]);
-        const receipt = await executor.execute(config.policyModuleAddress, 0n, calldata);
+        const r = await policy.releaseBudget(reservationId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Budget reservation #${reservationId} released. Funds available for other agents.\nTx: ${receipt.hash}`,
+            text: `Budget reservation #${reservationId} released. Funds available for other agents.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -240,26 +285,21 @@ export function registerWalletTools(
     {},
     async () => {
       try {
-        const module = getPolicyModule(config);
-        const wallet = getSigner(config);
-        const ids = await module.getSessionReservations(wallet.address);
-
-        const reservations = [];
-        for (const id of ids) {
-          const r = await module.getReservation(id);
-          if (r.active) {
-            reservations.push({
-              reservationId: Number(id),
-              amount: ethers.formatEther(r.amount) + " ETH",
-            });
-          }
-        }
+        const links = reservations.list("active");
+        const active = (await policy.getReservations()).map((r) => {
+          const link = links.find((l) => l.reservationId === r.reservationId.toString());
+          return {
+            reservationId: Number(r.reservationId),
+            amount: ethers.formatEther(r.amount) + " ETH",
+            pactId: link ? Number(link.pactId) : null,
+          };
+        });
 
         return {
           content: [{
             type: "text" as const,
-            text: reservations.length > 0
-              ? JSON.stringify({ activeReservations: reservations }, null, 2)
+            text: active.length > 0
+              ? JSON.stringify({ activeReservations: active }, null, 2)
               : "No active budget reservations.",
           }],
         };
@@ -268,4 +308,42 @@ export function registerWalletTools(
       }
     }
   );
+
+  server.tool(
+    "reconcile-reservations",
+    "Find budget reservations nothing will release: not linked to a pact, or linked to one that completed, was refunded or expired unaccepted. Optionally release the ones tied to a finished pact.",
+    {
+      release: z.boolean().default(false).describe("Release reservations whose pact has finished or expired (unlinked ones are only reported)"),
+    },
+    async ({ release }) => {
+      try {
+        const r = await reservations.reconcile(release);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              activeReservations: r.active,
+              linkedToRunningPacts: r.linked,
+              orphaned: r.orphaned.map((o) => ({
+                reservationId: Number(o.reservationId),
+                amount: ethers.formatEther(o.amount) + " ETH",
+                reason: o.reason,
+                pactId: o.pactId === null ? null : Number(o.pactId),
+                pactStatus: o.pactStatus ?? undefined,
+                releaseTx: o.releaseTx ?? undefined,
+                error: o.error ?? undefined,
+              })),
+              syncedAsReleased: r.synced.map(Number),
+              hint: r.orphaned.some((o) => o.reason === "unlinked")
+                ? "Unlinked reservations were made outside create-pact/accept-pact; release them with release-budget if they are no longer needed."
+                : undefined,
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return { content: [{ type: "text" as const, text: `Error reconciling reservations: ${err.reason ?? err.message}` }], isError: true };
+      }
+    }
+  );
 }
@@ -1,28 +1,25 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ethers } from "ethers";
-import { Config } from "../config.js";
-import { SafeExecutor } from "../wallet/safe-executor.js";
-import { AGENT_PACT_ABI } from "../abis.js";
+import { AgentPactClient } from "../client/agent-pact.js";
+import { dryRunParam, dryRunResult } from "./dry-run.js";
 
-const agentPactIface = new ethers.Interface(AGENT_PACT_ABI);
-
-export function registerWorkTools(server: McpServer, config: Config, executor: SafeExecutor) {
+export function registerWorkTools(server: McpServer, pacts: AgentPactClient) {
   server.tool(
     "start-work",
     "Signal that work has begun on a pact (seller only)",
     {
       pactId: z.number().int().nonnegative().describe("The pact ID"),
+      dryRun: dryRunParam,
     },
-    async ({ pactId }) => {
+    async ({ pactId, dryRun }) => {
       try {
-        const calldata = agentPactIface.encodeFunctionData("startWork", [pactId]);
-        const receipt = await executor.execute(config.agentPactAddress, 0n, calldata);
+        const r = await pacts.startWork(pactId, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Work started on pact #${pactId}. Status: IN_PROGRESS.\nTx: ${receipt.hash}`,
+            text: `Work started on pact #${pactId}. Status: IN_PROGRESS.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -37,18 +34,17 @@ export function registerWorkTools(server: McpServer, config: Config, executor: S
     {
       pactId: z.number().int().nonnegative().describe("The pact ID"),
       proofHash: z.string().describe("Hash of the work deliverable (bytes32 hex or plain string to hash)"),
+      dryRun: dryRunParam,
     },
-    async ({ pactId, proofHash }) => {
+    async ({ pactId, proofHash, dryRun }) => {
       try {
-        const proofBytes = proofHash.startsWith("0x") ? proofHash : ethers.keccak256(ethers.toUtf8Bytes(proofHash));
-
-        const calldata = agentPactIface.encodeFunctionData("submitWork", [pactId, proofBytes]);
-        const receipt = await executor.execute(config.agentPactAddress, 0n, calldata);
+        const r = await pacts.submitWork(pactId, proofHash, { dryRun });
+        if (r.dryRun) return dryRunResult(r.simulations);
 
         return {
           content: [{
             type: "text" as const,
-            text: `Work submitted for pact #${pactId}. Proof: ${proofBytes}. Status: PENDING_VERIFY. Awaiting oracle verification.\nTx: ${receipt.hash}`,
+            text: `Work submitted for pact #${pactId}. Proof: ${r.proofHash}. Status: PENDING_VERIFY. Awaiting oracle verification.\nTx: ${r.receipt.hash}`,
           }],
         };
       } catch (err: any) {
@@ -0,0 +1,66 @@
+import crypto from "crypto";
+import { IncomingMessage } from "http";
+import { TLSSocket } from "tls";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Config } from "../config.js";
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+function digest(value: string): Buffer {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+/** True if HTTP clients must present a bearer token or a client certificate. */
+export function authRequired(config: Config): boolean {
+  return config.authTokens.size > 0 || config.tlsClientCaFile !== null;
+}
+
+/**
+ * Refuse configurations that would expose the session key's tools to the
+ * network without any client authentication. Unauthenticated HTTP is only
+ * allowed on a loopback interface.
+ */
+export function assertAuthConfig(config: Config): void {
+  if (config.tlsClientCaFile && !(config.tlsCertFile && config.tlsKeyFile)) {
+    throw new Error("MCP_TLS_CLIENT_CA requires MCP_TLS_CERT and MCP_TLS_KEY");
+  }
+  if (!authRequired(config) && !LOOPBACK_HOSTS.has(config.httpHost)) {
+    throw new Error(
+      `Refusing to serve HTTP on ${config.httpHost} without client auth — set MCP_AUTH_TOKENS or MCP_TLS_CLIENT_CA`
+    );
+  }
+}
+
+/**
+ * Identify the client behind an HTTP request. A verified client certificate
+ * (mTLS) wins over a bearer token; the certificate's subject CN becomes the
+ * client ID. Returns null when auth is required and neither is valid.
+ */
+export function authenticate(config: Config, req: IncomingMessage): AuthInfo | null {
+  const socket = req.socket as TLSSocket;
+  if (config.tlsClientCaFile && socket.encrypted && socket.authorized) {
+    const cert = socket.getPeerCertificate();
+    const cn = Array.isArray(cert.subject?.CN) ? cert.subject.CN[0] : cert.subject?.CN;
+    if (cn) {
+      return { token: cert.fingerprint256, clientId: cn, scopes: [], extra: { method: "mtls" } };
+    }
+  }
+
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  if (match && config.authTokens.size > 0) {
+    // Compare digests of every configured token so timing leaks neither the
+    // token bytes nor which entry matched
+    const presented = digest(match[1]);
+    let clientId: string | null = null;
+    for (const [token, id] of config.authTokens) {
+      if (crypto.timingSafeEqual(presented, digest(token))) clientId = id;
+    }
+    if (clientId) return { token: match[1], clientId, scopes: [], extra: { method: "bearer" } };
+  }
+
+  if (!authRequired(config)) {
+    return { token: "", clientId: "anonymous", scopes: [], extra: { method: "none" } };
+  }
+  return null;
+}
@@ -0,0 +1,230 @@
+import crypto from "crypto";
+import fs from "fs";
+import http, { IncomingMessage, ServerResponse } from "http";
+import https from "https";
+import { AddressInfo } from "net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { Config } from "../config.js";
+import { UnknownTenantError } from "../tenants.js";
+import { assertAuthConfig, authRequired, authenticate } from "./auth.js";
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface Session {
+  kind: "streamable" | "sse";
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  clientId: string;
+  lastSeen: number;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Serve MCP over HTTP so several remote agents can share one gateway.
+ *
+ * - `/mcp` — Streamable HTTP (POST / GET / DELETE)
+ * - `/sse` + `/messages` — legacy HTTP+SSE transport for older clients
+ * - `/health` — unauthenticated liveness probe
+ *
+ * Every MCP session gets its own McpServer from `createServer` — scoped to
+ * the authenticated client — and is bound to the client that opened it:
+ * requests carrying another client's session ID are answered as if the
+ * session did not exist.
+ *
+ * Requests whose Host header isn't in MCP_ALLOWED_HOSTS are refused. Without
+ * client auth the list defaults to the loopback addresses of the port served,
+ * so a web page can't reach the unauthenticated tools through DNS rebinding.
+ */
+export async function startHttpServer(config: Config, createServer: (auth: AuthInfo) => McpServer): Promise<http.Server> {
+  assertAuthConfig(config);
+
+  const sessions = new Map<string, Session>();
+  // Filled in once listening, when the port is known
+  const transportOptions: { allowedHosts?: string[]; enableDnsRebindingProtection: boolean } = {
+    enableDnsRebindingProtection: false,
+  };
+
+  const closeSession = async (id: string, reason: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    console.error(`MCP session ${id} (${session.clientId}) closed: ${reason}`);
+    await session.server.close().catch(() => {});
+  };
+
+  // Clients that authenticate but map to no tenant are refused a session
+  const openServer = (res: ServerResponse, auth: AuthInfo): McpServer | null => {
+    try {
+      return createServer(auth);
+    } catch (err: any) {
+      if (!(err instanceof UnknownTenantError)) throw err;
+      sendJsonRpcError(res, 403, -32001, err.message);
+      return null;
+    }
+  };
+
+  const findSession = (id: string, kind: Session["kind"], auth: AuthInfo): Session | null => {
+    const session = sessions.get(id);
+    if (!session || session.kind !== kind || session.clientId !== auth.clientId) return null;
+    session.lastSeen = Date.now();
+    return session;
+  };
+
+  const handleStreamable = async (req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse, auth: AuthInfo) => {
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = findSession(sessionId, "streamable", auth);
+      if (!session) return sendJsonRpcError(res, 404, -32001, "Session not found");
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      return sendJsonRpcError(res, 400, -32000, "Bad Request: missing Mcp-Session-Id header");
+    }
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (err: any) {
+      return sendJsonRpcError(res, 400, -32700, `Parse error: ${err.message}`);
+    }
+    if (!isInitializeRequest(body)) {
+      return sendJsonRpcError(res, 400, -32000, "Bad Request: expected an initialize request to open a session");
+    }
+
+    const server = openServer(res, auth);
+    if (!server) return;
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      ...transportOptions,
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { kind: "streamable", transport, server, clientId: auth.clientId, lastSeen: Date.now() });
+        console.error(`MCP session ${id} opened for ${auth.clientId} (streamable HTTP)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) void closeSession(transport.sessionId, "client disconnected");
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse, auth: AuthInfo) => {
+    const server = openServer(res, auth);
+    if (!server) return;
+    const transport = new SSEServerTransport("/messages", res, transportOptions);
+    const id = transport.sessionId;
+    sessions.set(id, { kind: "sse", transport, server, clientId: auth.clientId, lastSeen: Date.now() });
+    transport.onclose = () => void closeSession(id, "client disconnected");
+    console.error(`MCP session ${id} opened for ${auth.clientId} (legacy SSE)`);
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse, url: URL, auth: AuthInfo) => {
+    const session = findSession(url.searchParams.get("sessionId") ?? "", "sse", auth);
+    if (!session) return sendJsonRpcError(res, 404, -32001, "Session not found");
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res);
+  };
+
+  const handler = async (req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (url.pathname === "/health" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+      return;
+    }
+
+    const { allowedHosts } = transportOptions;
+    if (allowedHosts && !allowedHosts.includes(req.headers.host ?? "")) {
+      return sendJsonRpcError(res, 403, -32000, "Forbidden host");
+    }
+
+    const auth = authenticate(config, req);
+    if (!auth) {
+      return sendJsonRpcError(res, 401, -32001, "Unauthorized", { "WWW-Authenticate": 'Bearer realm="agent-pact"' });
+    }
+    req.auth = auth;
+
+    if (url.pathname === "/mcp") return handleStreamable(req, res, auth);
+    if (url.pathname === "/sse" && req.method === "GET") return handleSseConnect(res, auth);
+    if (url.pathname === "/messages" && req.method === "POST") return handleSseMessage(req, res, url, auth);
+    sendJsonRpcError(res, 404, -32601, "Not found");
+  };
+
+  const listener = (req: IncomingMessage, res: ServerResponse) => {
+    handler(req, res).catch((err) => {
+      console.error(`HTTP ${req.method} ${req.url} failed: ${err.message}`);
+      if (!res.headersSent) sendJsonRpcError(res, 500, -32603, "Internal server error");
+      else res.end();
+    });
+  };
+
+  const tls = config.tlsCertFile && config.tlsKeyFile;
+  const httpServer = tls
+    ? https.createServer({
+        cert: fs.readFileSync(config.tlsCertFile!),
+        key: fs.readFileSync(config.tlsKeyFile!),
+        ...(config.tlsClientCaFile
+          ? {
+              ca: fs.readFileSync(config.tlsClientCaFile),
+              requestCert: true,
+              // Clients without a certificate may still fall back to a bearer token
+              rejectUnauthorized: false,
+            }
+          : {}),
+      }, listener)
+    : http.createServer(listener);
+
+  // Drop sessions whose client has gone quiet without a DELETE
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - config.sessionIdleSec * 1000;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) void closeSession(id, "idle timeout");
+    }
+  }, 60_000);
+  sweep.unref();
+  httpServer.on("close", () => clearInterval(sweep));
+
+  const shutdown = () => {
+    httpServer.close();
+    Promise.all([...sessions.keys()].map((id) => closeSession(id, "server shutting down")))
+      .finally(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.httpPort, config.httpHost, () => resolve());
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const allowedHosts = config.allowedHosts.length > 0 || authRequired(config)
+    ? config.allowedHosts
+    : [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+  if (allowedHosts.length > 0) {
+    transportOptions.allowedHosts = allowedHosts;
+    transportOptions.enableDnsRebindingProtection = true;
+  }
+  return httpServer;
+}
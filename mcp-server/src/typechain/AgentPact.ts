@@ -0,0 +1,1555 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common.js";
+
+export interface AgentPactInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DEFAULT_REVIEW_PERIOD"
+      | "STAKE_PERCENT"
+      | "acceptAmendment"
+      | "acceptPact"
+      | "amendments"
+      | "approveWork"
+      | "autoApprove"
+      | "claimTimeout"
+      | "createPact"
+      | "finalizeVerification"
+      | "getAmendment"
+      | "getOpenPactCount"
+      | "getOpenPacts"
+      | "getPact"
+      | "getPactOracles"
+      | "getPactsByAddress"
+      | "getReputation"
+      | "getUserPactCount"
+      | "getVerification"
+      | "nextPactId"
+      | "pacts"
+      | "proposeAmendment"
+      | "raiseDispute"
+      | "rejectWork"
+      | "reputation"
+      | "resolveDispute"
+      | "startWork"
+      | "submitVerification"
+      | "submitWork"
+      | "verifications"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AmendmentAccepted"
+      | "AmendmentProposed"
+      | "AutoApproved"
+      | "DisputeRaised"
+      | "DisputeResolved"
+      | "OracleFeePaid"
+      | "PactAccepted"
+      | "PactCompleted"
+      | "PactCreated"
+      | "PactRefunded"
+      | "ReputationUpdated"
+      | "TimeoutClaimed"
+      | "VerificationFinalized"
+      | "VerificationSubmitted"
+      | "WorkApproved"
+      | "WorkRejected"
+      | "WorkStarted"
+      | "WorkSubmitted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_REVIEW_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STAKE_PERCENT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptAmendment",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptPact",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "amendments",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approveWork",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "autoApprove",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimTimeout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createPact",
+    values: [
+      BigNumberish,
+      BytesLike,
+      BigNumberish,
+      AddressLike[],
+      BigNumberish[],
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeVerification",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAmendment",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOpenPactCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOpenPacts",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPact",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPactOracles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPactsByAddress",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReputation",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserPactCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVerification",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextPactId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "pacts", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "proposeAmendment",
+    values: [BigNumberish, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "raiseDispute",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rejectWork",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reputation",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveDispute",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startWork",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitVerification",
+    values: [BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitWork",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifications",
+    values: [BigNumberish, AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_REVIEW_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STAKE_PERCENT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptAmendment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "acceptPact", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "amendments", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "approveWork",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "autoApprove",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "createPact", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeVerification",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAmendment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOpenPactCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOpenPacts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getPact", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPactOracles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPactsByAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReputation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserPactCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVerification",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "nextPactId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pacts", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeAmendment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "raiseDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "rejectWork", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "reputation", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "startWork", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitVerification",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "submitWork", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "verifications",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AmendmentAcceptedEvent {
+  export type InputTuple = [pactId: BigNumberish, acceptedBy: AddressLike];
+  export type OutputTuple = [pactId: bigint, acceptedBy: string];
+  export interface OutputObject {
+    pactId: bigint;
+    acceptedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AmendmentProposedEvent {
+  export type InputTuple = [
+    pactId: BigNumberish,
+    proposedBy: AddressLike,
+    payment: BigNumberish,
+    deadline: BigNumberish,
+    specHash: BytesLike
+  ];
+  export type OutputTuple = [
+    pactId: bigint,
+    proposedBy: string,
+    payment: bigint,
+    deadline: bigint,
+    specHash: string
+  ];
+  export interface OutputObject {
+    pactId: bigint;
+    proposedBy: string;
+    payment: bigint;
+    deadline: bigint;
+    specHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AutoApprovedEvent {
+  export type InputTuple = [pactId: BigNumberish, triggeredBy: AddressLike];
+  export type OutputTuple = [pactId: bigint, triggeredBy: string];
+  export interface OutputObject {
+    pactId: bigint;
+    triggeredBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeRaisedEvent {
+  export type InputTuple = [pactId: BigNumberish, raisedBy: AddressLike];
+  export type OutputTuple = [pactId: bigint, raisedBy: string];
+  export interface OutputObject {
+    pactId: bigint;
+    raisedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeResolvedEvent {
+  export type InputTuple = [pactId: BigNumberish, sellerWins: boolean];
+  export type OutputTuple = [pactId: bigint, sellerWins: boolean];
+  export interface OutputObject {
+    pactId: bigint;
+    sellerWins: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OracleFeePaidEvent {
+  export type InputTuple = [
+    pactId: BigNumberish,
+    oracle: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [pactId: bigint, oracle: string, amount: bigint];
+  export interface OutputObject {
+    pactId: bigint;
+    oracle: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PactAcceptedEvent {
+  export type InputTuple = [
+    pactId: BigNumberish,
+    accepter: AddressLike,
+    role: BigNumberish
+  ];
+  export type OutputTuple = [pactId: bigint, accepter: string, role: bigint];
+  export interface OutputObject {
+    pactId: bigint;
+    accepter: string;
+    role: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PactCompletedEvent {
+  export type InputTuple = [pactId: BigNumberish];
+  export type OutputTuple = [pactId: bigint];
+  export interface OutputObject {
+    pactId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PactCreatedEvent {
+  export type InputTuple = [
+    pactId: BigNumberish,
+    creator: AddressLike,
+    initiator: BigNumberish,
+    specHash: BytesLike,
+    payment: BigNumberish,
+    deadline: BigNumberish
+  ];
+  export type OutputTuple = [
+    pactId: bigint,
+    creator: string,
+    initiator: bigint,
+    specHash: string,
+    payment: bigint,
+    deadline: bigint
+  ];
+  export interface OutputObject {
+    pactId: bigint;
+    creator: string;
+    initiator: bigint;
+    specHash: string;
+    payment: bigint;
+    deadline: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PactRefundedEvent {
+  export type InputTuple = [pactId: BigNumberish];
+  export type OutputTuple = [pactId: bigint];
+  export interface OutputObject {
+    pactId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReputationUpdatedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    completedAsBuyer: BigNumberish,
+    completedAsSeller: BigNumberish,
+    disputesLost: BigNumberish,
+    totalVolumeWei: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    completedAsBuyer: bigint,
+    completedAsSeller: bigint,
+    disputesLost: bigint,
+    totalVolumeWei: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    completedAsBuyer: bigint;
+    completedAsSeller: bigint;
+    disputesLost: bigint;
+    totalVolumeWei: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimeoutClaimedEvent {
+  export type InputTuple = [pactId: BigNumberish, claimedBy: AddressLike];
+  export type OutputTuple = [pactId: bigint, claimedBy: string];
+  export interface OutputObject {
+    pactId: bigint;
+    claimedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerificationFinalizedEvent {
+  export type InputTuple = [
+    pactId: BigNumberish,
+    weightedScore: BigNumberish,
+    newStatus: BigNumberish
+  ];
+  export type OutputTuple = [
+    pactId: bigint,
+    weightedScore: bigint,
+    newStatus: bigint
+  ];
+  export interface OutputObject {
+    pactId: bigint;
+    weightedScore: bigint;
+    newStatus: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerificationSubmittedEvent {
+  export type InputTuple = [
+    pactId: BigNumberish,
+    oracle: AddressLike,
+    score: BigNumberish
+  ];
+  export type OutputTuple = [pactId: bigint, oracle: string, score: bigint];
+  export interface OutputObject {
+    pactId: bigint;
+    oracle: string;
+    score: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WorkApprovedEvent {
+  export type InputTuple = [pactId: BigNumberish, approvedBy: AddressLike];
+  export type OutputTuple = [pactId: bigint, approvedBy: string];
+  export interface OutputObject {
+    pactId: bigint;
+    approvedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WorkRejectedEvent {
+  export type InputTuple = [pactId: BigNumberish, rejectedBy: AddressLike];
+  export type OutputTuple = [pactId: bigint, rejectedBy: string];
+  export interface OutputObject {
+    pactId: bigint;
+    rejectedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WorkStartedEvent {
+  export type InputTuple = [pactId: BigNumberish];
+  export type OutputTuple = [pactId: bigint];
+  export interface OutputObject {
+    pactId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WorkSubmittedEvent {
+  export type InputTuple = [pactId: BigNumberish, proofHash: BytesLike];
+  export type OutputTuple = [pactId: bigint, proofHash: string];
+  export interface OutputObject {
+    pactId: bigint;
+    proofHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AgentPact extends BaseContract {
+  connect(runner?: ContractRunner | null): AgentPact;
+  waitForDeployment(): Promise<this>;
+
+  interface: AgentPactInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DEFAULT_REVIEW_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  STAKE_PERCENT: TypedContractMethod<[], [bigint], "view">;
+
+  acceptAmendment: TypedContractMethod<
+    [pactId: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  acceptPact: TypedContractMethod<[pactId: BigNumberish], [void], "payable">;
+
+  amendments: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, string, boolean] & {
+        payment: bigint;
+        deadline: bigint;
+        specHash: string;
+        proposedBy: string;
+        pending: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  approveWork: TypedContractMethod<
+    [pactId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  autoApprove: TypedContractMethod<
+    [pactId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimTimeout: TypedContractMethod<
+    [pactId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createPact: TypedContractMethod<
+    [
+      _initiator: BigNumberish,
+      specHash: BytesLike,
+      deadline: BigNumberish,
+      oracles: AddressLike[],
+      oracleWeights: BigNumberish[],
+      verificationThreshold: BigNumberish,
+      paymentAmount: BigNumberish,
+      reviewPeriod: BigNumberish,
+      oracleFee: BigNumberish,
+      paymentToken: AddressLike
+    ],
+    [bigint],
+    "payable"
+  >;
+
+  finalizeVerification: TypedContractMethod<
+    [pactId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getAmendment: TypedContractMethod<
+    [pactId: BigNumberish],
+    [
+      [bigint, bigint, string, string, boolean] & {
+        payment: bigint;
+        deadline_: bigint;
+        specHash: string;
+        proposedBy: string;
+        pending: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getOpenPactCount: TypedContractMethod<[], [bigint], "view">;
+
+  getOpenPacts: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getPact: TypedContractMethod<
+    [pactId: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        string
+      ] & {
+        buyer: string;
+        seller: string;
+        payment: bigint;
+        deadline_: bigint;
+        status: bigint;
+        specHash: string;
+        verificationThreshold: bigint;
+        buyerStake: bigint;
+        sellerStake: bigint;
+        initiator: bigint;
+        reviewPeriod: bigint;
+        verifiedAt: bigint;
+        oracleFee: bigint;
+        oracleFeesPaid: boolean;
+        paymentToken: string;
+      }
+    ],
+    "view"
+  >;
+
+  getPactOracles: TypedContractMethod<
+    [pactId: BigNumberish],
+    [[string[], bigint[]]],
+    "view"
+  >;
+
+  getPactsByAddress: TypedContractMethod<
+    [user: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getReputation: TypedContractMethod<
+    [user: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        completedAsBuyer: bigint;
+        completedAsSeller: bigint;
+        disputesLost: bigint;
+        totalVolumeWei: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getUserPactCount: TypedContractMethod<[user: AddressLike], [bigint], "view">;
+
+  getVerification: TypedContractMethod<
+    [pactId: BigNumberish, oracle: AddressLike],
+    [
+      [bigint, boolean, string] & {
+        score: bigint;
+        hasSubmitted: boolean;
+        proof: string;
+      }
+    ],
+    "view"
+  >;
+
+  nextPactId: TypedContractMethod<[], [bigint], "view">;
+
+  pacts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        string
+      ] & {
+        buyer: string;
+        seller: string;
+        payment: bigint;
+        deadline: bigint;
+        status: bigint;
+        specHash: string;
+        verificationHash: string;
+        verificationThreshold: bigint;
+        arbitrator: string;
+        disputeFee: bigint;
+        buyerStake: bigint;
+        sellerStake: bigint;
+        createdAt: bigint;
+        initiator: bigint;
+        reviewPeriod: bigint;
+        verifiedAt: bigint;
+        oracleFee: bigint;
+        oracleFeesPaid: boolean;
+        paymentToken: string;
+      }
+    ],
+    "view"
+  >;
+
+  proposeAmendment: TypedContractMethod<
+    [
+      pactId: BigNumberish,
+      newPayment: BigNumberish,
+      newDeadline: BigNumberish,
+      newSpecHash: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  raiseDispute: TypedContractMethod<
+    [pactId: BigNumberish, arbitrator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  rejectWork: TypedContractMethod<[pactId: BigNumberish], [void], "nonpayable">;
+
+  reputation: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        completedAsBuyer: bigint;
+        completedAsSeller: bigint;
+        disputesLost: bigint;
+        totalVolumeWei: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  resolveDispute: TypedContractMethod<
+    [pactId: BigNumberish, sellerWins: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  startWork: TypedContractMethod<[pactId: BigNumberish], [void], "nonpayable">;
+
+  submitVerification: TypedContractMethod<
+    [pactId: BigNumberish, score: BigNumberish, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitWork: TypedContractMethod<
+    [pactId: BigNumberish, proofHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  verifications: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [bigint, boolean, string] & {
+        score: bigint;
+        hasSubmitted: boolean;
+        proof: string;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DEFAULT_REVIEW_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STAKE_PERCENT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptAmendment"
+  ): TypedContractMethod<[pactId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "acceptPact"
+  ): TypedContractMethod<[pactId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "amendments"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, string, boolean] & {
+        payment: bigint;
+        deadline: bigint;
+        specHash: string;
+        proposedBy: string;
+        pending: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "approveWork"
+  ): TypedContractMethod<[pactId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "autoApprove"
+  ): TypedContractMethod<[pactId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimTimeout"
+  ): TypedContractMethod<[pactId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "createPact"
+  ): TypedContractMethod<
+    [
+      _initiator: BigNumberish,
+      specHash: BytesLike,
+      deadline: BigNumberish,
+      oracles: AddressLike[],
+      oracleWeights: BigNumberish[],
+      verificationThreshold: BigNumberish,
+      paymentAmount: BigNumberish,
+      reviewPeriod: BigNumberish,
+      oracleFee: BigNumberish,
+      paymentToken: AddressLike
+    ],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeVerification"
+  ): TypedContractMethod<[pactId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAmendment"
+  ): TypedContractMethod<
+    [pactId: BigNumberish],
+    [
+      [bigint, bigint, string, string, boolean] & {
+        payment: bigint;
+        deadline_: bigint;
+        specHash: string;
+        proposedBy: string;
+        pending: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOpenPactCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOpenPacts"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPact"
+  ): TypedContractMethod<
+    [pactId: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        string
+      ] & {
+        buyer: string;
+        seller: string;
+        payment: bigint;
+        deadline_: bigint;
+        status: bigint;
+        specHash: string;
+        verificationThreshold: bigint;
+        buyerStake: bigint;
+        sellerStake: bigint;
+        initiator: bigint;
+        reviewPeriod: bigint;
+        verifiedAt: bigint;
+        oracleFee: bigint;
+        oracleFeesPaid: boolean;
+        paymentToken: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPactOracles"
+  ): TypedContractMethod<
+    [pactId: BigNumberish],
+    [[string[], bigint[]]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPactsByAddress"
+  ): TypedContractMethod<
+    [user: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getReputation"
+  ): TypedContractMethod<
+    [user: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        completedAsBuyer: bigint;
+        completedAsSeller: bigint;
+        disputesLost: bigint;
+        totalVolumeWei: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getUserPactCount"
+  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getVerification"
+  ): TypedContractMethod<
+    [pactId: BigNumberish, oracle: AddressLike],
+    [
+      [bigint, boolean, string] & {
+        score: bigint;
+        hasSubmitted: boolean;
+        proof: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "nextPactId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pacts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        string
+      ] & {
+        buyer: string;
+        seller: string;
+        payment: bigint;
+        deadline: bigint;
+        status: bigint;
+        specHash: string;
+        verificationHash: string;
+        verificationThreshold: bigint;
+        arbitrator: string;
+        disputeFee: bigint;
+        buyerStake: bigint;
+        sellerStake: bigint;
+        createdAt: bigint;
+        initiator: bigint;
+        reviewPeriod: bigint;
+        verifiedAt: bigint;
+        oracleFee: bigint;
+        oracleFeesPaid: boolean;
+        paymentToken: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "proposeAmendment"
+  ): TypedContractMethod<
+    [
+      pactId: BigNumberish,
+      newPayment: BigNumberish,
+      newDeadline: BigNumberish,
+      newSpecHash: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "raiseDispute"
+  ): TypedContractMethod<
+    [pactId: BigNumberish, arbitrator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rejectWork"
+  ): TypedContractMethod<[pactId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reputation"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        completedAsBuyer: bigint;
+        completedAsSeller: bigint;
+        disputesLost: bigint;
+        totalVolumeWei: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "resolveDispute"
+  ): TypedContractMethod<
+    [pactId: BigNumberish, sellerWins: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "startWork"
+  ): TypedContractMethod<[pactId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitVerification"
+  ): TypedContractMethod<
+    [pactId: BigNumberish, score: BigNumberish, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitWork"
+  ): TypedContractMethod<
+    [pactId: BigNumberish, proofHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "verifications"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [bigint, boolean, string] & {
+        score: bigint;
+        hasSubmitted: boolean;
+        proof: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "AmendmentAccepted"
+  ): TypedContractEvent<
+    AmendmentAcceptedEvent.InputTuple,
+    AmendmentAcceptedEvent.OutputTuple,
+    AmendmentAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AmendmentProposed"
+  ): TypedContractEvent<
+    AmendmentProposedEvent.InputTuple,
+    AmendmentProposedEvent.OutputTuple,
+    AmendmentProposedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AutoApproved"
+  ): TypedContractEvent<
+    AutoApprovedEvent.InputTuple,
+    AutoApprovedEvent.OutputTuple,
+    AutoApprovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeRaised"
+  ): TypedContractEvent<
+    DisputeRaisedEvent.InputTuple,
+    DisputeRaisedEvent.OutputTuple,
+    DisputeRaisedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeResolved"
+  ): TypedContractEvent<
+    DisputeResolvedEvent.InputTuple,
+    DisputeResolvedEvent.OutputTuple,
+    DisputeResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OracleFeePaid"
+  ): TypedContractEvent<
+    OracleFeePaidEvent.InputTuple,
+    OracleFeePaidEvent.OutputTuple,
+    OracleFeePaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "PactAccepted"
+  ): TypedContractEvent<
+    PactAcceptedEvent.InputTuple,
+    PactAcceptedEvent.OutputTuple,
+    PactAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PactCompleted"
+  ): TypedContractEvent<
+    PactCompletedEvent.InputTuple,
+    PactCompletedEvent.OutputTuple,
+    PactCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PactCreated"
+  ): TypedContractEvent<
+    PactCreatedEvent.InputTuple,
+    PactCreatedEvent.OutputTuple,
+    PactCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PactRefunded"
+  ): TypedContractEvent<
+    PactRefundedEvent.InputTuple,
+    PactRefundedEvent.OutputTuple,
+    PactRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReputationUpdated"
+  ): TypedContractEvent<
+    ReputationUpdatedEvent.InputTuple,
+    ReputationUpdatedEvent.OutputTuple,
+    ReputationUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimeoutClaimed"
+  ): TypedContractEvent<
+    TimeoutClaimedEvent.InputTuple,
+    TimeoutClaimedEvent.OutputTuple,
+    TimeoutClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerificationFinalized"
+  ): TypedContractEvent<
+    VerificationFinalizedEvent.InputTuple,
+    VerificationFinalizedEvent.OutputTuple,
+    VerificationFinalizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerificationSubmitted"
+  ): TypedContractEvent<
+    VerificationSubmittedEvent.InputTuple,
+    VerificationSubmittedEvent.OutputTuple,
+    VerificationSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WorkApproved"
+  ): TypedContractEvent<
+    WorkApprovedEvent.InputTuple,
+    WorkApprovedEvent.OutputTuple,
+    WorkApprovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WorkRejected"
+  ): TypedContractEvent<
+    WorkRejectedEvent.InputTuple,
+    WorkRejectedEvent.OutputTuple,
+    WorkRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WorkStarted"
+  ): TypedContractEvent<
+    WorkStartedEvent.InputTuple,
+    WorkStartedEvent.OutputTuple,
+    WorkStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WorkSubmitted"
+  ): TypedContractEvent<
+    WorkSubmittedEvent.InputTuple,
+    WorkSubmittedEvent.OutputTuple,
+    WorkSubmittedEvent.OutputObject
+  >;
+
+  filters: {
+    "AmendmentAccepted(uint256,address)": TypedContractEvent<
+      AmendmentAcceptedEvent.InputTuple,
+      AmendmentAcceptedEvent.OutputTuple,
+      AmendmentAcceptedEvent.OutputObject
+    >;
+    AmendmentAccepted: TypedContractEvent<
+      AmendmentAcceptedEvent.InputTuple,
+      AmendmentAcceptedEvent.OutputTuple,
+      AmendmentAcceptedEvent.OutputObject
+    >;
+
+    "AmendmentProposed(uint256,address,uint256,uint256,bytes32)": TypedContractEvent<
+      AmendmentProposedEvent.InputTuple,
+      AmendmentProposedEvent.OutputTuple,
+      AmendmentProposedEvent.OutputObject
+    >;
+    AmendmentProposed: TypedContractEvent<
+      AmendmentProposedEvent.InputTuple,
+      AmendmentProposedEvent.OutputTuple,
+      AmendmentProposedEvent.OutputObject
+    >;
+
+    "AutoApproved(uint256,address)": TypedContractEvent<
+      AutoApprovedEvent.InputTuple,
+      AutoApprovedEvent.OutputTuple,
+      AutoApprovedEvent.OutputObject
+    >;
+    AutoApproved: TypedContractEvent<
+      AutoApprovedEvent.InputTuple,
+      AutoApprovedEvent.OutputTuple,
+      AutoApprovedEvent.OutputObject
+    >;
+
+    "DisputeRaised(uint256,address)": TypedContractEvent<
+      DisputeRaisedEvent.InputTuple,
+      DisputeRaisedEvent.OutputTuple,
+      DisputeRaisedEvent.OutputObject
+    >;
+    DisputeRaised: TypedContractEvent<
+      DisputeRaisedEvent.InputTuple,
+      DisputeRaisedEvent.OutputTuple,
+      DisputeRaisedEvent.OutputObject
+    >;
+
+    "DisputeResolved(uint256,bool)": TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+    DisputeResolved: TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+
+    "OracleFeePaid(uint256,address,uint256)": TypedContractEvent<
+      OracleFeePaidEvent.InputTuple,
+      OracleFeePaidEvent.OutputTuple,
+      OracleFeePaidEvent.OutputObject
+    >;
+    OracleFeePaid: TypedContractEvent<
+      OracleFeePaidEvent.InputTuple,
+      OracleFeePaidEvent.OutputTuple,
+      OracleFeePaidEvent.OutputObject
+    >;
+
+    "PactAccepted(uint256,address,uint8)": TypedContractEvent<
+      PactAcceptedEvent.InputTuple,
+      PactAcceptedEvent.OutputTuple,
+      PactAcceptedEvent.OutputObject
+    >;
+    PactAccepted: TypedContractEvent<
+      PactAcceptedEvent.InputTuple,
+      PactAcceptedEvent.OutputTuple,
+      PactAcceptedEvent.OutputObject
+    >;
+
+    "PactCompleted(uint256)": TypedContractEvent<
+      PactCompletedEvent.InputTuple,
+      PactCompletedEvent.OutputTuple,
+      PactCompletedEvent.OutputObject
+    >;
+    PactCompleted: TypedContractEvent<
+      PactCompletedEvent.InputTuple,
+      PactCompletedEvent.OutputTuple,
+      PactCompletedEvent.OutputObject
+    >;
+
+    "PactCreated(uint256,address,uint8,bytes32,uint256,uint256)": TypedContractEvent<
+      PactCreatedEvent.InputTuple,
+      PactCreatedEvent.OutputTuple,
+      PactCreatedEvent.OutputObject
+    >;
+    PactCreated: TypedContractEvent<
+      PactCreatedEvent.InputTuple,
+      PactCreatedEvent.OutputTuple,
+      PactCreatedEvent.OutputObject
+    >;
+
+    "PactRefunded(uint256)": TypedContractEvent<
+      PactRefundedEvent.InputTuple,
+      PactRefundedEvent.OutputTuple,
+      PactRefundedEvent.OutputObject
+    >;
+    PactRefunded: TypedContractEvent<
+      PactRefundedEvent.InputTuple,
+      PactRefundedEvent.OutputTuple,
+      PactRefundedEvent.OutputObject
+    >;
+
+    "ReputationUpdated(address,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      ReputationUpdatedEvent.InputTuple,
+      ReputationUpdatedEvent.OutputTuple,
+      ReputationUpdatedEvent.OutputObject
+    >;
+    ReputationUpdated: TypedContractEvent<
+      ReputationUpdatedEvent.InputTuple,
+      ReputationUpdatedEvent.OutputTuple,
+      ReputationUpdatedEvent.OutputObject
+    >;
+
+    "TimeoutClaimed(uint256,address)": TypedContractEvent<
+      TimeoutClaimedEvent.InputTuple,
+      TimeoutClaimedEvent.OutputTuple,
+      TimeoutClaimedEvent.OutputObject
+    >;
+    TimeoutClaimed: TypedContractEvent<
+      TimeoutClaimedEvent.InputTuple,
+      TimeoutClaimedEvent.OutputTuple,
+      TimeoutClaimedEvent.OutputObject
+    >;
+
+    "VerificationFinalized(uint256,uint256,uint8)": TypedContractEvent<
+      VerificationFinalizedEvent.InputTuple,
+      VerificationFinalizedEvent.OutputTuple,
+      VerificationFinalizedEvent.OutputObject
+    >;
+    VerificationFinalized: TypedContractEvent<
+      VerificationFinalizedEvent.InputTuple,
+      VerificationFinalizedEvent.OutputTuple,
+      VerificationFinalizedEvent.OutputObject
+    >;
+
+    "VerificationSubmitted(uint256,address,uint8)": TypedContractEvent<
+      VerificationSubmittedEvent.InputTuple,
+      VerificationSubmittedEvent.OutputTuple,
+      VerificationSubmittedEvent.OutputObject
+    >;
+    VerificationSubmitted: TypedContractEvent<
+      VerificationSubmittedEvent.InputTuple,
+      VerificationSubmittedEvent.OutputTuple,
+      VerificationSubmittedEvent.OutputObject
+    >;
+
+    "WorkApproved(uint256,address)": TypedContractEvent<
+      WorkApprovedEvent.InputTuple,
+      WorkApprovedEvent.OutputTuple,
+      WorkApprovedEvent.OutputObject
+    >;
+    WorkApproved: TypedContractEvent<
+      WorkApprovedEvent.InputTuple,
+      WorkApprovedEvent.OutputTuple,
+      WorkApprovedEvent.OutputObject
+    >;
+
+    "WorkRejected(uint256,address)": TypedContractEvent<
+      WorkRejectedEvent.InputTuple,
+      WorkRejectedEvent.OutputTuple,
+      WorkRejectedEvent.OutputObject
+    >;
+    WorkRejected: TypedContractEvent<
+      WorkRejectedEvent.InputTuple,
+      WorkRejectedEvent.OutputTuple,
+      WorkRejectedEvent.OutputObject
+    >;
+
+    "WorkStarted(uint256)": TypedContractEvent<
+      WorkStartedEvent.InputTuple,
+      WorkStartedEvent.OutputTuple,
+      WorkStartedEvent.OutputObject
+    >;
+    WorkStarted: TypedContractEvent<
+      WorkStartedEvent.InputTuple,
+      WorkStartedEvent.OutputTuple,
+      WorkStartedEvent.OutputObject
+    >;
+
+    "WorkSubmitted(uint256,bytes32)": TypedContractEvent<
+      WorkSubmittedEvent.InputTuple,
+      WorkSubmittedEvent.OutputTuple,
+      WorkSubmittedEvent.OutputObject
+    >;
+    WorkSubmitted: TypedContractEvent<
+      WorkSubmittedEvent.InputTuple,
+      WorkSubmittedEvent.OutputTuple,
+      WorkSubmittedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1093 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common.js";
+
+export interface AgentPolicyModuleInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "disableSharedBudget"
+      | "executeTransaction"
+      | "getAvailableBudget"
+      | "getReservation"
+      | "getSession"
+      | "getSessionReservations"
+      | "getSharedBudget"
+      | "getSpending"
+      | "grantSession"
+      | "isSessionActive"
+      | "nextReservationId"
+      | "owner"
+      | "releaseBudget"
+      | "renounceOwnership"
+      | "reservations"
+      | "reserveBudget"
+      | "revokeSession"
+      | "rotateSession"
+      | "safe"
+      | "sessionCount"
+      | "setSharedBudget"
+      | "sharedBudget"
+      | "spending"
+      | "transferOwnership"
+      | "validateTransaction"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BudgetReleased"
+      | "BudgetReserved"
+      | "OwnershipTransferred"
+      | "SessionGranted"
+      | "SessionRevoked"
+      | "SharedBudgetSet"
+      | "SpendingLimitHit"
+      | "TransactionExecuted"
+      | "TransactionRejected"
+      | "TransactionValidated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "disableSharedBudget",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeTransaction",
+    values: [AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAvailableBudget",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReservation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSession",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSessionReservations",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSharedBudget",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSpending",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantSession",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike[],
+      BytesLike[],
+      AddressLike[],
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isSessionActive",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextReservationId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "releaseBudget",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reservations",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reserveBudget",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeSession",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rotateSession",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "safe", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "sessionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSharedBudget",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sharedBudget",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "spending",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "validateTransaction",
+    values: [AddressLike, AddressLike, BigNumberish, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "disableSharedBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeTransaction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAvailableBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReservation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSession", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSessionReservations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSharedBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSpending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isSessionActive",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "nextReservationId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reservations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reserveBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rotateSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "safe", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "sessionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSharedBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sharedBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "spending", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "validateTransaction",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BudgetReleasedEvent {
+  export type InputTuple = [reservationId: BigNumberish, amount: BigNumberish];
+  export type OutputTuple = [reservationId: bigint, amount: bigint];
+  export interface OutputObject {
+    reservationId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BudgetReservedEvent {
+  export type InputTuple = [
+    reservationId: BigNumberish,
+    sessionKey: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    reservationId: bigint,
+    sessionKey: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    reservationId: bigint;
+    sessionKey: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionGrantedEvent {
+  export type InputTuple = [
+    sessionKey: AddressLike,
+    maxPerTx: BigNumberish,
+    maxDaily: BigNumberish,
+    maxWeekly: BigNumberish,
+    expiresAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    sessionKey: string,
+    maxPerTx: bigint,
+    maxDaily: bigint,
+    maxWeekly: bigint,
+    expiresAt: bigint
+  ];
+  export interface OutputObject {
+    sessionKey: string;
+    maxPerTx: bigint;
+    maxDaily: bigint;
+    maxWeekly: bigint;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionRevokedEvent {
+  export type InputTuple = [sessionKey: AddressLike];
+  export type OutputTuple = [sessionKey: string];
+  export interface OutputObject {
+    sessionKey: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SharedBudgetSetEvent {
+  export type InputTuple = [maxDaily: BigNumberish, maxWeekly: BigNumberish];
+  export type OutputTuple = [maxDaily: bigint, maxWeekly: bigint];
+  export interface OutputObject {
+    maxDaily: bigint;
+    maxWeekly: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SpendingLimitHitEvent {
+  export type InputTuple = [
+    sessionKey: AddressLike,
+    limitType: string,
+    spent: BigNumberish,
+    limit: BigNumberish
+  ];
+  export type OutputTuple = [
+    sessionKey: string,
+    limitType: string,
+    spent: bigint,
+    limit: bigint
+  ];
+  export interface OutputObject {
+    sessionKey: string;
+    limitType: string;
+    spent: bigint;
+    limit: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransactionExecutedEvent {
+  export type InputTuple = [
+    sessionKey: AddressLike,
+    target: AddressLike,
+    value: BigNumberish
+  ];
+  export type OutputTuple = [sessionKey: string, target: string, value: bigint];
+  export interface OutputObject {
+    sessionKey: string;
+    target: string;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransactionRejectedEvent {
+  export type InputTuple = [
+    sessionKey: AddressLike,
+    target: AddressLike,
+    value: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [
+    sessionKey: string,
+    target: string,
+    value: bigint,
+    reason: string
+  ];
+  export interface OutputObject {
+    sessionKey: string;
+    target: string;
+    value: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransactionValidatedEvent {
+  export type InputTuple = [
+    sessionKey: AddressLike,
+    target: AddressLike,
+    value: BigNumberish
+  ];
+  export type OutputTuple = [sessionKey: string, target: string, value: bigint];
+  export interface OutputObject {
+    sessionKey: string;
+    target: string;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AgentPolicyModule extends BaseContract {
+  connect(runner?: ContractRunner | null): AgentPolicyModule;
+  waitForDeployment(): Promise<this>;
+
+  interface: AgentPolicyModuleInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  disableSharedBudget: TypedContractMethod<[], [void], "nonpayable">;
+
+  executeTransaction: TypedContractMethod<
+    [to: AddressLike, value: BigNumberish, data: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+
+  getAvailableBudget: TypedContractMethod<[], [bigint], "view">;
+
+  getReservation: TypedContractMethod<
+    [reservationId: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        sessionKey: string;
+        amount: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getSession: TypedContractMethod<
+    [sessionKey: AddressLike],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string[],
+        string[],
+        string[],
+        bigint,
+        boolean
+      ] & {
+        maxPerTx: bigint;
+        maxDaily: bigint;
+        maxWeekly: bigint;
+        humanApprovalAbove: bigint;
+        allowedContracts: string[];
+        allowedFunctions: string[];
+        allowedTokens: string[];
+        expiresAt: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getSessionReservations: TypedContractMethod<
+    [sessionKey: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getSharedBudget: TypedContractMethod<
+    [],
+    [
+      [boolean, bigint, bigint, bigint, bigint, bigint] & {
+        enabled: boolean;
+        maxDaily: bigint;
+        maxWeekly: bigint;
+        dailySpent: bigint;
+        weeklySpent: bigint;
+        totalReserved: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSpending: TypedContractMethod<
+    [sessionKey: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        dailySpent: bigint;
+        weeklySpent: bigint;
+        lastDayReset: bigint;
+        lastWeekReset: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  grantSession: TypedContractMethod<
+    [
+      sessionKey: AddressLike,
+      maxPerTx: BigNumberish,
+      maxDaily: BigNumberish,
+      maxWeekly: BigNumberish,
+      humanApprovalAbove: BigNumberish,
+      allowedContracts: AddressLike[],
+      allowedFunctions: BytesLike[],
+      allowedTokens: AddressLike[],
+      expiresAt: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  isSessionActive: TypedContractMethod<
+    [sessionKey: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  nextReservationId: TypedContractMethod<[], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  releaseBudget: TypedContractMethod<
+    [reservationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  reservations: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        sessionKey: string;
+        amount: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  reserveBudget: TypedContractMethod<
+    [amount: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  revokeSession: TypedContractMethod<
+    [sessionKey: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  rotateSession: TypedContractMethod<
+    [oldKey: AddressLike, newKey: AddressLike, expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  safe: TypedContractMethod<[], [string], "view">;
+
+  sessionCount: TypedContractMethod<[], [bigint], "view">;
+
+  setSharedBudget: TypedContractMethod<
+    [maxDaily: BigNumberish, maxWeekly: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  sharedBudget: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint, bigint, boolean] & {
+        maxDaily: bigint;
+        maxWeekly: bigint;
+        dailySpent: bigint;
+        weeklySpent: bigint;
+        lastDayReset: bigint;
+        lastWeekReset: bigint;
+        totalReserved: bigint;
+        enabled: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  spending: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        dailySpent: bigint;
+        weeklySpent: bigint;
+        lastDayReset: bigint;
+        lastWeekReset: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  validateTransaction: TypedContractMethod<
+    [
+      sessionKey: AddressLike,
+      to: AddressLike,
+      value: BigNumberish,
+      data: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "disableSharedBudget"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executeTransaction"
+  ): TypedContractMethod<
+    [to: AddressLike, value: BigNumberish, data: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getAvailableBudget"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getReservation"
+  ): TypedContractMethod<
+    [reservationId: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        sessionKey: string;
+        amount: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSession"
+  ): TypedContractMethod<
+    [sessionKey: AddressLike],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string[],
+        string[],
+        string[],
+        bigint,
+        boolean
+      ] & {
+        maxPerTx: bigint;
+        maxDaily: bigint;
+        maxWeekly: bigint;
+        humanApprovalAbove: bigint;
+        allowedContracts: string[];
+        allowedFunctions: string[];
+        allowedTokens: string[];
+        expiresAt: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSessionReservations"
+  ): TypedContractMethod<[sessionKey: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getSharedBudget"
+  ): TypedContractMethod<
+    [],
+    [
+      [boolean, bigint, bigint, bigint, bigint, bigint] & {
+        enabled: boolean;
+        maxDaily: bigint;
+        maxWeekly: bigint;
+        dailySpent: bigint;
+        weeklySpent: bigint;
+        totalReserved: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSpending"
+  ): TypedContractMethod<
+    [sessionKey: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        dailySpent: bigint;
+        weeklySpent: bigint;
+        lastDayReset: bigint;
+        lastWeekReset: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantSession"
+  ): TypedContractMethod<
+    [
+      sessionKey: AddressLike,
+      maxPerTx: BigNumberish,
+      maxDaily: BigNumberish,
+      maxWeekly: BigNumberish,
+      humanApprovalAbove: BigNumberish,
+      allowedContracts: AddressLike[],
+      allowedFunctions: BytesLike[],
+      allowedTokens: AddressLike[],
+      expiresAt: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isSessionActive"
+  ): TypedContractMethod<[sessionKey: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "nextReservationId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "releaseBudget"
+  ): TypedContractMethod<[reservationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reservations"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        sessionKey: string;
+        amount: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "reserveBudget"
+  ): TypedContractMethod<[amount: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeSession"
+  ): TypedContractMethod<[sessionKey: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "rotateSession"
+  ): TypedContractMethod<
+    [oldKey: AddressLike, newKey: AddressLike, expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "safe"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "sessionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setSharedBudget"
+  ): TypedContractMethod<
+    [maxDaily: BigNumberish, maxWeekly: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "sharedBudget"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint, bigint, boolean] & {
+        maxDaily: bigint;
+        maxWeekly: bigint;
+        dailySpent: bigint;
+        weeklySpent: bigint;
+        lastDayReset: bigint;
+        lastWeekReset: bigint;
+        totalReserved: bigint;
+        enabled: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "spending"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        dailySpent: bigint;
+        weeklySpent: bigint;
+        lastDayReset: bigint;
+        lastWeekReset: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "validateTransaction"
+  ): TypedContractMethod<
+    [
+      sessionKey: AddressLike,
+      to: AddressLike,
+      value: BigNumberish,
+      data: BytesLike
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "BudgetReleased"
+  ): TypedContractEvent<
+    BudgetReleasedEvent.InputTuple,
+    BudgetReleasedEvent.OutputTuple,
+    BudgetReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BudgetReserved"
+  ): TypedContractEvent<
+    BudgetReservedEvent.InputTuple,
+    BudgetReservedEvent.OutputTuple,
+    BudgetReservedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionGranted"
+  ): TypedContractEvent<
+    SessionGrantedEvent.InputTuple,
+    SessionGrantedEvent.OutputTuple,
+    SessionGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionRevoked"
+  ): TypedContractEvent<
+    SessionRevokedEvent.InputTuple,
+    SessionRevokedEvent.OutputTuple,
+    SessionRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SharedBudgetSet"
+  ): TypedContractEvent<
+    SharedBudgetSetEvent.InputTuple,
+    SharedBudgetSetEvent.OutputTuple,
+    SharedBudgetSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "SpendingLimitHit"
+  ): TypedContractEvent<
+    SpendingLimitHitEvent.InputTuple,
+    SpendingLimitHitEvent.OutputTuple,
+    SpendingLimitHitEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransactionExecuted"
+  ): TypedContractEvent<
+    TransactionExecutedEvent.InputTuple,
+    TransactionExecutedEvent.OutputTuple,
+    TransactionExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransactionRejected"
+  ): TypedContractEvent<
+    TransactionRejectedEvent.InputTuple,
+    TransactionRejectedEvent.OutputTuple,
+    TransactionRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TransactionValidated"
+  ): TypedContractEvent<
+    TransactionValidatedEvent.InputTuple,
+    TransactionValidatedEvent.OutputTuple,
+    TransactionValidatedEvent.OutputObject
+  >;
+
+  filters: {
+    "BudgetReleased(uint256,uint256)": TypedContractEvent<
+      BudgetReleasedEvent.InputTuple,
+      BudgetReleasedEvent.OutputTuple,
+      BudgetReleasedEvent.OutputObject
+    >;
+    BudgetReleased: TypedContractEvent<
+      BudgetReleasedEvent.InputTuple,
+      BudgetReleasedEvent.OutputTuple,
+      BudgetReleasedEvent.OutputObject
+    >;
+
+    "BudgetReserved(uint256,address,uint256)": TypedContractEvent<
+      BudgetReservedEvent.InputTuple,
+      BudgetReservedEvent.OutputTuple,
+      BudgetReservedEvent.OutputObject
+    >;
+    BudgetReserved: TypedContractEvent<
+      BudgetReservedEvent.InputTuple,
+      BudgetReservedEvent.OutputTuple,
+      BudgetReservedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "SessionGranted(address,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      SessionGrantedEvent.InputTuple,
+      SessionGrantedEvent.OutputTuple,
+      SessionGrantedEvent.OutputObject
+    >;
+    SessionGranted: TypedContractEvent<
+      SessionGrantedEvent.InputTuple,
+      SessionGrantedEvent.OutputTuple,
+      SessionGrantedEvent.OutputObject
+    >;
+
+    "SessionRevoked(address)": TypedContractEvent<
+      SessionRevokedEvent.InputTuple,
+      SessionRevokedEvent.OutputTuple,
+      SessionRevokedEvent.OutputObject
+    >;
+    SessionRevoked: TypedContractEvent<
+      SessionRevokedEvent.InputTuple,
+      SessionRevokedEvent.OutputTuple,
+      SessionRevokedEvent.OutputObject
+    >;
+
+    "SharedBudgetSet(uint256,uint256)": TypedContractEvent<
+      SharedBudgetSetEvent.InputTuple,
+      SharedBudgetSetEvent.OutputTuple,
+      SharedBudgetSetEvent.OutputObject
+    >;
+    SharedBudgetSet: TypedContractEvent<
+      SharedBudgetSetEvent.InputTuple,
+      SharedBudgetSetEvent.OutputTuple,
+      SharedBudgetSetEvent.OutputObject
+    >;
+
+    "SpendingLimitHit(address,string,uint256,uint256)": TypedContractEvent<
+      SpendingLimitHitEvent.InputTuple,
+      SpendingLimitHitEvent.OutputTuple,
+      SpendingLimitHitEvent.OutputObject
+    >;
+    SpendingLimitHit: TypedContractEvent<
+      SpendingLimitHitEvent.InputTuple,
+      SpendingLimitHitEvent.OutputTuple,
+      SpendingLimitHitEvent.OutputObject
+    >;
+
+    "TransactionExecuted(address,address,uint256)": TypedContractEvent<
+      TransactionExecutedEvent.InputTuple,
+      TransactionExecutedEvent.OutputTuple,
+      TransactionExecutedEvent.OutputObject
+    >;
+    TransactionExecuted: TypedContractEvent<
+      TransactionExecutedEvent.InputTuple,
+      TransactionExecutedEvent.OutputTuple,
+      TransactionExecutedEvent.OutputObject
+    >;
+
+    "TransactionRejected(address,address,uint256,string)": TypedContractEvent<
+      TransactionRejectedEvent.InputTuple,
+      TransactionRejectedEvent.OutputTuple,
+      TransactionRejectedEvent.OutputObject
+    >;
+    TransactionRejected: TypedContractEvent<
+      TransactionRejectedEvent.InputTuple,
+      TransactionRejectedEvent.OutputTuple,
+      TransactionRejectedEvent.OutputObject
+    >;
+
+    "TransactionValidated(address,address,uint256)": TypedContractEvent<
+      TransactionValidatedEvent.InputTuple,
+      TransactionValidatedEvent.OutputTuple,
+      TransactionValidatedEvent.OutputObject
+    >;
+    TransactionValidated: TypedContractEvent<
+      TransactionValidatedEvent.InputTuple,
+      TransactionValidatedEvent.OutputTuple,
+      TransactionValidatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,301 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common.js";
+
+export interface IGnosisSafeInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "execTransaction"
+      | "getOwners"
+      | "getThreshold"
+      | "getTransactionHash"
+      | "isOwner"
+      | "nonce"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "ExecutionFailure" | "ExecutionSuccess"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "execTransaction",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BytesLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      AddressLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "getOwners", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTransactionHash",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BytesLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      AddressLike,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isOwner",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "nonce", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "execTransaction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getOwners", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTransactionHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isOwner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "nonce", data: BytesLike): Result;
+}
+
+export namespace ExecutionFailureEvent {
+  export type InputTuple = [txHash: BytesLike, payment: BigNumberish];
+  export type OutputTuple = [txHash: string, payment: bigint];
+  export interface OutputObject {
+    txHash: string;
+    payment: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExecutionSuccessEvent {
+  export type InputTuple = [txHash: BytesLike, payment: BigNumberish];
+  export type OutputTuple = [txHash: string, payment: bigint];
+  export interface OutputObject {
+    txHash: string;
+    payment: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface IGnosisSafe extends BaseContract {
+  connect(runner?: ContractRunner | null): IGnosisSafe;
+  waitForDeployment(): Promise<this>;
+
+  interface: IGnosisSafeInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  execTransaction: TypedContractMethod<
+    [
+      to: AddressLike,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      safeTxGas: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: AddressLike,
+      refundReceiver: AddressLike,
+      signatures: BytesLike
+    ],
+    [boolean],
+    "payable"
+  >;
+
+  getOwners: TypedContractMethod<[], [string[]], "view">;
+
+  getThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  getTransactionHash: TypedContractMethod<
+    [
+      to: AddressLike,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      safeTxGas: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: AddressLike,
+      refundReceiver: AddressLike,
+      _nonce: BigNumberish
+    ],
+    [string],
+    "view"
+  >;
+
+  isOwner: TypedContractMethod<[owner: AddressLike], [boolean], "view">;
+
+  nonce: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "execTransaction"
+  ): TypedContractMethod<
+    [
+      to: AddressLike,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      safeTxGas: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: AddressLike,
+      refundReceiver: AddressLike,
+      signatures: BytesLike
+    ],
+    [boolean],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "getOwners"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTransactionHash"
+  ): TypedContractMethod<
+    [
+      to: AddressLike,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      safeTxGas: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: AddressLike,
+      refundReceiver: AddressLike,
+      _nonce: BigNumberish
+    ],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isOwner"
+  ): TypedContractMethod<[owner: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "nonce"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "ExecutionFailure"
+  ): TypedContractEvent<
+    ExecutionFailureEvent.InputTuple,
+    ExecutionFailureEvent.OutputTuple,
+    ExecutionFailureEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExecutionSuccess"
+  ): TypedContractEvent<
+    ExecutionSuccessEvent.InputTuple,
+    ExecutionSuccessEvent.OutputTuple,
+    ExecutionSuccessEvent.OutputObject
+  >;
+
+  filters: {
+    "ExecutionFailure(bytes32,uint256)": TypedContractEvent<
+      ExecutionFailureEvent.InputTuple,
+      ExecutionFailureEvent.OutputTuple,
+      ExecutionFailureEvent.OutputObject
+    >;
+    ExecutionFailure: TypedContractEvent<
+      ExecutionFailureEvent.InputTuple,
+      ExecutionFailureEvent.OutputTuple,
+      ExecutionFailureEvent.OutputObject
+    >;
+
+    "ExecutionSuccess(bytes32,uint256)": TypedContractEvent<
+      ExecutionSuccessEvent.InputTuple,
+      ExecutionSuccessEvent.OutputTuple,
+      ExecutionSuccessEvent.OutputObject
+    >;
+    ExecutionSuccess: TypedContractEvent<
+      ExecutionSuccessEvent.InputTuple,
+      ExecutionSuccessEvent.OutputTuple,
+      ExecutionSuccessEvent.OutputObject
+    >;
+  };
+}
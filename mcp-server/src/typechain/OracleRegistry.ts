@@ -0,0 +1,612 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common.js";
+
+export interface OracleRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "challengeOracle"
+      | "getOracleCapabilities"
+      | "getOracleCount"
+      | "getOracleStake"
+      | "getOraclesByCapability"
+      | "getRegisteredOracles"
+      | "incrementVerifications"
+      | "isRegistered"
+      | "minStake"
+      | "oracleList"
+      | "oracles"
+      | "owner"
+      | "registerOracle"
+      | "renounceOwnership"
+      | "setMinStake"
+      | "slashOracle"
+      | "transferOwnership"
+      | "unregisterOracle"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "MinStakeUpdated"
+      | "OracleChallenged"
+      | "OracleRegistered"
+      | "OracleSlashed"
+      | "OracleUnregistered"
+      | "OwnershipTransferred"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "challengeOracle",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOracleCapabilities",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOracleCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOracleStake",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOraclesByCapability",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRegisteredOracles",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "incrementVerifications",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isRegistered",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "minStake", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "oracleList",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "oracles",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "registerOracle",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMinStake",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "slashOracle",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unregisterOracle",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "challengeOracle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOracleCapabilities",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOracleCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOracleStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOraclesByCapability",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRegisteredOracles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "incrementVerifications",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isRegistered",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "minStake", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "oracleList", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "oracles", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerOracle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMinStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "slashOracle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unregisterOracle",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace MinStakeUpdatedEvent {
+  export type InputTuple = [newMinStake: BigNumberish];
+  export type OutputTuple = [newMinStake: bigint];
+  export interface OutputObject {
+    newMinStake: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OracleChallengedEvent {
+  export type InputTuple = [
+    oracle: AddressLike,
+    challenger: AddressLike,
+    evidence: string
+  ];
+  export type OutputTuple = [
+    oracle: string,
+    challenger: string,
+    evidence: string
+  ];
+  export interface OutputObject {
+    oracle: string;
+    challenger: string;
+    evidence: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OracleRegisteredEvent {
+  export type InputTuple = [
+    oracle: AddressLike,
+    stake: BigNumberish,
+    capabilities: string[]
+  ];
+  export type OutputTuple = [
+    oracle: string,
+    stake: bigint,
+    capabilities: string[]
+  ];
+  export interface OutputObject {
+    oracle: string;
+    stake: bigint;
+    capabilities: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OracleSlashedEvent {
+  export type InputTuple = [oracle: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [oracle: string, amount: bigint];
+  export interface OutputObject {
+    oracle: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OracleUnregisteredEvent {
+  export type InputTuple = [oracle: AddressLike];
+  export type OutputTuple = [oracle: string];
+  export interface OutputObject {
+    oracle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface OracleRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): OracleRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: OracleRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  challengeOracle: TypedContractMethod<
+    [oracle: AddressLike, evidence: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getOracleCapabilities: TypedContractMethod<
+    [oracle: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  getOracleCount: TypedContractMethod<[], [bigint], "view">;
+
+  getOracleStake: TypedContractMethod<[oracle: AddressLike], [bigint], "view">;
+
+  getOraclesByCapability: TypedContractMethod<
+    [capability: string],
+    [string[]],
+    "view"
+  >;
+
+  getRegisteredOracles: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [
+      [string[], bigint[], bigint[]] & {
+        addresses: string[];
+        stakes: bigint[];
+        verifications: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  incrementVerifications: TypedContractMethod<
+    [oracle: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  isRegistered: TypedContractMethod<[oracle: AddressLike], [boolean], "view">;
+
+  minStake: TypedContractMethod<[], [bigint], "view">;
+
+  oracleList: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  oracles: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint] & {
+        isRegistered: boolean;
+        stake: bigint;
+        completedVerifications: bigint;
+        challengeCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  registerOracle: TypedContractMethod<
+    [capabilities: string[]],
+    [void],
+    "payable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  setMinStake: TypedContractMethod<
+    [_minStake: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  slashOracle: TypedContractMethod<
+    [oracle: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unregisterOracle: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "challengeOracle"
+  ): TypedContractMethod<
+    [oracle: AddressLike, evidence: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getOracleCapabilities"
+  ): TypedContractMethod<[oracle: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getOracleCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOracleStake"
+  ): TypedContractMethod<[oracle: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOraclesByCapability"
+  ): TypedContractMethod<[capability: string], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRegisteredOracles"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [
+      [string[], bigint[], bigint[]] & {
+        addresses: string[];
+        stakes: bigint[];
+        verifications: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "incrementVerifications"
+  ): TypedContractMethod<[oracle: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "isRegistered"
+  ): TypedContractMethod<[oracle: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "minStake"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "oracleList"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "oracles"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint] & {
+        isRegistered: boolean;
+        stake: bigint;
+        completedVerifications: bigint;
+        challengeCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "registerOracle"
+  ): TypedContractMethod<[capabilities: string[]], [void], "payable">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMinStake"
+  ): TypedContractMethod<[_minStake: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "slashOracle"
+  ): TypedContractMethod<
+    [oracle: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unregisterOracle"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "MinStakeUpdated"
+  ): TypedContractEvent<
+    MinStakeUpdatedEvent.InputTuple,
+    MinStakeUpdatedEvent.OutputTuple,
+    MinStakeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OracleChallenged"
+  ): TypedContractEvent<
+    OracleChallengedEvent.InputTuple,
+    OracleChallengedEvent.OutputTuple,
+    OracleChallengedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OracleRegistered"
+  ): TypedContractEvent<
+    OracleRegisteredEvent.InputTuple,
+    OracleRegisteredEvent.OutputTuple,
+    OracleRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "OracleSlashed"
+  ): TypedContractEvent<
+    OracleSlashedEvent.InputTuple,
+    OracleSlashedEvent.OutputTuple,
+    OracleSlashedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OracleUnregistered"
+  ): TypedContractEvent<
+    OracleUnregisteredEvent.InputTuple,
+    OracleUnregisteredEvent.OutputTuple,
+    OracleUnregisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+
+  filters: {
+    "MinStakeUpdated(uint256)": TypedContractEvent<
+      MinStakeUpdatedEvent.InputTuple,
+      MinStakeUpdatedEvent.OutputTuple,
+      MinStakeUpdatedEvent.OutputObject
+    >;
+    MinStakeUpdated: TypedContractEvent<
+      MinStakeUpdatedEvent.InputTuple,
+      MinStakeUpdatedEvent.OutputTuple,
+      MinStakeUpdatedEvent.OutputObject
+    >;
+
+    "OracleChallenged(address,address,string)": TypedContractEvent<
+      OracleChallengedEvent.InputTuple,
+      OracleChallengedEvent.OutputTuple,
+      OracleChallengedEvent.OutputObject
+    >;
+    OracleChallenged: TypedContractEvent<
+      OracleChallengedEvent.InputTuple,
+      OracleChallengedEvent.OutputTuple,
+      OracleChallengedEvent.OutputObject
+    >;
+
+    "OracleRegistered(address,uint256,string[])": TypedContractEvent<
+      OracleRegisteredEvent.InputTuple,
+      OracleRegisteredEvent.OutputTuple,
+      OracleRegisteredEvent.OutputObject
+    >;
+    OracleRegistered: TypedContractEvent<
+      OracleRegisteredEvent.InputTuple,
+      OracleRegisteredEvent.OutputTuple,
+      OracleRegisteredEvent.OutputObject
+    >;
+
+    "OracleSlashed(address,uint256)": TypedContractEvent<
+      OracleSlashedEvent.InputTuple,
+      OracleSlashedEvent.OutputTuple,
+      OracleSlashedEvent.OutputObject
+    >;
+    OracleSlashed: TypedContractEvent<
+      OracleSlashedEvent.InputTuple,
+      OracleSlashedEvent.OutputTuple,
+      OracleSlashedEvent.OutputObject
+    >;
+
+    "OracleUnregistered(address)": TypedContractEvent<
+      OracleUnregisteredEvent.InputTuple,
+      OracleUnregisteredEvent.OutputTuple,
+      OracleUnregisteredEvent.OutputObject
+    >;
+    OracleUnregistered: TypedContractEvent<
+      OracleUnregisteredEvent.InputTuple,
+      OracleUnregisteredEvent.OutputTuple,
+      OracleUnregisteredEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+  };
+}
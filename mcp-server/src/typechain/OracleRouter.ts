@@ -0,0 +1,1430 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common.js";
+
+export interface OracleRouterInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "addCategory"
+      | "allowedPactContracts"
+      | "cancelJob"
+      | "claimEarnings"
+      | "claimJob"
+      | "claimProtocolRevenue"
+      | "deactivateValidator"
+      | "defaultJobTimeout"
+      | "expireJob"
+      | "getBestValidator"
+      | "getCategoryValidatorCount"
+      | "getJob"
+      | "getValidatorCategories"
+      | "getValidatorCount"
+      | "getValidatorInfo"
+      | "getValidatorsForCategory"
+      | "jobs"
+      | "minValidatorStake"
+      | "nextJobId"
+      | "owner"
+      | "pactHasJob"
+      | "pactToJobId"
+      | "pactWhitelistEnabled"
+      | "pendingEarnings"
+      | "protocolRevenue"
+      | "registerValidator"
+      | "removeCategory"
+      | "renounceOwnership"
+      | "requestVerification"
+      | "routerFeeBps"
+      | "setAllowedPactContract"
+      | "setDefaultJobTimeout"
+      | "setMinValidatorStake"
+      | "setPactWhitelistEnabled"
+      | "setRouterFeeBps"
+      | "slashValidator"
+      | "submitValidation"
+      | "transferOwnership"
+      | "validatorHasCategory"
+      | "validatorList"
+      | "validators"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "EarningsClaimed"
+      | "JobAssigned"
+      | "JobCompleted"
+      | "JobExpired"
+      | "JobReassigned"
+      | "JobRequested"
+      | "OwnershipTransferred"
+      | "ProtocolRevenueClaimed"
+      | "ValidatorCategoryAdded"
+      | "ValidatorCategoryRemoved"
+      | "ValidatorDeactivated"
+      | "ValidatorRegistered"
+      | "ValidatorSlashed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "addCategory",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowedPactContracts",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelJob",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimEarnings",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimJob",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimProtocolRevenue",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deactivateValidator",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultJobTimeout",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expireJob",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBestValidator",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCategoryValidatorCount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getJob",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getValidatorCategories",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getValidatorCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getValidatorInfo",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getValidatorsForCategory",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "jobs", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "minValidatorStake",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "nextJobId", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pactHasJob",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pactToJobId",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pactWhitelistEnabled",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingEarnings",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolRevenue",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerValidator",
+    values: [BytesLike[], string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeCategory",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestVerification",
+    values: [AddressLike, BigNumberish, BytesLike, BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "routerFeeBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowedPactContract",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDefaultJobTimeout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMinValidatorStake",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPactWhitelistEnabled",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRouterFeeBps",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "slashValidator",
+    values: [AddressLike, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitValidation",
+    values: [BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "validatorHasCategory",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "validatorList",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "validators",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "addCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowedPactContracts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cancelJob", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimEarnings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claimJob", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimProtocolRevenue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deactivateValidator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultJobTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "expireJob", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBestValidator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCategoryValidatorCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getJob", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getValidatorCategories",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getValidatorCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getValidatorInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getValidatorsForCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "jobs", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "minValidatorStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "nextJobId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pactHasJob", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pactToJobId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pactWhitelistEnabled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingEarnings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "protocolRevenue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerValidator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestVerification",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "routerFeeBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowedPactContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDefaultJobTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMinValidatorStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPactWhitelistEnabled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRouterFeeBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "slashValidator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitValidation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "validatorHasCategory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "validatorList",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "validators", data: BytesLike): Result;
+}
+
+export namespace EarningsClaimedEvent {
+  export type InputTuple = [
+    validator: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [validator: string, token: string, amount: bigint];
+  export interface OutputObject {
+    validator: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobAssignedEvent {
+  export type InputTuple = [jobId: BigNumberish, validator: AddressLike];
+  export type OutputTuple = [jobId: bigint, validator: string];
+  export interface OutputObject {
+    jobId: bigint;
+    validator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobCompletedEvent {
+  export type InputTuple = [
+    jobId: BigNumberish,
+    validator: AddressLike,
+    score: BigNumberish
+  ];
+  export type OutputTuple = [jobId: bigint, validator: string, score: bigint];
+  export interface OutputObject {
+    jobId: bigint;
+    validator: string;
+    score: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobExpiredEvent {
+  export type InputTuple = [jobId: BigNumberish, validator: AddressLike];
+  export type OutputTuple = [jobId: bigint, validator: string];
+  export interface OutputObject {
+    jobId: bigint;
+    validator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobReassignedEvent {
+  export type InputTuple = [
+    jobId: BigNumberish,
+    oldValidator: AddressLike,
+    newValidator: AddressLike
+  ];
+  export type OutputTuple = [
+    jobId: bigint,
+    oldValidator: string,
+    newValidator: string
+  ];
+  export interface OutputObject {
+    jobId: bigint;
+    oldValidator: string;
+    newValidator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobRequestedEvent {
+  export type InputTuple = [
+    jobId: BigNumberish,
+    pactId: BigNumberish,
+    pactContract: AddressLike,
+    category: BytesLike,
+    requester: AddressLike,
+    fee: BigNumberish
+  ];
+  export type OutputTuple = [
+    jobId: bigint,
+    pactId: bigint,
+    pactContract: string,
+    category: string,
+    requester: string,
+    fee: bigint
+  ];
+  export interface OutputObject {
+    jobId: bigint;
+    pactId: bigint;
+    pactContract: string;
+    category: string;
+    requester: string;
+    fee: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProtocolRevenueClaimedEvent {
+  export type InputTuple = [token: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [token: string, amount: bigint];
+  export interface OutputObject {
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValidatorCategoryAddedEvent {
+  export type InputTuple = [validator: AddressLike, category: BytesLike];
+  export type OutputTuple = [validator: string, category: string];
+  export interface OutputObject {
+    validator: string;
+    category: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValidatorCategoryRemovedEvent {
+  export type InputTuple = [validator: AddressLike, category: BytesLike];
+  export type OutputTuple = [validator: string, category: string];
+  export interface OutputObject {
+    validator: string;
+    category: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValidatorDeactivatedEvent {
+  export type InputTuple = [validator: AddressLike];
+  export type OutputTuple = [validator: string];
+  export interface OutputObject {
+    validator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValidatorRegisteredEvent {
+  export type InputTuple = [
+    validator: AddressLike,
+    stake: BigNumberish,
+    endpoint: string
+  ];
+  export type OutputTuple = [
+    validator: string,
+    stake: bigint,
+    endpoint: string
+  ];
+  export interface OutputObject {
+    validator: string;
+    stake: bigint;
+    endpoint: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValidatorSlashedEvent {
+  export type InputTuple = [
+    validator: AddressLike,
+    amount: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [validator: string, amount: bigint, reason: string];
+  export interface OutputObject {
+    validator: string;
+    amount: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface OracleRouter extends BaseContract {
+  connect(runner?: ContractRunner | null): OracleRouter;
+  waitForDeployment(): Promise<this>;
+
+  interface: OracleRouterInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  addCategory: TypedContractMethod<[category: BytesLike], [void], "nonpayable">;
+
+  allowedPactContracts: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  cancelJob: TypedContractMethod<[jobId: BigNumberish], [void], "nonpayable">;
+
+  claimEarnings: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  claimJob: TypedContractMethod<[jobId: BigNumberish], [void], "nonpayable">;
+
+  claimProtocolRevenue: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  deactivateValidator: TypedContractMethod<[], [void], "nonpayable">;
+
+  defaultJobTimeout: TypedContractMethod<[], [bigint], "view">;
+
+  expireJob: TypedContractMethod<[jobId: BigNumberish], [void], "nonpayable">;
+
+  getBestValidator: TypedContractMethod<
+    [category: BytesLike],
+    [string],
+    "view"
+  >;
+
+  getCategoryValidatorCount: TypedContractMethod<
+    [category: BytesLike],
+    [bigint],
+    "view"
+  >;
+
+  getJob: TypedContractMethod<
+    [jobId: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string
+      ] & {
+        pactId: bigint;
+        pactContract: string;
+        category: string;
+        specHash: string;
+        assignedValidator: string;
+        fee: bigint;
+        requestedAt: bigint;
+        deadline: bigint;
+        status: bigint;
+        score: bigint;
+        proof: string;
+        paymentToken: string;
+      }
+    ],
+    "view"
+  >;
+
+  getValidatorCategories: TypedContractMethod<
+    [validator: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  getValidatorCount: TypedContractMethod<[], [bigint], "view">;
+
+  getValidatorInfo: TypedContractMethod<
+    [validator: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint, bigint, string] & {
+        isActive: boolean;
+        stake: bigint;
+        completedJobs: bigint;
+        failedJobs: bigint;
+        totalEarned: bigint;
+        endpoint: string;
+      }
+    ],
+    "view"
+  >;
+
+  getValidatorsForCategory: TypedContractMethod<
+    [category: BytesLike],
+    [
+      [string[], bigint[], bigint[], bigint[]] & {
+        addresses: string[];
+        stakes: bigint[];
+        completed: bigint[];
+        failed: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  jobs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string
+      ] & {
+        pactId: bigint;
+        pactContract: string;
+        category: string;
+        specHash: string;
+        requester: string;
+        assignedValidator: string;
+        fee: bigint;
+        requestedAt: bigint;
+        deadline: bigint;
+        status: bigint;
+        score: bigint;
+        proof: string;
+        paymentToken: string;
+      }
+    ],
+    "view"
+  >;
+
+  minValidatorStake: TypedContractMethod<[], [bigint], "view">;
+
+  nextJobId: TypedContractMethod<[], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pactHasJob: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  pactToJobId: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pactWhitelistEnabled: TypedContractMethod<[], [boolean], "view">;
+
+  pendingEarnings: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  protocolRevenue: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  registerValidator: TypedContractMethod<
+    [categories: BytesLike[], endpoint: string],
+    [void],
+    "payable"
+  >;
+
+  removeCategory: TypedContractMethod<
+    [category: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  requestVerification: TypedContractMethod<
+    [
+      pactContract: AddressLike,
+      pactId: BigNumberish,
+      category: BytesLike,
+      specHash: BytesLike,
+      paymentToken: AddressLike
+    ],
+    [bigint],
+    "payable"
+  >;
+
+  routerFeeBps: TypedContractMethod<[], [bigint], "view">;
+
+  setAllowedPactContract: TypedContractMethod<
+    [pactContract: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setDefaultJobTimeout: TypedContractMethod<
+    [_timeout: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMinValidatorStake: TypedContractMethod<
+    [_minStake: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPactWhitelistEnabled: TypedContractMethod<
+    [_enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setRouterFeeBps: TypedContractMethod<
+    [_feeBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  slashValidator: TypedContractMethod<
+    [validator: AddressLike, amount: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  submitValidation: TypedContractMethod<
+    [jobId: BigNumberish, score: BigNumberish, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  validatorHasCategory: TypedContractMethod<
+    [arg0: AddressLike, arg1: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  validatorList: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  validators: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint, bigint, string] & {
+        isActive: boolean;
+        stake: bigint;
+        completedJobs: bigint;
+        failedJobs: bigint;
+        totalEarned: bigint;
+        endpoint: string;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "addCategory"
+  ): TypedContractMethod<[category: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowedPactContracts"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "cancelJob"
+  ): TypedContractMethod<[jobId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimEarnings"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimJob"
+  ): TypedContractMethod<[jobId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimProtocolRevenue"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "deactivateValidator"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "defaultJobTimeout"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "expireJob"
+  ): TypedContractMethod<[jobId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getBestValidator"
+  ): TypedContractMethod<[category: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getCategoryValidatorCount"
+  ): TypedContractMethod<[category: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getJob"
+  ): TypedContractMethod<
+    [jobId: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string
+      ] & {
+        pactId: bigint;
+        pactContract: string;
+        category: string;
+        specHash: string;
+        assignedValidator: string;
+        fee: bigint;
+        requestedAt: bigint;
+        deadline: bigint;
+        status: bigint;
+        score: bigint;
+        proof: string;
+        paymentToken: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getValidatorCategories"
+  ): TypedContractMethod<[validator: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getValidatorCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getValidatorInfo"
+  ): TypedContractMethod<
+    [validator: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint, bigint, string] & {
+        isActive: boolean;
+        stake: bigint;
+        completedJobs: bigint;
+        failedJobs: bigint;
+        totalEarned: bigint;
+        endpoint: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getValidatorsForCategory"
+  ): TypedContractMethod<
+    [category: BytesLike],
+    [
+      [string[], bigint[], bigint[], bigint[]] & {
+        addresses: string[];
+        stakes: bigint[];
+        completed: bigint[];
+        failed: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "jobs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string
+      ] & {
+        pactId: bigint;
+        pactContract: string;
+        category: string;
+        specHash: string;
+        requester: string;
+        assignedValidator: string;
+        fee: bigint;
+        requestedAt: bigint;
+        deadline: bigint;
+        status: bigint;
+        score: bigint;
+        proof: string;
+        paymentToken: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "minValidatorStake"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "nextJobId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pactHasJob"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pactToJobId"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pactWhitelistEnabled"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingEarnings"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolRevenue"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registerValidator"
+  ): TypedContractMethod<
+    [categories: BytesLike[], endpoint: string],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "removeCategory"
+  ): TypedContractMethod<[category: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestVerification"
+  ): TypedContractMethod<
+    [
+      pactContract: AddressLike,
+      pactId: BigNumberish,
+      category: BytesLike,
+      specHash: BytesLike,
+      paymentToken: AddressLike
+    ],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "routerFeeBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setAllowedPactContract"
+  ): TypedContractMethod<
+    [pactContract: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDefaultJobTimeout"
+  ): TypedContractMethod<[_timeout: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMinValidatorStake"
+  ): TypedContractMethod<[_minStake: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPactWhitelistEnabled"
+  ): TypedContractMethod<[_enabled: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setRouterFeeBps"
+  ): TypedContractMethod<[_feeBps: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "slashValidator"
+  ): TypedContractMethod<
+    [validator: AddressLike, amount: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitValidation"
+  ): TypedContractMethod<
+    [jobId: BigNumberish, score: BigNumberish, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "validatorHasCategory"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BytesLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "validatorList"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "validators"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint, bigint, string] & {
+        isActive: boolean;
+        stake: bigint;
+        completedJobs: bigint;
+        failedJobs: bigint;
+        totalEarned: bigint;
+        endpoint: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "EarningsClaimed"
+  ): TypedContractEvent<
+    EarningsClaimedEvent.InputTuple,
+    EarningsClaimedEvent.OutputTuple,
+    EarningsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "JobAssigned"
+  ): TypedContractEvent<
+    JobAssignedEvent.InputTuple,
+    JobAssignedEvent.OutputTuple,
+    JobAssignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "JobCompleted"
+  ): TypedContractEvent<
+    JobCompletedEvent.InputTuple,
+    JobCompletedEvent.OutputTuple,
+    JobCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "JobExpired"
+  ): TypedContractEvent<
+    JobExpiredEvent.InputTuple,
+    JobExpiredEvent.OutputTuple,
+    JobExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "JobReassigned"
+  ): TypedContractEvent<
+    JobReassignedEvent.InputTuple,
+    JobReassignedEvent.OutputTuple,
+    JobReassignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "JobRequested"
+  ): TypedContractEvent<
+    JobRequestedEvent.InputTuple,
+    JobRequestedEvent.OutputTuple,
+    JobRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProtocolRevenueClaimed"
+  ): TypedContractEvent<
+    ProtocolRevenueClaimedEvent.InputTuple,
+    ProtocolRevenueClaimedEvent.OutputTuple,
+    ProtocolRevenueClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValidatorCategoryAdded"
+  ): TypedContractEvent<
+    ValidatorCategoryAddedEvent.InputTuple,
+    ValidatorCategoryAddedEvent.OutputTuple,
+    ValidatorCategoryAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValidatorCategoryRemoved"
+  ): TypedContractEvent<
+    ValidatorCategoryRemovedEvent.InputTuple,
+    ValidatorCategoryRemovedEvent.OutputTuple,
+    ValidatorCategoryRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValidatorDeactivated"
+  ): TypedContractEvent<
+    ValidatorDeactivatedEvent.InputTuple,
+    ValidatorDeactivatedEvent.OutputTuple,
+    ValidatorDeactivatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValidatorRegistered"
+  ): TypedContractEvent<
+    ValidatorRegisteredEvent.InputTuple,
+    ValidatorRegisteredEvent.OutputTuple,
+    ValidatorRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValidatorSlashed"
+  ): TypedContractEvent<
+    ValidatorSlashedEvent.InputTuple,
+    ValidatorSlashedEvent.OutputTuple,
+    ValidatorSlashedEvent.OutputObject
+  >;
+
+  filters: {
+    "EarningsClaimed(address,address,uint256)": TypedContractEvent<
+      EarningsClaimedEvent.InputTuple,
+      EarningsClaimedEvent.OutputTuple,
+      EarningsClaimedEvent.OutputObject
+    >;
+    EarningsClaimed: TypedContractEvent<
+      EarningsClaimedEvent.InputTuple,
+      EarningsClaimedEvent.OutputTuple,
+      EarningsClaimedEvent.OutputObject
+    >;
+
+    "JobAssigned(uint256,address)": TypedContractEvent<
+      JobAssignedEvent.InputTuple,
+      JobAssignedEvent.OutputTuple,
+      JobAssignedEvent.OutputObject
+    >;
+    JobAssigned: TypedContractEvent<
+      JobAssignedEvent.InputTuple,
+      JobAssignedEvent.OutputTuple,
+      JobAssignedEvent.OutputObject
+    >;
+
+    "JobCompleted(uint256,address,uint8)": TypedContractEvent<
+      JobCompletedEvent.InputTuple,
+      JobCompletedEvent.OutputTuple,
+      JobCompletedEvent.OutputObject
+    >;
+    JobCompleted: TypedContractEvent<
+      JobCompletedEvent.InputTuple,
+      JobCompletedEvent.OutputTuple,
+      JobCompletedEvent.OutputObject
+    >;
+
+    "JobExpired(uint256,address)": TypedContractEvent<
+      JobExpiredEvent.InputTuple,
+      JobExpiredEvent.OutputTuple,
+      JobExpiredEvent.OutputObject
+    >;
+    JobExpired: TypedContractEvent<
+      JobExpiredEvent.InputTuple,
+      JobExpiredEvent.OutputTuple,
+      JobExpiredEvent.OutputObject
+    >;
+
+    "JobReassigned(uint256,address,address)": TypedContractEvent<
+      JobReassignedEvent.InputTuple,
+      JobReassignedEvent.OutputTuple,
+      JobReassignedEvent.OutputObject
+    >;
+    JobReassigned: TypedContractEvent<
+      JobReassignedEvent.InputTuple,
+      JobReassignedEvent.OutputTuple,
+      JobReassignedEvent.OutputObject
+    >;
+
+    "JobRequested(uint256,uint256,address,bytes32,address,uint256)": TypedContractEvent<
+      JobRequestedEvent.InputTuple,
+      JobRequestedEvent.OutputTuple,
+      JobRequestedEvent.OutputObject
+    >;
+    JobRequested: TypedContractEvent<
+      JobRequestedEvent.InputTuple,
+      JobRequestedEvent.OutputTuple,
+      JobRequestedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ProtocolRevenueClaimed(address,uint256)": TypedContractEvent<
+      ProtocolRevenueClaimedEvent.InputTuple,
+      ProtocolRevenueClaimedEvent.OutputTuple,
+      ProtocolRevenueClaimedEvent.OutputObject
+    >;
+    ProtocolRevenueClaimed: TypedContractEvent<
+      ProtocolRevenueClaimedEvent.InputTuple,
+      ProtocolRevenueClaimedEvent.OutputTuple,
+      ProtocolRevenueClaimedEvent.OutputObject
+    >;
+
+    "ValidatorCategoryAdded(address,bytes32)": TypedContractEvent<
+      ValidatorCategoryAddedEvent.InputTuple,
+      ValidatorCategoryAddedEvent.OutputTuple,
+      ValidatorCategoryAddedEvent.OutputObject
+    >;
+    ValidatorCategoryAdded: TypedContractEvent<
+      ValidatorCategoryAddedEvent.InputTuple,
+      ValidatorCategoryAddedEvent.OutputTuple,
+      ValidatorCategoryAddedEvent.OutputObject
+    >;
+
+    "ValidatorCategoryRemoved(address,bytes32)": TypedContractEvent<
+      ValidatorCategoryRemovedEvent.InputTuple,
+      ValidatorCategoryRemovedEvent.OutputTuple,
+      ValidatorCategoryRemovedEvent.OutputObject
+    >;
+    ValidatorCategoryRemoved: TypedContractEvent<
+      ValidatorCategoryRemovedEvent.InputTuple,
+      ValidatorCategoryRemovedEvent.OutputTuple,
+      ValidatorCategoryRemovedEvent.OutputObject
+    >;
+
+    "ValidatorDeactivated(address)": TypedContractEvent<
+      ValidatorDeactivatedEvent.InputTuple,
+      ValidatorDeactivatedEvent.OutputTuple,
+      ValidatorDeactivatedEvent.OutputObject
+    >;
+    ValidatorDeactivated: TypedContractEvent<
+      ValidatorDeactivatedEvent.InputTuple,
+      ValidatorDeactivatedEvent.OutputTuple,
+      ValidatorDeactivatedEvent.OutputObject
+    >;
+
+    "ValidatorRegistered(address,uint256,string)": TypedContractEvent<
+      ValidatorRegisteredEvent.InputTuple,
+      ValidatorRegisteredEvent.OutputTuple,
+      ValidatorRegisteredEvent.OutputObject
+    >;
+    ValidatorRegistered: TypedContractEvent<
+      ValidatorRegisteredEvent.InputTuple,
+      ValidatorRegisteredEvent.OutputTuple,
+      ValidatorRegisteredEvent.OutputObject
+    >;
+
+    "ValidatorSlashed(address,uint256,string)": TypedContractEvent<
+      ValidatorSlashedEvent.InputTuple,
+      ValidatorSlashedEvent.OutputTuple,
+      ValidatorSlashedEvent.OutputObject
+    >;
+    ValidatorSlashed: TypedContractEvent<
+      ValidatorSlashedEvent.InputTuple,
+      ValidatorSlashedEvent.OutputTuple,
+      ValidatorSlashedEvent.OutputObject
+    >;
+  };
+}
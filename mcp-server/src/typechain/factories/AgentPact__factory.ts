@@ -0,0 +1,1276 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { AgentPact, AgentPactInterface } from "../AgentPact.js";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "acceptedBy",
+        type: "address",
+      },
+    ],
+    name: "AmendmentAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "specHash",
+        type: "bytes32",
+      },
+    ],
+    name: "AmendmentProposed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "triggeredBy",
+        type: "address",
+      },
+    ],
+    name: "AutoApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "raisedBy",
+        type: "address",
+      },
+    ],
+    name: "DisputeRaised",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "sellerWins",
+        type: "bool",
+      },
+    ],
+    name: "DisputeResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oracle",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "OracleFeePaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "accepter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum AgentPact.Initiator",
+        name: "role",
+        type: "uint8",
+      },
+    ],
+    name: "PactAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "PactCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum AgentPact.Initiator",
+        name: "initiator",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "specHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "PactCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "PactRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "completedAsBuyer",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "completedAsSeller",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "disputesLost",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalVolumeWei",
+        type: "uint256",
+      },
+    ],
+    name: "ReputationUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "claimedBy",
+        type: "address",
+      },
+    ],
+    name: "TimeoutClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "weightedScore",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum AgentPact.Status",
+        name: "newStatus",
+        type: "uint8",
+      },
+    ],
+    name: "VerificationFinalized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oracle",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "score",
+        type: "uint8",
+      },
+    ],
+    name: "VerificationSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approvedBy",
+        type: "address",
+      },
+    ],
+    name: "WorkApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "rejectedBy",
+        type: "address",
+      },
+    ],
+    name: "WorkRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "WorkStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "proofHash",
+        type: "bytes32",
+      },
+    ],
+    name: "WorkSubmitted",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_REVIEW_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STAKE_PERCENT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "acceptAmendment",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "acceptPact",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "amendments",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "specHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "proposedBy",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "pending",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "approveWork",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "autoApprove",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "claimTimeout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum AgentPact.Initiator",
+        name: "_initiator",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "specHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "oracles",
+        type: "address[]",
+      },
+      {
+        internalType: "uint8[]",
+        name: "oracleWeights",
+        type: "uint8[]",
+      },
+      {
+        internalType: "uint8",
+        name: "verificationThreshold",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "paymentAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewPeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "oracleFee",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+    ],
+    name: "createPact",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "finalizeVerification",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "getAmendment",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline_",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "specHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "proposedBy",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "pending",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getOpenPactCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getOpenPacts",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "pactIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "getPact",
+    outputs: [
+      {
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline_",
+        type: "uint256",
+      },
+      {
+        internalType: "enum AgentPact.Status",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "specHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint8",
+        name: "verificationThreshold",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "buyerStake",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "sellerStake",
+        type: "uint256",
+      },
+      {
+        internalType: "enum AgentPact.Initiator",
+        name: "initiator",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewPeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "verifiedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "oracleFee",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "oracleFeesPaid",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "getPactOracles",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+      {
+        internalType: "uint8[]",
+        name: "",
+        type: "uint8[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getPactsByAddress",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "pactIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getReputation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "completedAsBuyer",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "completedAsSeller",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "disputesLost",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalVolumeWei",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getUserPactCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "oracle",
+        type: "address",
+      },
+    ],
+    name: "getVerification",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "score",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "hasSubmitted",
+        type: "bool",
+      },
+      {
+        internalType: "bytes32",
+        name: "proof",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextPactId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pacts",
+    outputs: [
+      {
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "enum AgentPact.Status",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "specHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "verificationHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint8",
+        name: "verificationThreshold",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "arbitrator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "disputeFee",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "buyerStake",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "sellerStake",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "enum AgentPact.Initiator",
+        name: "initiator",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "reviewPeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "verifiedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "oracleFee",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "oracleFeesPaid",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "newPayment",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "newDeadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "newSpecHash",
+        type: "bytes32",
+      },
+    ],
+    name: "proposeAmendment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "arbitrator",
+        type: "address",
+      },
+    ],
+    name: "raiseDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "rejectWork",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "reputation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "completedAsBuyer",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "completedAsSeller",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "disputesLost",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalVolumeWei",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "sellerWins",
+        type: "bool",
+      },
+    ],
+    name: "resolveDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+    ],
+    name: "startWork",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "score",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "proof",
+        type: "bytes32",
+      },
+    ],
+    name: "submitVerification",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pactId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "proofHash",
+        type: "bytes32",
+      },
+    ],
+    name: "submitWork",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "verifications",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "score",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "hasSubmitted",
+        type: "bool",
+      },
+      {
+        internalType: "bytes32",
+        name: "proof",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class AgentPact__factory {
+  static readonly abi = _abi;
+  static createInterface(): AgentPactInterface {
+    return new Interface(_abi) as AgentPactInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): AgentPact {
+    return new Contract(address, _abi, runner) as unknown as AgentPact;
+  }
+}
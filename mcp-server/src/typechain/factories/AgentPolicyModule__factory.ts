@@ -0,0 +1,905 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  AgentPolicyModule,
+  AgentPolicyModuleInterface,
+} from "../AgentPolicyModule.js";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_safe",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "reservationId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "BudgetReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "reservationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "BudgetReserved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxPerTx",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxDaily",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxWeekly",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "SessionGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+    ],
+    name: "SessionRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxDaily",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxWeekly",
+        type: "uint256",
+      },
+    ],
+    name: "SharedBudgetSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "limitType",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "spent",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "SpendingLimitHit",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "TransactionExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "TransactionRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "TransactionValidated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "disableSharedBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "executeTransaction",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAvailableBudget",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reservationId",
+        type: "uint256",
+      },
+    ],
+    name: "getReservation",
+    outputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+    ],
+    name: "getSession",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "maxPerTx",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxDaily",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxWeekly",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "humanApprovalAbove",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "allowedContracts",
+        type: "address[]",
+      },
+      {
+        internalType: "bytes4[]",
+        name: "allowedFunctions",
+        type: "bytes4[]",
+      },
+      {
+        internalType: "address[]",
+        name: "allowedTokens",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+    ],
+    name: "getSessionReservations",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSharedBudget",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "maxDaily",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxWeekly",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "dailySpent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "weeklySpent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalReserved",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+    ],
+    name: "getSpending",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "dailySpent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "weeklySpent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastDayReset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastWeekReset",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPerTx",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxDaily",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxWeekly",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "humanApprovalAbove",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "allowedContracts",
+        type: "address[]",
+      },
+      {
+        internalType: "bytes4[]",
+        name: "allowedFunctions",
+        type: "bytes4[]",
+      },
+      {
+        internalType: "address[]",
+        name: "allowedTokens",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "grantSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+    ],
+    name: "isSessionActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextReservationId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reservationId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "reservations",
+    outputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "reserveBudget",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+    ],
+    name: "revokeSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "oldKey",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "newKey",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "rotateSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "safe",
+    outputs: [
+      {
+        internalType: "contract ISafe",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "sessionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "maxDaily",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxWeekly",
+        type: "uint256",
+      },
+    ],
+    name: "setSharedBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "sharedBudget",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "maxDaily",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxWeekly",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "dailySpent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "weeklySpent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastDayReset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastWeekReset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalReserved",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "spending",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "dailySpent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "weeklySpent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastDayReset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastWeekReset",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "validateTransaction",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class AgentPolicyModule__factory {
+  static readonly abi = _abi;
+  static createInterface(): AgentPolicyModuleInterface {
+    return new Interface(_abi) as AgentPolicyModuleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AgentPolicyModule {
+    return new Contract(address, _abi, runner) as unknown as AgentPolicyModule;
+  }
+}
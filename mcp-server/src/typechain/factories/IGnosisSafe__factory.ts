@@ -0,0 +1,243 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { IGnosisSafe, IGnosisSafeInterface } from "../IGnosisSafe.js";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "txHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+    ],
+    name: "ExecutionFailure",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "txHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+    ],
+    name: "ExecutionSuccess",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        internalType: "uint8",
+        name: "operation",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "safeTxGas",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "baseGas",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "gasPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "gasToken",
+        type: "address",
+      },
+      {
+        internalType: "address payable",
+        name: "refundReceiver",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "signatures",
+        type: "bytes",
+      },
+    ],
+    name: "execTransaction",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "success",
+        type: "bool",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getOwners",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getThreshold",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        internalType: "uint8",
+        name: "operation",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "safeTxGas",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "baseGas",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "gasPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "gasToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "refundReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_nonce",
+        type: "uint256",
+      },
+    ],
+    name: "getTransactionHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "isOwner",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nonce",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IGnosisSafe__factory {
+  static readonly abi = _abi;
+  static createInterface(): IGnosisSafeInterface {
+    return new Interface(_abi) as IGnosisSafeInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): IGnosisSafe {
+    return new Contract(address, _abi, runner) as unknown as IGnosisSafe;
+  }
+}
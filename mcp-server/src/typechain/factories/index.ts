@@ -0,0 +1,10 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { AgentPact__factory } from "./AgentPact__factory.js";
+export { AgentPolicyModule__factory } from "./AgentPolicyModule__factory.js";
+export { IERC20Errors__factory } from "./IERC20Errors__factory.js";
+export { IERC20Metadata__factory } from "./IERC20Metadata__factory.js";
+export { IGnosisSafe__factory } from "./IGnosisSafe__factory.js";
+export { OracleRegistry__factory } from "./OracleRegistry__factory.js";
+export { OracleRouter__factory } from "./OracleRouter__factory.js";
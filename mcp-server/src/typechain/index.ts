@@ -0,0 +1,18 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { AgentPact } from "./AgentPact.js";
+export type { AgentPolicyModule } from "./AgentPolicyModule.js";
+export type { IERC20Errors } from "./IERC20Errors.js";
+export type { IERC20Metadata } from "./IERC20Metadata.js";
+export type { IGnosisSafe } from "./IGnosisSafe.js";
+export type { OracleRegistry } from "./OracleRegistry.js";
+export type { OracleRouter } from "./OracleRouter.js";
+export * as factories from "./factories/index.js";
+export { AgentPact__factory } from "./factories/AgentPact__factory.js";
+export { OracleRegistry__factory } from "./factories/OracleRegistry__factory.js";
+export { OracleRouter__factory } from "./factories/OracleRouter__factory.js";
+export { AgentPolicyModule__factory } from "./factories/AgentPolicyModule__factory.js";
+export { IERC20Metadata__factory } from "./factories/IERC20Metadata__factory.js";
+export { IERC20Errors__factory } from "./factories/IERC20Errors__factory.js";
+export { IGnosisSafe__factory } from "./factories/IGnosisSafe__factory.js";
@@ -0,0 +1,447 @@
+import crypto from "crypto";
+import path from "path";
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { getProvider, getSigner } from "../provider.js";
+import { getSafe } from "../contracts.js";
+import { eventSources } from "../indexer/indexer.js";
+import { ERC20_ABI, SAFE_ABI } from "../abis.js";
+import { JsonFileStore } from "../storage.js";
+import { TxAccounting, TxQueue, TxTimeoutError } from "./tx-queue.js";
+
+const erc20Iface = new ethers.Interface(ERC20_ABI);
+const safeIface = new ethers.Interface(SAFE_ABI);
+
+export const APPROVAL_STATUSES = ["pending", "submitted", "executed", "failed", "rejected"] as const;
+export type ApprovalStatus = (typeof APPROVAL_STATUSES)[number];
+
+/** A Safe owner's EIP-712 signature over the approval's SafeTx. */
+export interface ApprovalSignature {
+  signer: string;
+  signature: string;
+  signedAt: number;
+}
+
+/** The target call as a reviewer sees it. */
+export interface DecodedCall {
+  contract: string;
+  function: string;
+  args: Record<string, string>;
+}
+
+/** A transaction parked for the Safe owners, as persisted across restarts. */
+export interface ApprovalRecord {
+  id: string;
+  status: ApprovalStatus;
+  /** Session key that requested it. */
+  requestedBy: string;
+  safe: string;
+  to: string;
+  value: string;
+  data: string;
+  label: string;
+  decoded: DecodedCall | null;
+  /** The session's humanApprovalAbove (wei) when the transaction was parked. */
+  humanApprovalAbove: string;
+  /** The parked call's spends and rate-limit slot, accounted for like any write once execTransaction is mined. */
+  accounting?: TxAccounting;
+  /** Safe nonce the current signatures are for; signatures are dropped if the Safe moves past it. */
+  safeNonce: number;
+  safeTxHash: string;
+  signatures: ApprovalSignature[];
+  createdAt: number;
+  updatedAt: number;
+  /** execTransaction sent by the session key once enough owners signed. */
+  txHash?: string;
+  blockNumber?: number;
+  error?: string;
+  rejectedBy?: string;
+  rejectReason?: string;
+}
+
+/** What an owner needs to review and sign an approval. */
+export interface ApprovalReview extends ApprovalRecord {
+  owners: string[];
+  threshold: number;
+  /** EIP-712 SafeTx to sign with eth_signTypedData_v4 (EIP712Domain type omitted). */
+  typedData: {
+    domain: { chainId: number; verifyingContract: string };
+    types: typeof SAFE_TX_TYPES;
+    primaryType: "SafeTx";
+    message: Record<string, string | number>;
+  };
+  /** Message an owner signs (personal_sign) to reject the approval. */
+  rejectMessage: string;
+}
+
+interface ApprovalState {
+  approvals: ApprovalRecord[];
+}
+
+export const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+    { name: "safeTxGas", type: "uint256" },
+    { name: "baseGas", type: "uint256" },
+    { name: "gasPrice", type: "uint256" },
+    { name: "gasToken", type: "address" },
+    { name: "refundReceiver", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+// Finished approvals kept for reporting
+const HISTORY_LIMIT = 50;
+
+/** Error thrown by a write that was parked for human approval instead of sent. */
+export class ApprovalRequiredError extends Error {
+  readonly approval: ApprovalRecord;
+
+  constructor(approval: ApprovalRecord, approvalUrl: string | null) {
+    super(
+      `${approval.label} sends ${ethers.formatEther(approval.value)} ETH, above the session's human approval ` +
+      `threshold of ${ethers.formatEther(approval.humanApprovalAbove)} ETH. It was not sent: it is parked as ` +
+      `approval ${approval.id} for the Safe owners to co-sign` +
+      (approvalUrl ? ` at ${approvalUrl}` : "") +
+      `. Poll get-approval-status with approvalId ${approval.id} to see when it executes.`
+    );
+    this.name = "ApprovalRequiredError";
+    this.approval = approval;
+  }
+}
+
+/**
+ * Transactions the policy module refuses without a human — value above the
+ * session's humanApprovalAbove — parked for the Safe owners.
+ *
+ * The module can't be talked past, so an approved transaction bypasses it:
+ * owners sign the call as a regular Safe transaction (EIP-712 SafeTx), and
+ * once the Safe's threshold is met the session key submits
+ * `Safe.execTransaction` with their signatures, paying only the gas. The
+ * spend doesn't count against the session's on-chain limits.
+ *
+ * Signatures are for one Safe nonce. If another Safe transaction lands
+ * first, pending approvals move to the new nonce and must be signed again.
+ *
+ * execTransaction goes through the TxQueue with the parked call's
+ * accounting, so its spends count against the software limits when it is
+ * mined. Listeners registered with `onRejected` hear about approvals the
+ * owners turned down, whose rate-limit slot is due back.
+ */
+export class ApprovalQueue {
+  private config: Config;
+  private queue: TxQueue;
+  private store: JsonFileStore<ApprovalState>;
+  private state: ApprovalState;
+  // Approvals whose execTransaction is being estimated or sent
+  private submitting = new Set<string>();
+  private rejectedListeners = new Set<(record: ApprovalRecord) => void>();
+
+  constructor(config: Config, queue: TxQueue) {
+    this.config = config;
+    this.queue = queue;
+    this.store = new JsonFileStore<ApprovalState>(
+      path.join(config.dataDir, `approvals-${config.chainId}.json`),
+      () => ({ approvals: [] })
+    );
+    this.state = this.store.load();
+  }
+
+  /** Where owners review approvals, or null if the local page is disabled. */
+  get url(): string | null {
+    return this.config.approvalHttpPort > 0 ? `http://127.0.0.1:${this.config.approvalHttpPort}/` : null;
+  }
+
+  /** Approvals for this Safe, newest first. */
+  list(status?: ApprovalStatus): ApprovalRecord[] {
+    return this.state.approvals
+      .filter((a) => a.safe.toLowerCase() === this.config.safeAddress.toLowerCase())
+      .filter((a) => !status || a.status === status)
+      .slice()
+      .reverse();
+  }
+
+  find(id: string): ApprovalRecord | undefined {
+    return this.list().find((a) => a.id === id);
+  }
+
+  /** Subscribe to approvals being rejected by an owner; returns the unsubscribe function. */
+  onRejected(listener: (record: ApprovalRecord) => void): () => void {
+    this.rejectedListeners.add(listener);
+    return () => this.rejectedListeners.delete(listener);
+  }
+
+  /** Park a call the policy module would refuse for lack of human approval. */
+  async park(
+    to: string,
+    value: bigint,
+    data: string,
+    label: string,
+    humanApprovalAbove: bigint,
+    accounting?: TxAccounting
+  ): Promise<ApprovalRecord> {
+    const now = Math.floor(Date.now() / 1000);
+    const record: ApprovalRecord = {
+      id: crypto.randomBytes(6).toString("hex"),
+      status: "pending",
+      requestedBy: getSigner(this.config).address,
+      safe: ethers.getAddress(this.config.safeAddress),
+      to: ethers.getAddress(to),
+      value: value.toString(),
+      data,
+      label,
+      decoded: this.decode(to, value, data),
+      humanApprovalAbove: humanApprovalAbove.toString(),
+      accounting,
+      safeNonce: -1,
+      safeTxHash: ethers.ZeroHash,
+      signatures: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.prepare(record);
+    this.state.approvals.push(record);
+    this.save();
+    return record;
+  }
+
+  /**
+   * Current state of an approval. A submitted one is checked against the
+   * node, a pending one against the Safe's nonce.
+   */
+  async status(id: string): Promise<ApprovalRecord> {
+    const record = this.get(id);
+    if (record.status === "submitted" && record.txHash) {
+      const receipt = await getProvider(this.config).getTransactionReceipt(record.txHash);
+      if (receipt) this.settle(record, receipt);
+    } else if (record.status === "pending") {
+      await this.prepare(record);
+    }
+    return record;
+  }
+
+  /** Everything an owner needs to review and sign an approval. */
+  async review(id: string): Promise<ApprovalReview> {
+    const record = await this.status(id);
+    const safe = getSafe(this.config);
+    const [owners, threshold] = await Promise.all([safe.getOwners(), safe.getThreshold()]);
+    return {
+      ...record,
+      signatures: [...record.signatures],
+      owners: [...owners],
+      threshold: Number(threshold),
+      typedData: {
+        domain: this.domain(),
+        types: SAFE_TX_TYPES,
+        primaryType: "SafeTx",
+        message: this.safeTx(record),
+      },
+      rejectMessage: this.rejectMessage(record),
+    };
+  }
+
+  /**
+   * Add an owner's signature over the SafeTx. Once the Safe's threshold is
+   * met the transaction is submitted and awaited, once: a signature that
+   * arrives while it is being submitted is kept but submits nothing.
+   * Re-sending a signature retries a submission that failed to estimate.
+   */
+  async addSignature(id: string, signature: string): Promise<ApprovalRecord> {
+    const record = this.get(id);
+    if (record.status !== "pending") throw new Error(`Approval ${id} is ${record.status}, not pending`);
+    await this.prepare(record);
+
+    const signer = ethers.recoverAddress(record.safeTxHash, signature);
+    const safe = getSafe(this.config);
+    const [owners, threshold] = await Promise.all([safe.getOwners(), safe.getThreshold()]);
+    if (!owners.some((o) => o.toLowerCase() === signer.toLowerCase())) {
+      throw new Error(
+        `Signature recovers to ${signer}, which is not an owner of Safe ${record.safe}. ` +
+        `Sign SafeTx hash ${record.safeTxHash} (Safe nonce ${record.safeNonce}).`
+      );
+    }
+
+    record.signatures = [
+      ...record.signatures.filter((s) => s.signer !== signer),
+      { signer, signature: ethers.Signature.from(signature).serialized, signedAt: Math.floor(Date.now() / 1000) },
+    ];
+    delete record.error;
+    this.touch(record);
+
+    if (record.signatures.length >= Number(threshold) && !this.submitting.has(id)) {
+      this.submitting.add(id);
+      try {
+        await this.submit(record);
+      } finally {
+        this.submitting.delete(id);
+      }
+    }
+    return record;
+  }
+
+  /** Reject an approval; needs an owner's personal_sign over `rejectMessage`. */
+  async reject(id: string, signature: string, reason?: string): Promise<ApprovalRecord> {
+    const record = this.get(id);
+    if (record.status !== "pending") throw new Error(`Approval ${id} is ${record.status}, not pending`);
+    if (this.submitting.has(id)) throw new Error(`Approval ${id} has enough signatures and is being submitted`);
+
+    const signer = ethers.verifyMessage(this.rejectMessage(record), signature);
+    if (!(await getSafe(this.config).isOwner(signer))) {
+      throw new Error(`Signature recovers to ${signer}, which is not an owner of Safe ${record.safe}`);
+    }
+    record.status = "rejected";
+    record.rejectedBy = signer;
+    record.rejectReason = reason;
+    this.touch(record);
+    for (const listener of this.rejectedListeners) {
+      try {
+        listener(record);
+      } catch (err: any) {
+        console.error(`ApprovalQueue listener failed for ${record.id}: ${err.message}`);
+      }
+    }
+    return record;
+  }
+
+  private get(id: string): ApprovalRecord {
+    const record = this.find(id);
+    if (!record) throw new Error(`Unknown approval ${id}`);
+    return record;
+  }
+
+  /** Move a pending approval to the Safe's current nonce, dropping signatures for an old one. */
+  private async prepare(record: ApprovalRecord): Promise<void> {
+    const nonce = Number(await getSafe(this.config).nonce());
+    if (nonce === record.safeNonce) return;
+    if (record.signatures.length > 0) {
+      record.error = `Safe nonce moved from ${record.safeNonce} to ${nonce} — signatures must be given again`;
+    }
+    record.safeNonce = nonce;
+    record.safeTxHash = ethers.TypedDataEncoder.hash(this.domain(), SAFE_TX_TYPES, this.safeTx(record));
+    record.signatures = [];
+    this.touch(record);
+  }
+
+  /** Send execTransaction from the session key with the owners' signatures, sorted by signer as the Safe requires. */
+  private async submit(record: ApprovalRecord): Promise<void> {
+    const signatures = ethers.concat(
+      [...record.signatures]
+        .sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1))
+        .map((s) => s.signature)
+    );
+    const safe = getSafe(this.config);
+    const args = [
+      record.to, BigInt(record.value), record.data, 0, 0n, 0n, 0n, ethers.ZeroAddress, ethers.ZeroAddress, signatures,
+    ] as const;
+
+    let gasEstimate: bigint;
+    try {
+      gasEstimate = await safe.execTransaction.estimateGas(...args);
+    } catch (err: any) {
+      record.error = `execTransaction would revert: ${err.reason ?? err.shortMessage ?? err.message}`;
+      this.touch(record);
+      throw new Error(`${record.error}. The signatures are kept; sign again to retry.`);
+    }
+
+    const request = await safe.execTransaction.populateTransaction(...args);
+    const tx = await this.queue.submit(
+      { ...request, gasLimit: (gasEstimate * 120n) / 100n },
+      `approved ${record.label}`,
+      record.accounting
+    );
+    record.status = "submitted";
+    record.txHash = tx.hash;
+    delete record.error;
+    this.touch(record);
+
+    try {
+      this.settle(record, await this.queue.wait(tx));
+    } catch (err: any) {
+      if (err instanceof TxTimeoutError) return; // still pending — status() picks it up later
+      if (err.receipt) {
+        this.settle(record, err.receipt);
+      } else {
+        record.error = err.reason ?? err.shortMessage ?? err.message;
+        this.touch(record);
+      }
+    }
+  }
+
+  /** Record a mined execTransaction: the Safe emits ExecutionSuccess or ExecutionFailure. */
+  private settle(record: ApprovalRecord, receipt: ethers.TransactionReceipt): void {
+    record.blockNumber = receipt.blockNumber;
+    const outcome = receipt.logs
+      .filter((log) => log.address.toLowerCase() === record.safe.toLowerCase())
+      .map((log) => {
+        try {
+          return safeIface.parseLog(log)?.name;
+        } catch {
+          return undefined;
+        }
+      })
+      .find((name) => name === "ExecutionSuccess" || name === "ExecutionFailure");
+
+    if (receipt.status === 1 && outcome === "ExecutionSuccess") {
+      record.status = "executed";
+    } else {
+      record.status = "failed";
+      record.error = outcome === "ExecutionFailure" ? "The Safe ran the call but it reverted" : "execTransaction reverted";
+    }
+    this.touch(record);
+  }
+
+  private decode(to: string, value: bigint, data: string): DecodedCall | null {
+    const source = eventSources(this.config).get(to.toLowerCase());
+    try {
+      const parsed = (source?.iface ?? erc20Iface).parseTransaction({ data, value });
+      if (!parsed) return null;
+      const args: Record<string, string> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        args[input.name || `arg${i}`] = String(parsed.args[i]);
+      });
+      return { contract: source?.name ?? "ERC20", function: parsed.signature, args };
+    } catch {
+      return null;
+    }
+  }
+
+  private domain() {
+    return { chainId: this.config.chainId, verifyingContract: ethers.getAddress(this.config.safeAddress) };
+  }
+
+  private safeTx(record: ApprovalRecord) {
+    return {
+      to: record.to,
+      value: record.value,
+      data: record.data,
+      operation: 0,
+      safeTxGas: "0",
+      baseGas: "0",
+      gasPrice: "0",
+      gasToken: ethers.ZeroAddress,
+      refundReceiver: ethers.ZeroAddress,
+      nonce: record.safeNonce,
+    };
+  }
+
+  private rejectMessage(record: ApprovalRecord): string {
+    return `Reject Agent Pact approval ${record.id} for Safe ${record.safe}`;
+  }
+
+  private touch(record: ApprovalRecord): void {
+    record.updatedAt = Math.floor(Date.now() / 1000);
+    this.save();
+  }
+
+  private save(): void {
+    const finished = this.state.approvals.filter((a) => a.status !== "pending" && a.status !== "submitted");
+    if (finished.length > HISTORY_LIMIT) {
+      const drop = new Set(finished.slice(0, finished.length - HISTORY_LIMIT));
+      this.state.approvals = this.state.approvals.filter((a) => !drop.has(a));
+    }
+    this.store.save(this.state);
+  }
+}
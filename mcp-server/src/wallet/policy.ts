@@ -1,53 +1,149 @@
 import { ethers } from "ethers";
-import { Config } from "../config.js";
+import { Config, TokenLimit } from "../config.js";
+import { getPolicyModule } from "../contracts.js";
+import { getSigner } from "../provider.js";
+import { NATIVE_TOKEN, TokenInfo, formatAmount, parseAmount } from "../tokens.js";
 import { SpendingTracker } from "./spending.js";
+import { RulesEngine, describeCall } from "./rules.js";
+import { Spend, decodeSpends } from "./spend.js";
 
 /**
  * Software-level policy checker (defense-in-depth).
  * Checks spending limits before sending transactions on-chain.
  * The on-chain AgentPolicyModule is the real enforcement — this
  * is an early rejection to save gas on transactions that would fail.
+ *
+ * Limits apply per token: ETH against MAX_PER_TX_ETH / MAX_DAILY_ETH /
+ * MAX_WEEKLY_ETH, ERC-20 tokens against TOKEN_LIMITS. The module only
+ * limits ETH value, so for tokens the software limits are the only ones.
+ *
+ * With POLICY_RULES_FILE set it also enforces the declarative rules the
+ * module can't express — counterparties, tokens, oracles, deadlines,
+ * rate limits — before every write.
  */
 export class PolicyChecker {
-  private maxPerTxWei: bigint;
-  private maxDailyWei: bigint;
   private tracker: SpendingTracker;
+  private config: Config;
+  // token address (lowercase) → limits, ETH under the zero address
+  private limits: Map<string, TokenLimit>;
+  readonly rules: RulesEngine | null;
 
   constructor(config: Config, tracker: SpendingTracker) {
-    this.maxPerTxWei = ethers.parseEther(config.maxPerTxEth);
-    this.maxDailyWei = ethers.parseEther(config.maxDailyEth);
     this.tracker = tracker;
+    this.config = config;
+    this.limits = new Map(config.tokenLimits);
+    this.limits.set(ethers.ZeroAddress, {
+      perTx: config.maxPerTxEth,
+      daily: config.maxDailyEth,
+      weekly: config.maxWeeklyEth,
+    });
+    this.rules = config.policyRulesFile ? new RulesEngine(config, config.policyRulesFile) : null;
   }
 
   /**
-   * Check if a transaction is within software spending limits.
+   * Check if a spend is within software spending limits.
    * Returns null if OK, or an error message string if blocked.
    */
-  check(amountWei: bigint): string | null {
-    if (amountWei > this.maxPerTxWei) {
-      return `Transaction blocked by wallet policy: ${ethers.formatEther(amountWei)} ETH exceeds per-transaction limit of ${ethers.formatEther(this.maxPerTxWei)} ETH. Request owner approval or reduce amount.`;
+  check(amount: bigint, token: TokenInfo = NATIVE_TOKEN): string | null {
+    const limit = this.limits.get(token.address.toLowerCase());
+    if (!limit) return null;
+    const fmt = (a: bigint) => formatAmount(a, token);
+
+    const maxPerTx = parseAmount(limit.perTx, token);
+    if (amount > maxPerTx) {
+      return `Transaction blocked by wallet policy: ${fmt(amount)} exceeds per-transaction limit of ${fmt(maxPerTx)}. Request owner approval or reduce amount.`;
+    }
+
+    const maxDaily = parseAmount(limit.daily, token);
+    const projectedDaily = this.tracker.getDailySpent(token.address) + amount;
+    if (projectedDaily > maxDaily) {
+      return `Transaction blocked by wallet policy: projected daily spend ${fmt(projectedDaily)} exceeds daily limit of ${fmt(maxDaily)}. Wait until tomorrow or request owner to increase limit.`;
     }
 
-    const projectedDaily = this.tracker.getDailySpent() + amountWei;
-    if (projectedDaily > this.maxDailyWei) {
-      return `Transaction blocked by wallet policy: projected daily spend ${ethers.formatEther(projectedDaily)} ETH exceeds daily limit of ${ethers.formatEther(this.maxDailyWei)} ETH. Wait until tomorrow or request owner to increase limit.`;
+    const maxWeekly = parseAmount(limit.weekly, token);
+    const projectedWeekly = this.tracker.getWeeklySpent(token.address) + amount;
+    if (projectedWeekly > maxWeekly) {
+      return `Transaction blocked by wallet policy: projected weekly spend ${fmt(projectedWeekly)} exceeds weekly limit of ${fmt(maxWeekly)}. Wait for the weekly window to roll over or request owner to increase limit.`;
     }
 
     return null;
   }
 
+  /** Decode what a call would spend from the Safe, per token. */
+  spendsOf(target: string, value: bigint, data: string): Promise<Spend[]> {
+    return decodeSpends(this.config, target, value, data);
+  }
+
+  /**
+   * Check decoded spends against the per-token limits. ERC-20 spends must
+   * also be in the session's allowedTokens, as the module requires of
+   * token pacts but can't check for tokens that never pass through it.
+   */
+  async checkSpends(spends: Spend[]): Promise<string | null> {
+    const tokens = spends.filter((s) => !s.token.isNative);
+    if (tokens.length > 0) {
+      const session = await getPolicyModule(this.config).getSession(getSigner(this.config).address);
+      const allowed = new Set((session.allowedTokens as string[]).map((t) => t.toLowerCase()));
+      const denied = tokens.find((s) => !allowed.has(s.token.address.toLowerCase()));
+      if (denied) {
+        return `Transaction blocked by wallet policy: ${denied.token.symbol} (${denied.token.address}) is not in this session's allowedTokens.`;
+      }
+    }
+    for (const s of spends) {
+      const err = this.check(s.amount, s.token);
+      if (err) return err;
+    }
+    return null;
+  }
+
+  /**
+   * Check a write against the rules file, if there is one.
+   * Returns null if OK, or which rule blocked it and why.
+   */
+  async checkCall(target: string, data: string, functionName: string | null): Promise<string | null> {
+    if (!this.rules) return null;
+    return this.rules.evaluate(await describeCall(this.config, target, data, functionName));
+  }
+
+  /**
+   * Hold a rate-limit slot for a call about to be sent, taken at `at`.
+   * Returns the violation if its window is full.
+   */
+  reserveCall(functionName: string | null, at: number): string | null {
+    return functionName ? this.rules?.reserve(functionName, at) ?? null : null;
+  }
+
+  /** Give back the slot of a call that wasn't sent or didn't succeed. */
+  releaseCall(functionName: string | null, at: number): void {
+    if (functionName) this.rules?.release(functionName, at);
+  }
+
   /**
-   * Record a successful transaction spend.
+   * Record a successful transaction spend (ETH by default, or an ERC-20 token).
    */
-  record(amountWei: bigint): void {
-    this.tracker.record(amountWei);
+  record(amountWei: bigint, token: string = ethers.ZeroAddress): void {
+    this.tracker.record(amountWei, token);
+  }
+
+  /** Configured limits of a token (zero address = ETH), or null if it has none. */
+  getLimits(token: string = ethers.ZeroAddress): TokenLimit | null {
+    return this.limits.get(token.toLowerCase()) ?? null;
+  }
+
+  /** Tokens with configured limits (zero address = ETH). */
+  getLimitedTokens(): string[] {
+    return [...this.limits.keys()];
   }
 
   getMaxPerTxEth(): string {
-    return ethers.formatEther(this.maxPerTxWei);
+    return ethers.formatEther(ethers.parseEther(this.getLimits()!.perTx));
   }
 
   getMaxDailyEth(): string {
-    return ethers.formatEther(this.maxDailyWei);
+    return ethers.formatEther(ethers.parseEther(this.getLimits()!.daily));
+  }
+
+  getMaxWeeklyEth(): string {
+    return ethers.formatEther(ethers.parseEther(this.getLimits()!.weekly));
   }
 }
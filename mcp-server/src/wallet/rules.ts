@@ -0,0 +1,326 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { z } from "zod";
+import YAML from "yaml";
+import { Config } from "../config.js";
+import { AGENT_PACT_ABI } from "../abis.js";
+import { getAgentPact } from "../contracts.js";
+import { JsonFileStore } from "../storage.js";
+import { TokenInfo, formatAmount, getTokenInfo, parseAmount } from "../tokens.js";
+
+const agentPactIface = new ethers.Interface(AGENT_PACT_ABI);
+
+const address = z.string().refine(ethers.isAddress, "invalid address");
+const amount = z.string().regex(/^\d+(\.\d+)?$/, "expected a decimal amount like \"1.5\"");
+
+const RATE_UNITS: Record<string, number> = { minute: 60, hour: 3600, day: 86400, week: 604800 };
+const rateLimit = z.string()
+  .regex(/^\d+\s*\/\s*(minute|hour|day|week)$/, "expected \"<count>/<minute|hour|day|week>\"")
+  .transform((s) => {
+    const [count, unit] = s.split("/").map((p) => p.trim());
+    return { max: parseInt(count), windowSec: RATE_UNITS[unit], raw: s };
+  });
+
+const PolicyRulesSchema = z.object({
+  counterparties: z.object({
+    /** Only these addresses may be counterparties. */
+    allow: z.array(address).optional(),
+    deny: z.array(address).optional(),
+    minReputation: z.object({
+      completed: z.number().int().min(0).optional(),
+      maxDisputeRate: z.number().min(0).max(1).optional(),
+    }).optional(),
+    /** Token symbol or address → cap on the total payment of open pacts with one counterparty. */
+    maxPayment: z.record(amount).optional(),
+  }).optional(),
+  /** Allowed payment tokens, by symbol ("ETH", "USDC") or address. */
+  tokens: z.array(z.string()).optional(),
+  /** A pact's oracles must all come from one of these sets. */
+  oracleSets: z.array(z.array(address).min(1)).optional(),
+  maxDeadlineDays: z.number().positive().optional(),
+  minVerificationThreshold: z.number().int().min(0).max(100).optional(),
+  /** Tool (create-pact) or contract function (createPact) → "<count>/<minute|hour|day|week>". */
+  rateLimits: z.record(rateLimit).optional(),
+}).strict();
+
+export type PolicyRules = z.infer<typeof PolicyRulesSchema>;
+
+/** Read and validate a rules file (YAML, or JSON — which YAML parses too). */
+export function loadPolicyRules(file: string): PolicyRules {
+  const parsed = PolicyRulesSchema.safeParse(YAML.parse(fs.readFileSync(file, "utf8")) ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid policy rules file ${file}: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/** What a write commits the Safe to, as far as the rules are concerned. */
+export interface PolicyCall {
+  function: string;
+  pactId?: bigint;
+  /** The other party, when the pact already has one. */
+  counterparty?: string;
+  payment?: bigint;
+  token?: TokenInfo;
+  oracles?: string[];
+  deadline?: number;
+  verificationThreshold?: number;
+}
+
+// Statuses in which a pact's payment is committed between the two parties
+const OPEN_STATUSES = new Set([1, 2, 3, 5, 7]); // FUNDED, IN_PROGRESS, PENDING_VERIFY, DISPUTED, PENDING_APPROVAL
+
+/**
+ * Decode a write into a PolicyCall. AgentPact calls that commit funds to a
+ * pact (create, accept, amend) are looked up in full; any other call only
+ * carries its function name, for rate limits.
+ */
+export async function describeCall(config: Config, target: string, data: string, fn: string | null): Promise<PolicyCall> {
+  const call: PolicyCall = { function: fn ?? data.slice(0, 10) };
+  if (target.toLowerCase() !== config.agentPactAddress.toLowerCase() || !fn) return call;
+  const parsed = agentPactIface.parseTransaction({ data })!;
+
+  const contract = getAgentPact(config);
+  const safe = config.safeAddress.toLowerCase();
+  const other = (buyer: string, seller: string) => {
+    const party = buyer.toLowerCase() === safe ? seller : buyer;
+    return party === ethers.ZeroAddress ? undefined : party;
+  };
+
+  switch (parsed.name) {
+    case "createPact": {
+      const a = parsed.args;
+      return {
+        function: parsed.name,
+        payment: a.paymentAmount,
+        token: await getTokenInfo(config, a.paymentToken),
+        oracles: [...a.oracles],
+        deadline: Number(a.deadline),
+        verificationThreshold: Number(a.verificationThreshold),
+      };
+    }
+    case "acceptPact": {
+      const pactId: bigint = parsed.args.pactId;
+      const [p, [oracles]] = await Promise.all([contract.getPact(pactId), contract.getPactOracles(pactId)]);
+      return {
+        function: parsed.name,
+        pactId,
+        // Whoever created the pact becomes the other side
+        counterparty: Number(p.initiator) === 0 ? p.buyer : p.seller,
+        payment: p.payment,
+        token: await getTokenInfo(config, p.paymentToken),
+        oracles: [...oracles],
+        deadline: Number(p.deadline_),
+        verificationThreshold: Number(p.verificationThreshold),
+      };
+    }
+    case "proposeAmendment":
+    case "acceptAmendment": {
+      const pactId: bigint = parsed.args.pactId;
+      const p = await contract.getPact(pactId);
+      const [payment, deadline]: [bigint, bigint] = parsed.name === "proposeAmendment"
+        ? [parsed.args.newPayment, parsed.args.newDeadline]
+        : await contract.getAmendment(pactId).then((a) => [a.payment, a.deadline_]);
+      return {
+        function: parsed.name,
+        pactId,
+        counterparty: other(p.buyer, p.seller),
+        // Zero keeps the current value
+        payment: payment > 0n ? payment : p.payment,
+        token: await getTokenInfo(config, p.paymentToken),
+        deadline: Number(deadline > 0n ? deadline : p.deadline_),
+      };
+    }
+    default:
+      return call;
+  }
+}
+
+interface RateLimitState {
+  // function name → unix times of calls sent, or reserved to be sent
+  calls: Record<string, number[]>;
+}
+
+/** "create-pact" / "router-claim-job" → "createPact" / "claimJob"; function names pass through. */
+function rateLimitKey(name: string): string {
+  return name.replace(/^router-/, "").replace(/-([a-z])/g, (_m, c: string) => c.toUpperCase());
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const matchesToken = (entry: string, token: TokenInfo) =>
+  entry.startsWith("0x") ? sameAddress(entry, token.address) : entry.toUpperCase() === token.symbol.toUpperCase();
+
+/**
+ * Evaluates a POLICY_RULES_FILE against each write before it is simulated.
+ * Each violation names the rule that fired, so the agent (and whoever reads
+ * its transcript) can tell which limit it ran into.
+ *
+ * Counterparty rules only apply once a pact has a counterparty: accepting a
+ * pact, and proposing or accepting an amendment. Creating an open pact is
+ * checked against the token, oracle, deadline and threshold rules.
+ */
+export class RulesEngine {
+  readonly file: string;
+  readonly rules: PolicyRules;
+  private config: Config;
+  private limits: Map<string, { name: string; max: number; windowSec: number; raw: string }>;
+  private store: JsonFileStore<RateLimitState>;
+  private state: RateLimitState;
+
+  constructor(config: Config, file: string) {
+    this.config = config;
+    this.file = file;
+    this.rules = loadPolicyRules(file);
+    this.limits = new Map(
+      Object.entries(this.rules.rateLimits ?? {}).map(([name, limit]) => [rateLimitKey(name), { name, ...limit }])
+    );
+    this.store = new JsonFileStore<RateLimitState>(
+      path.join(config.dataDir, `rate-limits-${config.chainId}.json`),
+      () => ({ calls: {} })
+    );
+    this.state = this.store.load();
+  }
+
+  /** The first rule the call breaks, as a readable message, or null. */
+  async evaluate(call: PolicyCall, now = Math.floor(Date.now() / 1000)): Promise<string | null> {
+    const fired = (rule: string, why: string) => `Transaction blocked by policy rule ${rule}: ${why} (${this.file})`;
+    const r = this.rules;
+
+    const limited = this.rateLimitViolation(call.function, now);
+    if (limited) return limited;
+
+    if (call.token && r.tokens && !r.tokens.some((t) => matchesToken(t, call.token!))) {
+      return fired("tokens", `${call.token.symbol} (${call.token.address}) is not an allowed payment token — allowed: ${r.tokens.join(", ")}`);
+    }
+
+    if (call.oracles && r.oracleSets) {
+      const fits = r.oracleSets.some((set) => call.oracles!.every((o) => set.some((a) => sameAddress(a, o))));
+      if (!fits) {
+        return fired("oracleSets", `oracles ${call.oracles.join(", ")} are not all from one of the ${r.oracleSets.length} allowed oracle set(s)`);
+      }
+    }
+
+    if (call.deadline !== undefined && r.maxDeadlineDays !== undefined) {
+      const days = (call.deadline - now) / 86400;
+      if (days > r.maxDeadlineDays) {
+        return fired("maxDeadlineDays", `deadline ${new Date(call.deadline * 1000).toISOString()} is ${days.toFixed(1)} days away, more than ${r.maxDeadlineDays}`);
+      }
+    }
+
+    if (call.verificationThreshold !== undefined && r.minVerificationThreshold !== undefined
+        && call.verificationThreshold < r.minVerificationThreshold) {
+      return fired("minVerificationThreshold", `verification threshold ${call.verificationThreshold} is below ${r.minVerificationThreshold}`);
+    }
+
+    if (call.counterparty && r.counterparties) {
+      return this.evaluateCounterparty(call, call.counterparty, r.counterparties, fired);
+    }
+    return null;
+  }
+
+  /** The rules as written in the file, for get-policy. */
+  toJSON() {
+    const rateLimits = Object.fromEntries([...this.limits.values()].map((l) => [l.name, l.raw]));
+    return { file: this.file, ...this.rules, ...(this.limits.size ? { rateLimits } : {}) };
+  }
+
+  /**
+   * Take a slot of the call's rate limit, if it has one, right before it is
+   * sent — the check and the count happen together, so concurrent writes
+   * can't all pass. Returns the violation if the window is already full.
+   * The slot is kept unless `release` gives it back.
+   */
+  reserve(fn: string, now = Math.floor(Date.now() / 1000)): string | null {
+    const limit = this.limits.get(fn);
+    if (!limit) return null;
+    const violation = this.rateLimitViolation(fn, now);
+    if (violation) return violation;
+    const recent = (this.state.calls[fn] ?? []).filter((t) => t > now - limit.windowSec);
+    this.state.calls[fn] = [...recent, now];
+    this.store.save(this.state);
+    return null;
+  }
+
+  /** Give back a slot reserved at `at` for a call that wasn't sent or didn't succeed. */
+  release(fn: string, at: number): void {
+    const calls = this.state.calls[fn] ?? [];
+    const i = calls.indexOf(at);
+    if (i === -1) return;
+    calls.splice(i, 1);
+    this.store.save(this.state);
+  }
+
+  private rateLimitViolation(fn: string, now: number): string | null {
+    const limit = this.limits.get(fn);
+    if (!limit) return null;
+    const recent = (this.state.calls[fn] ?? []).filter((t) => t > now - limit.windowSec);
+    if (recent.length < limit.max) return null;
+    const retryAt = new Date((recent[0] + limit.windowSec) * 1000).toISOString();
+    return `Transaction blocked by policy rule rateLimits.${limit.name}: ${recent.length} ${fn} calls already sent in the window ` +
+      `(limit ${limit.raw}). Retry after ${retryAt}. (${this.file})`;
+  }
+
+  private async evaluateCounterparty(
+    call: PolicyCall,
+    counterparty: string,
+    rules: NonNullable<PolicyRules["counterparties"]>,
+    fired: (rule: string, why: string) => string
+  ): Promise<string | null> {
+    if (rules.deny?.some((a) => sameAddress(a, counterparty))) {
+      return fired("counterparties.deny", `${counterparty} is on the deny list`);
+    }
+    if (rules.allow && !rules.allow.some((a) => sameAddress(a, counterparty))) {
+      return fired("counterparties.allow", `${counterparty} is not on the allow list`);
+    }
+
+    const contract = getAgentPact(this.config);
+    if (rules.minReputation) {
+      const rep = await contract.getReputation(counterparty);
+      const completed = Number(rep.completedAsBuyer) + Number(rep.completedAsSeller);
+      const { completed: minCompleted, maxDisputeRate } = rules.minReputation;
+      if (minCompleted !== undefined && completed < minCompleted) {
+        return fired("counterparties.minReputation.completed", `${counterparty} has completed ${completed} pact(s), fewer than ${minCompleted}`);
+      }
+      const rate = completed > 0 ? Number(rep.disputesLost) / completed : 0;
+      if (maxDisputeRate !== undefined && rate > maxDisputeRate) {
+        return fired("counterparties.minReputation.maxDisputeRate", `${counterparty} lost disputes in ${(rate * 100).toFixed(0)}% of its pacts, above ${maxDisputeRate * 100}%`);
+      }
+    }
+
+    const cap = call.token && call.payment !== undefined
+      ? Object.entries(rules.maxPayment ?? {}).find(([t]) => matchesToken(t, call.token!))
+      : undefined;
+    if (cap) {
+      const [key, max] = cap;
+      const open = await this.openPayments(counterparty, call.token!, call.pactId);
+      const total = open + call.payment!;
+      if (total > parseAmount(max, call.token!)) {
+        return fired(
+          `counterparties.maxPayment.${key}`,
+          `${formatAmount(total, call.token!)} would be committed to ${counterparty} ` +
+          `(${formatAmount(open, call.token!)} in other open pacts), more than ${max} ${call.token!.symbol}`
+        );
+      }
+    }
+    return null;
+  }
+
+  /** Total payment of this Safe's open pacts with `counterparty` in `token`, other than `exceptPactId`. */
+  private async openPayments(counterparty: string, token: TokenInfo, exceptPactId?: bigint): Promise<bigint> {
+    const contract = getAgentPact(this.config);
+    const safe = this.config.safeAddress;
+    const total = Number(await contract.getUserPactCount(safe));
+    let sum = 0n;
+    for (let offset = 0; offset < total; offset += 100) {
+      const ids = await contract.getPactsByAddress(safe, offset, 100);
+      const pacts = await Promise.all(ids.filter((id) => id !== exceptPactId).map((id) => contract.getPact(id)));
+      for (const p of pacts) {
+        if (!OPEN_STATUSES.has(Number(p.status)) || !sameAddress(p.paymentToken, token.address)) continue;
+        if (sameAddress(p.buyer, counterparty) || sameAddress(p.seller, counterparty)) sum += p.payment;
+      }
+    }
+    return sum;
+  }
+}
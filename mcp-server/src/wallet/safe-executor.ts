@@ -1,7 +1,114 @@
 import { ethers } from "ethers";
 import { Config } from "../config.js";
-import { getPolicyModule } from "../contracts.js";
+import { getProvider, getSigner } from "../provider.js";
+import { eventSources } from "../indexer/indexer.js";
+import { AGENT_POLICY_MODULE_ABI, ERC20_ABI, ERROR_ABI } from "../abis.js";
+import { getERC20, getPolicyModule } from "../contracts.js";
+import { TokenInfo, formatAmount } from "../tokens.js";
 import { PolicyChecker } from "./policy.js";
+import { TxAccounting, TxQueue } from "./tx-queue.js";
+import { ApprovalQueue, ApprovalRecord, ApprovalRequiredError } from "./approvals.js";
+import { Spend } from "./spend.js";
+
+const policyModuleIface = new ethers.Interface(AGENT_POLICY_MODULE_ABI);
+const erc20Iface = new ethers.Interface(ERC20_ABI);
+const errorIface = new ethers.Interface(ERROR_ABI);
+
+// Events each call is expected to emit, used when the node can't trace the call
+const EXPECTED_EVENTS: Record<string, string[]> = {
+  createPact: ["PactCreated"],
+  acceptPact: ["PactAccepted"],
+  proposeAmendment: ["AmendmentProposed"],
+  acceptAmendment: ["AmendmentAccepted"],
+  startWork: ["WorkStarted"],
+  submitWork: ["WorkSubmitted"],
+  submitVerification: ["VerificationSubmitted"],
+  finalizeVerification: ["VerificationFinalized"],
+  approveWork: ["WorkApproved", "PactCompleted", "ReputationUpdated"],
+  rejectWork: ["WorkRejected", "DisputeRaised"],
+  autoApprove: ["AutoApproved", "PactCompleted", "ReputationUpdated"],
+  raiseDispute: ["DisputeRaised"],
+  resolveDispute: ["DisputeResolved", "ReputationUpdated"],
+  claimTimeout: ["TimeoutClaimed", "PactRefunded"],
+  registerOracle: ["OracleRegistered"],
+  registerValidator: ["ValidatorRegistered"],
+  deactivateValidator: ["ValidatorDeactivated"],
+  requestVerification: ["JobRequested"],
+  claimJob: ["JobAssigned"],
+  submitValidation: ["JobCompleted"],
+  expireJob: ["JobExpired"],
+  claimEarnings: ["EarningsClaimed"],
+  reserveBudget: ["BudgetReserved"],
+  releaseBudget: ["BudgetReleased"],
+  approve: ["Approval"],
+};
+
+/** Outcome of a preflight simulation of a Safe transaction. */
+export interface SimulationResult {
+  ok: boolean;
+  target: string;
+  value: bigint;
+  /** Calldata for the target contract. */
+  data: string;
+  /** Calldata for AgentPolicyModule.executeTransaction — what the session key actually sends. */
+  moduleCalldata: string;
+  functionName: string | null;
+  /** What the call takes out of the Safe per token, decoded from value and calldata. */
+  spends: Spend[];
+  gasEstimate: bigint | null;
+  revertReason: string | null;
+  revertSource: "wallet policy" | "policy module" | "target contract" | null;
+  predictedEvents: string[];
+  /** "trace" when events come from debug_traceCall, "expected" when inferred from the function called. */
+  eventsSource: "trace" | "expected";
+  /** Set when the call was not simulated, e.g. because it depends on an earlier step being mined. */
+  note?: string;
+  /**
+   * The session's humanApprovalAbove (wei), set when the value exceeds it.
+   * The call was simulated from the Safe instead of through the module, and
+   * execute parks it for the Safe owners rather than sending it.
+   */
+  requiresApprovalAbove?: bigint;
+}
+
+export interface ApprovalOptions {
+  /**
+   * Require the allowance to equal the amount, for spenders that charge the
+   * whole allowance (OracleRouter token fees).
+   */
+  exactAllowance?: boolean;
+}
+
+/** Turn an ethers call exception into a readable revert reason. */
+export function decodeRevert(err: any, ifaces: ethers.Interface[] = []): string {
+  if (err?.reason) return err.reason;
+  const data: string | undefined = err?.data ?? err?.info?.error?.data?.data ?? err?.info?.error?.data;
+  if (typeof data === "string" && data.length >= 10) {
+    for (const iface of [errorIface, ...ifaces]) {
+      try {
+        const parsed = iface.parseError(data);
+        if (parsed) {
+          const args = parsed.args.map((a: unknown) => String(a)).join(", ");
+          return `${parsed.name}(${args})`;
+        }
+      } catch {
+        // not this interface's error
+      }
+    }
+  }
+  return err?.shortMessage ?? err?.message ?? "unknown revert";
+}
+
+/** Error thrown when a transaction is rejected by the preflight simulation. */
+export class SimulationRevertError extends Error {
+  readonly simulation: SimulationResult;
+
+  constructor(simulation: SimulationResult) {
+    super(`Transaction would revert (${simulation.revertSource}): ${simulation.revertReason}`);
+    this.name = "SimulationRevertError";
+    this.simulation = simulation;
+  }
+}
 
 /**
  * Executes transactions through the Safe via the AgentPolicyModule.
@@ -15,14 +122,155 @@ import { PolicyChecker } from "./policy.js";
  *                  ↓ Safe executes the actual call (ETH from Safe balance)
  *
  * The session key only needs enough ETH for gas.
+ *
+ * Every transaction is simulated first (eth_call + estimateGas), so policy
+ * and contract reverts surface before any gas is spent. Submission goes
+ * through the TxQueue, which serializes nonces for concurrent tool calls.
+ *
+ * Transactions above the session's humanApprovalAbove, which the module
+ * always refuses, are parked in the ApprovalQueue for the Safe owners to
+ * co-sign instead.
+ *
+ * Spends are counted when the TxQueue sees the transaction mined, so one
+ * that confirms after `execute` timed out (or after a restart) still
+ * counts. Rate-limited calls take their slot when they are sent, and give
+ * it back if the transaction fails, is cancelled or is dropped. A parked
+ * call takes its slot when it is parked, gives it back if the owners
+ * reject it, and is counted like any other once its execTransaction is mined.
  */
 export class SafeExecutor {
   private config: Config;
   private policy: PolicyChecker;
+  private queue: TxQueue;
+  private approvals: ApprovalQueue | null;
 
-  constructor(config: Config, policy: PolicyChecker) {
+  constructor(config: Config, policy: PolicyChecker, queue: TxQueue, approvals: ApprovalQueue | null = null) {
     this.config = config;
     this.policy = policy;
+    this.queue = queue;
+    this.approvals = approvals;
+    queue.onConfirmed((record) => {
+      for (const spend of record.accounting?.spends ?? []) {
+        this.policy.record(BigInt(spend.amount), spend.token);
+      }
+    });
+    queue.onFailed((record) => this.release(record.accounting!));
+    approvals?.onRejected((record) => {
+      if (record.accounting) this.release(record.accounting);
+    });
+  }
+
+  /** True when the server runs in DRY_RUN mode and no write may be broadcast. */
+  get dryRun(): boolean {
+    return this.config.dryRun;
+  }
+
+  /**
+   * Simulate a transaction through the Safe without broadcasting it.
+   *
+   * The module call is eth_call'ed from the session key. If the Safe's inner
+   * call fails (the module only sees "Safe execution failed"), the target call
+   * is replayed from the Safe address to recover the contract's own reason.
+   */
+  async simulate(target: string, value: bigint, data: string): Promise<SimulationResult> {
+    const sources = eventSources(this.config);
+    const ifaces = [...sources.values()].map((s) => s.iface);
+    const result = this.unsimulated(target, value, data);
+    const { moduleCalldata } = result;
+
+    const policyErr = await this.checkPolicy(result);
+    if (policyErr) {
+      return { ...result, ok: false, revertReason: policyErr, revertSource: "wallet policy" };
+    }
+
+    const module = getPolicyModule(this.config);
+    try {
+      await module.executeTransaction.staticCall(target, value, data);
+    } catch (err: any) {
+      const reason = decodeRevert(err, ifaces);
+      if (reason === "Requires human approval") {
+        return this.simulateFromSafe(result, ifaces);
+      }
+      if (reason !== "Safe execution failed") {
+        return { ...result, ok: false, revertReason: reason, revertSource: "policy module" };
+      }
+      try {
+        await getProvider(this.config).call({ from: this.config.safeAddress, to: target, value, data });
+        return { ...result, ok: false, revertReason: reason, revertSource: "policy module" };
+      } catch (innerErr: any) {
+        return { ...result, ok: false, revertReason: decodeRevert(innerErr, ifaces), revertSource: "target contract" };
+      }
+    }
+
+    result.gasEstimate = await module.executeTransaction.estimateGas(target, value, data);
+
+    const traced = await this.traceEvents(moduleCalldata, sources);
+    if (traced) {
+      result.predictedEvents = traced;
+      result.eventsSource = "trace";
+    }
+
+    return result;
+  }
+
+  /**
+   * Simulate an approve-then-call sequence. If the Safe's allowance is
+   * already sufficient only the call is simulated; otherwise the approve
+   * is simulated and the call is described but not simulated, since it
+   * can only succeed once the approval is mined.
+   */
+  async simulateWithApproval(
+    token: TokenInfo,
+    spender: string,
+    amount: bigint,
+    target: string,
+    value: bigint,
+    data: string,
+    opts: ApprovalOptions = {}
+  ): Promise<SimulationResult[]> {
+    const approveData = await this.approvalCalldata(token, spender, amount, opts);
+    if (!approveData) {
+      return [await this.simulate(target, value, data)];
+    }
+    const approveSim = await this.simulate(token.address, 0n, approveData);
+    const call = this.unsimulated(target, value, data);
+    const policyErr = await this.checkPolicy(call);
+    if (policyErr) {
+      return [approveSim, { ...call, ok: false, revertReason: policyErr, revertSource: "wallet policy" }];
+    }
+    return [
+      approveSim,
+      { ...call, ok: approveSim.ok, note: "Not simulated: needs the approve step to be mined first" },
+    ];
+  }
+
+  /**
+   * Approve `spender` for `amount` of `token` from the Safe if the current
+   * allowance is too low, then execute the call. Used for ERC-20 pacts and
+   * fees, where the target pulls tokens with transferFrom.
+   *
+   * @returns The receipt of the call (not the approval).
+   */
+  async executeWithApproval(
+    token: TokenInfo,
+    spender: string,
+    amount: bigint,
+    target: string,
+    value: bigint,
+    data: string,
+    opts: ApprovalOptions = {}
+  ): Promise<ethers.TransactionReceipt> {
+    const approveData = await this.approvalCalldata(token, spender, amount, opts);
+    if (approveData) {
+      // Don't leave an allowance behind for a call the software policy would block
+      const call = this.unsimulated(target, value, data);
+      const policyErr = await this.checkPolicy(call);
+      if (policyErr) {
+        throw new SimulationRevertError({ ...call, ok: false, revertReason: policyErr, revertSource: "wallet policy" });
+      }
+      await this.execute(token.address, 0n, approveData);
+    }
+    return this.execute(target, value, data);
   }
 
   /**
@@ -38,24 +286,238 @@ export class SafeExecutor {
     value: bigint,
     data: string
   ): Promise<ethers.TransactionReceipt> {
-    // Software policy check (defense-in-depth, saves gas on obvious rejections)
-    if (value > 0n) {
-      const policyErr = this.policy.check(value);
-      if (policyErr) {
-        throw new Error(policyErr);
+    if (this.config.dryRun) {
+      throw new Error("Server is in DRY_RUN mode — transactions are simulated, never broadcast");
+    }
+
+    // Preflight: software policy check + simulation (saves gas on obvious rejections)
+    const sim = await this.simulate(target, value, data);
+    if (!sim.ok) {
+      throw new SimulationRevertError(sim);
+    }
+    if (sim.requiresApprovalAbove !== undefined) {
+      if (!this.approvals) {
+        throw new SimulationRevertError({ ...sim, ok: false, revertReason: "Requires human approval", revertSource: "policy module" });
+      }
+      const label = sim.functionName ?? "executeTransaction";
+      const accounting = this.reserve(sim);
+      let approval: ApprovalRecord;
+      try {
+        approval = await this.approvals.park(target, value, data, label, sim.requiresApprovalAbove, accounting);
+      } catch (err) {
+        this.release(accounting);
+        throw err;
       }
+      throw new ApprovalRequiredError(approval, this.approvals.url);
     }
 
     const module = getPolicyModule(this.config);
-    const tx = await module.executeTransaction(target, value, data);
-    const receipt = await tx.wait();
+    const request = await module.executeTransaction.populateTransaction(target, value, data);
+    const tx = await this.submit({ ...request, gasLimit: (sim.gasEstimate! * 120n) / 100n }, sim.functionName ?? "executeTransaction", sim);
+    return this.queue.wait(tx);
+  }
+
+  /**
+   * Simulate a call the session key makes in its own name rather than the
+   * Safe's. Budget reservations are held per session key — the module takes
+   * `msg.sender` as the key — so they can't be routed through the Safe.
+   * The rules file applies as to any other write.
+   */
+  async simulateDirect(target: string, data: string): Promise<SimulationResult> {
+    const result = this.unsimulated(target, 0n, data);
+    const policyErr = await this.policy.checkCall(target, data, result.functionName);
+    if (policyErr) {
+      return { ...result, moduleCalldata: data, ok: false, revertReason: policyErr, revertSource: "wallet policy" };
+    }
+    const call = { from: getSigner(this.config).address, to: target, data };
+    const direct: SimulationResult = {
+      ...result,
+      moduleCalldata: data,
+      predictedEvents: result.functionName ? EXPECTED_EVENTS[result.functionName] ?? [] : [],
+      note: "Sent by the session key directly, not through the Safe",
+    };
+    const provider = getProvider(this.config);
+    try {
+      await provider.call(call);
+    } catch (err: any) {
+      const ifaces = [...eventSources(this.config).values()].map((s) => s.iface);
+      return { ...direct, ok: false, revertReason: decodeRevert(err, ifaces), revertSource: "target contract" };
+    }
+    return { ...direct, gasEstimate: await provider.estimateGas(call) };
+  }
+
+  /** Send a call from the session key itself (see simulateDirect). It moves nothing out of the Safe. */
+  async executeDirect(target: string, data: string): Promise<ethers.TransactionReceipt> {
+    if (this.config.dryRun) {
+      throw new Error("Server is in DRY_RUN mode — transactions are simulated, never broadcast");
+    }
+    const sim = await this.simulateDirect(target, data);
+    if (!sim.ok) {
+      throw new SimulationRevertError(sim);
+    }
+    const tx = await this.submit({ to: target, data, gasLimit: (sim.gasEstimate! * 120n) / 100n }, sim.functionName ?? "direct call", sim);
+    return this.queue.wait(tx);
+  }
+
+  /**
+   * Take the call's rate-limit slot and submit it through the queue with
+   * its accounting. The slot is given back if sending fails.
+   */
+  private async submit(tx: ethers.TransactionRequest, label: string, sim: SimulationResult): Promise<ethers.TransactionResponse> {
+    const accounting = this.reserve(sim);
+    try {
+      return await this.queue.submit(tx, label, accounting);
+    } catch (err) {
+      this.release(accounting);
+      throw err;
+    }
+  }
 
-    // Record spend in software tracker
-    if (value > 0n) {
-      this.policy.record(value);
+  /**
+   * Take the call's rate-limit slot and return the accounting that goes
+   * with it. The rules were checked during the simulation, but other writes
+   * may have been sent since.
+   */
+  private reserve(sim: SimulationResult): TxAccounting {
+    const reservedAt = Math.floor(Date.now() / 1000);
+    const limited = this.policy.reserveCall(sim.functionName, reservedAt);
+    if (limited) {
+      throw new SimulationRevertError({ ...sim, ok: false, revertReason: limited, revertSource: "wallet policy" });
+    }
+    return {
+      spends: sim.spends.map((s) => ({ token: s.token.address, amount: s.amount.toString() })),
+      functionName: sim.functionName,
+      reservedAt,
+    };
+  }
+
+  private release({ functionName, reservedAt }: TxAccounting): void {
+    if (reservedAt !== undefined) this.policy.releaseCall(functionName, reservedAt);
+  }
+
+  /**
+   * Calldata for `token.approve(spender, amount)` if the Safe's allowance is
+   * below `amount` (or, with `exactAllowance`, not equal to it), or null if
+   * no approval is needed. Approves the exact amount rather than an
+   * unlimited allowance. Rejects tokens that aren't in the session's
+   * allowedTokens — the module doesn't enforce that list, so the server does.
+   */
+  private async approvalCalldata(
+    token: TokenInfo,
+    spender: string,
+    amount: bigint,
+    opts: ApprovalOptions
+  ): Promise<string | null> {
+    const session = await getPolicyModule(this.config).getSession(getSigner(this.config).address);
+    const allowed = (session.allowedTokens as string[]).some((t) => t.toLowerCase() === token.address.toLowerCase());
+    if (!allowed) {
+      throw new Error(`Token ${token.symbol} (${token.address}) is not in this session's allowedTokens`);
     }
 
-    return receipt;
+    const erc20 = getERC20(this.config, token.address);
+    const [allowance, balance]: [bigint, bigint] = await Promise.all([
+      erc20.allowance(this.config.safeAddress, spender),
+      erc20.balanceOf(this.config.safeAddress),
+    ]);
+    if (balance < amount) {
+      throw new Error(`Safe holds ${formatAmount(balance, token)}, needs ${formatAmount(amount, token)}`);
+    }
+    if (opts.exactAllowance ? allowance === amount : allowance >= amount) return null;
+    return erc20Iface.encodeFunctionData("approve", [spender, amount]);
+  }
+
+  /**
+   * Software policy for a call: decode its spends onto `result` and check
+   * them against the per-token limits, then the rules file. Returns the
+   * first violation, or null.
+   */
+  private async checkPolicy(result: SimulationResult): Promise<string | null> {
+    result.spends = await this.policy.spendsOf(result.target, result.value, result.data);
+    return (await this.policy.checkSpends(result.spends))
+      ?? (await this.policy.checkCall(result.target, result.data, result.functionName));
+  }
+
+  /**
+   * Simulate a call the module refuses for lack of human approval the way
+   * the owners would run it: directly from the Safe. The module's other
+   * checks (session, allowlists, per-tx limit) come first and have passed.
+   */
+  private async simulateFromSafe(result: SimulationResult, ifaces: ethers.Interface[]): Promise<SimulationResult> {
+    const session = await getPolicyModule(this.config).getSession(getSigner(this.config).address);
+    const call = { from: this.config.safeAddress, to: result.target, value: result.value, data: result.data };
+    const provider = getProvider(this.config);
+    try {
+      await provider.call(call);
+    } catch (err: any) {
+      return { ...result, ok: false, revertReason: decodeRevert(err, ifaces), revertSource: "target contract" };
+    }
+
+    return {
+      ...result,
+      gasEstimate: await provider.estimateGas(call),
+      predictedEvents: [...(result.functionName ? EXPECTED_EVENTS[result.functionName] ?? [] : []), "ExecutionSuccess"],
+      requiresApprovalAbove: session.humanApprovalAbove,
+      note:
+        `${ethers.formatEther(result.value)} ETH is above the session's human approval threshold of ` +
+        `${ethers.formatEther(session.humanApprovalAbove)} ETH: executing parks it for the Safe owners to co-sign`,
+    };
+  }
+
+  /** Describe a call without simulating it (expected events only). */
+  private unsimulated(target: string, value: bigint, data: string): SimulationResult {
+    let functionName: string | null = null;
+    try {
+      const iface = eventSources(this.config).get(target.toLowerCase())?.iface ?? erc20Iface;
+      functionName = iface.parseTransaction({ data, value })?.name ?? null;
+    } catch {
+      // unknown selector
+    }
+    return {
+      ok: true,
+      target,
+      value,
+      data,
+      moduleCalldata: policyModuleIface.encodeFunctionData("executeTransaction", [target, value, data]),
+      functionName,
+      spends: [],
+      gasEstimate: null,
+      revertReason: null,
+      revertSource: null,
+      predictedEvents: [
+        "TransactionValidated",
+        ...(functionName ? EXPECTED_EVENTS[functionName] ?? [] : []),
+        "TransactionExecuted",
+      ],
+      eventsSource: "expected",
+    };
+  }
+
+  /** Event names from a geth-style callTracer trace, or null if the node can't trace. */
+  private async traceEvents(
+    moduleCalldata: string,
+    sources: ReturnType<typeof eventSources>
+  ): Promise<string[] | null> {
+    try {
+      const trace = await getProvider(this.config).send("debug_traceCall", [
+        { from: getSigner(this.config).address, to: this.config.policyModuleAddress, data: moduleCalldata },
+        "latest",
+        { tracer: "callTracer", tracerConfig: { withLog: true } },
+      ]);
+
+      const names: string[] = [];
+      const walk = (frame: any) => {
+        for (const log of frame.logs ?? []) {
+          const iface = sources.get(String(log.address).toLowerCase())?.iface;
+          const parsed = iface?.parseLog({ topics: log.topics, data: log.data });
+          names.push(parsed?.name ?? `unknown event from ${log.address}`);
+        }
+        for (const call of frame.calls ?? []) walk(call);
+      };
+      walk(trace);
+      return names;
+    } catch {
+      return null;
+    }
   }
 
   /** Get the underlying transaction hash from a receipt. */
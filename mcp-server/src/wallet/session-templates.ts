@@ -0,0 +1,60 @@
+import fs from "fs";
+import { ethers } from "ethers";
+import { z } from "zod";
+import YAML from "yaml";
+
+const address = z.string().refine(ethers.isAddress, "invalid address");
+const amount = z.string().regex(/^\d+(\.\d+)?$/, "expected a decimal amount like \"1.5\"");
+
+const SessionTemplateSchema = z.object({
+  description: z.string().optional(),
+  /** Tools the session will use, by name (create-pact) or profile (buyer). */
+  tools: z.array(z.string().min(1)).min(1),
+  maxPerTxEth: amount,
+  maxDailyEth: amount,
+  maxWeeklyEth: amount,
+  /** Value above which the Safe owners must co-sign ("0" = never). */
+  humanApprovalAboveEth: amount.default("0"),
+  allowedTokens: z.array(address).default([]),
+  durationDays: z.number().positive(),
+}).strict();
+
+const SessionTemplatesFileSchema = z.object({
+  templates: z.record(z.string().regex(/^[A-Za-z0-9_-]+$/, "template names may only contain letters, digits, '-' and '_'"), SessionTemplateSchema),
+}).strict();
+
+export type SessionTemplate = z.infer<typeof SessionTemplateSchema>;
+
+// One per tool profile, with the server's default software limits
+const BUILT_IN_TEMPLATES: Record<string, SessionTemplate> = Object.fromEntries(
+  ["buyer", "seller", "validator", "arbitrator"].map((profile) => [profile, {
+    description: `The ${profile} tool profile`,
+    tools: [profile],
+    maxPerTxEth: "0.5",
+    maxDailyEth: "2.0",
+    maxWeeklyEth: "10.0",
+    humanApprovalAboveEth: "0",
+    allowedTokens: [],
+    durationDays: 30,
+  }])
+);
+
+/**
+ * Named policy templates for owner-grant-session: the built-in one per tool
+ * profile, plus (overriding them by name) those in SESSION_TEMPLATES_FILE,
+ * YAML or JSON.
+ */
+export function loadSessionTemplates(file: string | null): Map<string, SessionTemplate> {
+  const templates = new Map(Object.entries(BUILT_IN_TEMPLATES));
+  if (!file) return templates;
+
+  const parsed = SessionTemplatesFileSchema.safeParse(YAML.parse(fs.readFileSync(file, "utf8")) ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid session templates file ${file}: ${issues}`);
+  }
+  for (const [name, template] of Object.entries(parsed.data.templates)) {
+    templates.set(name, template);
+  }
+  return templates;
+}
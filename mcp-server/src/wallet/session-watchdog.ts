@@ -0,0 +1,201 @@
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { getProvider } from "../provider.js";
+import { getPolicyModule } from "../contracts.js";
+import { PolicyClient } from "../client/policy.js";
+
+export type AlertLevel = "info" | "warning" | "error" | "critical";
+
+export type AlertKind = "revoked" | "expired" | "expiring" | "low-gas" | "out-of-gas" | "gas-ok" | "reactivated";
+
+export interface SessionAlert {
+  kind: AlertKind;
+  level: AlertLevel;
+  message: string;
+  at: string;
+}
+
+/** Last observed state of the session key, served as `pact://session`. */
+export interface SessionSnapshot {
+  sessionKey: string;
+  active: boolean;
+  expiresAt: string | null;
+  secondsRemaining: number | null;
+  gasBalance: string | null;
+  lowGas: boolean;
+  revokedTx: string | null;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  recentAlerts: SessionAlert[];
+}
+
+type AlertListener = (alert: SessionAlert, snapshot: SessionSnapshot) => void;
+
+const MAX_RECENT_ALERTS = 20;
+
+/**
+ * Background monitor for the session key. Polls the policy module for the
+ * session's state and `SessionRevoked` events, and the key's ETH balance, and
+ * raises an alert on every transition — revoked, expired, expiry within
+ * SESSION_EXPIRY_WARN_SEC, gas below MIN_SESSION_GAS_ETH — so agents hear
+ * about it before a write reverts. Each condition alerts once until it clears.
+ */
+export class SessionWatchdog {
+  private config: Config;
+  private policy: PolicyClient;
+  private listeners = new Set<AlertListener>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastBlock = -1;
+  private raised = new Set<AlertKind>();
+  private state: SessionSnapshot;
+
+  constructor(config: Config, policy: PolicyClient) {
+    this.config = config;
+    this.policy = policy;
+    this.state = {
+      sessionKey: policy.sessionKey,
+      active: false,
+      expiresAt: null,
+      secondsRemaining: null,
+      gasBalance: null,
+      lowGas: false,
+      revokedTx: null,
+      lastCheckedAt: null,
+      lastError: null,
+      recentAlerts: [],
+    };
+  }
+
+  /** Start polling. Returns immediately. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Subscribe to alerts; returns the unsubscribe function. */
+  onAlert(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  snapshot(): SessionSnapshot {
+    const secondsRemaining = this.state.expiresAt
+      ? Math.floor(new Date(this.state.expiresAt).getTime() / 1000) - Math.floor(Date.now() / 1000)
+      : null;
+    return { ...this.state, secondsRemaining, recentAlerts: [...this.state.recentAlerts] };
+  }
+
+  /** Run a single check pass. */
+  async check(): Promise<void> {
+    const provider = getProvider(this.config);
+    const module = getPolicyModule(this.config);
+    const sessionKey = this.policy.sessionKey;
+    if (sessionKey !== this.state.sessionKey) {
+      // Key was rotated — conditions raised for the old key no longer apply
+      this.raised.clear();
+      this.state = { ...this.state, sessionKey, revokedTx: null };
+    }
+
+    const head = await provider.getBlockNumber();
+    const [session, balance, revocations] = await Promise.all([
+      this.policy.getSession(sessionKey),
+      provider.getBalance(sessionKey),
+      this.lastBlock >= 0 && head > this.lastBlock
+        ? module.queryFilter(module.filters.SessionRevoked(sessionKey), this.lastBlock + 1, head)
+        : Promise.resolve([]),
+    ]);
+    this.lastBlock = head;
+
+    const now = Math.floor(Date.now() / 1000);
+    const remaining = session.expiresAt - now;
+    const minGas = ethers.parseEther(this.config.minSessionGasEth);
+
+    this.state.active = session.active && remaining > 0;
+    this.state.expiresAt = session.expiresAt > 0 ? new Date(session.expiresAt * 1000).toISOString() : null;
+    this.state.gasBalance = ethers.formatEther(balance);
+    this.state.lowGas = balance < minGas;
+    this.state.lastCheckedAt = new Date().toISOString();
+    this.state.lastError = null;
+
+    if (revocations.length > 0) {
+      this.state.revokedTx = revocations[revocations.length - 1].transactionHash;
+      this.raise("revoked", "critical", `Session key ${sessionKey} was revoked by the Safe owner (tx ${this.state.revokedTx}). All writes will be rejected.`);
+    } else if (!session.active && session.expiresAt > 0 && remaining > 0) {
+      this.raise("revoked", "critical", `Session key ${sessionKey} is no longer active. All writes will be rejected.`);
+    }
+
+    if (session.expiresAt > 0 && remaining <= 0) {
+      this.raise("expired", "error", `Session expired at ${this.state.expiresAt}. Ask the Safe owner to grant a new session.`);
+    } else if (session.active && remaining < this.config.sessionExpiryWarnSec) {
+      this.raise("expiring", "warning", `Session expires in ${Math.max(1, Math.floor(remaining / 60))} min (${this.state.expiresAt}).`);
+    }
+
+    if (session.active && remaining > 0 && (this.raised.has("revoked") || this.raised.has("expired"))) {
+      this.clear("revoked", "expired");
+      if (remaining >= this.config.sessionExpiryWarnSec) this.clear("expiring");
+      this.raise("reactivated", "info", `Session is active again until ${this.state.expiresAt}.`);
+    } else if (remaining >= this.config.sessionExpiryWarnSec) {
+      this.clear("expiring");
+    }
+
+    if (balance === 0n) {
+      this.raise("out-of-gas", "error", `Session key ${sessionKey} has no ETH for gas. Fund it to keep transacting.`);
+    } else if (balance < minGas) {
+      this.raise("low-gas", "warning", `Session key gas is low: ${this.state.gasBalance} ETH (minimum ${this.config.minSessionGasEth} ETH).`);
+    } else if (this.raised.has("low-gas") || this.raised.has("out-of-gas")) {
+      this.clear("low-gas", "out-of-gas");
+      this.emit("gas-ok", "info", `Session key gas topped up: ${this.state.gasBalance} ETH.`);
+    }
+  }
+
+  /** Alert once per condition until it is cleared. */
+  private raise(kind: AlertKind, level: AlertLevel, message: string) {
+    if (this.raised.has(kind)) return;
+    this.raised.add(kind);
+    this.emit(kind, level, message);
+  }
+
+  private clear(...kinds: AlertKind[]) {
+    for (const kind of kinds) this.raised.delete(kind);
+    // "reactivated" is a one-off, so it can fire again after the next lapse
+    this.raised.delete("reactivated");
+  }
+
+  private emit(kind: AlertKind, level: AlertLevel, message: string) {
+    const alert: SessionAlert = { kind, level, message, at: new Date().toISOString() };
+    this.state.recentAlerts = [alert, ...this.state.recentAlerts].slice(0, MAX_RECENT_ALERTS);
+    console.error(`Session watchdog [${level}] ${message}`);
+    const snapshot = this.snapshot();
+    for (const listener of this.listeners) {
+      try {
+        listener(alert, snapshot);
+      } catch (err: any) {
+        console.error(`Session watchdog listener failed: ${err.message}`);
+      }
+    }
+  }
+
+  private async loop(): Promise<void> {
+    if (!this.running) return;
+    try {
+      await this.check();
+    } catch (err: any) {
+      this.state.lastError = err.shortMessage ?? err.message;
+      console.error(`Session watchdog check failed: ${this.state.lastError}`);
+    }
+    if (this.running) {
+      this.timer = setTimeout(() => void this.loop(), this.config.watchdogPollMs);
+      this.timer.unref();
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { AGENT_PACT_ABI, ERC20_ABI } from "../abis.js";
+import { getAgentPact } from "../contracts.js";
+import { NATIVE_TOKEN, TokenInfo, getTokenInfo } from "../tokens.js";
+
+const agentPactIface = new ethers.Interface(AGENT_PACT_ABI);
+const erc20Iface = new ethers.Interface(ERC20_ABI);
+
+/** An amount a write moves out of the Safe, in base units of `token`. */
+export interface Spend {
+  token: TokenInfo;
+  amount: bigint;
+}
+
+/**
+ * Deposit each side puts down. Both parties stake 10% of the payment; the
+ * buyer also escrows the payment and the oracle fee.
+ */
+export function pactDeposit(role: "buyer" | "seller", payment: bigint, oracleFee: bigint): { stake: bigint; deposit: bigint } {
+  const stake = payment / 10n;
+  return { stake, deposit: role === "buyer" ? payment + oracleFee + stake : stake };
+}
+
+/**
+ * What a call costs the Safe, per token. ETH value always counts. ERC-20
+ * spends carry no value, so they are decoded from the calldata:
+ *
+ * - `transfer`, and `transferFrom` out of the Safe
+ * - `approve` to anyone but AgentPact — OracleRouter charges the whole
+ *   allowance as its fee, and any other spender can take it all
+ * - the token deposit AgentPact pulls on `createPact` / `acceptPact`, which
+ *   is why approving AgentPact itself isn't counted twice
+ */
+export async function decodeSpends(config: Config, target: string, value: bigint, data: string): Promise<Spend[]> {
+  const spends: Spend[] = value > 0n ? [{ token: NATIVE_TOKEN, amount: value }] : [];
+  const to = target.toLowerCase();
+
+  if (to === config.agentPactAddress.toLowerCase()) {
+    const call = agentPactIface.parseTransaction({ data });
+    if (call?.name === "createPact" && call.args.paymentToken !== ethers.ZeroAddress) {
+      const role = Number(call.args._initiator) === 0 ? "buyer" : "seller";
+      const { deposit } = pactDeposit(role, call.args.paymentAmount, call.args.oracleFee);
+      spends.push({ token: await getTokenInfo(config, call.args.paymentToken), amount: deposit });
+    }
+    if (call?.name === "acceptPact") {
+      const p = await getAgentPact(config).getPact(call.args.pactId);
+      if (p.paymentToken !== ethers.ZeroAddress) {
+        // The accepter takes whichever side the creator left open
+        const { deposit } = pactDeposit(Number(p.initiator) === 0 ? "seller" : "buyer", p.payment, p.oracleFee);
+        spends.push({ token: await getTokenInfo(config, p.paymentToken), amount: deposit });
+      }
+    }
+    return spends;
+  }
+
+  if (to === config.oracleRouterAddress.toLowerCase() || to === config.policyModuleAddress.toLowerCase()) {
+    return spends;
+  }
+
+  let call: ethers.TransactionDescription | null = null;
+  try {
+    call = erc20Iface.parseTransaction({ data });
+  } catch {
+    // not an ERC-20 call
+  }
+  const safe = config.safeAddress.toLowerCase();
+  const amount =
+    call?.name === "transfer" ? (call.args.value as bigint)
+    : call?.name === "transferFrom" && String(call.args.from).toLowerCase() === safe ? (call.args.value as bigint)
+    : call?.name === "approve" && String(call.args.spender).toLowerCase() !== config.agentPactAddress.toLowerCase() ? (call.args.value as bigint)
+    : 0n;
+  if (amount > 0n) spends.push({ token: await getTokenInfo(config, target), amount });
+  return spends;
+}
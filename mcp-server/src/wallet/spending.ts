@@ -1,51 +1,145 @@
+import path from "path";
 import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { getPolicyModule } from "../contracts.js";
+import { getProvider } from "../provider.js";
+import { JsonFileStore } from "../storage.js";
+
+const ONE_DAY = 86400;
+const ONE_WEEK = 604800;
+
+/** Spending counters for one session key and token (amounts in wei / base units). */
+export interface SpendingWindow {
+  dailySpent: bigint;
+  weeklySpent: bigint;
+  lastDayReset: number;
+  lastWeekReset: number;
+}
+
+interface StoredWindow {
+  dailySpent: string;
+  weeklySpent: string;
+  lastDayReset: number;
+  lastWeekReset: number;
+}
+
+interface SpendingState {
+  // session key (lowercase) → token address (lowercase, zero address = ETH) → window
+  sessions: Record<string, Record<string, StoredWindow>>;
+}
+
+export interface SpendingDrift {
+  sessionKey: string;
+  software: SpendingWindow;
+  onChain: SpendingWindow;
+  dailyDrift: bigint;
+  weeklyDrift: bigint;
+  inSync: boolean;
+  adopted: boolean;
+}
 
 /**
  * Software-level spending tracker (defense-in-depth).
  * Mirrors the on-chain AgentPolicyModule tracking but runs locally
  * to reject transactions before they hit the chain.
+ *
+ * Counters are persisted per session key and per token, so restarting the
+ * server doesn't reset the software limits. Windows follow the module's
+ * semantics: a window only rolls over when a spend is recorded more than a
+ * day (week) after its last reset, and the reset time becomes that spend's
+ * timestamp.
  */
 export class SpendingTracker {
-  private dailySpent = 0n;
-  private weeklySpent = 0n;
-  private lastDayReset: number;
-  private lastWeekReset: number;
+  private store: JsonFileStore<SpendingState>;
+  private state: SpendingState;
+  private sessionKey: string;
 
-  constructor() {
-    const now = Math.floor(Date.now() / 1000);
-    this.lastDayReset = now;
-    this.lastWeekReset = now;
+  constructor(config: Config, sessionKey: string) {
+    this.store = new JsonFileStore<SpendingState>(
+      path.join(config.dataDir, `spending-${config.chainId}.json`),
+      () => ({ sessions: {} })
+    );
+    this.state = this.store.load();
+    this.sessionKey = sessionKey.toLowerCase();
+  }
+
+  /**
+   * Track a different session key from now on. The old key's windows carry
+   * over, so a rotation doesn't reset the software limits. On-chain it does:
+   * the module counts spending per key, from zero after the grant.
+   */
+  switchKey(sessionKey: string): void {
+    const from = this.state.sessions[this.sessionKey] ?? {};
+    this.sessionKey = sessionKey.toLowerCase();
+    const session = (this.state.sessions[this.sessionKey] ??= {});
+    for (const [token, w] of Object.entries(from)) session[token] ??= { ...w };
+    this.store.save(this.state);
   }
 
-  private resetIfNeeded(): void {
+  private stored(token: string): StoredWindow | undefined {
+    return this.state.sessions[this.sessionKey]?.[token.toLowerCase()];
+  }
+
+  /** Current window for a token, with expired windows reported as zero (not mutated). */
+  getWindow(token: string = ethers.ZeroAddress, now = Math.floor(Date.now() / 1000)): SpendingWindow {
+    const w = this.stored(token);
+    if (!w) {
+      return { dailySpent: 0n, weeklySpent: 0n, lastDayReset: now, lastWeekReset: now };
+    }
+    return {
+      dailySpent: now > w.lastDayReset + ONE_DAY ? 0n : BigInt(w.dailySpent),
+      weeklySpent: now > w.lastWeekReset + ONE_WEEK ? 0n : BigInt(w.weeklySpent),
+      lastDayReset: w.lastDayReset,
+      lastWeekReset: w.lastWeekReset,
+    };
+  }
+
+  record(amountWei: bigint, token: string = ethers.ZeroAddress): void {
     const now = Math.floor(Date.now() / 1000);
-    const oneDay = 86400;
-    const oneWeek = 604800;
+    const w = this.stored(token) ?? {
+      dailySpent: "0",
+      weeklySpent: "0",
+      lastDayReset: now,
+      lastWeekReset: now,
+    };
 
-    if (now > this.lastDayReset + oneDay) {
-      this.dailySpent = 0n;
-      this.lastDayReset = now;
+    let daily = BigInt(w.dailySpent);
+    let weekly = BigInt(w.weeklySpent);
+    if (now > w.lastDayReset + ONE_DAY) {
+      daily = 0n;
+      w.lastDayReset = now;
     }
-    if (now > this.lastWeekReset + oneWeek) {
-      this.weeklySpent = 0n;
-      this.lastWeekReset = now;
+    if (now > w.lastWeekReset + ONE_WEEK) {
+      weekly = 0n;
+      w.lastWeekReset = now;
     }
+    w.dailySpent = (daily + amountWei).toString();
+    w.weeklySpent = (weekly + amountWei).toString();
+
+    this.write(token, w);
+  }
+
+  /** Overwrite a token's counters, e.g. with the on-chain values after reconciliation. */
+  adopt(window: SpendingWindow, token: string = ethers.ZeroAddress): void {
+    this.write(token, {
+      dailySpent: window.dailySpent.toString(),
+      weeklySpent: window.weeklySpent.toString(),
+      lastDayReset: window.lastDayReset,
+      lastWeekReset: window.lastWeekReset,
+    });
   }
 
-  record(amountWei: bigint): void {
-    this.resetIfNeeded();
-    this.dailySpent += amountWei;
-    this.weeklySpent += amountWei;
+  /** Tokens with recorded spending for this session key. */
+  getTokens(): string[] {
+    return Object.keys(this.state.sessions[this.sessionKey] ?? {});
   }
 
-  getDailySpent(): bigint {
-    this.resetIfNeeded();
-    return this.dailySpent;
+  getDailySpent(token: string = ethers.ZeroAddress): bigint {
+    return this.getWindow(token).dailySpent;
   }
 
-  getWeeklySpent(): bigint {
-    this.resetIfNeeded();
-    return this.weeklySpent;
+  getWeeklySpent(token: string = ethers.ZeroAddress): bigint {
+    return this.getWindow(token).weeklySpent;
   }
 
   getDailySpentEth(): string {
@@ -55,4 +149,53 @@ export class SpendingTracker {
   getWeeklySpentEth(): string {
     return ethers.formatEther(this.getWeeklySpent());
   }
+
+  private write(token: string, w: StoredWindow): void {
+    const session = (this.state.sessions[this.sessionKey] ??= {});
+    session[token.toLowerCase()] = w;
+    this.store.save(this.state);
+  }
+}
+
+/**
+ * Compare the software ETH counters with the policy module's `getSpending`
+ * for the same session key, evaluated at the latest block's timestamp.
+ *
+ * The module only tracks native ETH value, so only the ETH window is
+ * reconciled. With `adopt`, drift is resolved by taking the on-chain
+ * values — the module is the real enforcement.
+ */
+export async function reconcileSpending(
+  config: Config,
+  tracker: SpendingTracker,
+  sessionKey: string,
+  adopt: boolean
+): Promise<SpendingDrift> {
+  const module = getPolicyModule(config);
+  const [s, block] = await Promise.all([
+    module.getSpending(sessionKey),
+    getProvider(config).getBlock("latest"),
+  ]);
+  const now = block?.timestamp ?? Math.floor(Date.now() / 1000);
+
+  const lastDayReset = Number(s.lastDayReset);
+  const lastWeekReset = Number(s.lastWeekReset);
+  const onChain: SpendingWindow = {
+    dailySpent: now > lastDayReset + ONE_DAY ? 0n : s.dailySpent,
+    weeklySpent: now > lastWeekReset + ONE_WEEK ? 0n : s.weeklySpent,
+    lastDayReset,
+    lastWeekReset,
+  };
+  const software = tracker.getWindow(ethers.ZeroAddress, now);
+
+  const dailyDrift = software.dailySpent - onChain.dailySpent;
+  const weeklyDrift = software.weeklySpent - onChain.weeklySpent;
+  const inSync = dailyDrift === 0n && weeklyDrift === 0n;
+
+  if (adopt && !inSync) {
+    // Keep the raw on-chain counters so the windows roll over exactly when the module's do
+    tracker.adopt({ dailySpent: s.dailySpent, weeklySpent: s.weeklySpent, lastDayReset, lastWeekReset });
+  }
+
+  return { sessionKey, software, onChain, dailyDrift, weeklyDrift, inSync, adopted: adopt && !inSync };
 }
@@ -0,0 +1,468 @@
+import path from "path";
+import { ethers } from "ethers";
+import { Config } from "../config.js";
+import { getProvider, getSigner } from "../provider.js";
+import { JsonFileStore } from "../storage.js";
+
+export type TxStatus = "pending" | "confirmed" | "failed" | "dropped" | "replaced";
+
+/** What a transaction counts towards the software policy once it is mined successfully. */
+export interface TxAccounting {
+  /** What it moves out of the Safe: token address (zero address = ETH) and amount in base units. */
+  spends: { token: string; amount: string }[];
+  /** Contract function it counts as towards a rate limit. */
+  functionName: string | null;
+  /** Unix time its rate-limit slot was reserved at, to give back if it fails. */
+  reservedAt?: number;
+}
+
+/** A transaction sent by the session key, as persisted across restarts. */
+export interface TxRecord {
+  hash: string;
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  label: string;
+  submittedAt: number;
+  status: TxStatus;
+  blockNumber?: number;
+  /** Hash of the speed-up or cancel transaction sent at the same nonce. */
+  replacedBy?: string;
+  /** Hash of the transaction this one replaces. */
+  replaces?: string;
+  accounting?: TxAccounting;
+}
+
+interface TxQueueState {
+  // session key (lowercase) → records, oldest first
+  txs: Record<string, TxRecord[]>;
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+// Finished records kept per session key for reporting
+const HISTORY_LIMIT = 50;
+
+// How often handover() re-checks the old key's pending transactions
+const DRAIN_POLL_MS = 2000;
+
+// Nodes reject a same-nonce replacement unless both fees rise by at least 10%
+const MIN_REPLACEMENT_BUMP = 10n;
+
+/** Error thrown when a transaction isn't mined within the confirmation timeout. */
+export class TxTimeoutError extends Error {
+  readonly record: TxRecord;
+
+  constructor(record: TxRecord, timeoutSec: number) {
+    super(
+      `Transaction ${record.hash} (nonce ${record.nonce}) not confirmed after ${timeoutSec}s and is still pending. ` +
+      `Use speed-up-tx to resend it with a higher fee, or cancel-tx to replace it with a no-op.`
+    );
+    this.name = "TxTimeoutError";
+    this.record = record;
+  }
+}
+
+/**
+ * Serialized write queue for the session key.
+ *
+ * MCP clients can call several write tools at once, and all of them sign
+ * with the same key. Submissions go through a single lock that assigns the
+ * next nonce locally, signs and broadcasts, and records the tx hash on disk
+ * before releasing — so nonces never collide. Confirmations are awaited
+ * outside the lock, which lets several transactions be in flight at once.
+ *
+ * Fees are EIP-1559, clamped to MAX_FEE_GWEI / MAX_PRIORITY_FEE_GWEI. A
+ * transaction that isn't mined within TX_CONFIRM_TIMEOUT_SEC stays pending
+ * and can be sped up or cancelled at the same nonce.
+ *
+ * After a crash, `resume()` re-checks every persisted pending transaction
+ * and reports what happened to it.
+ *
+ * Listeners registered with `onConfirmed` hear about every transaction that
+ * is mined successfully, including ones mined after `wait()` gave up on them
+ * or after a restart — that is when a transaction's `accounting` is due.
+ * Listeners registered with `onFailed` hear, once per call, about the ones
+ * that never will be: reverted, cancelled or dropped.
+ */
+export class TxQueue {
+  private config: Config;
+  private store: JsonFileStore<TxQueueState>;
+  private state: TxQueueState;
+  private nextNonce: number | null = null;
+  private lock: Promise<void> = Promise.resolve();
+  private confirmedListeners = new Set<(record: TxRecord) => void>();
+  private failedListeners = new Set<(record: TxRecord) => void>();
+
+  constructor(config: Config) {
+    this.config = config;
+    this.store = new JsonFileStore<TxQueueState>(
+      path.join(config.dataDir, `txs-${config.chainId}.json`),
+      () => ({ txs: {} })
+    );
+    this.state = this.store.load();
+  }
+
+  private get address(): string {
+    return getSigner(this.config).address;
+  }
+
+  private records(): TxRecord[] {
+    return (this.state.txs[this.address.toLowerCase()] ??= []);
+  }
+
+  /** Transactions sent by the current session key, newest first. */
+  list(status?: TxStatus): TxRecord[] {
+    return this.records()
+      .filter((r) => !status || r.status === status)
+      .slice()
+      .reverse();
+  }
+
+  get(hash: string): TxRecord | undefined {
+    return this.records().find((r) => r.hash.toLowerCase() === hash.toLowerCase());
+  }
+
+  /** Subscribe to transactions being mined successfully; returns the unsubscribe function. */
+  onConfirmed(listener: (record: TxRecord) => void): () => void {
+    this.confirmedListeners.add(listener);
+    return () => this.confirmedListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to calls that end without being mined successfully — reverted,
+   * replaced by a cancel, or dropped. A call and its speed-ups are reported
+   * once. Returns the unsubscribe function.
+   */
+  onFailed(listener: (record: TxRecord) => void): () => void {
+    this.failedListeners.add(listener);
+    return () => this.failedListeners.delete(listener);
+  }
+
+  /**
+   * Assign a nonce, sign, broadcast and persist a transaction, with what it
+   * counts towards the software policy once mined. Calls are serialized;
+   * the returned response has not been mined yet.
+   */
+  async submit(tx: ethers.TransactionRequest, label: string, accounting?: TxAccounting): Promise<ethers.TransactionResponse> {
+    return this.exclusive(async () => {
+      const signer = getSigner(this.config);
+      if (this.nextNonce === null) {
+        this.nextNonce = await signer.getNonce("pending");
+      }
+      const fees = await this.fees();
+
+      let response: ethers.TransactionResponse;
+      try {
+        response = await signer.sendTransaction({ ...tx, ...fees, nonce: this.nextNonce });
+      } catch (err) {
+        // We can't tell whether the nonce was consumed — resync from the node next time
+        this.nextNonce = null;
+        throw err;
+      }
+      this.nextNonce++;
+
+      this.records().push({ ...this.toRecord(response, label), ...(accounting ? { accounting } : {}) });
+      this.save();
+      return response;
+    });
+  }
+
+  /**
+   * Wait for a submitted transaction and record its outcome.
+   *
+   * If the transaction was sped up, the replacement's receipt is returned.
+   * If it was cancelled or isn't mined within the timeout, this throws;
+   * a timed-out transaction keeps being watched in the background.
+   */
+  async wait(
+    response: ethers.TransactionResponse,
+    timeoutSec = this.config.txConfirmTimeoutSec
+  ): Promise<ethers.TransactionReceipt> {
+    try {
+      const receipt = (await response.wait(1, timeoutSec * 1000))!;
+      this.settle(receipt);
+      return receipt;
+    } catch (err: any) {
+      if (ethers.isError(err, "TIMEOUT")) {
+        void this.wait(response, 0).catch(() => undefined);
+        const record = this.get(response.hash);
+        throw record ? new TxTimeoutError(record, timeoutSec) : err;
+      }
+      if (ethers.isError(err, "TRANSACTION_REPLACED")) {
+        this.settle(err.receipt);
+        if (err.reason === "repriced" && err.receipt.status === 1) {
+          return err.receipt;
+        }
+        throw new Error(`Transaction ${response.hash} was ${err.reason === "repriced" ? "sped up but reverted" : err.reason} (${err.hash})`);
+      }
+      if (ethers.isError(err, "CALL_EXCEPTION") && err.receipt) {
+        this.settle(err.receipt);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Resend a pending transaction at the same nonce with bumped fees.
+   * The original is marked replaced; whichever one is mined wins.
+   */
+  async speedUp(hash: string, bumpPercent = this.config.feeBumpPercent): Promise<TxRecord> {
+    return this.replace(hash, bumpPercent, (r) => ({
+      tx: { to: r.to, data: r.data, value: BigInt(r.value), gasLimit: BigInt(r.gasLimit) },
+      label: r.label,
+      accounting: r.accounting,
+    }));
+  }
+
+  /** Replace a pending transaction with a zero-value self-send at the same nonce. */
+  async cancel(hash: string, bumpPercent = this.config.feeBumpPercent): Promise<TxRecord> {
+    return this.replace(hash, bumpPercent, (r) => ({
+      tx: { to: r.from, data: "0x", value: 0n, gasLimit: 21000n },
+      label: `cancel ${r.label}`,
+    }));
+  }
+
+  /**
+   * Re-check persisted pending transactions against the node.
+   * Mined ones are marked confirmed/failed (and same-nonce siblings
+   * replaced); ones the node no longer knows whose nonce has been used are
+   * marked dropped.
+   */
+  async refresh(): Promise<TxRecord[]> {
+    const provider = getProvider(this.config);
+    // Replaced records stay open until some transaction at their nonce is mined
+    const open = this.records().filter(
+      (r) => r.status === "pending" || (r.status === "replaced" && r.blockNumber === undefined)
+    );
+    if (open.length === 0) return [];
+
+    const minedNonce = await provider.getTransactionCount(this.address, "latest");
+    for (const r of open) {
+      const receipt = await provider.getTransactionReceipt(r.hash);
+      if (receipt) {
+        this.settle(receipt);
+      } else if (r.status === "pending" && minedNonce > r.nonce && !(await provider.getTransaction(r.hash))) {
+        const unsettled = this.records().filter((o) => o.nonce === r.nonce && o.blockNumber === undefined);
+        r.status = "dropped";
+        this.reportFailed(unsettled, null);
+      }
+    }
+    this.save();
+    return open;
+  }
+
+  /**
+   * Re-check pending transactions after a restart and keep watching the
+   * ones still in the mempool.
+   */
+  async resume(): Promise<TxRecord[]> {
+    const checked = await this.refresh();
+    const provider = getProvider(this.config);
+    for (const r of checked.filter((r) => r.status === "pending")) {
+      const tx = await provider.getTransaction(r.hash);
+      if (tx) void this.wait(tx, 0).catch(() => undefined);
+    }
+    return checked;
+  }
+
+  /**
+   * Hand the queue over to another session key: hold the submission lock,
+   * wait until every pending transaction of the current key is mined (or
+   * dropped), then run `switchKey` and start nonces afresh for the new key.
+   * Writes submitted meanwhile wait and go out from the new key. Returns
+   * the transactions that were waited for; throws, without switching, if
+   * some are still pending after the timeout.
+   */
+  async handover(switchKey: () => void, timeoutSec = this.config.txConfirmTimeoutSec): Promise<TxRecord[]> {
+    return this.exclusive(async () => {
+      const waited = this.records().filter((r) => r.status === "pending");
+      const deadline = Date.now() + timeoutSec * 1000;
+      for (;;) {
+        await this.refresh();
+        const pending = this.records().filter((r) => r.status === "pending");
+        if (pending.length === 0) break;
+        if (Date.now() >= deadline) {
+          throw new Error(
+            `${pending.length} transaction(s) of ${this.address} still pending after ${timeoutSec}s ` +
+            `(${pending.map((r) => `nonce ${r.nonce} ${r.hash}`).join(", ")}). Speed them up or cancel them, then retry.`
+          );
+        }
+        await new Promise((resolve) => setTimeout(resolve, DRAIN_POLL_MS));
+      }
+
+      switchKey();
+      this.nextNonce = null;
+      return waited;
+    });
+  }
+
+  private async replace(
+    hash: string,
+    bumpPercent: number,
+    build: (r: TxRecord) => { tx: ethers.TransactionRequest; label: string; accounting?: TxAccounting }
+  ): Promise<TxRecord> {
+    await this.refresh();
+    return this.exclusive(async () => {
+      const old = this.get(hash);
+      if (!old) throw new Error(`Unknown transaction ${hash}`);
+      if (old.status !== "pending") throw new Error(`Transaction ${hash} is ${old.status}, not pending`);
+      if (!old.maxFeePerGas || !old.maxPriorityFeePerGas) {
+        throw new Error(`Transaction ${hash} was not sent with EIP-1559 fees and can't be replaced here`);
+      }
+
+      const bump = (fee: string, pct: bigint) => (BigInt(fee) * (100n + pct)) / 100n;
+      const fees = await this.fees({
+        maxFeePerGas: bump(old.maxFeePerGas, BigInt(bumpPercent)),
+        maxPriorityFeePerGas: bump(old.maxPriorityFeePerGas, BigInt(bumpPercent)),
+      });
+      if (
+        fees.maxFeePerGas < bump(old.maxFeePerGas, MIN_REPLACEMENT_BUMP) ||
+        fees.maxPriorityFeePerGas < bump(old.maxPriorityFeePerGas, MIN_REPLACEMENT_BUMP)
+      ) {
+        throw new Error(
+          `Replacement needs fees at least 10% above the original (max fee ${ethers.formatUnits(old.maxFeePerGas, "gwei")} gwei), ` +
+          `which the configured MAX_FEE_GWEI / MAX_PRIORITY_FEE_GWEI caps don't allow`
+        );
+      }
+
+      const { tx, label, accounting } = build(old);
+      const response = await getSigner(this.config).sendTransaction({ ...tx, ...fees, nonce: old.nonce });
+
+      old.status = "replaced";
+      old.replacedBy = response.hash;
+      this.records().push({ ...this.toRecord(response, label), replaces: old.hash, ...(accounting ? { accounting } : {}) });
+      this.save();
+
+      void this.wait(response, 0).catch(() => undefined);
+      return this.get(response.hash)!;
+    });
+  }
+
+  /**
+   * Current network EIP-1559 fees, raised to at least `floor` and clamped
+   * to the configured caps.
+   */
+  private async fees(floor?: Fees): Promise<Fees> {
+    const feeData = await getProvider(this.config).getFeeData();
+    let maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? 0n;
+
+    if (floor) {
+      if (floor.maxFeePerGas > maxFeePerGas) maxFeePerGas = floor.maxFeePerGas;
+      if (floor.maxPriorityFeePerGas > maxPriorityFeePerGas) maxPriorityFeePerGas = floor.maxPriorityFeePerGas;
+    }
+    if (this.config.maxFeeGwei !== null) {
+      const cap = ethers.parseUnits(this.config.maxFeeGwei, "gwei");
+      if (maxFeePerGas > cap) maxFeePerGas = cap;
+    }
+    if (this.config.maxPriorityFeeGwei !== null) {
+      const cap = ethers.parseUnits(this.config.maxPriorityFeeGwei, "gwei");
+      if (maxPriorityFeePerGas > cap) maxPriorityFeePerGas = cap;
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas) maxPriorityFeePerGas = maxFeePerGas;
+
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Record a mined receipt; other transactions at the same nonce were
+   * replaced by it. Listeners hear of the outcome once, however many
+   * watchers see the receipt.
+   */
+  private settle(receipt: ethers.TransactionReceipt): void {
+    const mined = this.get(receipt.hash);
+    if (!mined) return;
+    const confirmed = receipt.status === 1 && mined.status !== "confirmed";
+    const unsettled = mined.blockNumber === undefined
+      ? this.records().filter((r) => r.nonce === mined.nonce && r.blockNumber === undefined)
+      : [];
+    mined.status = receipt.status === 1 ? "confirmed" : "failed";
+    mined.blockNumber = receipt.blockNumber;
+    delete mined.replacedBy;
+    for (const r of this.records()) {
+      if (r !== mined && r.nonce === mined.nonce && (r.status === "pending" || r.status === "replaced")) {
+        r.status = "replaced";
+        r.replacedBy = mined.hash;
+        r.blockNumber = receipt.blockNumber;
+      }
+    }
+    this.save();
+
+    if (confirmed) this.notify(this.confirmedListeners, mined);
+    this.reportFailed(unsettled, receipt.status === 1 ? mined : null);
+  }
+
+  /**
+   * Tell the onFailed listeners about the calls among `records` — all at
+   * one nonce — that didn't succeed: any but `succeeded` and its speed-ups,
+   * which carry the same accounting.
+   */
+  private reportFailed(records: TxRecord[], succeeded: TxRecord | null): void {
+    const seen = new Set(succeeded?.accounting ? [JSON.stringify(succeeded.accounting)] : []);
+    for (const r of records) {
+      if (!r.accounting) continue;
+      const key = JSON.stringify(r.accounting);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      this.notify(this.failedListeners, r);
+    }
+  }
+
+  private notify(listeners: Set<(record: TxRecord) => void>, record: TxRecord): void {
+    for (const listener of listeners) {
+      try {
+        listener(record);
+      } catch (err: any) {
+        console.error(`TxQueue listener failed for ${record.hash}: ${err.message}`);
+      }
+    }
+  }
+
+  private toRecord(response: ethers.TransactionResponse, label: string): TxRecord {
+    return {
+      hash: response.hash,
+      from: response.from,
+      nonce: response.nonce,
+      to: response.to ?? "",
+      data: response.data,
+      value: response.value.toString(),
+      gasLimit: response.gasLimit.toString(),
+      maxFeePerGas: response.maxFeePerGas?.toString() ?? null,
+      maxPriorityFeePerGas: response.maxPriorityFeePerGas?.toString() ?? null,
+      label,
+      submittedAt: Math.floor(Date.now() / 1000),
+      status: "pending",
+    };
+  }
+
+  private save(): void {
+    const records = this.records();
+    const finished = records.filter((r) => r.status !== "pending");
+    if (finished.length > HISTORY_LIMIT) {
+      const drop = new Set(finished.slice(0, finished.length - HISTORY_LIMIT));
+      this.state.txs[this.address.toLowerCase()] = records.filter((r) => !drop.has(r));
+    }
+    this.store.save(this.state);
+  }
+
+  private async exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const previous = this.lock;
+    let release!: () => void;
+    this.lock = new Promise<void>((resolve) => (release = resolve));
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Artifacts } from "hardhat/types";
+import { runTypeChain } from "typechain";
+
+const ROOT = path.join(__dirname, "..");
+
+/** Where the MCP server's TypeChain bindings (ABIs + typed factories) live. */
+export const TYPECHAIN_DIR = path.join(ROOT, "mcp-server", "src", "typechain");
+
+// Contracts the MCP server talks to. IERC20Errors supplies the token revert
+// errors that protocol calls can bubble up; IGnosisSafe the owner-signed
+// execution path for transactions that need human approval.
+const CONTRACTS = [
+  "AgentPact",
+  "OracleRegistry",
+  "OracleRouter",
+  "AgentPolicyModule",
+  "IERC20Metadata",
+  "IERC20Errors",
+  "IGnosisSafe",
+];
+
+/**
+ * Generate ethers-v6 TypeChain bindings for the server's contracts into
+ * `outDir`. Uses Node16-style `.js` imports so the ESM server can load them.
+ */
+export async function generateTypes(artifacts: Artifacts, outDir: string): Promise<void> {
+  // TypeChain derives type names from file names, so feed it one ABI file per contract
+  const abiDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-pact-abis-"));
+  try {
+    const files: string[] = [];
+    for (const name of CONTRACTS) {
+      const artifact = await artifacts.readArtifact(name);
+      const file = path.join(abiDir, `${name}.json`);
+      fs.writeFileSync(file, JSON.stringify(artifact.abi));
+      files.push(file);
+    }
+
+    fs.rmSync(outDir, { recursive: true, force: true });
+    await runTypeChain({
+      cwd: ROOT,
+      filesToProcess: files,
+      allFiles: files,
+      outDir,
+      target: "ethers-v6",
+      flags: { alwaysGenerateOverloads: false, discriminateTypes: false, node16Modules: true, environment: undefined },
+    });
+  } finally {
+    fs.rmSync(abiDir, { recursive: true, force: true });
+  }
+}
+
+/** Read every file under `dir` as relative path → contents. */
+export function readTree(dir: string): Map<string, string> {
+  const out = new Map<string, string>();
+  const walk = (sub: string) => {
+    for (const entry of fs.readdirSync(path.join(dir, sub), { withFileTypes: true })) {
+      const rel = path.join(sub, entry.name);
+      if (entry.isDirectory()) walk(rel);
+      else out.set(rel, fs.readFileSync(path.join(dir, rel), "utf8"));
+    }
+  };
+  if (fs.existsSync(dir)) walk("");
+  return out;
+}
@@ -1,44 +1,326 @@
-import { ethers } from "hardhat";
+import fs from "fs";
+import path from "path";
+import { ethers, network, run } from "hardhat";
+import { Contract, ContractTransactionResponse, Signer } from "ethers";
+
+/**
+ * Deploys and wires up the protocol, idempotently: re-running it picks up
+ * where it stopped. Every deployment and wiring transaction is recorded in
+ * deployments/<network>.json, which the MCP server reads with
+ * `--network <profile>`. Contracts already in the manifest are reused, and
+ * wiring steps the chain already shows as done are skipped.
+ *
+ *   SAFE_ADDRESS         Safe the AgentPolicyModule is bound to (a MockSafe is deployed on localhost if unset)
+ *   SESSION_KEY_ADDRESS  Agent session key to grant an initial session (optional)
+ *   VERIFY=true          Verify the contracts on the block explorer
+ *   DEPLOYMENTS_DIR      Where to keep the manifest (default: deployments/)
+ */
+
+// Initial session policy, as in the MCP server's built-in session templates
+const SESSION_MAX_PER_TX = ethers.parseEther("0.5");
+const SESSION_MAX_DAILY = ethers.parseEther("2");
+const SESSION_MAX_WEEKLY = ethers.parseEther("10");
+const SESSION_DAYS = 30;
+
+// The parts of a Safe (v1.3+) needed to enable a module
+const SAFE_ABI = [
+  "function isModuleEnabled(address module) view returns (bool)",
+  "function enableModule(address module)",
+  "function getThreshold() view returns (uint256)",
+  "function isOwner(address owner) view returns (bool)",
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)",
+];
+
+// Wiring step → contracts it configures; redeploying one of them clears its record
+const WIRING_CONTRACTS: Record<string, string[]> = {
+  moduleEnabled: ["AgentPolicyModule"],
+  pactContractAllowed: ["OracleRouter", "AgentPact"],
+  pactWhitelistEnabled: ["OracleRouter"],
+  sessionGranted: ["AgentPolicyModule"],
+};
+
+// Hardhat network → MCP server network profile
+const SERVER_PROFILES: Record<string, string> = { localhost: "local", baseSepolia: "baseSepolia", base: "base" };
+
+interface DeployedContract {
+  address: string;
+  txHash: string;
+  /** Unset until the deployment is mined. */
+  blockNumber?: number;
+  /** Constructor arguments, for verification. */
+  args: string[];
+  verified?: boolean;
+}
+
+interface Manifest {
+  network: string;
+  chainId: number;
+  deployer: string;
+  updatedAt: string;
+  contracts: Record<string, DeployedContract>;
+  /** The Safe the AgentPolicyModule is bound to. */
+  safeAddress?: string;
+  /** Session key granted the initial session. */
+  sessionKey?: string;
+  /** Wiring step → transaction hash, or "pending" while it waits for the Safe owners. */
+  wiring: Record<string, string>;
+}
+
+function manifestPath(): string {
+  const dir = process.env.DEPLOYMENTS_DIR ? path.resolve(process.env.DEPLOYMENTS_DIR) : path.join(__dirname, "..", "deployments");
+  return path.join(dir, `${network.name}.json`);
+}
+
+function loadManifest(chainId: number, deployer: string): Manifest {
+  if (!fs.existsSync(manifestPath())) {
+    return { network: network.name, chainId, deployer, updatedAt: "", contracts: {}, wiring: {} };
+  }
+  const manifest: Manifest = JSON.parse(fs.readFileSync(manifestPath(), "utf8"));
+  if (manifest.chainId !== chainId) {
+    throw new Error(`${manifestPath()} is for chain ${manifest.chainId}, but ${network.name} is chain ${chainId}`);
+  }
+  return { ...manifest, wiring: manifest.wiring ?? {} };
+}
+
+function save(manifest: Manifest): void {
+  // Contracts deployed to the in-process network are gone when the script exits
+  if (network.name === "hardhat") return;
+  manifest.updatedAt = new Date().toISOString();
+  fs.mkdirSync(path.dirname(manifestPath()), { recursive: true });
+  fs.writeFileSync(manifestPath(), JSON.stringify(manifest, null, 2) + "\n");
+}
+
+/**
+ * Wait for a recorded deployment to be mined. False if it never will be:
+ * the transaction was dropped, or the chain was reset since.
+ */
+async function settle(manifest: Manifest, entry: DeployedContract): Promise<boolean> {
+  const tx = await ethers.provider.getTransaction(entry.txHash);
+  if (!tx) return false;
+  const receipt = await tx.wait();
+  if (receipt?.contractAddress !== entry.address) return false;
+  if (entry.blockNumber === undefined) {
+    entry.blockNumber = receipt.blockNumber;
+    save(manifest);
+  }
+  return true;
+}
+
+async function deploy(manifest: Manifest, name: string, args: unknown[]): Promise<Contract> {
+  const entry = manifest.contracts[name];
+  if (entry && (await settle(manifest, entry))) {
+    console.log(`${name}: reusing ${entry.address}`);
+    return ethers.getContractAt(name, entry.address);
+  }
+
+  const factory = await ethers.getContractFactory(name);
+  const contract = await factory.deploy(...args);
+  // Recorded before it is mined, so an interrupted run waits for it instead of deploying again
+  const deployed: DeployedContract = {
+    address: await contract.getAddress(),
+    txHash: contract.deploymentTransaction()!.hash,
+    args: args.map(String),
+  };
+  manifest.contracts[name] = deployed;
+  for (const [step, contracts] of Object.entries(WIRING_CONTRACTS)) {
+    if (contracts.includes(name)) delete manifest.wiring[step];
+  }
+  if (name === "AgentPolicyModule") delete manifest.sessionKey;
+  save(manifest);
+  if (!(await settle(manifest, deployed))) {
+    throw new Error(`Deploying ${name} failed (tx ${deployed.txHash})`);
+  }
+  console.log(`${name} deployed to: ${deployed.address}`);
+  return ethers.getContractAt(name, deployed.address);
+}
+
+async function record(manifest: Manifest, step: string, pending: Promise<ContractTransactionResponse>): Promise<void> {
+  const tx = await pending;
+  await tx.wait();
+  manifest.wiring[step] = tx.hash;
+  save(manifest);
+  console.log(`${step}: ${tx.hash}`);
+}
+
+async function requireOwner(contract: Contract, name: string, deployer: Signer): Promise<void> {
+  const owner = await contract.owner();
+  if (owner !== (await deployer.getAddress())) {
+    throw new Error(`${name} at ${await contract.getAddress()} is owned by ${owner}, not the deployer`);
+  }
+}
+
+/**
+ * Enable the module on the Safe. A deployer that owns the Safe alone sends
+ * the Safe transaction itself; otherwise the step stays pending until the
+ * owners run it (e.g. with the Safe app's transaction builder).
+ */
+async function enableModule(manifest: Manifest, safeAddress: string, moduleAddress: string, deployer: Signer): Promise<void> {
+  const safe = new Contract(safeAddress, SAFE_ABI, deployer);
+  if (await safe.isModuleEnabled(moduleAddress)) {
+    if (manifest.wiring.moduleEnabled === "pending") delete manifest.wiring.moduleEnabled;
+    console.log("moduleEnabled: already done");
+    return;
+  }
+
+  const data = safe.interface.encodeFunctionData("enableModule", [moduleAddress]);
+  const deployerAddress = await deployer.getAddress();
+  const [threshold, isOwner] = await Promise.all([safe.getThreshold(), safe.isOwner(deployerAddress)]);
+  if (threshold !== 1n || !isOwner) {
+    manifest.wiring.moduleEnabled = "pending";
+    save(manifest);
+    console.log(`moduleEnabled: pending — the Safe's owners must send a transaction from ${safeAddress} to itself with data ${data}`);
+    return;
+  }
+
+  // An owner sending execTransaction itself approves it with a pre-validated signature (v = 1)
+  const signature = ethers.concat([ethers.zeroPadValue(deployerAddress, 32), ethers.ZeroHash, "0x01"]);
+  await record(
+    manifest,
+    "moduleEnabled",
+    safe.execTransaction(safeAddress, 0, data, 0, 0, 0, 0, ethers.ZeroAddress, ethers.ZeroAddress, signature)
+  );
+  if (!(await safe.isModuleEnabled(moduleAddress))) {
+    throw new Error(`The Safe transaction went through, but ${moduleAddress} is still not enabled on ${safeAddress}`);
+  }
+}
+
+async function verify(manifest: Manifest): Promise<void> {
+  for (const [name, entry] of Object.entries(manifest.contracts)) {
+    if (entry.verified) continue;
+    try {
+      await run("verify:verify", { address: entry.address, constructorArguments: entry.args });
+      entry.verified = true;
+    } catch (err: any) {
+      if (!/already verified/i.test(err.message)) {
+        console.error(`Verifying ${name} failed: ${err.message}`);
+        continue;
+      }
+      entry.verified = true;
+    }
+    save(manifest);
+  }
+}
 
 async function main() {
   const [deployer] = await ethers.getSigners();
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const local = network.name === "hardhat" || network.name === "localhost";
+  const safeAddress = process.env.SAFE_ADDRESS ? ethers.getAddress(process.env.SAFE_ADDRESS) : null;
+  const sessionKey = process.env.SESSION_KEY_ADDRESS ? ethers.getAddress(process.env.SESSION_KEY_ADDRESS) : null;
+  if (!safeAddress && !local) {
+    throw new Error(`Set SAFE_ADDRESS: on ${network.name} the AgentPolicyModule is bound to an existing Safe`);
+  }
+
   console.log("Deploying contracts with:", deployer.address);
   console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)));
+  const manifest = loadManifest(chainId, deployer.address);
 
   // Deploy OracleRegistry
   const minStake = ethers.parseEther("0.01");
-  const OracleRegistry = await ethers.getContractFactory("OracleRegistry");
-  const registry = await OracleRegistry.deploy(minStake);
-  await registry.waitForDeployment();
-  const registryAddr = await registry.getAddress();
-  console.log("OracleRegistry deployed to:", registryAddr);
+  const registry = await deploy(manifest, "OracleRegistry", [minStake]);
 
   // Deploy AgentPact
-  const AgentPact = await ethers.getContractFactory("AgentPact");
-  const pact = await AgentPact.deploy();
-  await pact.waitForDeployment();
-  const pactAddr = await pact.getAddress();
-  console.log("AgentPact deployed to:", pactAddr);
+  const pact = await deploy(manifest, "AgentPact", []);
 
   // Deploy OracleRouter
   const routerMinStake = ethers.parseEther("0.1");
   const routerFeeBps = 500;        // 5% protocol fee
   const defaultJobTimeout = 3600;  // 1 hour for validators to respond
-  const OracleRouter = await ethers.getContractFactory("OracleRouter");
-  const router = await OracleRouter.deploy(routerMinStake, routerFeeBps, defaultJobTimeout);
-  await router.waitForDeployment();
-  const routerAddr = await router.getAddress();
-  console.log("OracleRouter deployed to:", routerAddr);
+  const router = await deploy(manifest, "OracleRouter", [routerMinStake, routerFeeBps, defaultJobTimeout]);
+
+  // Deploy AgentPolicyModule, bound to the Safe. Locally a MockSafe stands
+  // in, which runs module calls without the module being enabled
+  const safe = safeAddress ?? (await (await deploy(manifest, "MockSafe", [])).getAddress());
+  const module = await deploy(manifest, "AgentPolicyModule", [safe]);
+  const moduleSafe = await module.safe();
+  if (moduleSafe !== safe) {
+    throw new Error(
+      `AgentPolicyModule at ${await module.getAddress()} is bound to Safe ${moduleSafe}, not ${safe}; ` +
+      `remove it from ${manifestPath()} to deploy one for this Safe`
+    );
+  }
+  manifest.safeAddress = safe;
+  save(manifest);
+
+  const [registryAddr, pactAddr, routerAddr, moduleAddr] = await Promise.all(
+    [registry, pact, router, module].map((c) => c.getAddress())
+  );
+
+  console.log("\nWiring:");
+  if (safeAddress) {
+    await enableModule(manifest, safe, moduleAddr, deployer);
+  }
+
+  // Only accept verification jobs from this AgentPact
+  if (await router.allowedPactContracts(pactAddr)) {
+    console.log("pactContractAllowed: already done");
+  } else {
+    await requireOwner(router, "OracleRouter", deployer);
+    await record(manifest, "pactContractAllowed", router.setAllowedPactContract(pactAddr, true));
+  }
+  if (await router.pactWhitelistEnabled()) {
+    console.log("pactWhitelistEnabled: already done");
+  } else {
+    await requireOwner(router, "OracleRouter", deployer);
+    await record(manifest, "pactWhitelistEnabled", router.setPactWhitelistEnabled(true));
+  }
+
+  if (!sessionKey) {
+    console.log("sessionGranted: skipped (no SESSION_KEY_ADDRESS)");
+  } else if (await module.isSessionActive(sessionKey)) {
+    console.log(`sessionGranted: ${sessionKey} already has an active session`);
+  } else {
+    await requireOwner(module, "AgentPolicyModule", deployer);
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    await record(
+      manifest,
+      "sessionGranted",
+      module.grantSession(
+        sessionKey,
+        SESSION_MAX_PER_TX,
+        SESSION_MAX_DAILY,
+        SESSION_MAX_WEEKLY,
+        0,
+        [pactAddr, routerAddr, registryAddr],
+        [],
+        [],
+        now + SESSION_DAYS * 86400
+      )
+    );
+    manifest.sessionKey = sessionKey;
+    save(manifest);
+  }
+
+  if (process.env.VERIFY === "true") {
+    if (local) {
+      console.log("\nSkipping verification on a local network");
+    } else {
+      console.log("\nVerifying contracts...");
+      await verify(manifest);
+    }
+  }
 
   console.log("\nDeployment complete!");
   console.log("OracleRegistry:", registryAddr);
   console.log("AgentPact:", pactAddr);
   console.log("OracleRouter:", routerAddr);
+  console.log("AgentPolicyModule:", moduleAddr);
+  console.log("Safe:", safe);
+  const pending = Object.keys(manifest.wiring).filter((step) => manifest.wiring[step] === "pending");
+  if (pending.length > 0) {
+    console.log(`Pending: ${pending.join(", ")} — run the script again once done`);
+  }
 
+  const profile = SERVER_PROFILES[network.name];
+  if (profile) {
+    console.log(`\nManifest: ${path.relative(process.cwd(), manifestPath())} — start the MCP server with --network ${profile}`);
+  }
   console.log("\nEnvironment variables for MCP server:");
   console.log(`AGENT_PACT_ADDRESS=${pactAddr}`);
   console.log(`ORACLE_REGISTRY_ADDRESS=${registryAddr}`);
   console.log(`ORACLE_ROUTER_ADDRESS=${routerAddr}`);
+  console.log(`POLICY_MODULE_ADDRESS=${moduleAddr}`);
+  console.log(`SAFE_ADDRESS=${safe}`);
 }
 
 main().catch((error) => {
@@ -0,0 +1,13 @@
+import path from "path";
+import { artifacts } from "hardhat";
+import { TYPECHAIN_DIR, generateTypes } from "./abi-codegen";
+
+async function main() {
+  await generateTypes(artifacts, TYPECHAIN_DIR);
+  console.log("TypeChain bindings written to:", path.relative(process.cwd(), TYPECHAIN_DIR));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -179,6 +179,72 @@ describe("AgentPolicyModule", function () {
     });
   });
 
+  // ──────────────────────────────────────────────
+  // rotateSession
+  // ──────────────────────────────────────────────
+
+  describe("rotateSession", function () {
+    it("should grant the new key the old key's policy and revoke the old key in one transaction", async function () {
+      await grantDefaultSession();
+      const calldata = SELECTOR_CREATE_PACT + "0".repeat(56);
+      await module.validateTransaction(agent.address, targetContract.address, ethers.parseEther("0.3"), calldata);
+      const newExpiry = expiresAt + 86400;
+
+      await expect(module.rotateSession(agent.address, other.address, newExpiry))
+        .to.emit(module, "SessionGranted")
+        .withArgs(other.address, MAX_PER_TX, MAX_DAILY, MAX_WEEKLY, newExpiry)
+        .and.to.emit(module, "SessionRevoked")
+        .withArgs(agent.address);
+
+      const session = await module.getSession(other.address);
+      expect(session.maxPerTx).to.equal(MAX_PER_TX);
+      expect(session.maxDaily).to.equal(MAX_DAILY);
+      expect(session.maxWeekly).to.equal(MAX_WEEKLY);
+      expect(session.humanApprovalAbove).to.equal(HUMAN_APPROVAL_ABOVE);
+      expect(session.allowedContracts).to.deep.equal([targetContract.address]);
+      expect(session.allowedFunctions).to.deep.equal([SELECTOR_CREATE_PACT, SELECTOR_ACCEPT_PACT]);
+      expect(session.expiresAt).to.equal(newExpiry);
+      expect(session.active).to.be.true;
+      expect((await module.getSession(agent.address)).active).to.be.false;
+      expect((await module.getSpending(other.address)).dailySpent).to.equal(0);
+      expect(await module.sessionCount()).to.equal(1);
+    });
+
+    it("should reject rotating an inactive session", async function () {
+      await expect(
+        module.rotateSession(agent.address, other.address, expiresAt)
+      ).to.be.revertedWith("Session not active");
+    });
+
+    it("should reject a new key that is already active", async function () {
+      await grantDefaultSession();
+      await module.grantSession(
+        other.address, MAX_PER_TX, MAX_DAILY, MAX_WEEKLY, HUMAN_APPROVAL_ABOVE,
+        [targetContract.address], [SELECTOR_CREATE_PACT], [], expiresAt
+      );
+      await expect(
+        module.rotateSession(agent.address, other.address, expiresAt)
+      ).to.be.revertedWith("New key already active");
+      await expect(
+        module.rotateSession(agent.address, agent.address, expiresAt)
+      ).to.be.revertedWith("Invalid session key");
+    });
+
+    it("should reject an expiry in the past", async function () {
+      await grantDefaultSession();
+      await expect(
+        module.rotateSession(agent.address, other.address, await time.latest())
+      ).to.be.revertedWith("Expiry must be in the future");
+    });
+
+    it("should reject non-owner rotating", async function () {
+      await grantDefaultSession();
+      await expect(
+        module.connect(other).rotateSession(agent.address, other.address, expiresAt)
+      ).to.be.revertedWithCustomError(module, "OwnableUnauthorizedAccount");
+    });
+  });
+
   // ──────────────────────────────────────────────
   // validateTransaction
   // ──────────────────────────────────────────────
@@ -0,0 +1,29 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { artifacts } from "hardhat";
+import { TYPECHAIN_DIR, generateTypes, readTree } from "../scripts/abi-codegen";
+
+describe("MCP server contract bindings", function () {
+  let generatedDir: string;
+
+  before(async function () {
+    generatedDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-pact-typechain-"));
+    await generateTypes(artifacts, generatedDir);
+  });
+
+  after(function () {
+    fs.rmSync(generatedDir, { recursive: true, force: true });
+  });
+
+  it("should match the compiled contracts (run `npm run export-abis` if this fails)", async function () {
+    const expected = readTree(generatedDir);
+    const actual = readTree(TYPECHAIN_DIR);
+
+    expect([...actual.keys()].sort()).to.deep.equal([...expected.keys()].sort());
+    for (const [file, contents] of expected) {
+      expect(actual.get(file), `mcp-server/src/typechain/${file} is out of date`).to.equal(contents);
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { MockSafe } from "../../typechain-types";
+import type { Config } from "../../mcp-server/dist/config.js";
+import type { AgentPactClients } from "../../mcp-server/dist/client/index.js";
+import type { ApprovalRecord } from "../../mcp-server/dist/wallet/approvals.js";
+import {
+  ClientModule,
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadServerModule,
+  rpcCacheExpiry,
+  serverConfig,
+  startRpcServer,
+} from "./helpers";
+
+describe("ApprovalQueue", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let client: ClientModule;
+  let protocol: Protocol;
+  let safe: MockSafe;
+  let config: Config;
+  let clients: AgentPactClients;
+
+  const DEPOSIT = ethers.parseEther("0.33"); // 0.3 ETH payment + 10% stake
+  const owners = [0, 1, 2].map(() => ethers.Wallet.createRandom());
+  const oracle = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    rpc = await startRpcServer();
+    client = await loadServerModule<ClientModule>("client/index.js");
+    protocol = await deployProtocol();
+    safe = await ethers.getContractAt("MockSafe", protocol.safe);
+    await safe.setOwners(owners.map((o) => o.address), 2);
+  });
+
+  after(async function () {
+    await rpc.close();
+  });
+
+  beforeEach(async function () {
+    const sessionKey = await grantSession(protocol, { humanApprovalAbove: ethers.parseEther("0.2") });
+    config = await serverConfig(rpc.url, protocol, sessionKey);
+    config.policyRulesFile = path.join(config.dataDir, "rules.yaml");
+    fs.writeFileSync(config.policyRulesFile, "rateLimits: { create-pact: 1/hour }");
+    clients = client.createClients(config);
+    await rpcCacheExpiry(); // the Safe's nonce may have moved in the last test
+  });
+
+  afterEach(function () {
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  async function createPact(payment: string) {
+    return clients.pacts.createPact({
+      role: "buyer",
+      specHash: "spec",
+      deadline: (await time.latest()) + 86400,
+      oracles: [oracle],
+      oracleWeights: [100],
+      threshold: 70,
+      payment,
+    });
+  }
+
+  /** Create a pact above humanApprovalAbove and return the approval it was parked as. */
+  async function park(): Promise<ApprovalRecord> {
+    const err = await createPact("0.3").catch((e) => e);
+    expect(err).to.be.instanceOf(client.ApprovalRequiredError);
+    return err.approval;
+  }
+
+  async function sign(owner: (typeof owners)[number], id: string): Promise<string> {
+    const { typedData } = await clients.approvals.review(id);
+    return owner.signTypedData(typedData.domain, typedData.types, typedData.message);
+  }
+
+  describe("park", function () {
+    it("should park a call above humanApprovalAbove for the owners to sign instead of sending it", async function () {
+      const approval = await park();
+
+      expect(approval).to.include({ status: "pending", to: protocol.agentPact, value: DEPOSIT.toString(), label: "createPact" });
+      expect(approval.decoded!.contract).to.equal("agentPact");
+      expect(approval.decoded!.function).to.match(/^createPact\(/);
+      expect(approval.accounting).to.deep.include({ functionName: "createPact", spends: [{ token: ethers.ZeroAddress, amount: DEPOSIT.toString() }] });
+      expect(clients.queue.list()).to.be.empty;
+
+      // Owners sign the hash the Safe itself will check
+      expect(approval.safeTxHash).to.equal(await safe.getTransactionHash(
+        approval.to, approval.value, approval.data, 0, 0, 0, 0, ethers.ZeroAddress, ethers.ZeroAddress, approval.safeNonce
+      ));
+      const review = await clients.approvals.review(approval.id);
+      expect(review).to.include({ threshold: 2 });
+      expect(review.owners).to.deep.equal(owners.map((o) => o.address));
+    });
+  });
+
+  describe("addSignature", function () {
+    it("should refuse signatures from anyone but an owner, and count an owner once", async function () {
+      const { id } = await park();
+      const stranger = ethers.Wallet.createRandom();
+
+      await expect(clients.approvals.addSignature(id, await sign(stranger, id)))
+        .to.be.rejectedWith(new RegExp(`recovers to ${stranger.address}, which is not an owner`));
+      await expect(clients.approvals.addSignature(id, "0x1234")).to.be.rejected;
+
+      await clients.approvals.addSignature(id, await sign(owners[0], id));
+      const record = await clients.approvals.addSignature(id, await sign(owners[0], id));
+      expect(record.status).to.equal("pending");
+      expect(record.signatures.map((s) => s.signer)).to.deep.equal([owners[0].address]);
+      expect(clients.queue.list()).to.be.empty;
+    });
+
+    it("should execute through the Safe at the threshold and count the spend", async function () {
+      const { id } = await park();
+      const before = await ethers.provider.getBalance(protocol.safe);
+
+      await clients.approvals.addSignature(id, await sign(owners[2], id));
+      const record = await clients.approvals.addSignature(id, await sign(owners[0], id));
+
+      expect(record.status).to.equal("executed");
+      expect(record.txHash).to.equal(clients.queue.list()[0].hash);
+      expect(await ethers.provider.getBalance(protocol.safe)).to.equal(before - DEPOSIT);
+      expect(clients.tracker.getDailySpent()).to.equal(DEPOSIT);
+      expect(clients.tracker.getWeeklySpent()).to.equal(DEPOSIT);
+    });
+
+    it("should submit once when the last signatures arrive together", async function () {
+      const { id } = await park();
+      await clients.approvals.addSignature(id, await sign(owners[0], id));
+
+      const [second, third] = await Promise.all([sign(owners[1], id), sign(owners[2], id)]);
+      const results = await Promise.allSettled([
+        clients.approvals.addSignature(id, second),
+        clients.approvals.addSignature(id, third),
+      ]);
+
+      expect(results.map((r) => r.status)).to.deep.equal(["fulfilled", "fulfilled"]);
+      expect(clients.queue.list()).to.have.length(1);
+      const record = clients.approvals.find(id)!;
+      expect(record.status).to.equal("executed");
+      expect(record.error).to.be.undefined;
+    });
+  });
+
+  describe("reject", function () {
+    it("should give the rejected call's rate-limit slot back", async function () {
+      const approval = await park();
+      await expect(createPact("0.1")).to.be.rejectedWith(/rateLimits\.create-pact/);
+
+      const { rejectMessage } = await clients.approvals.review(approval.id);
+      const rejected = await clients.approvals.reject(approval.id, await owners[1].signMessage(rejectMessage), "too much");
+      expect(rejected).to.include({ status: "rejected", rejectedBy: owners[1].address, rejectReason: "too much" });
+
+      const created = await createPact("0.1");
+      expect(created.dryRun).to.be.false;
+      expect(clients.tracker.getDailySpent()).to.equal(ethers.parseEther("0.11"));
+    });
+  });
+});
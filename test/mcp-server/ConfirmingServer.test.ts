@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import fs from "fs";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { Config } from "../../mcp-server/dist/config.js";
+import type { AgentPactClients } from "../../mcp-server/dist/client/index.js";
+import {
+  ClientModule,
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadSdkModule,
+  loadServerModule,
+  serverConfig,
+  startRpcServer,
+} from "./helpers";
+
+type ConfirmModule = typeof import("../../mcp-server/dist/tools/confirm.js");
+type PactToolsModule = typeof import("../../mcp-server/dist/tools/pact.js");
+type McpModule = typeof import("../../mcp-server/node_modules/@modelcontextprotocol/sdk/dist/esm/server/mcp.js");
+type SdkClientModule = typeof import("../../mcp-server/node_modules/@modelcontextprotocol/sdk/dist/esm/client/index.js");
+type InMemoryModule = typeof import("../../mcp-server/node_modules/@modelcontextprotocol/sdk/dist/esm/inMemory.js");
+type TypesModule = typeof import("../../mcp-server/node_modules/@modelcontextprotocol/sdk/dist/esm/types.js");
+type ElicitResult = import("../../mcp-server/node_modules/@modelcontextprotocol/sdk/dist/esm/types.js").ElicitResult;
+
+describe("confirmingServer", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let client: ClientModule;
+  let confirm: ConfirmModule;
+  let pactTools: PactToolsModule;
+  let mcp: McpModule;
+  let sdkClient: SdkClientModule;
+  let inMemory: InMemoryModule;
+  let types: TypesModule;
+  let protocol: Protocol;
+  let config: Config;
+  let clients: AgentPactClients;
+
+  const oracle = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    rpc = await startRpcServer();
+    client = await loadServerModule<ClientModule>("client/index.js");
+    confirm = await loadServerModule<ConfirmModule>("tools/confirm.js");
+    pactTools = await loadServerModule<PactToolsModule>("tools/pact.js");
+    mcp = await loadSdkModule<McpModule>("server/mcp.js");
+    sdkClient = await loadSdkModule<SdkClientModule>("client/index.js");
+    inMemory = await loadSdkModule<InMemoryModule>("inMemory.js");
+    types = await loadSdkModule<TypesModule>("types.js");
+    protocol = await deployProtocol();
+  });
+
+  after(async function () {
+    await rpc.close();
+  });
+
+  beforeEach(async function () {
+    config = await serverConfig(rpc.url, protocol, await grantSession(protocol), { CONFIRM_TOOLS: "create-pact>0.2" });
+    clients = client.createClients(config);
+  });
+
+  afterEach(function () {
+    clients.reservations.stop();
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Connect an MCP client to a server with the pact tools behind confirmations.
+   * `elicit` answers the server's confirmation requests; without it the client
+   * doesn't declare elicitation support. Returns the messages it was asked.
+   */
+  async function connect(elicit?: () => ElicitResult) {
+    const asked: string[] = [];
+    const server = confirm.confirmingServer(new mcp.McpServer({ name: "agent-pact", version: "1.0.0" }), config, clients);
+    pactTools.registerPactTools(server, clients.pacts, clients.reservations);
+
+    const mcpClient = new sdkClient.Client({ name: "test", version: "1.0.0" }, { capabilities: elicit ? { elicitation: {} } : {} });
+    if (elicit) {
+      mcpClient.setRequestHandler(types.ElicitRequestSchema, async (request) => {
+        asked.push((request.params as { message: string }).message);
+        return elicit();
+      });
+    }
+    const [clientTransport, serverTransport] = inMemory.InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await mcpClient.connect(clientTransport);
+
+    const createPact = async (paymentEth: string) => {
+      const result = await mcpClient.callTool({
+        name: "create-pact",
+        arguments: {
+          role: "buyer",
+          specHash: "spec",
+          deadline: (await time.latest()) + 86400,
+          oracles: [oracle],
+          oracleWeights: [100],
+          threshold: 70,
+          paymentEth,
+        },
+      });
+      return { isError: !!result.isError, text: (result.content as { text: string }[])[0].text };
+    };
+    return { asked, createPact, close: () => mcpClient.close() };
+  }
+
+  it("should send the transaction once the user confirms the summary", async function () {
+    const { asked, createPact, close } = await connect(() => ({ action: "accept", content: { confirm: true } }));
+
+    const result = await createPact("0.3");
+    await close();
+
+    expect(result.isError).to.be.false;
+    expect(result.text).to.match(/^Pact #\d+ created as BUYER/);
+    expect(asked).to.have.length(1);
+    expect(asked[0]).to.contain("Create a pact as BUYER").and.contain(`Oracles: ${oracle} (100%), pass at 70`);
+    expect(clients.queue.list()).to.have.length(1);
+  });
+
+  it("should send nothing when the user declines or cancels", async function () {
+    let answer: ElicitResult = { action: "accept", content: { confirm: false } };
+    const { asked, createPact, close } = await connect(() => answer);
+
+    const declined = await createPact("0.3");
+    answer = { action: "cancel" };
+    const cancelled = await createPact("0.3");
+    await close();
+
+    expect(declined).to.deep.equal({ isError: true, text: "The user did not confirm create-pact (declined). Nothing was sent." });
+    expect(cancelled).to.deep.equal({ isError: true, text: "The user did not confirm create-pact (cancel). Nothing was sent." });
+    expect(asked).to.have.length(2);
+    expect(clients.queue.list()).to.be.empty;
+  });
+
+  it("should only ask above the amount in a tool>amount entry", async function () {
+    const { asked, createPact, close } = await connect(() => ({ action: "decline" }));
+
+    const below = await createPact("0.2");
+    const above = await createPact("0.25");
+    await close();
+
+    expect(below.isError).to.be.false;
+    expect(above.text).to.equal("The user did not confirm create-pact (decline). Nothing was sent.");
+    expect(asked).to.have.length(1);
+    expect(asked[0]).to.contain("Payment: 0.25 ETH");
+    expect(clients.queue.list()).to.have.length(1);
+  });
+
+  describe("without elicitation support", function () {
+    it("should refuse the write with CONFIRM_FALLBACK=deny", async function () {
+      const { createPact, close } = await connect();
+
+      const result = await createPact("0.3");
+      await close();
+
+      expect(result.isError).to.be.true;
+      expect(result.text).to.match(/^create-pact needs the user's confirmation, but this client doesn't support MCP elicitation/);
+      expect(result.text).to.contain("CONFIRM_FALLBACK=deny").and.contain("Create a pact as BUYER");
+      expect(clients.queue.list()).to.be.empty;
+    });
+
+    it("should run the write unconfirmed with CONFIRM_FALLBACK=allow", async function () {
+      config.confirmFallback = "allow";
+      const { createPact, close } = await connect();
+
+      const result = await createPact("0.3");
+      await close();
+
+      expect(result.isError).to.be.false;
+      expect(clients.queue.list()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import { execFile } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { ethers } from "hardhat";
+import { loadServerModule, startRpcServer } from "./helpers";
+
+type NetworksModule = typeof import("../../mcp-server/dist/networks.js");
+
+describe("scripts/deploy.ts", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let networks: NetworksModule;
+  let dir: string;
+
+  const sessionKey = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    rpc = await startRpcServer();
+    networks = await loadServerModule<NetworksModule>("networks.js");
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-pact-deployments-"));
+  });
+
+  after(async function () {
+    await rpc.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should write a manifest the server's `local` profile reads", async function () {
+    this.timeout(120_000); // a separate Hardhat process
+
+    // --network localhost, on this test's chain; deployments/localhost.json is left alone
+    const { HARDHAT_NETWORK: _network, ...env } = process.env;
+    const { stdout } = await promisify(execFile)(
+      "npx",
+      ["--no-install", "hardhat", "run", "scripts/deploy.ts", "--network", "localhost"],
+      {
+        cwd: path.resolve(__dirname, "../.."),
+        env: { ...env, LOCALHOST_RPC: rpc.url, DEPLOYMENTS_DIR: dir, SESSION_KEY_ADDRESS: sessionKey },
+        timeout: 110_000,
+      }
+    );
+    expect(stdout).to.contain("Deployment complete!");
+
+    const configFile = path.join(dir, "networks.json");
+    fs.writeFileSync(configFile, JSON.stringify({ deploymentsDir: "." }));
+    const local = networks.loadNetwork("local", configFile);
+
+    expect(local).to.include({ name: "local", chainId: 31337, manifest: path.join(dir, "localhost.json") });
+    const { agentPact, oracleRegistry, oracleRouter, policyModule } = local.contracts;
+    for (const address of [agentPact, oracleRegistry, oracleRouter, policyModule, local.safeAddress]) {
+      expect(address).to.be.properAddress;
+      expect(await ethers.provider.getCode(address!)).not.to.equal("0x");
+    }
+    expect(local.deployBlock).to.be.a("number").and.to.be.at.most(await ethers.provider.getBlockNumber());
+
+    // The wiring the manifest records is on chain
+    const module = await ethers.getContractAt("AgentPolicyModule", policyModule!);
+    const router = await ethers.getContractAt("OracleRouter", oracleRouter!);
+    expect(await module.safe()).to.equal(local.safeAddress);
+    expect(await module.isSessionActive(sessionKey)).to.be.true;
+    expect(await router.allowedPactContracts(agentPact!)).to.be.true;
+    expect(await router.pactWhitelistEnabled()).to.be.true;
+  });
+});
@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import fs from "fs";
+import { ethers, network } from "hardhat";
+import { AgentPact } from "../../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { Config } from "../../mcp-server/dist/config.js";
+import type { EventIndexer } from "../../mcp-server/dist/indexer/indexer.js";
+import {
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadServerModule,
+  rpcCacheExpiry,
+  serverConfig,
+  startRpcServer,
+} from "./helpers";
+
+type IndexerModule = typeof import("../../mcp-server/dist/indexer/indexer.js");
+
+describe("EventIndexer", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let indexerModule: IndexerModule;
+  let protocol: Protocol;
+  let config: Config;
+  let pact: AgentPact;
+  let indexer: EventIndexer;
+  let buyer: HardhatEthersSigner;
+  let seller: HardhatEthersSigner;
+  let oracle: HardhatEthersSigner;
+
+  const PAYMENT = ethers.parseEther("1");
+  const SPEC_HASH = ethers.keccak256(ethers.toUtf8Bytes("spec-v1"));
+
+  before(async function () {
+    [, buyer, seller, oracle] = await ethers.getSigners();
+    rpc = await startRpcServer();
+    indexerModule = await loadServerModule<IndexerModule>("indexer/indexer.js");
+  });
+
+  after(async function () {
+    await rpc.close();
+  });
+
+  beforeEach(async function () {
+    protocol = await deployProtocol();
+    pact = await ethers.getContractAt("AgentPact", protocol.agentPact);
+    const sessionKey = await grantSession(protocol);
+    const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    config = await serverConfig(rpc.url, protocol, sessionKey, {
+      INDEXER_START_BLOCK: String(startBlock),
+      INDEXER_BATCH_SIZE: "2",
+    });
+    indexer = new indexerModule.EventIndexer(config);
+  });
+
+  afterEach(function () {
+    indexer.store.close();
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  async function createPact(payment = PAYMENT): Promise<void> {
+    const deadline = (await time.latest()) + 86400;
+    await pact
+      .connect(buyer)
+      .createPact(0, SPEC_HASH, deadline, [oracle.address], [100], 70, payment, 3600, 0, ethers.ZeroAddress, {
+        value: payment + payment / 10n,
+      });
+  }
+
+  async function sync(): Promise<number> {
+    await rpcCacheExpiry();
+    return indexer.sync();
+  }
+
+  it("should index events in batches and checkpoint the last block", async function () {
+    await createPact();
+    await createPact();
+    await pact.connect(seller).acceptPact(0, { value: PAYMENT / 10n });
+
+    expect(await sync()).to.equal(3);
+
+    const head = await ethers.provider.getBlockNumber();
+    expect(indexer.store.lastBlock).to.equal(head);
+    expect(indexer.store.eventCount).to.equal(3);
+    expect(indexer.isSynced()).to.be.true;
+    const checkpoint = indexer.store.checkpoints.at(-1)!;
+    expect(checkpoint.blockNumber).to.equal(head);
+    expect(checkpoint.blockHash).to.equal((await ethers.provider.getBlock(head))!.hash);
+
+    expect(await sync()).to.equal(0);
+  });
+
+  it("should project pact state from its events", async function () {
+    await createPact();
+    await pact.connect(seller).acceptPact(0, { value: PAYMENT / 10n });
+    await pact.connect(seller).startWork(0);
+    await pact.connect(seller).submitWork(0, ethers.keccak256(ethers.toUtf8Bytes("proof")));
+    await createPact(PAYMENT * 2n);
+    await pact.connect(buyer).proposeAmendment(1, PAYMENT * 3n, 0, ethers.ZeroHash);
+    await sync();
+
+    const started = indexer.store.getPact(0)!;
+    expect(started.status).to.equal(3); // PENDING_VERIFY
+    expect(started.buyer).to.equal(buyer.address);
+    expect(started.seller).to.equal(seller.address);
+    expect(started.paymentToken).to.equal(ethers.ZeroAddress);
+    expect(started.oracleFee).to.equal("0");
+
+    const open = indexer.store.getPact(1)!;
+    expect(open.status).to.equal(0); // NEGOTIATING
+    expect(open.seller).to.equal(ethers.ZeroAddress);
+    expect(open.payment).to.equal((PAYMENT * 2n).toString());
+    expect(open.pendingAmendment).to.include({ payment: (PAYMENT * 3n).toString(), proposedBy: buyer.address });
+
+    expect(indexer.store.getOpenPacts(0, 10).map((p) => p.pactId)).to.deep.equal([1]);
+    expect(indexer.store.getOpenPactCount()).to.equal(1);
+    expect(indexer.store.getPactsByAddress(seller.address, 0, 10).map((p) => p.pactId)).to.deep.equal([0]);
+    expect(indexer.store.getUserPactCount(buyer.address)).to.equal(2);
+  });
+
+  it("should filter events by contract, name, pact, address and block", async function () {
+    await createPact();
+    const firstBlock = await ethers.provider.getBlockNumber();
+    await createPact();
+    await pact.connect(seller).acceptPact(1, { value: PAYMENT / 10n });
+    await sync();
+
+    const { store } = indexer;
+    expect(store.getEvents({ contract: "agentPact" })).to.have.length(3);
+    expect(store.getEvents({ contract: "oracleRouter" })).to.be.empty;
+    expect(store.getEvents({ names: ["PactAccepted"] }).map((e) => e.args.pactId)).to.deep.equal(["1"]);
+    expect(store.getEvents({ names: [] })).to.be.empty;
+    expect(store.getPactEvents(1).map((e) => e.name)).to.deep.equal(["PactCreated", "PactAccepted"]);
+    // Addresses match in any case
+    expect(store.getEvents({ address: seller.address.toLowerCase() }).map((e) => e.name)).to.deep.equal(["PactAccepted"]);
+    expect(store.getEvents({ address: buyer.address, pactId: 0 })).to.have.length(1);
+    expect(store.getEvents({ toBlock: firstBlock }).map((e) => e.args.pactId)).to.deep.equal(["0"]);
+    expect(store.getEvents({ fromBlock: firstBlock + 1 })).to.have.length(2);
+  });
+
+  it("should roll back events and pact state dropped by a reorg", async function () {
+    await createPact();
+    await sync();
+    const forkBlock = indexer.store.lastBlock;
+    const snapshot = await network.provider.send("evm_snapshot");
+
+    await pact.connect(seller).acceptPact(0, { value: PAYMENT / 10n });
+    await createPact();
+    await sync();
+    expect(indexer.store.getPact(0)!.status).to.equal(1);
+    expect(indexer.store.eventCount).to.equal(3);
+
+    // Replace the two blocks with a different history that is one block longer
+    await network.provider.send("evm_revert", [snapshot]);
+    await createPact(PAYMENT * 3n);
+    await createPact();
+    await createPact();
+    await sync();
+
+    expect(indexer.store.lastBlock).to.equal(forkBlock + 3);
+    expect(indexer.store.getPact(0)!.status).to.equal(0);
+    expect(indexer.store.getPact(0)!.updatedAtBlock).to.equal(forkBlock);
+    expect(indexer.store.getPact(1)!.payment).to.equal((PAYMENT * 3n).toString());
+    expect(indexer.store.getEvents({ names: ["PactAccepted"] })).to.be.empty;
+    expect(indexer.store.eventCount).to.equal(4);
+    for (const cp of indexer.store.checkpoints) {
+      expect(cp.blockHash).to.equal((await ethers.provider.getBlock(cp.blockNumber))!.hash);
+    }
+  });
+
+  it("should keep the index across restarts", async function () {
+    await createPact();
+    await sync();
+    indexer.store.close();
+
+    indexer = new indexerModule.EventIndexer(config);
+    expect(indexer.store.eventCount).to.equal(1);
+    expect(indexer.store.getPact(0)!.buyer).to.equal(buyer.address);
+    await createPact();
+    expect(await sync()).to.equal(1);
+  });
+});
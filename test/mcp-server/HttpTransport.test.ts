@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import type { Config } from "../../mcp-server/dist/config.js";
+import {
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadServerModule,
+  serverConfig,
+} from "./helpers";
+
+type HttpModule = typeof import("../../mcp-server/dist/transport/http.js");
+
+describe("HTTP transport", function () {
+  let httpModule: HttpModule;
+  let protocol: Protocol;
+  let sessionKey: string;
+  let config: Config;
+  let server: http.Server | null = null;
+
+  before(async function () {
+    httpModule = await loadServerModule<HttpModule>("transport/http.js");
+    protocol = await deployProtocol();
+    sessionKey = await grantSession(protocol);
+  });
+
+  afterEach(async function () {
+    if (server) await new Promise((resolve) => server!.close(resolve));
+    server = null;
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  /** Serve on a free loopback port; no request in these tests gets as far as opening a session. */
+  async function start(env: Record<string, string> = {}): Promise<number> {
+    config = await serverConfig("http://127.0.0.1:8545", protocol, sessionKey, { MCP_HTTP_PORT: "0", ...env });
+    server = await httpModule.startHttpServer(config, () => {
+      throw new Error("unexpected session");
+    });
+    return (server.address() as AddressInfo).port;
+  }
+
+  function get(port: number, path: string, headers: Record<string, string>): Promise<{ status: number; body: any }> {
+    return new Promise((resolve, reject) => {
+      const req = http.get({ host: "127.0.0.1", port, path, headers, agent: false }, (res) => {
+        let body = "";
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () => resolve({ status: res.statusCode!, body: JSON.parse(body) }));
+      });
+      req.on("error", reject);
+    });
+  }
+
+  describe("without client auth", function () {
+    it("should refuse requests addressed to a host other than loopback", async function () {
+      const port = await start();
+
+      const rebound = await get(port, "/mcp", { Host: `attacker.example:${port}` });
+      expect(rebound.status).to.equal(403);
+      expect(rebound.body.error.message).to.equal("Forbidden host");
+      expect((await get(port, "/sse", { Host: `attacker.example:${port}` })).status).to.equal(403);
+      expect((await get(port, "/mcp", { Host: `127.0.0.1:${port + 1}` })).status).to.equal(403);
+
+      // Past the Host check, on to the missing session ID
+      for (const host of [`127.0.0.1:${port}`, `localhost:${port}`]) {
+        const res = await get(port, "/mcp", { Host: host });
+        expect(res.status).to.equal(400);
+        expect(res.body.error.message).to.match(/missing Mcp-Session-Id/);
+      }
+    });
+
+    it("should keep answering health checks for any host", async function () {
+      const port = await start();
+
+      const res = await get(port, "/health", { Host: "lb.internal" });
+      expect(res).to.deep.equal({ status: 200, body: { status: "ok", sessions: 0 } });
+    });
+  });
+
+  describe("with client auth", function () {
+    it("should check hosts only against MCP_ALLOWED_HOSTS", async function () {
+      const auth = { Authorization: "Bearer secret" };
+      let port = await start({ MCP_AUTH_TOKENS: "agent-a:secret" });
+      expect((await get(port, "/mcp", { ...auth, Host: "gateway.example" })).status).to.equal(400);
+      await new Promise((resolve) => server!.close(resolve));
+      fs.rmSync(config.dataDir, { recursive: true, force: true });
+
+      port = await start({ MCP_AUTH_TOKENS: "agent-a:secret", MCP_ALLOWED_HOSTS: "gateway.example" });
+      expect((await get(port, "/mcp", { ...auth, Host: "gateway.example" })).status).to.equal(400);
+      expect((await get(port, "/mcp", { ...auth, Host: `localhost:${port}` })).status).to.equal(403);
+    });
+  });
+});
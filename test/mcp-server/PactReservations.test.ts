@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import fs from "fs";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { Config } from "../../mcp-server/dist/config.js";
+import type { AgentPactClients } from "../../mcp-server/dist/client/index.js";
+import {
+  ClientModule,
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadServerModule,
+  rpcCacheExpiry,
+  serverConfig,
+  startRpcServer,
+} from "./helpers";
+
+describe("PactReservations", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let client: ClientModule;
+  let protocol: Protocol;
+  let config: Config;
+  let clients: AgentPactClients;
+
+  const DEPOSIT = ethers.parseEther("0.11"); // 0.1 ETH payment + 10% stake
+  const oracle = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    rpc = await startRpcServer();
+    client = await loadServerModule<ClientModule>("client/index.js");
+  });
+
+  after(async function () {
+    await rpc.close();
+  });
+
+  beforeEach(async function () {
+    protocol = await deployProtocol();
+    const module = await ethers.getContractAt("AgentPolicyModule", protocol.policyModule, protocol.owner);
+    await module.setSharedBudget(ethers.parseEther("5"), ethers.parseEther("5"));
+    config = await serverConfig(rpc.url, protocol, await grantSession(protocol));
+    clients = client.createClients(config);
+  });
+
+  afterEach(function () {
+    clients.reservations.stop();
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  async function createPact(deadline?: number) {
+    const result = await clients.reservations.createPact({
+      role: "buyer",
+      specHash: "spec",
+      deadline: deadline ?? (await time.latest()) + 86400,
+      oracles: [oracle],
+      oracleWeights: [100],
+      threshold: 70,
+      payment: "0.1",
+    });
+    if (result.dryRun) throw new Error("unexpected dry run");
+    return result;
+  }
+
+  const onChainIds = async () => (await clients.policy.getReservations()).map((r) => r.reservationId);
+
+  describe("reserveFor", function () {
+    it("should reserve a pact's deposit and link the reservation to the pact", async function () {
+      const { pactId, reservationId } = await createPact();
+
+      expect(clients.reservations.forPact(pactId!)).to.include({
+        reservationId: reservationId.toString(),
+        pactId: pactId!.toString(),
+        amount: DEPOSIT.toString(),
+        status: "active",
+      });
+      expect(await clients.policy.getReservations()).to.deep.equal([
+        { reservationId, sessionKey: clients.policy.sessionKey, amount: DEPOSIT, active: true },
+      ]);
+      expect((await clients.policy.getSharedBudget()).totalReserved).to.equal(DEPOSIT);
+    });
+
+    it("should release the reservation again when the pact write fails", async function () {
+      await expect(createPact((await time.latest()) - 1)).to.be.rejectedWith(client.SimulationRevertError, /Deadline must be in the future/);
+
+      expect(await onChainIds()).to.be.empty;
+      expect((await clients.policy.getSharedBudget()).totalReserved).to.equal(0n);
+      expect(clients.reservations.list()).to.be.empty;
+    });
+
+    it("should refuse token pacts, which an ETH reservation can't cover", async function () {
+      const token = await ethers.deployContract("MockERC20", ["TestToken", "TT"]);
+      const params = { role: "buyer" as const, specHash: "spec", deadline: (await time.latest()) + 86400, oracles: [oracle], oracleWeights: [100], threshold: 70, payment: "1" };
+
+      await expect(clients.reservations.createPact({ ...params, paymentToken: await token.getAddress() }))
+        .to.be.rejectedWith(/Budget reservations are in ETH, but this pact is paid in TT/);
+      expect(await onChainIds()).to.be.empty;
+    });
+  });
+
+  describe("check", function () {
+    it("should release a linked reservation once its pact is refunded", async function () {
+      const { pactId, reservationId } = await createPact();
+      await clients.reservations.check(); // first pass only records the head
+
+      await time.increase(86401);
+      const [, anyone] = await ethers.getSigners();
+      await (await ethers.getContractAt("AgentPact", protocol.agentPact, anyone)).claimTimeout(pactId!);
+      await rpcCacheExpiry();
+      await clients.reservations.check();
+
+      const [link] = clients.reservations.list();
+      expect(link).to.include({ reservationId: reservationId.toString(), status: "released", releaseReason: "PactRefunded" });
+      expect(link.releaseTx).to.match(/^0x[0-9a-f]{64}$/);
+      expect(clients.reservations.forPact(pactId!)).to.be.undefined;
+      expect(await onChainIds()).to.be.empty;
+    });
+  });
+
+  describe("reconcile", function () {
+    it("should report reservations nothing will release, and release the ones tied to a pact", async function () {
+      const expired = await createPact();
+      const running = await createPact((await time.latest()) + 10 * 86400);
+      const unlinked = await clients.policy.reserveBudget("0.05");
+      if (unlinked.dryRun) throw new Error("unexpected dry run");
+      await time.increase(86401);
+      await rpcCacheExpiry();
+
+      const report = await clients.reservations.reconcile();
+      expect(report).to.include({ active: 3, linked: 1 });
+      expect(report.synced).to.be.empty;
+      expect(report.orphaned.map((o) => [o.reservationId, o.reason, o.pactStatus, o.releaseTx])).to.have.deep.members([
+        [expired.reservationId, "pact-expired", "NEGOTIATING", null],
+        [unlinked.reservationId, "unlinked", null, null],
+      ]);
+      expect(await onChainIds()).to.have.length(3);
+
+      const released = await clients.reservations.reconcile(true);
+      const orphan = released.orphaned.find((o) => o.reason === "pact-expired")!;
+      expect(orphan.releaseTx).to.match(/^0x[0-9a-f]{64}$/);
+      expect(released.orphaned.find((o) => o.reason === "unlinked")!.releaseTx).to.be.null;
+      expect(clients.reservations.list("released").map((l) => [l.pactId, l.releaseReason])).to.deep.equal([
+        [expired.pactId!.toString(), "reconciled: pact NEGOTIATING"],
+      ]);
+      expect(await onChainIds()).to.have.members([running.reservationId, unlinked.reservationId!]);
+    });
+
+    it("should mark links whose reservation was released outside the server", async function () {
+      const { pactId, reservationId } = await createPact();
+      const module = await ethers.getContractAt("AgentPolicyModule", protocol.policyModule, protocol.owner);
+      await module.releaseBudget(reservationId);
+      await rpcCacheExpiry();
+
+      const report = await clients.reservations.reconcile();
+      expect(report).to.deep.equal({ active: 0, linked: 0, orphaned: [], synced: [reservationId] });
+      expect(clients.reservations.list()[0]).to.include({ pactId: pactId!.toString(), status: "released", releaseReason: "released outside this server" });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import fs from "fs";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { MockERC20 } from "../../typechain-types";
+import type { Config } from "../../mcp-server/dist/config.js";
+import type { AgentPactClients, TokenInfo } from "../../mcp-server/dist/client/index.js";
+import {
+  ClientModule,
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadServerModule,
+  serverConfig,
+  startRpcServer,
+} from "./helpers";
+
+describe("PolicyChecker", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let client: ClientModule;
+  let protocol: Protocol;
+  let token: MockERC20;
+  let tokenAddress: string;
+  let config: Config;
+  let clients: AgentPactClients;
+  let tt: TokenInfo;
+  let buyer: HardhatEthersSigner;
+
+  const units = (n: string) => ethers.parseUnits(n, 18);
+  const recipient = ethers.Wallet.createRandom().address;
+  const oracle = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    [, buyer] = await ethers.getSigners();
+    rpc = await startRpcServer();
+    client = await loadServerModule<ClientModule>("client/index.js");
+    protocol = await deployProtocol();
+    token = await ethers.deployContract("MockERC20", ["TestToken", "TT"]);
+    tokenAddress = await token.getAddress();
+    await token.mint(protocol.safe, units("1000"));
+  });
+
+  after(async function () {
+    await rpc.close();
+  });
+
+  beforeEach(async function () {
+    const sessionKey = await grantSession(protocol, { allowedTokens: [tokenAddress] });
+    config = await serverConfig(rpc.url, protocol, sessionKey, { TOKEN_LIMITS: `${tokenAddress}=10/20/30` });
+    clients = client.createClients(config);
+    tt = await client.getTokenInfo(config, tokenAddress);
+  });
+
+  afterEach(function () {
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  const erc20 = new ethers.Interface([
+    "function transfer(address to, uint256 value)",
+    "function transferFrom(address from, address to, uint256 value)",
+    "function approve(address spender, uint256 value)",
+  ]);
+
+  async function createPactData(role: 0 | 1, payment: bigint, oracleFee = 0n): Promise<string> {
+    const pact = await ethers.getContractAt("AgentPact", protocol.agentPact);
+    return pact.interface.encodeFunctionData("createPact", [
+      role, ethers.ZeroHash, (await time.latest()) + 86400, [oracle], [100], 70, payment, 0, oracleFee, tokenAddress,
+    ]);
+  }
+
+  const spendsOf = async (target: string, value: bigint, data: string) =>
+    (await client.decodeSpends(config, target, value, data)).map((s) => [s.token.symbol, s.amount]);
+
+  describe("decodeSpends", function () {
+    it("should count ETH value, and nothing else, for calls that move no tokens", async function () {
+      expect(await spendsOf(recipient, 5n, "0x")).to.deep.equal([["ETH", 5n]]);
+      expect(await spendsOf(protocol.oracleRouter, 0n, erc20.encodeFunctionData("transfer", [recipient, 5n]))).to.be.empty;
+    });
+
+    it("should count the token deposit of a createPact by role", async function () {
+      expect(await spendsOf(protocol.agentPact, 0n, await createPactData(0, units("10"), units("1"))))
+        .to.deep.equal([["TT", units("12")]]); // payment + fee + 10% stake
+      expect(await spendsOf(protocol.agentPact, 0n, await createPactData(1, units("10"), units("1"))))
+        .to.deep.equal([["TT", units("1")]]); // stake only
+    });
+
+    it("should count the side an acceptPact takes in a token pact", async function () {
+      const pact = await ethers.getContractAt("AgentPact", protocol.agentPact, buyer);
+      await token.mint(buyer.address, units("100"));
+      await token.connect(buyer).approve(protocol.agentPact, units("100"));
+      await pact.createPact(0, ethers.ZeroHash, (await time.latest()) + 86400, [oracle], [100], 70, units("20"), 0, 0, tokenAddress);
+      const pactId = (await pact.nextPactId()) - 1n;
+
+      const data = pact.interface.encodeFunctionData("acceptPact", [pactId]);
+      expect(await spendsOf(protocol.agentPact, 0n, data)).to.deep.equal([["TT", units("2")]]);
+    });
+
+    it("should count token transfers and approvals out of the Safe", async function () {
+      const transfer = erc20.encodeFunctionData("transfer", [recipient, 7n]);
+      const fromSafe = erc20.encodeFunctionData("transferFrom", [protocol.safe, recipient, 8n]);
+      const fromOther = erc20.encodeFunctionData("transferFrom", [recipient, protocol.safe, 8n]);
+
+      expect(await spendsOf(tokenAddress, 0n, transfer)).to.deep.equal([["TT", 7n]]);
+      expect(await spendsOf(tokenAddress, 0n, fromSafe)).to.deep.equal([["TT", 8n]]);
+      expect(await spendsOf(tokenAddress, 0n, fromOther)).to.be.empty;
+      expect(await spendsOf(tokenAddress, 0n, erc20.encodeFunctionData("approve", [protocol.oracleRouter, 9n])))
+        .to.deep.equal([["TT", 9n]]);
+      // AgentPact's pull is counted on createPact / acceptPact instead
+      expect(await spendsOf(tokenAddress, 0n, erc20.encodeFunctionData("approve", [protocol.agentPact, 9n]))).to.be.empty;
+    });
+  });
+
+  describe("token limits", function () {
+    it("should check a token against its own per-transaction, daily and weekly limits", function () {
+      const { checker, tracker } = clients;
+
+      expect(checker.check(units("11"), tt)).to.equal(
+        "Transaction blocked by wallet policy: 11.0 TT exceeds per-transaction limit of 10.0 TT. Request owner approval or reduce amount."
+      );
+      tracker.record(units("15"), tokenAddress);
+      expect(checker.check(units("6"), tt)).to.match(/projected daily spend 21\.0 TT exceeds daily limit of 20\.0 TT/);
+      expect(checker.check(units("5"), tt)).to.be.null;
+
+      // A new day, with this week's spending still on the books
+      const now = Math.floor(Date.now() / 1000);
+      tracker.adopt({ dailySpent: units("15"), weeklySpent: units("25"), lastDayReset: now - 2 * 86400, lastWeekReset: now - 3 * 86400 }, tokenAddress);
+      expect(checker.check(units("5"), tt)).to.be.null;
+      expect(checker.check(units("6"), tt)).to.match(/projected weekly spend 31\.0 TT exceeds weekly limit of 30\.0 TT/);
+
+      // ETH keeps its own windows
+      expect(checker.check(ethers.parseEther("0.5"))).to.be.null;
+      expect(tracker.getWeeklySpent()).to.equal(0n);
+    });
+
+    it("should count token spends sent through the Safe and stop at the daily limit", async function () {
+      const transfer = (amount: string) => erc20.encodeFunctionData("transfer", [recipient, units(amount)]);
+
+      await clients.executor.execute(tokenAddress, 0n, transfer("8"));
+      await clients.executor.execute(tokenAddress, 0n, transfer("8"));
+      expect(clients.tracker.getDailySpent(tokenAddress)).to.equal(units("16"));
+      expect(clients.tracker.getWeeklySpent(tokenAddress)).to.equal(units("16"));
+      expect(await token.balanceOf(recipient)).to.equal(units("16"));
+
+      await expect(clients.executor.execute(tokenAddress, 0n, transfer("8")))
+        .to.be.rejectedWith(client.SimulationRevertError, /\(wallet policy\): .*projected daily spend 24\.0 TT exceeds daily limit of 20\.0 TT/);
+    });
+
+    it("should refuse tokens that aren't in the session's allowedTokens", async function () {
+      const other = await ethers.deployContract("MockERC20", ["Other", "OTH"]);
+      const oth = await client.getTokenInfo(config, await other.getAddress());
+
+      expect(await clients.checker.checkSpends([{ token: tt, amount: 1n }])).to.be.null;
+      expect(await clients.checker.checkSpends([{ token: oth, amount: 1n }])).to.equal(
+        `Transaction blocked by wallet policy: OTH (${oth.address}) is not in this session's allowedTokens.`
+      );
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { Config } from "../../mcp-server/dist/config.js";
+import type { AgentPactClients } from "../../mcp-server/dist/client/index.js";
+import {
+  ClientModule,
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadServerModule,
+  rpcCacheExpiry,
+  serverConfig,
+  startRpcServer,
+} from "./helpers";
+
+describe("RulesEngine", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let client: ClientModule;
+  let protocol: Protocol;
+  let config: Config;
+
+  const T = 1_700_000_000;
+  const oracle = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    rpc = await startRpcServer();
+    client = await loadServerModule<ClientModule>("client/index.js");
+    protocol = await deployProtocol();
+  });
+
+  after(async function () {
+    await rpc.close();
+  });
+
+  beforeEach(async function () {
+    config = await serverConfig(rpc.url, protocol, await grantSession(protocol), { TX_CONFIRM_TIMEOUT_SEC: "1" });
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_setAutomine", [true]);
+    await network.provider.send("evm_mine");
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  /** Write a rules file into the test's DATA_DIR. */
+  function rulesFile(rules: string): string {
+    const file = path.join(config.dataDir, "rules.yaml");
+    fs.writeFileSync(file, rules);
+    return file;
+  }
+
+  describe("loadPolicyRules", function () {
+    it("should read every section of a valid file", function () {
+      const rules = client.loadPolicyRules(rulesFile([
+        "counterparties:",
+        `  deny: ["${oracle}"]`,
+        "  minReputation: { completed: 3, maxDisputeRate: 0.2 }",
+        '  maxPayment: { ETH: "1.5" }',
+        "tokens: [ETH]",
+        `oracleSets: [["${oracle}"]]`,
+        "maxDeadlineDays: 30",
+        "minVerificationThreshold: 70",
+        "rateLimits: { create-pact: 10/hour, acceptPact: 2 / day }",
+      ].join("\n")));
+
+      expect(rules.counterparties!.maxPayment).to.deep.equal({ ETH: "1.5" });
+      expect(rules.rateLimits!["create-pact"]).to.deep.equal({ max: 10, windowSec: 3600, raw: "10/hour" });
+      expect(rules.rateLimits!.acceptPact).to.include({ max: 2, windowSec: 86400 });
+    });
+
+    it("should treat an empty file as no rules", function () {
+      expect(client.loadPolicyRules(rulesFile(""))).to.deep.equal({});
+    });
+
+    it("should reject invalid rules, naming each bad entry", function () {
+      const invalid = (rules: string) => expect(() => client.loadPolicyRules(rulesFile(rules)));
+
+      invalid("rateLimits: { create-pact: 10/fortnight }").to.throw(/rateLimits\.create-pact: expected "<count>\/<minute\|hour\|day\|week>"/);
+      invalid("counterparties: { deny: [not-an-address] }").to.throw(/counterparties\.deny\.0: invalid address/);
+      invalid('counterparties: { maxPayment: { ETH: "lots" } }').to.throw(/counterparties\.maxPayment\.ETH: expected a decimal amount/);
+      invalid("minVerificationThreshold: 101").to.throw(/minVerificationThreshold/);
+      invalid("oracleSets: [[]]").to.throw(/oracleSets\.0/);
+      invalid("maxPayment: { ETH: 1 }").to.throw(/Invalid policy rules file .*rules\.yaml: \(root\): Unrecognized key\(s\) in object: 'maxPayment'/);
+    });
+  });
+
+  describe("evaluate", function () {
+    it("should name the rule a call breaks", async function () {
+      const engine = new client.RulesEngine(config, rulesFile([
+        "tokens: [USDC]",
+        `oracleSets: [["${oracle}"]]`,
+        "maxDeadlineDays: 7",
+        "minVerificationThreshold: 70",
+        `counterparties: { allow: ["${oracle}"] }`,
+      ].join("\n")));
+      const eth = await client.getTokenInfo(config, ethers.ZeroAddress);
+      const ok = { function: "createPact", oracles: [oracle], deadline: T + 86400, verificationThreshold: 80 };
+
+      expect(await engine.evaluate(ok, T)).to.be.null;
+      expect(await engine.evaluate({ ...ok, token: eth }, T)).to.match(/policy rule tokens: ETH .* is not an allowed payment token/);
+      expect(await engine.evaluate({ ...ok, oracles: [oracle, protocol.safe] }, T)).to.match(/policy rule oracleSets:/);
+      expect(await engine.evaluate({ ...ok, deadline: T + 8 * 86400 }, T)).to.match(/policy rule maxDeadlineDays: .* 8\.0 days away, more than 7/);
+      expect(await engine.evaluate({ ...ok, verificationThreshold: 60 }, T)).to.match(/policy rule minVerificationThreshold: verification threshold 60 is below 70/);
+      expect(await engine.evaluate({ ...ok, counterparty: protocol.safe }, T)).to.match(/policy rule counterparties\.allow: .* is not on the allow list/);
+    });
+  });
+
+  describe("rate limits", function () {
+    it("should hold a slot per reserved call, by tool or function name, until the window passes", async function () {
+      const engine = new client.RulesEngine(config, rulesFile("rateLimits: { create-pact: 2/hour, acceptPact: 1/minute }"));
+
+      expect(engine.reserve("createPact", T)).to.be.null;
+      expect(engine.reserve("createPact", T + 10)).to.be.null;
+      const full = engine.reserve("createPact", T + 20);
+      expect(full).to.equal(
+        "Transaction blocked by policy rule rateLimits.create-pact: 2 createPact calls already sent in the window " +
+        `(limit 2/hour). Retry after ${new Date((T + 3600) * 1000).toISOString()}. (${engine.file})`
+      );
+      expect(await engine.evaluate({ function: "createPact" }, T + 20)).to.equal(full);
+
+      expect(engine.reserve("acceptPact", T)).to.be.null;
+      expect(engine.reserve("acceptPact", T + 30)).to.match(/rateLimits\.acceptPact/);
+      expect(engine.reserve("startWork", T)).to.be.null;
+
+      expect(engine.reserve("acceptPact", T + 60)).to.be.null;
+      expect(engine.reserve("createPact", T + 3600)).to.be.null;
+    });
+
+    it("should give released slots back and keep held ones across restarts", function () {
+      const file = rulesFile("rateLimits: { createPact: 2/day }");
+      const engine = new client.RulesEngine(config, file);
+      engine.reserve("createPact", T);
+      engine.reserve("createPact", T + 1);
+      engine.release("createPact", T);
+      engine.release("createPact", T + 99); // not held: no-op
+
+      const restarted = new client.RulesEngine(config, file);
+      expect(restarted.reserve("createPact", T + 2)).to.be.null;
+      expect(restarted.reserve("createPact", T + 3)).to.match(/2 createPact calls already sent/);
+    });
+
+    describe("through the SafeExecutor", function () {
+      let clients: AgentPactClients;
+
+      beforeEach(async function () {
+        config = { ...config, policyRulesFile: rulesFile("rateLimits: { create-pact: 1/hour }") };
+        clients = client.createClients(config);
+      });
+
+      async function createPact() {
+        return clients.pacts.createPact({
+          role: "buyer",
+          specHash: "spec",
+          deadline: (await time.latest()) + 86400,
+          oracles: [oracle],
+          oracleWeights: [100],
+          threshold: 70,
+          payment: "0.1",
+        });
+      }
+
+      it("should let only one of two concurrent writes through a window with one slot left", async function () {
+        const results = await Promise.allSettled([createPact(), createPact()]);
+
+        expect(results.filter((r) => r.status === "fulfilled")).to.have.length(1);
+        const [rejected] = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+        expect(rejected.reason).to.be.instanceOf(client.SimulationRevertError);
+        expect(rejected.reason.message).to.match(/\(wallet policy\): .*rateLimits\.create-pact: 1 createPact calls already sent/);
+        expect(clients.queue.list()).to.have.length(1);
+      });
+
+      it("should give the slot of a cancelled transaction back", async function () {
+        await network.provider.send("evm_setAutomine", [false]);
+        const timedOut = await createPact().catch((err) => err);
+        expect(timedOut).to.be.instanceOf(client.TxTimeoutError);
+        await expect(createPact()).to.be.rejectedWith(/rateLimits\.create-pact/);
+
+        await clients.queue.cancel(timedOut.record.hash);
+        await network.provider.send("evm_mine");
+        await rpcCacheExpiry();
+        await clients.queue.refresh();
+        expect(clients.queue.get(timedOut.record.hash)!.status).to.equal("replaced");
+
+        await network.provider.send("evm_setAutomine", [true]);
+        const created = await createPact();
+        expect(created.dryRun).to.be.false;
+      });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import fs from "fs";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { Config } from "../../mcp-server/dist/config.js";
+import type { AgentPactClients } from "../../mcp-server/dist/client/index.js";
+import {
+  ClientModule,
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadServerModule,
+  rpcCacheExpiry,
+  serverConfig,
+  startRpcServer,
+} from "./helpers";
+
+describe("SafeExecutor", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let client: ClientModule;
+  let protocol: Protocol;
+  let config: Config;
+  let clients: AgentPactClients;
+  let sessionAddress: string;
+
+  const DEPOSIT = ethers.parseEther("0.11"); // 0.1 ETH payment + 10% stake
+  const oracle = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    rpc = await startRpcServer();
+    client = await loadServerModule<ClientModule>("client/index.js");
+    protocol = await deployProtocol();
+  });
+
+  after(async function () {
+    await rpc.close();
+  });
+
+  beforeEach(async function () {
+    // Software limits above the module's 1 ETH per tx, so the module's own checks are reached
+    const sessionKey = await grantSession(protocol);
+    sessionAddress = new ethers.Wallet(sessionKey).address;
+    config = await serverConfig(rpc.url, protocol, sessionKey, { MAX_PER_TX_ETH: "5", MAX_DAILY_ETH: "5" });
+    clients = client.createClients(config);
+    await rpcCacheExpiry();
+  });
+
+  afterEach(function () {
+    clients.reservations.stop();
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  async function createPactData(weights: number[], payment = ethers.parseEther("0.1")): Promise<string> {
+    const agentPact = await ethers.getContractAt("AgentPact", protocol.agentPact);
+    return agentPact.interface.encodeFunctionData("createPact", [
+      0, ethers.id("spec"), (await time.latest()) + 86400, [oracle], weights, 70, payment, 0, 0, ethers.ZeroAddress,
+    ]);
+  }
+
+  /** Nothing left the session key or the Safe, and nothing was counted. */
+  async function expectNothingSent(safeBalance: bigint) {
+    expect(clients.queue.list()).to.be.empty;
+    expect(await ethers.provider.getTransactionCount(sessionAddress)).to.equal(0);
+    expect(await ethers.provider.getBalance(protocol.safe)).to.equal(safeBalance);
+    expect(clients.tracker.getDailySpent()).to.equal(0n);
+  }
+
+  describe("execute", function () {
+    it("should report a target contract revert with its reason and not send it", async function () {
+      const safeBalance = await ethers.provider.getBalance(protocol.safe);
+
+      const err = await clients.executor.execute(protocol.agentPact, DEPOSIT, await createPactData([90])).catch((e) => e);
+
+      expect(err).to.be.instanceOf(client.SimulationRevertError);
+      expect(err.message).to.equal("Transaction would revert (target contract): Weights must sum to 100");
+      expect(err.simulation).to.include({ ok: false, functionName: "createPact", revertSource: "target contract" });
+      await expectNothingSent(safeBalance);
+    });
+
+    it("should report a policy module revert with its reason and not send it", async function () {
+      const safeBalance = await ethers.provider.getBalance(protocol.safe);
+      const payment = ethers.parseEther("1.5"); // past the session's 1 ETH maxPerTx, under humanApprovalAbove
+
+      const err = await clients.executor.execute(protocol.agentPact, payment + payment / 10n, await createPactData([100], payment)).catch((e) => e);
+
+      expect(err).to.be.instanceOf(client.SimulationRevertError);
+      expect(err.message).to.equal("Transaction would revert (policy module): Exceeds per-tx limit");
+      await expectNothingSent(safeBalance);
+    });
+  });
+
+  describe("dry runs", function () {
+    const params = async () => ({
+      role: "buyer" as const,
+      specHash: "spec",
+      deadline: (await time.latest()) + 86400,
+      oracles: [oracle],
+      oracleWeights: [100],
+      threshold: 70,
+      payment: "0.1",
+    });
+
+    it("should return the simulation and send nothing when dryRun is asked for", async function () {
+      const safeBalance = await ethers.provider.getBalance(protocol.safe);
+
+      const r = await clients.pacts.createPact(await params(), { dryRun: true });
+
+      if (!r.dryRun) throw new Error("expected a dry run");
+      expect(r.simulations).to.have.length(1);
+      const [sim] = r.simulations;
+      expect(sim).to.include({ ok: true, target: protocol.agentPact, value: DEPOSIT, functionName: "createPact", revertReason: null });
+      expect(sim.gasEstimate).to.be.greaterThan(0n);
+      expect(sim.spends.map((s) => [s.token.symbol, s.amount])).to.deep.equal([["ETH", DEPOSIT]]);
+      await expectNothingSent(safeBalance);
+    });
+
+    it("should report a revert in the simulation rather than throw", async function () {
+      const r = await clients.pacts.createPact({ ...(await params()), payment: "1.5" }, { dryRun: true });
+
+      if (!r.dryRun) throw new Error("expected a dry run");
+      expect(r.simulations[0]).to.include({ ok: false, revertSource: "policy module", revertReason: "Exceeds per-tx limit" });
+      expect(clients.queue.list()).to.be.empty;
+    });
+
+    it("should simulate every write and refuse to execute in DRY_RUN mode", async function () {
+      const safeBalance = await ethers.provider.getBalance(protocol.safe);
+      const dryConfig = await serverConfig(rpc.url, protocol, await grantSession(protocol), { DRY_RUN: "true" });
+      const dry = client.createClients(dryConfig);
+
+      const r = await dry.pacts.createPact(await params());
+      await expect(dry.executor.execute(protocol.agentPact, DEPOSIT, await createPactData([100])))
+        .to.be.rejectedWith(/DRY_RUN mode/);
+      dry.reservations.stop();
+      fs.rmSync(dryConfig.dataDir, { recursive: true, force: true });
+
+      expect(r.dryRun).to.be.true;
+      expect(dry.queue.list()).to.be.empty;
+      expect(await ethers.provider.getBalance(protocol.safe)).to.equal(safeBalance);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { Config } from "../../mcp-server/dist/config.js";
+import type { AgentPactClients } from "../../mcp-server/dist/client/index.js";
+import {
+  ClientModule,
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadServerModule,
+  serverConfig,
+  startRpcServer,
+} from "./helpers";
+
+type TenantsModule = typeof import("../../mcp-server/dist/tenants.js");
+
+describe("SessionKeyRotator", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let client: ClientModule;
+  let tenants: TenantsModule;
+  let protocol: Protocol;
+  let config: Config;
+  let clients: AgentPactClients;
+
+  const DEPOSIT = ethers.parseEther("0.11"); // 0.1 ETH payment + 10% stake
+  const FUND = ethers.parseEther("0.1");
+  const oracle = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    rpc = await startRpcServer();
+    client = await loadServerModule<ClientModule>("client/index.js");
+    tenants = await loadServerModule<TenantsModule>("tenants.js");
+    protocol = await deployProtocol();
+    const module = await ethers.getContractAt("AgentPolicyModule", protocol.policyModule, protocol.owner);
+    await module.setSharedBudget(ethers.parseEther("5"), ethers.parseEther("5"));
+  });
+
+  after(async function () {
+    await rpc.close();
+  });
+
+  beforeEach(async function () {
+    config = await serverConfig(rpc.url, protocol, await grantSession(protocol), { TX_CONFIRM_TIMEOUT_SEC: "1" });
+    config.sessionKeyPassphrase = "rotation passphrase";
+    clients = client.createClients(config);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_setAutomine", [true]);
+    await network.provider.send("evm_mine");
+    clients.reservations.stop();
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  async function pactParams() {
+    return {
+      role: "buyer" as const,
+      specHash: "spec",
+      deadline: (await time.latest()) + 86400,
+      oracles: [oracle],
+      oracleWeights: [100],
+      threshold: 70,
+      payment: "0.1",
+    };
+  }
+
+  it("should hand the session, its spending and its reservations over to a fresh key", async function () {
+    const oldKey = clients.policy.sessionKey;
+    const { active: _active, sessionKey: _key, ...policy } = await clients.policy.getSession();
+    const created = await clients.reservations.createPact(await pactParams());
+    if (created.dryRun) throw new Error("unexpected dry run");
+
+    const r = await clients.rotator!.rotate({ fund: FUND });
+    if (r.dryRun) throw new Error("unexpected dry run");
+
+    expect(r.oldKey).to.equal(oldKey);
+    expect(clients.policy.sessionKey).to.equal(r.newKey);
+    expect(new ethers.Wallet(config.sessionKey!).address).to.equal(r.newKey);
+    expect((await clients.policy.getSession(oldKey)).active).to.be.false;
+    expect(await clients.policy.getSession(r.newKey)).to.deep.equal({ ...policy, sessionKey: r.newKey, active: true });
+    expect(r.drained).to.be.empty;
+
+    // The reservation moved with the session
+    const [moved] = r.reservations;
+    expect(moved).to.include({ pactId: created.pactId, amount: DEPOSIT, from: created.reservationId, error: null });
+    expect(clients.reservations.forPact(created.pactId!)).to.include({ sessionKey: r.newKey, reservationId: moved.to!.toString() });
+    expect((await clients.policy.getReservations()).map((res) => res.reservationId)).to.deep.equal([moved.to]);
+    expect(await clients.policy.getReservations(oldKey)).to.be.empty;
+
+    // The old key's gas money went back to the Safe; its spending still counts
+    expect(r.sweepError).to.be.null;
+    expect(r.swept).to.be.greaterThan(ethers.parseEther("0.9"));
+    expect(await ethers.provider.getBalance(oldKey)).to.be.lessThan(ethers.parseEther("0.001"));
+    expect(clients.tracker.getDailySpent()).to.equal(DEPOSIT);
+    expect(clients.tracker.getWeeklySpent()).to.equal(DEPOSIT);
+
+    const status = clients.rotator!.status();
+    expect(status).to.include({ sessionKey: r.newKey, pendingKey: null });
+    expect(status.history.map((h) => [h.from, h.to, h.revokeTx])).to.deep.equal([[oldKey, r.newKey, r.revokeTx]]);
+    const file = path.join(config.dataDir, `session-key-${config.chainId}.json`);
+    expect(fs.statSync(file).mode & 0o777).to.equal(0o600);
+    expect(fs.readFileSync(file, "utf8")).not.to.contain(config.sessionKey!.slice(2));
+  });
+
+  it("should refuse to rotate without a passphrase to encrypt the new key with", async function () {
+    const unencrypted = client.createClients({ ...config, sessionKeyPassphrase: null });
+
+    await expect(unencrypted.rotator!.rotate({ fund: FUND })).to.be.rejectedWith(/SESSION_KEYSTORE_PASSPHRASE_FD/);
+    expect(unencrypted.rotator!.status()).to.include({ sessionKey: clients.policy.sessionKey, pendingKey: null });
+  });
+
+  it("should wait for the old key's pending transactions, and keep the new key across restarts", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const timedOut = await clients.pacts.createPact(await pactParams()).catch((err) => err);
+    expect(timedOut).to.be.instanceOf(client.TxTimeoutError);
+
+    // A fresh instance, so nothing but the handover watches the pending transaction
+    const restarted = client.createClients({ ...config });
+    await network.provider.send("evm_setAutomine", [true]);
+    const r = await restarted.rotator!.rotate({ fund: FUND });
+    if (r.dryRun) throw new Error("unexpected dry run");
+    expect(r.drained.map((t) => [t.hash, t.status])).to.deep.equal([[timedOut.record.hash, "confirmed"]]);
+
+    // SESSION_KEY still holds the original key
+    const again = client.createClients({ ...config });
+    expect(again.policy.sessionKey).to.equal(r.newKey);
+    const created = await again.pacts.createPact(await pactParams());
+    expect(created.dryRun).to.be.false;
+    expect(again.queue.list()[0].nonce).to.equal(0);
+
+    // The rotated-in key can't be read back without its passphrase
+    expect(() => client.createClients({ ...config, sessionKeyPassphrase: null })).to.throw(/stored encrypted/);
+    expect(() => client.createClients({ ...config, sessionKeyPassphrase: "wrong" })).to.throw(/Could not decrypt/);
+  });
+
+  it("should refuse a tenant on another tenant's rotated-in key", async function () {
+    const originalKey = config.sessionKey!;
+    const aConfig = { ...config, dataDir: path.join(config.dataDir, "tenants", "a") };
+    const rotated = client.createClients(aConfig);
+    const r = await rotated.rotator!.rotate({ fund: FUND });
+    if (r.dryRun) throw new Error("unexpected dry run");
+    rotated.reservations.stop();
+
+    // b, listed first, is configured with the key a was rotated to
+    const tenantsFile = path.join(config.dataDir, "tenants.json");
+    fs.writeFileSync(tenantsFile, JSON.stringify({
+      tenants: [
+        { id: "b", sessionKey: aConfig.sessionKey, safeAddress: protocol.safe },
+        { id: "a", sessionKey: originalKey, safeAddress: protocol.safe },
+      ],
+    }));
+    expect(() => new tenants.TenantRegistry({ ...config, sessionKey: "", tenantsFile }))
+      .to.throw(`Tenants b and a share session key ${r.newKey}`);
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+import { Protocol, deployProtocol, loadServerModule, serverConfig } from "./helpers";
+
+type SignersModule = typeof import("../../mcp-server/dist/signers.js");
+type ProviderModule = typeof import("../../mcp-server/dist/provider.js");
+
+describe("Keystore signers", function () {
+  let signers: SignersModule;
+  let provider: ProviderModule;
+  let protocol: Protocol;
+  let dir: string;
+  let file: string;
+
+  const PASSPHRASE = "correct horse battery staple";
+  const wallet = ethers.Wallet.createRandom();
+
+  before(async function () {
+    signers = await loadServerModule<SignersModule>("signers.js");
+    provider = await loadServerModule<ProviderModule>("provider.js");
+    protocol = await deployProtocol();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-pact-keystore-"));
+    file = path.join(dir, "session.json");
+    // A cheap scrypt, to keep the test fast; the server reads any keystore parameters
+    fs.writeFileSync(file, await ethers.encryptKeystoreJson(wallet, PASSPHRASE, { scrypt: { N: 1 << 10 } }));
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** A descriptor reading `contents`, as `3<file` would give the server. */
+  function passphraseFd(contents: string): number {
+    const passFile = path.join(dir, "passphrase.txt");
+    fs.writeFileSync(passFile, contents);
+    return fs.openSync(passFile, "r");
+  }
+
+  describe("unlockKeystore", function () {
+    it("should decrypt the key with the right passphrase", async function () {
+      const unlocked = await signers.unlockKeystore(file, PASSPHRASE);
+
+      expect(unlocked.address).to.equal(wallet.address);
+      expect(unlocked.privateKey).to.equal(wallet.privateKey);
+    });
+
+    it("should name the keystore when the passphrase is wrong", async function () {
+      await expect(signers.unlockKeystore(file, "wrong"))
+        .to.be.rejectedWith(`Could not decrypt keystore ${file}: incorrect password`);
+    });
+  });
+
+  describe("readPassphrase", function () {
+    it("should read the descriptor, drop one trailing newline and close it", async function () {
+      const fd = passphraseFd(`${PASSPHRASE}\n`);
+
+      expect(await signers.readPassphrase(fd, "unused")).to.equal(PASSPHRASE);
+      expect(() => fs.fstatSync(fd)).to.throw(/EBADF/);
+    });
+  });
+
+  describe("unlockSigner", function () {
+    it("should unlock SESSION_KEYSTORE with the passphrase on SESSION_KEYSTORE_PASSPHRASE_FD", async function () {
+      const fd = passphraseFd(`${PASSPHRASE}\n`);
+      const config = await serverConfig("http://127.0.0.1:8545", protocol, "", {
+        SESSION_KEYSTORE: file,
+        SESSION_KEYSTORE_PASSPHRASE_FD: String(fd),
+      });
+
+      const signer = await provider.unlockSigner(config);
+      fs.rmSync(config.dataDir, { recursive: true, force: true });
+
+      expect(signer.address).to.equal(wallet.address);
+      expect(provider.getSigner(config)).to.equal(signer);
+      // Kept to encrypt the keys rotations generate
+      expect(config.sessionKeyPassphrase).to.equal(PASSPHRASE);
+      provider.forgetSigner(config);
+    });
+
+    it("should fail on a wrong passphrase without caching a signer", async function () {
+      const config = await serverConfig("http://127.0.0.1:8545", protocol, "", {
+        SESSION_KEYSTORE: file,
+        SESSION_KEYSTORE_PASSPHRASE_FD: String(passphraseFd("wrong\n")),
+      });
+      fs.rmSync(config.dataDir, { recursive: true, force: true });
+
+      await expect(provider.unlockSigner(config)).to.be.rejectedWith(/^Could not decrypt keystore .*: incorrect password$/);
+      expect(() => provider.getSigner(config)).to.throw(/signer is locked/);
+      expect(config.sessionKeyPassphrase).to.be.null;
+    });
+  });
+});
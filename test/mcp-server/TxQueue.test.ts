@@ -0,0 +1,205 @@
+import { expect } from "chai";
+import fs from "fs";
+import { ethers, network } from "hardhat";
+import type { Config } from "../../mcp-server/dist/config.js";
+import type { TxQueue, TxRecord } from "../../mcp-server/dist/wallet/tx-queue.js";
+import {
+  ClientModule,
+  Protocol,
+  deployProtocol,
+  grantSession,
+  loadServerModule,
+  rpcCacheExpiry,
+  serverConfig,
+  startRpcServer,
+} from "./helpers";
+
+describe("TxQueue", function () {
+  let rpc: Awaited<ReturnType<typeof startRpcServer>>;
+  let client: ClientModule;
+  let protocol: Protocol;
+  let config: Config;
+  let queue: TxQueue;
+  let sessionAddress: string;
+
+  const recipient = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    rpc = await startRpcServer();
+    client = await loadServerModule<ClientModule>("client/index.js");
+    protocol = await deployProtocol();
+  });
+
+  after(async function () {
+    await rpc.close();
+  });
+
+  beforeEach(async function () {
+    const sessionKey = await grantSession(protocol);
+    sessionAddress = new ethers.Wallet(sessionKey).address;
+    config = await serverConfig(rpc.url, protocol, sessionKey);
+    queue = new client.TxQueue(config);
+  });
+
+  afterEach(async function () {
+    // Mine whatever a test left in the mempool, so nothing keeps being watched
+    await network.provider.send("evm_setAutomine", [true]);
+    await network.provider.send("evm_mine");
+    fs.rmSync(config.dataDir, { recursive: true, force: true });
+  });
+
+  /** Hold transactions in the mempool until `mine()`. */
+  async function pauseMining(): Promise<void> {
+    await network.provider.send("evm_setAutomine", [false]);
+  }
+
+  async function mine(): Promise<void> {
+    await network.provider.send("evm_mine");
+  }
+
+  describe("submit", function () {
+    it("should give concurrent submissions consecutive nonces", async function () {
+      const sent = await Promise.all(
+        [1n, 2n, 3n].map((value) => queue.submit({ to: recipient, value }, `send ${value}`))
+      );
+
+      expect(sent.map((tx) => tx.nonce)).to.deep.equal([0, 1, 2]);
+      const receipts = await Promise.all(sent.map((tx) => queue.wait(tx)));
+      expect(receipts.map((r) => r.status)).to.deep.equal([1, 1, 1]);
+      expect(queue.list().map((r) => [r.nonce, r.status, r.label])).to.deep.equal([
+        [2, "confirmed", "send 3"],
+        [1, "confirmed", "send 2"],
+        [0, "confirmed", "send 1"],
+      ]);
+    });
+
+    it("should resync the nonce from the node after a failed send", async function () {
+      await queue.wait(await queue.submit({ to: recipient, value: 1n }, "first"));
+      await expect(queue.submit({ to: recipient, value: ethers.parseEther("1000") }, "too much")).to.be.rejected;
+      await rpcCacheExpiry();
+
+      const tx = await queue.submit({ to: recipient, value: 1n }, "second");
+      expect(tx.nonce).to.equal(1);
+      expect((await queue.wait(tx)).status).to.equal(1);
+      expect(queue.list().map((r) => r.label)).to.deep.equal(["second", "first"]);
+    });
+
+    it("should persist pending transactions across restarts", async function () {
+      await pauseMining();
+      const tx = await queue.submit({ to: recipient, value: 1n }, "pending send");
+
+      const restarted = new client.TxQueue(config);
+      expect(restarted.get(tx.hash)).to.include({ status: "pending", nonce: 0, label: "pending send" });
+
+      await mine();
+      const checked = await restarted.resume();
+      expect(checked.map((r) => r.hash)).to.deep.equal([tx.hash]);
+      expect(restarted.get(tx.hash)!.status).to.equal("confirmed");
+    });
+  });
+
+  describe("wait", function () {
+    it("should throw TxTimeoutError for a transaction still pending after the timeout", async function () {
+      await pauseMining();
+      const tx = await queue.submit({ to: recipient, value: 1n }, "slow send");
+
+      await expect(queue.wait(tx, 1)).to.be.rejectedWith(client.TxTimeoutError, /not confirmed after 1s/);
+      expect(queue.get(tx.hash)!.status).to.equal("pending");
+
+      await mine();
+      expect((await queue.wait(tx)).status).to.equal(1);
+      expect(queue.get(tx.hash)!.status).to.equal("confirmed");
+    });
+
+    it("should report a transaction mined after the timeout to onConfirmed listeners once", async function () {
+      const confirmed: TxRecord[] = [];
+      queue.onConfirmed((record) => confirmed.push(record));
+      const accounting = { spends: [{ token: ethers.ZeroAddress, amount: "3" }], functionName: null };
+
+      await pauseMining();
+      const tx = await queue.submit({ to: recipient, value: 3n }, "late send", accounting);
+      await expect(queue.wait(tx, 1)).to.be.rejectedWith(client.TxTimeoutError);
+      expect(confirmed).to.be.empty;
+
+      await mine();
+      await rpcCacheExpiry();
+      await queue.refresh();
+      await queue.wait(tx);
+      expect(confirmed.map((r) => [r.hash, r.accounting])).to.deep.equal([[tx.hash, accounting]]);
+    });
+  });
+
+  describe("speedUp", function () {
+    it("should resend at the same nonce with bumped fees and return the replacement's receipt", async function () {
+      await pauseMining();
+      const tx = await queue.submit({ to: recipient, value: 5n }, "send");
+      const record = await queue.speedUp(tx.hash, 25);
+
+      expect(record.nonce).to.equal(tx.nonce);
+      expect(record.replaces).to.equal(tx.hash);
+      expect(BigInt(record.maxFeePerGas!)).to.equal((tx.maxFeePerGas! * 125n) / 100n);
+      expect(queue.get(tx.hash)).to.include({ status: "replaced", replacedBy: record.hash });
+
+      await mine();
+      await rpcCacheExpiry();
+      const receipt = await queue.wait(tx);
+      expect(receipt.hash).to.equal(record.hash);
+      expect(queue.get(record.hash)!.status).to.equal("confirmed");
+      expect(queue.get(tx.hash)).to.include({ status: "replaced", replacedBy: record.hash });
+      expect(await ethers.provider.getBalance(recipient)).to.be.greaterThanOrEqual(5n);
+    });
+
+    it("should refuse a bump the fee caps don't allow", async function () {
+      await pauseMining();
+      const tx = await queue.submit({ to: recipient, value: 1n }, "send");
+      const capped = { ...config, maxFeeGwei: ethers.formatUnits(tx.maxFeePerGas!, "gwei") };
+
+      await expect(new client.TxQueue(capped).speedUp(tx.hash)).to.be.rejectedWith(/at least 10% above the original/);
+    });
+
+    it("should refuse to replace a transaction that is no longer pending", async function () {
+      const tx = await queue.submit({ to: recipient, value: 1n }, "send");
+      await queue.wait(tx);
+
+      await expect(queue.speedUp(tx.hash)).to.be.rejectedWith(/is confirmed, not pending/);
+      await expect(queue.cancel(ethers.ZeroHash)).to.be.rejectedWith(/Unknown transaction/);
+    });
+  });
+
+  describe("cancel", function () {
+    it("should replace the transaction with a zero-value self-send", async function () {
+      await pauseMining();
+      const tx = await queue.submit({ to: recipient, value: 7n }, "send");
+      const record = await queue.cancel(tx.hash);
+
+      expect(record).to.include({ to: sessionAddress, value: "0", data: "0x", label: "cancel send", nonce: tx.nonce });
+
+      await mine();
+      await rpcCacheExpiry();
+      await expect(queue.wait(tx)).to.be.rejectedWith(/was cancelled/);
+      expect(queue.get(record.hash)!.status).to.equal("confirmed");
+      expect(queue.get(tx.hash)).to.include({ status: "replaced", replacedBy: record.hash });
+
+      // The next submission picks up after the cancelled nonce
+      await network.provider.send("evm_setAutomine", [true]);
+      const next = await queue.submit({ to: recipient, value: 1n }, "next");
+      expect(next.nonce).to.equal(tx.nonce + 1);
+    });
+
+    it("should report a cancelled call to onFailed listeners once, however often it was sped up", async function () {
+      const failed: TxRecord[] = [];
+      queue.onFailed((record) => failed.push(record));
+      const accounting = { spends: [], functionName: "createPact", reservedAt: 1 };
+
+      await pauseMining();
+      const tx = await queue.submit({ to: recipient, value: 7n }, "send", accounting);
+      const sped = await queue.speedUp(tx.hash);
+      await queue.cancel(sped.hash);
+      await mine();
+      await rpcCacheExpiry();
+      await queue.refresh();
+
+      expect(failed.map((r) => r.accounting)).to.deep.equal([accounting]);
+    });
+  });
+});
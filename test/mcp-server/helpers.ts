@@ -0,0 +1,156 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import hre, { ethers } from "hardhat";
+import { TASK_NODE_CREATE_SERVER } from "hardhat/builtin-tasks/task-names";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { Config } from "../../mcp-server/dist/config.js";
+
+// The server is an ES module and tests run as CommonJS, where ts-node turns
+// import() into require() — load it through a real dynamic import instead
+const dynamicImport = new Function("specifier", "return import(specifier)") as (specifier: string) => Promise<any>;
+
+const SERVER_DIST = path.resolve(__dirname, "../../mcp-server/dist");
+
+/** Load a module of the built server (`npm run build` in mcp-server/), e.g. `client/index.js`. */
+export function loadServerModule<T>(module: string): Promise<T> {
+  return dynamicImport(pathToFileURL(path.join(SERVER_DIST, module)).href);
+}
+
+export type ClientModule = typeof import("../../mcp-server/dist/client/index.js");
+
+const SERVER_SDK = path.resolve(__dirname, "../../mcp-server/node_modules/@modelcontextprotocol/sdk/dist/esm");
+
+/** Load a module of the MCP SDK the server is built against, e.g. `client/index.js`. */
+export function loadSdkModule<T>(module: string): Promise<T> {
+  return dynamicImport(pathToFileURL(path.join(SERVER_SDK, module)).href);
+}
+
+/**
+ * Serve the in-process Hardhat network over HTTP, the way the server
+ * reaches a node. Snapshots and time travel through `hre` apply to it.
+ */
+export async function startRpcServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = await hre.run(TASK_NODE_CREATE_SERVER, {
+    hostname: "127.0.0.1",
+    port: 0,
+    provider: hre.network.provider,
+  });
+  const { port } = await server.listen();
+  return { url: `http://127.0.0.1:${port}`, close: () => server.close() };
+}
+
+/** ethers serves identical RPC reads from a 250ms cache; wait it out after changing the chain. */
+export function rpcCacheExpiry(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 300));
+}
+
+export interface Protocol {
+  agentPact: string;
+  oracleRegistry: string;
+  oracleRouter: string;
+  policyModule: string;
+  safe: string;
+  /** Owns the policy module, as MODULE_OWNER_KEY. */
+  owner: InstanceType<typeof ethers.Wallet>;
+}
+
+/** Deploy the four protocol contracts behind a MockSafe holding `safeBalance`. */
+export async function deployProtocol(safeBalance = ethers.parseEther("10")): Promise<Protocol> {
+  const [deployer] = await ethers.getSigners();
+  const agentPact = await ethers.deployContract("AgentPact");
+  const oracleRegistry = await ethers.deployContract("OracleRegistry", [ethers.parseEther("0.01")]);
+  const oracleRouter = await ethers.deployContract("OracleRouter", [ethers.parseEther("0.01"), 500, 3600]);
+  const safe = await ethers.deployContract("MockSafe");
+  const policyModule = await ethers.deployContract("AgentPolicyModule", [await safe.getAddress()]);
+
+  const owner = ethers.Wallet.createRandom(ethers.provider);
+  await fund(owner.address);
+  await policyModule.transferOwnership(owner.address);
+  await deployer.sendTransaction({ to: await safe.getAddress(), value: safeBalance });
+
+  return {
+    agentPact: await agentPact.getAddress(),
+    oracleRegistry: await oracleRegistry.getAddress(),
+    oracleRouter: await oracleRouter.getAddress(),
+    policyModule: await policyModule.getAddress(),
+    safe: await safe.getAddress(),
+    owner,
+  };
+}
+
+/** Send an account ETH for gas from the first Hardhat signer. */
+export async function fund(address: string, amount = ethers.parseEther("1")): Promise<void> {
+  const [deployer] = await ethers.getSigners();
+  await deployer.sendTransaction({ to: address, value: amount });
+}
+
+export interface SessionLimits {
+  maxPerTx?: bigint;
+  maxDaily?: bigint;
+  maxWeekly?: bigint;
+  humanApprovalAbove?: bigint;
+  allowedTokens?: string[];
+}
+
+/**
+ * Grant a fresh, funded session key calls to AgentPact (any function),
+ * and to the tokens in `allowedTokens`. Returns its private key.
+ */
+export async function grantSession(protocol: Protocol, limits: SessionLimits = {}): Promise<string> {
+  const session = ethers.Wallet.createRandom();
+  await fund(session.address);
+  const module = await ethers.getContractAt("AgentPolicyModule", protocol.policyModule, protocol.owner);
+  const tokens = limits.allowedTokens ?? [];
+  await module.grantSession(
+    session.address,
+    limits.maxPerTx ?? ethers.parseEther("1"),
+    limits.maxDaily ?? ethers.parseEther("3"),
+    limits.maxWeekly ?? ethers.parseEther("5"),
+    limits.humanApprovalAbove ?? ethers.parseEther("2"),
+    [protocol.agentPact, ...tokens],
+    [],
+    tokens,
+    (await time.latest()) + 7 * 86400
+  );
+  return session.privateKey;
+}
+
+/**
+ * A server config for the protocol, read from the environment the way the
+ * server does, with `env` on top. State goes to a fresh temp DATA_DIR.
+ */
+export async function serverConfig(
+  rpcUrl: string,
+  protocol: Protocol,
+  sessionKey: string,
+  env: Record<string, string> = {}
+): Promise<Config> {
+  const { loadConfig } = await loadServerModule<ClientModule>("client/index.js");
+  const vars: Record<string, string> = {
+    SESSION_KEY: sessionKey,
+    SAFE_ADDRESS: protocol.safe,
+    RPC_URL: rpcUrl,
+    CHAIN_ID: String(hre.network.config.chainId),
+    AGENT_PACT_ADDRESS: protocol.agentPact,
+    ORACLE_REGISTRY_ADDRESS: protocol.oracleRegistry,
+    ORACLE_ROUTER_ADDRESS: protocol.oracleRouter,
+    POLICY_MODULE_ADDRESS: protocol.policyModule,
+    MODULE_OWNER_KEY: protocol.owner.privateKey,
+    DATA_DIR: fs.mkdtempSync(path.join(os.tmpdir(), "agent-pact-data-")),
+    TX_CONFIRM_TIMEOUT_SEC: "5",
+    ...env,
+  };
+
+  const saved = new Map(Object.keys(vars).map((k) => [k, process.env[k]]));
+  Object.assign(process.env, vars);
+  try {
+    return loadConfig(null);
+  } finally {
+    for (const [key, value] of saved) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+}